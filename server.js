@@ -2,11 +2,16 @@ import express from 'express';
 import mongoose from 'mongoose';
 import cors from 'cors';
 import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import path from 'path';
+import PDFDocument from 'pdfkit';
+import bwipjs from 'bwip-js';
+import Stripe from 'stripe';
 
 // Load environment variables
 dotenv.config(); // Load from .env
@@ -28,7 +33,14 @@ const __dirname = dirname(__filename);
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Keep the raw body of Stripe webhooks: the signature is computed over the exact bytes sent
+app.use(express.json({
+  verify: (req, res, buf) => {
+    if (req.originalUrl === '/api/payments/webhook') {
+      req.rawBody = buf;
+    }
+  }
+}));
 
 // Serve static files in production
 if (process.env.NODE_ENV === 'production') {
@@ -43,6 +55,46 @@ if (!MONGODB_URI) {
   process.exit(1);
 }
 
+// JWT configuration
+const JWT_SECRET = process.env.JWT_SECRET;
+const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || JWT_SECRET;
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 7;
+
+// Stripe configuration. Card and online payments are unavailable until a secret key is set.
+const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY) : null;
+const STRIPE_CURRENCY = 'inr';
+
+if (!stripe) {
+  console.warn('STRIPE_SECRET_KEY is not defined; card and online payments are disabled');
+}
+
+// The shop's UPI ID (VPA) that UPI QR payments are paid into
+const UPI_VPA = process.env.UPI_VPA;
+
+// Set to 'fake' to take every card, online and UPI payment through a local fake
+// provider that needs no network, for tests and demos
+const PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER;
+
+// How long a response is kept against its Idempotency-Key, so a retried request
+// gets the original result instead of running again
+const IDEMPOTENCY_KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24;
+
+// How long a request holds its Idempotency-Key while it runs. A request that dies without
+// answering frees the key once this passes, instead of blocking retries for the whole window.
+const IDEMPOTENCY_LEASE_SECONDS = Number(process.env.IDEMPOTENCY_LEASE_SECONDS) || 60;
+
+// How long a parked bill holds its items before it lapses and the stock is free again
+const PARKED_BILL_TTL_HOURS = Number(process.env.PARKED_BILL_TTL_HOURS) || 4;
+
+// Time zone that receipt dates are printed in
+const STORE_TIMEZONE = process.env.STORE_TIMEZONE || 'Asia/Kolkata';
+
+if (!JWT_SECRET) {
+  console.error('FATAL ERROR: JWT_SECRET is not defined');
+  process.exit(1);
+}
+
 // Configure mongoose
 mongoose.set('strictQuery', false);
 
@@ -128,6 +180,35 @@ const userSchema = new mongoose.Schema({
 
 const User = mongoose.model('User', userSchema);
 
+// Refresh Token Schema - one document per issued refresh token so it can be rotated or revoked
+const refreshTokenSchema = new mongoose.Schema({
+  tokenId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Let MongoDB drop expired refresh tokens on its own
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RefreshToken = mongoose.model('RefreshToken', refreshTokenSchema);
+
 // Product Schema
 const productSchema = new mongoose.Schema({
   name: {
@@ -156,11 +237,59 @@ const productSchema = new mongoose.Schema({
     required: true,
     min: 0
   },
+  // Total across every location; the split is kept in stockByLocation
   stock: {
     type: Number,
     required: true,
     min: 0
   },
+  stockByLocation: [{
+    _id: false,
+    location: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Location',
+      required: true
+    },
+    stock: {
+      type: Number,
+      default: 0
+    },
+    // Overrides the product's reorderLevel at this location
+    reorderLevel: {
+      type: Number,
+      min: 0
+    }
+  }],
+  // Stock received with a batch number, and usually an expiry date. What a location holds
+  // beyond its lots is stock that came in without one.
+  lots: [{
+    location: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Location',
+      required: true
+    },
+    batchNumber: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    expiryDate: {
+      type: Date
+    },
+    quantity: {
+      type: Number,
+      min: 0,
+      default: 0
+    },
+    receivedAt: {
+      type: Date,
+      default: Date.now
+    },
+    purchaseOrder: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PurchaseOrder'
+    }
+  }],
   reorderLevel: {
     type: Number,
     default: 0
@@ -178,6 +307,18 @@ const productSchema = new mongoose.Schema({
   targetStockLevel: {
     type: Number,
     default: 0
+  },
+  // Products without a tax class are taxed at the default class
+  taxClass: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'TaxClass',
+    default: null
+  },
+  // Bumped whenever a bill is parked holding this product, so bills parked at the same
+  // time conflict instead of both holding the last units
+  reservationVersion: {
+    type: Number,
+    default: 0
   }
 }, {
   timestamps: true
@@ -189,6 +330,9 @@ productSchema.pre('validate', function(next) {
   if (this.supplier === '' || this.supplier === 'null' || this.supplier === undefined) {
     this.supplier = null;
   }
+  if (this.taxClass === '' || this.taxClass === undefined) {
+    this.taxClass = null;
+  }
   next();
 });
 
@@ -202,6 +346,30 @@ productSchema.pre('save', function(next) {
 
 const Product = mongoose.model('Product', productSchema);
 
+// Location Schema - somewhere stock is kept: the shop floor, a back store, a kiosk
+const locationSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  kind: {
+    type: String,
+    enum: ['store', 'warehouse', 'kiosk'],
+    default: 'store'
+  },
+  // Where stock goes when a request doesn't name a location
+  isDefault: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+const Location = mongoose.model('Location', locationSchema);
+
 // Create default supplier if not exists
 const createDefaultSupplier = async () => {
   try {
@@ -228,6 +396,201 @@ const createDefaultSupplier = async () => {
   }
 };
 
+// Tax Class Schema - a named rate products are taxed at, such as a GST slab
+const taxClassSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  rate: {
+    type: Number, // percent
+    required: true,
+    min: 0,
+    max: 100
+  },
+  isDefault: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+const TaxClass = mongoose.model('TaxClass', taxClassSchema);
+
+// Store Settings Schema - a single document of shop-wide configuration
+const storeSettingsSchema = new mongoose.Schema({
+  // When true, product prices already include tax and tax is backed out of them
+  pricesIncludeTax: {
+    type: Boolean,
+    default: false
+  },
+  // Loyalty points a customer earns for each rupee paid
+  loyaltyPointsPerRupee: {
+    type: Number,
+    min: 0,
+    default: 0.01
+  },
+  // What one point is worth, in rupees, when redeemed as payment
+  loyaltyPointValue: {
+    type: Number,
+    min: 0,
+    default: 1
+  },
+  // Store header printed at the top of every receipt
+  storeName: {
+    type: String,
+    trim: true,
+    default: 'Jungle Safari Souvenir Shop'
+  },
+  storeAddress: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  storePhone: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  // GSTIN printed under the store header
+  taxId: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  receiptFooter: {
+    type: String,
+    trim: true,
+    default: 'Thank you for visiting!'
+  },
+  // Thermal paper width in millimetres
+  receiptWidth: {
+    type: Number,
+    enum: [58, 80],
+    default: 80
+  },
+  // Lots expiring within this many days are flagged as near expiry
+  expiryAlertDays: {
+    type: Number,
+    min: 0,
+    default: 30
+  }
+}, {
+  timestamps: true
+});
+
+const StoreSettings = mongoose.model('StoreSettings', storeSettingsSchema);
+
+// Customer Schema - shoppers who can be looked up at the till and earn loyalty points
+const customerSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  phone: {
+    type: String,
+    trim: true
+  },
+  loyaltyPoints: {
+    type: Number,
+    min: 0,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+customerSchema.index({ email: 1 }, { unique: true, partialFilterExpression: { email: { $type: 'string' } } });
+customerSchema.index({ phone: 1 }, { unique: true, partialFilterExpression: { phone: { $type: 'string' } } });
+
+const Customer = mongoose.model('Customer', customerSchema);
+
+// Promotion Schema - discounts applied automatically, or by coupon code, when a sale is priced
+const promotionSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: ['percent-off', 'amount-off', 'buy-x-get-y'],
+    required: true
+  },
+  // What the promotion applies to: chosen products, whole categories, or the cart total
+  scope: {
+    type: String,
+    enum: ['product', 'category', 'cart'],
+    required: true
+  },
+  // Percent for percent-off; rupees per unit (or off the cart) for amount-off
+  value: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  products: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product'
+  }],
+  categories: [String],
+  // Buy `buyQuantity`, get `getQuantity` of the same product free
+  buyQuantity: {
+    type: Number,
+    min: 1
+  },
+  getQuantity: {
+    type: Number,
+    min: 1
+  },
+  minimumSpend: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  // Coupon promotions only apply when the code is entered at the till
+  couponCode: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  startsAt: {
+    type: Date
+  },
+  endsAt: {
+    type: Date
+  },
+  active: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+promotionSchema.index({ couponCode: 1 }, { unique: true, partialFilterExpression: { couponCode: { $type: 'string' } } });
+
+promotionSchema.pre('validate', function(next) {
+  if (this.couponCode === '') {
+    this.couponCode = undefined;
+  }
+  if (this.type === 'buy-x-get-y' && (this.scope === 'cart' || !this.buyQuantity || !this.getQuantity)) {
+    this.invalidate('buyQuantity', 'Buy X get Y promotions need product or category scope and both quantities');
+  }
+  next();
+});
+
+const Promotion = mongoose.model('Promotion', promotionSchema);
+
 // Sales Schema
 const saleSchema = new mongoose.Schema({
   products: [{
@@ -251,18 +614,134 @@ const saleSchema = new mongoose.Schema({
       type: Number,
       required: true,
       min: 0
+    },
+    discounts: [{
+      _id: false,
+      promotion: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Promotion'
+      },
+      name: String,
+      amount: Number
+    }],
+    discountAmount: {
+      type: Number,
+      min: 0,
+      default: 0
+    },
+    tax: {
+      taxClass: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'TaxClass'
+      },
+      name: String,
+      rate: Number,
+      taxableAmount: Number,
+      amount: Number
+    },
+    // What the customer paid for this line, tax included
+    lineTotal: {
+      type: Number,
+      min: 0
+    },
+    // Units taken back by returns so far. Returns claim units here so two at once can't
+    // both take back the last one; sales from before it was kept start from their returns.
+    returnedQuantity: {
+      type: Number,
+      min: 0
     }
   }],
+  subtotal: {
+    type: Number,
+    min: 0
+  },
+  discountTotal: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  couponCode: {
+    type: String
+  },
+  taxTotal: {
+    type: Number,
+    min: 0
+  },
+  pricesIncludeTax: {
+    type: Boolean
+  },
+  taxBreakdown: [{
+    _id: false,
+    name: String,
+    rate: Number,
+    taxableAmount: Number,
+    taxAmount: Number
+  }],
   totalAmount: {
     type: Number,
     required: true,
     min: 0
   },
+  // The single tender used, or 'split' when the sale was paid with more than one kind
   paymentMethod: {
     type: String,
-    enum: ['cash', 'card', 'online'],
+    enum: ['cash', 'card', 'online', 'upi', 'loyalty', 'split'],
     required: true
   },
+  // Each tender put towards the sale. `amount` is what it paid towards the total;
+  // for cash, `tendered` is what was handed over before change. `provider` is who took
+  // the payment ('till' for cash and points) and `reference` is its ID with them.
+  payments: [{
+    _id: false,
+    method: {
+      type: String,
+      enum: ['cash', 'card', 'online', 'upi', 'loyalty'],
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    tendered: Number,
+    provider: {
+      type: String,
+      enum: ['till', 'stripe', 'upi', 'fake']
+    },
+    reference: String
+  }],
+  changeDue: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  // The payment intent that paid the card/online/UPI share, so the sale is only recorded once
+  paymentIntentId: {
+    type: String
+  },
+  // Key the till generated for the sale, so a sale it sends again is only recorded once
+  idempotencyKey: {
+    type: String
+  },
+  // Rung up while the till was offline and synced later; `timestamp` is when it was rung up
+  offline: {
+    type: Boolean,
+    default: false
+  },
+  customer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Customer'
+  },
+  loyaltyPointsEarned: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  loyaltyPointsRedeemed: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
   customerId: {
     type: String
   },
@@ -273,6 +752,19 @@ const saleSchema = new mongoose.Schema({
     type: String,
     required: true
   },
+  employeeName: {
+    type: String
+  },
+  // The till shift the sale was rung up in, for cashing up
+  shift: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Shift'
+  },
+  // Where the stock was sold from
+  location: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Location'
+  },
   channel: {
     type: String,
     enum: ['in-store', 'online'],
@@ -281,13 +773,330 @@ const saleSchema = new mongoose.Schema({
   timestamp: {
     type: Date,
     default: Date.now
-  }
-}, {
-  timestamps: true
-});
-
+  },
+  // Sales are never deleted; a voided sale stays on record but is left out of revenue
+  voided: {
+    type: Boolean,
+    default: false
+  },
+  voidedAt: {
+    type: Date
+  },
+  voidedBy: {
+    id: String,
+    name: String
+  },
+  voidReason: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+saleSchema.index({ paymentIntentId: 1 }, { unique: true, partialFilterExpression: { paymentIntentId: { $type: 'string' } } });
+saleSchema.index({ idempotencyKey: 1 }, { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } });
+saleSchema.index({ shift: 1 });
+
 const Sale = mongoose.model('Sale', saleSchema);
 
+// Payment Intent Schema - a charge opened with a payment provider and the bill it was
+// created for, so the sale can be recorded once the provider (or the cashier) confirms it
+const paymentIntentSchema = new mongoose.Schema({
+  // The provider's ID for the payment: a Stripe PaymentIntent ID, or the UPI transaction reference
+  paymentIntentId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  provider: {
+    type: String,
+    enum: ['stripe', 'upi', 'fake'],
+    required: true
+  },
+  // The tender the payment is taken as
+  method: {
+    type: String,
+    enum: ['card', 'online', 'upi'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'succeeded', 'failed', 'refunded'],
+    default: 'pending'
+  },
+  // What is charged through the provider, in rupees
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  amountRefunded: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  // The sale request, in the shape POST /api/sales takes
+  bill: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  sale: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Sale'
+  },
+  // Why the payment failed, or why its sale could not be recorded
+  failureMessage: {
+    type: String
+  },
+  // For payments the cashier confirms by hand, e.g. the UPI transaction's UTR number
+  confirmationReference: {
+    type: String
+  },
+  confirmedBy: {
+    id: String,
+    name: String
+  },
+  createdBy: {
+    id: String,
+    name: String
+  }
+}, {
+  timestamps: true
+});
+
+const PaymentIntent = mongoose.model('PaymentIntent', paymentIntentSchema);
+
+// Parked Bill Schema - a basket put on hold at the till, to be resumed later from any till.
+// Until it is resumed, discarded or lapses, its quantities are held back from other sales.
+const parkedBillSchema = new mongoose.Schema({
+  label: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  items: [{
+    _id: false,
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    // The weighted-item label the line was scanned from, which sets its price
+    barcode: {
+      type: String
+    }
+  }],
+  customer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Customer'
+  },
+  customerName: {
+    type: String
+  },
+  couponCode: {
+    type: String
+  },
+  // The location its items are held at
+  location: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Location'
+  },
+  parkedBy: {
+    id: String,
+    name: String
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Let MongoDB drop lapsed bills; until it gets round to it they are ignored by expiresAt
+parkedBillSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const ParkedBill = mongoose.model('ParkedBill', parkedBillSchema);
+
+// Return Schema - items brought back against a completed sale
+const returnSchema = new mongoose.Schema({
+  sale: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Sale',
+    required: true
+  },
+  lines: [{
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    productSnapshot: {
+      name: String
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    refundAmount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    // Share of the sale's tax given back with this line
+    taxRate: {
+      type: Number,
+      default: 0
+    },
+    taxAmount: {
+      type: Number,
+      default: 0
+    },
+    // Restocked items go back on the shelf; written-off items are discarded
+    disposition: {
+      type: String,
+      enum: ['restock', 'write-off'],
+      required: true
+    }
+  }],
+  reason: {
+    type: String,
+    enum: ['damaged', 'defective', 'wrong-item', 'changed-mind', 'other'],
+    required: true
+  },
+  note: {
+    type: String
+  },
+  refundMethod: {
+    type: String,
+    enum: ['cash', 'card', 'online', 'upi'],
+    required: true
+  },
+  // The payment provider's ID for the refund, when it was sent back through one
+  refundReference: {
+    type: String
+  },
+  refundAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // Loyalty points the sale earned that were taken back because of this return
+  loyaltyPointsReversed: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  processedBy: {
+    id: String,
+    name: String
+  },
+  // The till shift the refund was paid out in
+  shift: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Shift'
+  },
+  // Where restocked items were put back
+  location: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Location'
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+returnSchema.index({ sale: 1 });
+returnSchema.index({ shift: 1 });
+
+const Return = mongoose.model('Return', returnSchema);
+
+// Shift Schema - one cashier session on a till, from opening the drawer with a float to
+// counting it at close. Sales and refunds taken on the till attach to its open shift.
+const shiftSchema = new mongoose.Schema({
+  // The till (register) the shift runs on. Each browser the POS runs in is a till.
+  till: {
+    type: String,
+    required: true
+  },
+  tillName: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: ['open', 'closed'],
+    default: 'open'
+  },
+  openingFloat: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  openedBy: {
+    id: String,
+    name: String
+  },
+  openedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Cash put into or taken out of the drawer other than for sales and refunds
+  cashMovements: [{
+    type: {
+      type: String,
+      enum: ['pay-in', 'pay-out'],
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    reason: {
+      type: String,
+      required: true
+    },
+    actor: {
+      id: String,
+      name: String
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  closedBy: {
+    id: String,
+    name: String
+  },
+  closedAt: {
+    type: Date
+  },
+  closingNote: {
+    type: String
+  },
+  // The Z report worked out when the shift was closed, kept as it was
+  report: {
+    type: mongoose.Schema.Types.Mixed
+  }
+}, {
+  timestamps: true
+});
+
+// A till has at most one open shift at a time
+shiftSchema.index({ till: 1 }, { unique: true, partialFilterExpression: { status: 'open' } });
+
+const Shift = mongoose.model('Shift', shiftSchema);
+
 // Purchase Order Schema
 const purchaseOrderSchema = new mongoose.Schema({
   supplierId: {
@@ -310,6 +1119,14 @@ const purchaseOrderSchema = new mongoose.Schema({
       type: Number,
       required: true,
       min: 0
+    },
+    // The lot the goods were received as
+    batchNumber: {
+      type: String,
+      trim: true
+    },
+    expiryDate: {
+      type: Date
     }
   }],
   status: {
@@ -331,6 +1148,11 @@ const purchaseOrderSchema = new mongoose.Schema({
   },
   deliveredDate: {
     type: Date
+  },
+  // Where the goods are received into
+  location: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Location'
   }
 }, {
   timestamps: true
@@ -338,63 +1160,395 @@ const purchaseOrderSchema = new mongoose.Schema({
 
 const PurchaseOrder = mongoose.model('PurchaseOrder', purchaseOrderSchema);
 
-// Supplier Schema
-const supplierSchema = new mongoose.Schema({
-  name: {
-    type: String,
-    required: true,
-    trim: true
+// Transfer Schema - stock moved from one location to another. Dispatched stock has left
+// its source but not reached its destination, so it is counted at neither until received.
+const transferSchema = new mongoose.Schema({
+  from: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Location',
+    required: true
   },
-  contactPerson: {
-    type: String,
-    required: true,
-    trim: true
+  to: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Location',
+    required: true
   },
-  email: {
+  status: {
     type: String,
-    required: true,
-    trim: true
+    enum: ['draft', 'dispatched', 'received', 'canceled'],
+    default: 'draft'
   },
-  phone: {
+  lines: [{
+    _id: false,
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    productName: {
+      type: String
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    // What arrived; less than was sent only with a reason for the difference
+    receivedQuantity: {
+      type: Number,
+      min: 0
+    },
+    discrepancyReason: {
+      type: String,
+      trim: true
+    },
+    // The lots dispatched, which are recreated at the destination
+    lots: [{
+      _id: false,
+      batchNumber: String,
+      expiryDate: Date,
+      quantity: Number
+    }]
+  }],
+  note: {
     type: String,
-    required: true,
     trim: true
   },
-  address: {
-    type: String,
-    required: true,
-    trim: true
+  createdBy: {
+    id: String,
+    name: String
   },
-  products: [{
-    type: mongoose.Schema.Types.ObjectId,
-    ref: 'Product'
-  }]
+  dispatchedBy: {
+    id: String,
+    name: String
+  },
+  dispatchedAt: {
+    type: Date
+  },
+  receivedBy: {
+    id: String,
+    name: String
+  },
+  receivedAt: {
+    type: Date
+  }
 }, {
   timestamps: true
 });
 
-const Supplier = mongoose.model('Supplier', supplierSchema);
-
-// Server-side notification handler (will be initialized later)
-let NotificationService = null;
+const Transfer = mongoose.model('Transfer', transferSchema);
 
-// Try to load the notification service
-const initNotificationService = async () => {
-  try {
-    const module = await import('./src/lib/services/notificationService.js');
-    NotificationService = module.NotificationService;
-    
-    // Add default implementations in case some methods are missing
-    if (!NotificationService) {
-      throw new Error('NotificationService is not defined in the imported module');
-    }
-    
-    // Add default methods if any are missing
-    NotificationService.notifyNewTransaction = NotificationService.notifyNewTransaction || 
-      ((amount, items) => console.log(`Transaction completed: ${amount} for ${items} items`));
-    
-    NotificationService.notifyStockUpdate = NotificationService.notifyStockUpdate || 
-      ((items) => console.log(`Stock updated for ${items} items`));
+// Stock Take Schema - a physical count of a location, checked against a snapshot of what
+// the ledger said was there when counting started
+const stockTakeSchema = new mongoose.Schema({
+  location: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Location',
+    required: true
+  },
+  // Which products are counted; neither set means the whole location
+  category: {
+    type: String
+  },
+  supplier: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Supplier'
+  },
+  status: {
+    type: String,
+    enum: ['counting', 'submitted', 'approved', 'canceled'],
+    default: 'counting'
+  },
+  snapshotAt: {
+    type: Date,
+    required: true
+  },
+  lines: [{
+    _id: false,
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    productName: String,
+    barcode: String,
+    category: String,
+    costPrice: Number,
+    // Stock at the location when the snapshot was taken
+    expected: {
+      type: Number,
+      required: true
+    },
+    // Unset until the product is counted
+    counted: {
+      type: Number,
+      min: 0
+    },
+    countedAt: Date,
+    // Set on approval: stock that moved between the snapshot and the count, and the correction posted
+    movedDuringCount: Number,
+    variance: Number
+  }],
+  note: {
+    type: String,
+    trim: true
+  },
+  startedBy: {
+    id: String,
+    name: String
+  },
+  submittedBy: {
+    id: String,
+    name: String
+  },
+  submittedAt: {
+    type: Date
+  },
+  approvedBy: {
+    id: String,
+    name: String
+  },
+  approvedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+const StockTake = mongoose.model('StockTake', stockTakeSchema);
+
+// Supplier Schema
+const supplierSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  contactPerson: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  email: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  phone: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  address: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  products: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product'
+  }]
+}, {
+  timestamps: true
+});
+
+const Supplier = mongoose.model('Supplier', supplierSchema);
+
+// Why stock was adjusted by hand. Everything but `found` writes stock off.
+const ADJUSTMENT_REASONS = ['damage', 'theft', 'expiry', 'internal-use', 'found'];
+
+// Stock Movement Schema - ledger of every change to Product.stock
+const stockMovementSchema = new mongoose.Schema({
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['sale', 'sale-void', 'return', 'po-receipt', 'adjustment', 'transfer', 'count-correction'],
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true
+  },
+  balanceAfter: {
+    type: Number,
+    required: true
+  },
+  // Entries from before locations were kept belong to the default location
+  location: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Location'
+  },
+  locationBalanceAfter: {
+    type: Number
+  },
+  reference: {
+    kind: {
+      type: String,
+      enum: ['Sale', 'Return', 'PurchaseOrder', 'Product', 'Transfer', 'StockTake', null],
+      default: null
+    },
+    id: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null
+    }
+  },
+  note: {
+    type: String
+  },
+  // Set on adjustments made with a reason code, valued at the cost price of the day
+  reason: {
+    type: String,
+    enum: ADJUSTMENT_REASONS
+  },
+  unitCost: {
+    type: Number
+  },
+  // The lots the stock was taken from or added to; the rest had no lot
+  lots: [{
+    _id: false,
+    batchNumber: String,
+    expiryDate: Date,
+    quantity: Number
+  }],
+  actor: {
+    id: String,
+    name: String
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+stockMovementSchema.index({ product: 1, timestamp: -1 });
+
+const StockMovement = mongoose.model('StockMovement', stockMovementSchema);
+
+// Audit Event Schema - append-only record of every create/update/delete made through the API
+const auditEventSchema = new mongoose.Schema({
+  actor: {
+    id: String,
+    name: String,
+    email: String,
+    role: String
+  },
+  action: {
+    type: String,
+    enum: ['create', 'update', 'delete'],
+    required: true
+  },
+  entity: {
+    type: String,
+    enum: ['product', 'sale', 'return', 'purchaseOrder', 'supplier', 'user', 'taxClass', 'settings', 'promotion', 'customer', 'shift', 'location', 'transfer', 'stockTake'],
+    required: true
+  },
+  entityId: {
+    type: String,
+    required: true
+  },
+  summary: {
+    type: String
+  },
+  before: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  after: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  changes: [{
+    _id: false,
+    field: String,
+    from: mongoose.Schema.Types.Mixed,
+    to: mongoose.Schema.Types.Mixed
+  }],
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+auditEventSchema.index({ entity: 1, entityId: 1, timestamp: -1 });
+auditEventSchema.index({ 'actor.id': 1, timestamp: -1 });
+
+// Audit events are never edited or removed once written
+const rejectAuditMutation = function(next) {
+  next(new Error('Audit events are append-only'));
+};
+auditEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectAuditMutation
+);
+
+const AuditEvent = mongoose.model('AuditEvent', auditEventSchema);
+
+// Idempotency Record Schema - the response to a create request, kept against the
+// Idempotency-Key the client sent with it
+const idempotencyRecordSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true
+  },
+  scope: {
+    type: String,
+    required: true
+  },
+  user: {
+    type: String,
+    required: true
+  },
+  requestHash: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['processing', 'completed'],
+    default: 'processing'
+  },
+  responseStatus: Number,
+  responseBody: mongoose.Schema.Types.Mixed,
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// A key belongs to the user who sent it, and only for the endpoint it was sent to
+idempotencyRecordSchema.index({ key: 1, scope: 1, user: 1 }, { unique: true });
+
+// Let MongoDB drop records once the retention window has passed
+idempotencyRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const IdempotencyRecord = mongoose.model('IdempotencyRecord', idempotencyRecordSchema);
+
+// Server-side notification handler (will be initialized later)
+let NotificationService = null;
+
+// Try to load the notification service
+const initNotificationService = async () => {
+  try {
+    const module = await import('./src/lib/services/notificationService.js');
+    NotificationService = module.NotificationService;
+    
+    // Add default implementations in case some methods are missing
+    if (!NotificationService) {
+      throw new Error('NotificationService is not defined in the imported module');
+    }
+    
+    // Add default methods if any are missing
+    NotificationService.notifyNewTransaction = NotificationService.notifyNewTransaction || 
+      ((amount, items) => console.log(`Transaction completed: ${amount} for ${items} items`));
+    
+    NotificationService.notifyStockUpdate = NotificationService.notifyStockUpdate || 
+      ((items) => console.log(`Stock updated for ${items} items`));
     
     NotificationService.checkStockLevels = NotificationService.checkStockLevels || 
       ((products) => console.log(`Checking stock levels for ${products?.length || 0} products`));
@@ -427,1270 +1581,6704 @@ const initNotificationService = async () => {
 // Initialize as soon as possible
 initNotificationService();
 
-// API Routes
-// Register User
-app.post('/api/auth/register', async (req, res) => {
-  try {
-    const { name, email, password, role } = req.body;
+// AUTHENTICATION HELPERS
 
-    // Check if user already exists
-    const existingUser = await User.findOne({ email });
-    if (existingUser) {
-      return res.status(400).json({ message: 'User with this email already exists' });
-    }
+// Sign a short-lived access token and a rotating refresh token for a user
+const issueTokens = async (user) => {
+  const payload = {
+    sub: user._id.toString(),
+    name: user.name,
+    email: user.email,
+    role: user.role
+  };
 
-    // Hash password
-    const salt = await bcrypt.genSalt(10);
-    const hashedPassword = await bcrypt.hash(password, salt);
+  const accessToken = jwt.sign({ ...payload, typ: 'access' }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
 
-    // Create new user
-    const newUser = new User({
-      name,
-      email,
-      password: hashedPassword,
-      role: role || 'staff',
-      avatar: 'https://github.com/shadcn.png'
-    });
+  const tokenId = crypto.randomUUID();
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  const refreshToken = jwt.sign(
+    { sub: payload.sub, jti: tokenId, typ: 'refresh' },
+    JWT_REFRESH_SECRET,
+    { expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d` }
+  );
 
-    // Save user
-    const savedUser = await newUser.save();
+  await RefreshToken.create({ tokenId, user: user._id, expiresAt });
 
-    // Return user data without password
-    res.status(201).json({
-      id: savedUser._id,
-      name: savedUser.name,
-      email: savedUser.email,
-      role: savedUser.role,
-      avatar: savedUser.avatar
-    });
-  } catch (error) {
-    console.error('Error registering user:', error);
-    res.status(500).json({ message: 'Server error', error: error.message });
-  }
-});
+  return { accessToken, refreshToken };
+};
 
-// Login User
-app.post('/api/auth/login', async (req, res) => {
+// Read a refresh token. Without a separate refresh secret both kinds of token are signed
+// alike, so only one marked as a refresh token, naming the stored token it is, will do.
+// Returns null for anything else.
+const verifyRefreshToken = (token) => {
   try {
-    const { email, password } = req.body;
+    const decoded = jwt.verify(token, JWT_REFRESH_SECRET);
+    return decoded.typ === 'refresh' && decoded.jti && mongoose.isValidObjectId(decoded.sub) ? decoded : null;
+  } catch (verifyError) {
+    return null;
+  }
+};
 
-    // Find user
-    const user = await User.findOne({ email });
-    if (!user) {
-      return res.status(400).json({ message: 'Invalid email or password' });
-    }
+// Role -> permission matrix shared with the client (src/lib/stores/authStore.ts)
+const rolePermissions = JSON.parse(
+  fs.readFileSync(join(__dirname, 'src', 'lib', 'permissions.json'), 'utf8')
+);
 
-    // Verify password
-    const isMatch = await bcrypt.compare(password, user.password);
-    if (!isMatch) {
-      return res.status(400).json({ message: 'Invalid email or password' });
-    }
+// Check whether a role grants a `module:action` permission
+const roleHasPermission = (role, permission) => {
+  const permissions = rolePermissions[role] || [];
+  return permissions.includes(permission);
+};
 
-    // Return user data without password
-    res.json({
-      id: user._id,
-      name: user.name,
-      email: user.email,
-      role: user.role,
-      avatar: user.avatar
-    });
-  } catch (error) {
-    console.error('Error logging in user:', error);
-    res.status(500).json({ message: 'Server error', error: error.message });
+// Routes under /api that can be called without an access token
+const publicApiRoutes = [
+  '/auth/register',
+  '/auth/login',
+  '/auth/refresh',
+  '/auth/logout',
+  // Stripe signs its webhook calls instead of logging in
+  '/payments/webhook'
+];
+
+// Verify the Bearer access token on every /api route and expose the caller as req.user
+const requireAuth = (req, res, next) => {
+  if (publicApiRoutes.includes(req.path)) {
+    return next();
+  }
+
+  const authHeader = req.headers.authorization || '';
+  const [scheme, token] = authHeader.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ message: 'Authentication required' });
   }
-});
 
-// Get all users
-app.get('/api/users', async (req, res) => {
   try {
-    const users = await User.find({}, '-password');
-    
-    res.json(users.map(user => ({
-      id: user._id,
+    const decoded = jwt.verify(token, JWT_SECRET);
+    // A refresh token signed with the same secret is not an access token
+    if (decoded.typ === 'refresh') {
+      return res.status(401).json({ message: 'Invalid access token' });
+    }
+    req.user = {
+      id: decoded.sub,
+      name: decoded.name,
+      email: decoded.email,
+      role: decoded.role
+    };
+    next();
+  } catch (error) {
+    const message = error.name === 'TokenExpiredError' ? 'Access token expired' : 'Invalid access token';
+    return res.status(401).json({ message });
+  }
+};
+
+app.use('/api', requireAuth);
+
+// Reject callers whose role does not grant the given permission
+const requirePermission = (permission) => (req, res, next) => {
+  if (!req.user || !roleHasPermission(req.user.role, permission)) {
+    return res.status(403).json({ message: `Missing permission: ${permission}` });
+  }
+  next();
+};
+
+// IDEMPOTENCY HELPERS
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+const hashRequestBody = (body) =>
+  crypto.createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+
+// Make a create endpoint safe to retry. A request with an Idempotency-Key header runs once;
+// repeats within the retention window get the stored response back (with an
+// Idempotent-Replayed header) instead of running again. Only successful responses are
+// kept, so a request that failed can be corrected and sent again with the same key.
+// While a request runs it only leases the key, so one that never answers doesn't hold it
+// for long. Requests without the header are handled as before.
+const idempotent = (scope) => async (req, res, next) => {
+  const key = req.get('Idempotency-Key');
+  if (!key) return next();
+
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return res.status(400).json({ message: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+  }
+
+  const filter = { key, scope, user: String(req.user.id) };
+  const requestHash = hashRequestBody(req.body);
+
+  try {
+    // Claim the key. Only one request can, so a double submit can't run twice.
+    await IdempotencyRecord.create({
+      ...filter,
+      requestHash,
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_LEASE_SECONDS * 1000)
+    });
+  } catch (error) {
+    if (error.code !== 11000) {
+      console.error('Error claiming idempotency key:', error);
+      return res.status(500).json({ message: 'Server error', error: error.message });
+    }
+
+    let existing;
+    try {
+      existing = await IdempotencyRecord.findOne(filter);
+
+      // Expired (or a lapsed lease), but not yet dropped by MongoDB: the key is free to use again.
+      // Only this record is removed, in case another retry has already claimed the key afresh.
+      if (!existing || existing.expiresAt <= new Date()) {
+        if (existing) await IdempotencyRecord.deleteOne({ _id: existing._id });
+        return idempotent(scope)(req, res, next);
+      }
+    } catch (lookupError) {
+      console.error('Error looking up idempotency key:', lookupError);
+      return res.status(500).json({ message: 'Server error', error: lookupError.message });
+    }
+
+    if (existing.requestHash !== requestHash) {
+      return res.status(422).json({ message: 'This Idempotency-Key was already used for a different request' });
+    }
+
+    if (existing.status === 'processing') {
+      return res.status(409).json({ message: 'A request with this Idempotency-Key is still being processed' });
+    }
+
+    res.set('Idempotent-Replayed', 'true');
+    return res.status(existing.responseStatus).json(existing.responseBody);
+  }
+
+  // Keep the response before sending it, so a retry that arrives straight after sees it
+  let settled = false;
+  const sendJson = res.json.bind(res);
+  res.json = (body) => {
+    settled = true;
+    const stored = res.statusCode >= 200 && res.statusCode < 300
+      ? IdempotencyRecord.updateOne(filter, {
+        status: 'completed',
+        responseStatus: res.statusCode,
+        responseBody: JSON.parse(JSON.stringify(body ?? null)),
+        expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000)
+      })
+      : IdempotencyRecord.deleteOne(filter);
+
+    stored
+      .catch(error => console.error(`Failed to store the response for idempotency key ${key}:`, error))
+      .finally(() => sendJson(body));
+    return res;
+  };
+
+  // A handler that threw, or answered some other way, kept nothing: free the key for a retry
+  res.on('finish', () => {
+    if (settled) return;
+    IdempotencyRecord.deleteOne({ ...filter, status: 'processing' })
+      .catch(error => console.error(`Failed to release idempotency key ${key}:`, error));
+  });
+
+  next();
+};
+
+// AUDIT HELPERS
+
+// Fields that are bookkeeping noise or secrets and never belong in an audit diff
+const AUDIT_IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt', 'password'];
+
+// Turn a mongoose document (or plain object) into a JSON-safe snapshot for the audit log
+const toAuditSnapshot = (doc) => {
+  if (!doc) return null;
+  const plain = typeof doc.toObject === 'function' ? doc.toObject() : { ...doc };
+  const snapshot = JSON.parse(JSON.stringify(plain));
+  AUDIT_IGNORED_FIELDS.forEach(field => delete snapshot[field]);
+  return snapshot;
+};
+
+// Field-level diff between two snapshots
+const diffSnapshots = (before, after) => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes = [];
+
+  fields.forEach(field => {
+    const from = before ? before[field] : undefined;
+    const to = after ? after[field] : undefined;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from: from ?? null, to: to ?? null });
+    }
+  });
+
+  return changes;
+};
+
+// Append an audit event for a mutating API call. Failures are logged but never fail the request.
+const recordAudit = async (req, { action, entity, entityId, before = null, after = null, summary, actor }) => {
+  try {
+    const beforeSnapshot = toAuditSnapshot(before);
+    const afterSnapshot = toAuditSnapshot(after);
+
+    await AuditEvent.create({
+      actor: actor || req.user || null,
+      action,
+      entity,
+      entityId: String(entityId),
+      summary,
+      before: beforeSnapshot,
+      after: afterSnapshot,
+      changes: diffSnapshots(beforeSnapshot, afterSnapshot),
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event for ${entity} ${entityId}:`, error);
+  }
+};
+
+// LOCATION HELPERS
+
+// Where stock is kept until other locations are set up
+const DEFAULT_LOCATION_NAME = 'Shop floor';
+
+let unlocatedStockAssigned = false;
+
+// The default location, created the first time one is needed. The first call also puts
+// stock recorded before there were locations at the default location.
+const getDefaultLocation = async () => {
+  let location = await Location.findOne({ isDefault: true });
+
+  if (!location) {
+    try {
+      location = await Location.create({ name: DEFAULT_LOCATION_NAME, kind: 'store', isDefault: true });
+    } catch (error) {
+      // Another request created it first
+      if (error.code !== 11000) throw error;
+      location = await Location.findOne({ name: DEFAULT_LOCATION_NAME });
+    }
+  }
+
+  if (!unlocatedStockAssigned) {
+    await Product.updateMany(
+      { stock: { $ne: 0 }, 'stockByLocation.0': { $exists: false } },
+      [{ $set: { stockByLocation: [{ location: location._id, stock: '$stock' }] } }]
+    );
+    unlocatedStockAssigned = true;
+  }
+
+  return location;
+};
+
+// The location a request names, or the default one if it names none; null if there is no such location
+const findLocation = async (ref) => {
+  const defaultLocation = await getDefaultLocation();
+  if (!ref) return defaultLocation;
+
+  const locationId = String(ref.id || ref._id || ref);
+  return mongoose.Types.ObjectId.isValid(locationId) ? Location.findById(locationId) : null;
+};
+
+// What a product has at one location
+const getLocationStock = (product, locationId) =>
+  product.stockByLocation?.find(entry => entry.location.equals(locationId))?.stock || 0;
+
+// LOT HELPERS
+
+// A lot is expired from the start of its expiry date
+const isLotExpired = (lot, now = new Date()) => {
+  if (!lot.expiryDate) return false;
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return lot.expiryDate <= today;
+};
+
+// Read an expiry date. A bare YYYY-MM-DD is that day in the store's time zone, not UTC.
+const parseExpiryDate = (value) => {
+  const match = typeof value === 'string' && value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(value);
+};
+
+// First to expire first; lots without an expiry date last
+const compareLotExpiry = (a, b) => {
+  if (!a.expiryDate || !b.expiryDate) return (a.expiryDate ? 0 : 1) - (b.expiryDate ? 0 : 1);
+  return a.expiryDate - b.expiryDate;
+};
+
+// The lots a location holds, in the order they are sold
+const getLocationLots = (product, locationId) => (product.lots || [])
+  .filter(lot => lot.location.equals(locationId) && lot.quantity > 0)
+  .sort(compareLotExpiry);
+
+// Units at a location that are past their expiry date and can't be sold
+const getExpiredStock = (product, locationId) => getLocationLots(product, locationId)
+  .filter(lot => isLotExpired(lot))
+  .reduce((sum, lot) => sum + lot.quantity, 0);
+
+const formatLots = (product) => (product.lots || [])
+  .filter(lot => lot.quantity > 0)
+  .sort(compareLotExpiry)
+  .map(lot => ({
+    id: lot._id,
+    location: lot.location,
+    batchNumber: lot.batchNumber,
+    expiryDate: lot.expiryDate,
+    quantity: lot.quantity,
+    receivedAt: lot.receivedAt,
+    purchaseOrder: lot.purchaseOrder
+  }));
+
+// Up to `quantity` units of a list of lot allocations, from its start or, with `fromEnd`,
+// from its end after skipping `skip` units. Used to put stock back into the lots it came from.
+const takeLots = (lots = [], quantity, { fromEnd = false, skip = 0 } = {}) => {
+  const taken = [];
+  let toSkip = skip;
+  let remaining = quantity;
+  for (const lot of fromEnd ? [...lots].reverse() : lots) {
+    if (remaining <= 0) break;
+    const skipped = Math.min(toSkip, lot.quantity);
+    toSkip -= skipped;
+    const amount = Math.min(lot.quantity - skipped, remaining);
+    if (amount <= 0) continue;
+    taken.push({ batchNumber: lot.batchNumber, expiryDate: lot.expiryDate, quantity: amount, purchaseOrder: lot.purchaseOrder });
+    remaining -= amount;
+  }
+  return taken;
+};
+
+// Take `quantity` units out of a location's lots, first to expire first, once its stock has
+// already been decremented. Stock without a lot goes after every dated lot. With `skipExpired`
+// expired lots are only touched when nothing else is left to take.
+const consumeLots = async (product, locationId, quantity, { skipExpired = false, session = null } = {}) => {
+  const lots = getLocationLots(product, locationId);
+  if (lots.length === 0) return [];
+
+  const lotStock = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const withoutLot = Math.max(getLocationStock(product, locationId) + quantity - lotStock, 0);
+  const usable = skipExpired ? lots.filter(lot => !isLotExpired(lot)) : lots;
+
+  const allocations = [];
+  let remaining = quantity;
+  for (const lot of usable) {
+    if (remaining <= 0) break;
+    const amount = Math.min(lot.quantity, remaining);
+    allocations.push({ lot, quantity: amount });
+    remaining -= amount;
+  }
+
+  // Lots can't hold more than the location does
+  remaining -= withoutLot;
+  for (const lot of lots.filter(item => !usable.includes(item))) {
+    if (remaining <= 0) break;
+    const amount = Math.min(lot.quantity, remaining);
+    allocations.push({ lot, quantity: amount });
+    remaining -= amount;
+  }
+
+  for (const allocation of allocations) {
+    await Product.updateOne(
+      { _id: product._id },
+      { $inc: { 'lots.$[lot].quantity': -allocation.quantity } },
+      { arrayFilters: [{ 'lot._id': allocation.lot._id }], session }
+    );
+  }
+
+  // A lot emptied by two sales at once is put back at zero
+  await Product.updateOne(
+    { _id: product._id },
+    { $max: { 'lots.$[short].quantity': 0 } },
+    { arrayFilters: [{ 'short.quantity': { $lt: 0 } }], session }
+  );
+
+  return allocations.map(({ lot, quantity: amount }) => ({
+    batchNumber: lot.batchNumber,
+    expiryDate: lot.expiryDate,
+    quantity: amount
+  }));
+};
+
+// Add stock to a location's lots, topping up a lot with the same batch and expiry date
+const addLots = async (productId, locationId, lots, session = null) => {
+  for (const lot of lots) {
+    const expiryDate = lot.expiryDate || null;
+    const result = await Product.updateOne(
+      { _id: productId, lots: { $elemMatch: { location: locationId, batchNumber: lot.batchNumber, expiryDate } } },
+      { $inc: { 'lots.$.quantity': lot.quantity } },
+      { session }
+    );
+    if (result.matchedCount === 0) {
+      await Product.updateOne(
+        { _id: productId },
+        {
+          $push: {
+            lots: {
+              location: locationId,
+              batchNumber: lot.batchNumber,
+              expiryDate: expiryDate || undefined,
+              quantity: lot.quantity,
+              purchaseOrder: lot.purchaseOrder
+            }
+          }
+        },
+        { session }
+      );
+    }
+  }
+};
+
+// The lots a sale took a product from, first to expire first
+const getSaleLots = async (saleId, productId, session = null) => {
+  const movements = await StockMovement.find({
+    product: productId,
+    type: 'sale',
+    'reference.kind': 'Sale',
+    'reference.id': saleId
+  }).session(session);
+  return movements.flatMap(movement => movement.lots || []);
+};
+
+// STOCK LEDGER HELPERS
+
+// Products that predate the ledger get an opening entry so that their
+// current stock can still be rebuilt from movements
+const ensureOpeningBalance = async (product, session = null) => {
+  const hasMovements = await StockMovement.exists({ product: product._id }).session(session);
+  if (hasMovements || !product.stock) return;
+
+  await StockMovement.create([{
+    product: product._id,
+    type: 'adjustment',
+    quantity: product.stock,
+    balanceAfter: product.stock,
+    reference: { kind: 'Product', id: product._id },
+    note: 'Opening balance',
+    timestamp: product.createdAt || new Date()
+  }], { session });
+};
+
+// Thrown when a guarded decrement would take stock below zero, or below what parked
+// bills are holding. With a location, only the stock kept there counts. Expired units
+// can't be sold, so they don't count as available either.
+class InsufficientStockError extends Error {
+  constructor(product, requested, reserved = 0, locationId = null, expired = 0) {
+    const stock = locationId ? getLocationStock(product, locationId) : product.stock;
+    const available = Math.max(stock - reserved - expired, 0);
+    const held = [
+      reserved > 0 ? `${reserved} held in parked bills` : null,
+      expired > 0 ? `${expired} expired` : null
+    ].filter(Boolean).join(', ');
+    super(`Insufficient stock for ${product.name}. Available${locationId ? ' here' : ''}: ${available}${held ? ` (${held})` : ''}, Requested: ${requested}`);
+    this.name = 'InsufficientStockError';
+    this.productId = product._id;
+    this.available = available;
+    this.requested = requested;
+  }
+}
+
+// Change a product's stock at `location` by `quantity` (negative to remove) and log it in
+// the ledger. This is the only place that should write Product.stock or stockByLocation.
+// With `requireAvailable`, a decrement only applies while the location has the amount taken,
+// so concurrent sales of the last unit cannot both succeed; `reserved` units are held
+// back on top of that. Pass `session` to run inside a caller's transaction.
+// Adjustments made for a reason pass it, and the cost price they are valued at.
+// Stock taken out comes from the location's lots first to expire first, passing over expired
+// lots except for expiry write-offs and count corrections. Stock put back names its `lots`
+// ({ batchNumber, expiryDate, quantity }); whatever they don't cover has no lot.
+const applyStockMovement = async ({ productId, location, quantity, type, reference, note, reason, unitCost, lots, actor, session = null, requireAvailable = false, reserved = 0 }) => {
+  if (!location) {
+    throw new Error('A stock movement needs a location');
+  }
+
+  const product = await Product.findById(productId).session(session);
+  if (!product) {
+    throw new Error(`Product with ID ${productId} not found`);
+  }
+
+  await ensureOpeningBalance(product, session);
+
+  // Stock first moving at a location starts its balance there
+  await Product.updateOne(
+    { _id: product._id, 'stockByLocation.location': { $ne: location } },
+    { $push: { stockByLocation: { location, stock: 0 } } },
+    { session }
+  );
+
+  const skipExpired = quantity < 0 && type !== 'count-correction' && reason !== 'expiry';
+  const expired = skipExpired ? getExpiredStock(product, location) : 0;
+  
+  const atLocation = { location };
+  if (requireAvailable && quantity < 0) {
+    atLocation.stock = { $gte: -quantity + reserved + expired };
+  }
+
+  const updatedProduct = await Product.findOneAndUpdate(
+    { _id: product._id, stockByLocation: { $elemMatch: atLocation } },
+    { $inc: { stock: quantity, 'stockByLocation.$.stock': quantity } },
+    { new: true, session }
+  );
+
+  if (!updatedProduct) {
+    const current = await Product.findById(product._id).session(session);
+    throw new InsufficientStockError(current || product, -quantity, reserved, location, expired);
+  }
+
+  let movedLots = [];
+  if (quantity < 0) {
+    movedLots = await consumeLots(updatedProduct, location, -quantity, { skipExpired, session });
+  } else if (lots?.length) {
+    movedLots = takeLots(lots, quantity);
+    await addLots(updatedProduct._id, location, movedLots, session);
+  }
+  const finalProduct = movedLots.length > 0
+    ? await Product.findById(updatedProduct._id).session(session)
+    : updatedProduct;
+
+  const [movement] = await StockMovement.create([{
+    product: updatedProduct._id,
+    type,
+    quantity,
+    balanceAfter: updatedProduct.stock,
+    location,
+    locationBalanceAfter: getLocationStock(updatedProduct, location),
+    reference: reference || { kind: null, id: null },
+    note,
+    reason,
+    unitCost,
+    lots: movedLots,
+    actor: actor ? { id: actor.id, name: actor.name } : undefined,
+    timestamp: new Date()
+  }], { session });
+
+  return { product: finalProduct, movement };
+};
+
+// A lot is the same lot wherever its batch number and expiry date match at one location
+const getLotKey = (locationId, lot) => `${locationId}:${lot.batchNumber}:${lot.expiryDate ? lot.expiryDate.getTime() : ''}`;
+
+// Recompute Product.stock, what is kept at each location and the lots held there, all from
+// the same read of its ledger entries. Runs in a transaction, so a movement posted meanwhile
+// can't leave the totals and lots out of step.
+const rebuildStockFromLedger = async (productId) => {
+  const defaultLocation = await getDefaultLocation();
+  const session = await mongoose.startSession();
+  let result = null;
+
+  try {
+    await session.withTransaction(async () => {
+      result = null;
+      const product = await Product.findById(productId).session(session);
+      if (!product) return;
+
+      await ensureOpeningBalance(product, session);
+      const movements = await StockMovement.find({ product: product._id }).sort({ timestamp: 1 }).session(session);
+
+      const totals = new Map();
+      const lotTotals = new Map();
+      for (const movement of movements) {
+        const locationId = movement.location || defaultLocation._id;
+        totals.set(String(locationId), (totals.get(String(locationId)) || 0) + movement.quantity);
+
+        // A movement's lots list the units taken or added, so they carry its sign
+        const sign = movement.quantity < 0 ? -1 : 1;
+        for (const lot of movement.lots || []) {
+          const key = getLotKey(locationId, lot);
+          const entry = lotTotals.get(key) || {
+            location: locationId,
+            batchNumber: lot.batchNumber,
+            expiryDate: lot.expiryDate || undefined,
+            quantity: 0,
+            receivedAt: movement.timestamp
+          };
+          entry.quantity += sign * lot.quantity;
+          lotTotals.set(key, entry);
+        }
+      }
+
+      const previousStock = product.stock;
+      const rebuiltStock = [...totals.values()].reduce((sum, stock) => sum + stock, 0);
+
+      // Reorder levels set for a location are kept even where no stock has moved yet
+      const stockByLocation = product.stockByLocation.map(entry => ({
+        location: entry.location,
+        stock: totals.get(String(entry.location)) || 0,
+        reorderLevel: entry.reorderLevel
+      }));
+      totals.forEach((stock, locationId) => {
+        if (!stockByLocation.some(item => item.location.equals(locationId))) {
+          stockByLocation.push({ location: locationId, stock });
+        }
+      });
+
+      // Lots still on the product keep their id, when they came in and the order they came on
+      const existingLots = new Map((product.lots || []).map(lot => [getLotKey(lot.location, lot), lot]));
+      const lots = [...lotTotals.entries()]
+        .filter(([, lot]) => lot.quantity > 0)
+        .map(([key, lot]) => {
+          const existing = existingLots.get(key);
+          return existing
+            ? { ...lot, _id: existing._id, receivedAt: existing.receivedAt, purchaseOrder: existing.purchaseOrder }
+            : lot;
+        });
+
+      await Product.updateOne({ _id: product._id }, { stock: rebuiltStock, stockByLocation, lots }, { session });
+
+      result = { productId: product._id, name: product.name, previousStock, stock: rebuiltStock };
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return result;
+};
+
+// TAX HELPERS
+
+// GST slabs created the first time tax is needed
+const DEFAULT_TAX_CLASSES = [
+  { name: 'GST 0%', rate: 0 },
+  { name: 'GST 5%', rate: 5 },
+  { name: 'GST 12%', rate: 12 },
+  { name: 'GST 18%', rate: 18, isDefault: true },
+  { name: 'GST 28%', rate: 28 }
+];
+
+const roundCurrency = (amount) => Math.round(amount * 100) / 100;
+
+// Load tax classes and the store-wide pricing mode
+const getTaxConfig = async () => {
+  let classes = await TaxClass.find().sort({ rate: 1 });
+
+  if (classes.length === 0) {
+    try {
+      await TaxClass.insertMany(DEFAULT_TAX_CLASSES, { ordered: false });
+    } catch (error) {
+      // Another request seeded them first
+      if (error.code !== 11000) throw error;
+    }
+    classes = await TaxClass.find().sort({ rate: 1 });
+  }
+
+  const settings = await StoreSettings.findOne();
+  return { classes, pricesIncludeTax: settings?.pricesIncludeTax || false };
+};
+
+// Split a line's price (after discounts) into its taxable amount and tax at `rate` percent
+const computeLineTax = (gross, rate, pricesIncludeTax) => {
+  if (pricesIncludeTax) {
+    const taxableAmount = roundCurrency(gross / (1 + rate / 100));
+    return { taxableAmount, taxAmount: roundCurrency(gross - taxableAmount), lineTotal: roundCurrency(gross) };
+  }
+
+  const taxAmount = roundCurrency(gross * rate / 100);
+  return { taxableAmount: roundCurrency(gross), taxAmount, lineTotal: roundCurrency(gross + taxAmount) };
+};
+
+// Tax every sale line at its product's class (or the default class) and total it per rate.
+// The client mirrors this in src/lib/tax.ts for previews; this result is what gets stored.
+const calculateSaleTax = (lines, { classes, pricesIncludeTax }) => {
+  const classesById = new Map(classes.map(taxClass => [String(taxClass._id), taxClass]));
+  const defaultClass = classes.find(taxClass => taxClass.isDefault) || null;
+  const breakdown = new Map();
+  let subtotal = 0;
+  let taxTotal = 0;
+  let totalAmount = 0;
+
+  const taxedLines = lines.map(({ taxClass: taxClassId, ...line }) => {
+    const taxClass = (taxClassId && classesById.get(String(taxClassId))) || defaultClass;
+    const rate = taxClass ? taxClass.rate : 0;
+    const name = taxClass ? taxClass.name : 'No tax';
+    const gross = line.priceAtSale * line.quantity - (line.discountAmount || 0);
+    const { taxableAmount, taxAmount, lineTotal } = computeLineTax(gross, rate, pricesIncludeTax);
+
+    subtotal += taxableAmount;
+    taxTotal += taxAmount;
+    totalAmount += lineTotal;
+
+    const entry = breakdown.get(rate) || { name, rate, taxableAmount: 0, taxAmount: 0 };
+    entry.taxableAmount = roundCurrency(entry.taxableAmount + taxableAmount);
+    entry.taxAmount = roundCurrency(entry.taxAmount + taxAmount);
+    breakdown.set(rate, entry);
+
+    return {
+      ...line,
+      tax: { taxClass: taxClass?._id || null, name, rate, taxableAmount, amount: taxAmount },
+      lineTotal
+    };
+  });
+
+  return {
+    lines: taxedLines,
+    subtotal: roundCurrency(subtotal),
+    taxTotal: roundCurrency(taxTotal),
+    totalAmount: roundCurrency(totalAmount),
+    taxBreakdown: [...breakdown.values()].sort((a, b) => a.rate - b.rate),
+    pricesIncludeTax
+  };
+};
+
+// PROMOTION HELPERS
+
+// Thrown when a coupon code cannot be used on a bill
+class PromotionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PromotionError';
+  }
+}
+
+const isPromotionLive = (promotion, now = new Date()) =>
+  promotion.active &&
+  (!promotion.startsAt || promotion.startsAt <= now) &&
+  (!promotion.endsAt || promotion.endsAt >= now);
+
+// What a product- or category-scoped promotion takes off one line, before tax
+const getLineDiscount = (promotion, line) => {
+  const gross = line.priceAtSale * line.quantity;
+
+  switch (promotion.type) {
+    case 'percent-off':
+      return gross * Math.min(promotion.value, 100) / 100;
+    case 'amount-off':
+      return Math.min(promotion.value * line.quantity, gross);
+    case 'buy-x-get-y': {
+      const freeUnits = Math.floor(line.quantity / (promotion.buyQuantity + promotion.getQuantity)) * promotion.getQuantity;
+      return freeUnits * line.priceAtSale;
+    }
+    default:
+      return 0;
+  }
+};
+
+const promotionCoversLine = (promotion, line) => {
+  if (promotion.scope === 'product') {
+    return promotion.products.some(productId => String(productId) === String(line.product));
+  }
+  if (promotion.scope === 'category') {
+    return promotion.categories.includes(line.productSnapshot?.category);
+  }
+  return false;
+};
+
+// Apply the best line promotion to each line, then the best cart promotion across the
+// whole bill. Promotions of the same level never stack. Cart discounts are shared out
+// over the lines in proportion to what each line still costs, so every line records
+// the price it actually sold at.
+const applyPromotions = (lines, promotions) => {
+  const cartGross = lines.reduce((total, line) => total + line.priceAtSale * line.quantity, 0);
+  const eligible = promotions.filter(promotion => cartGross >= (promotion.minimumSpend || 0));
+
+  const discountedLines = lines.map(line => {
+    let best = null;
+    eligible
+      .filter(promotion => promotion.scope !== 'cart' && promotionCoversLine(promotion, line))
+      .forEach(promotion => {
+        const amount = roundCurrency(getLineDiscount(promotion, line));
+        if (amount > 0 && (!best || amount > best.amount)) {
+          best = { promotion: promotion._id, name: promotion.name, amount };
+        }
+      });
+
+    return {
+      ...line,
+      discounts: best ? [best] : [],
+      discountAmount: best ? best.amount : 0
+    };
+  });
+
+  const remaining = discountedLines.map(line => line.priceAtSale * line.quantity - line.discountAmount);
+  const remainingTotal = remaining.reduce((total, amount) => total + amount, 0);
+
+  let bestCart = null;
+  eligible
+    .filter(promotion => promotion.scope === 'cart' && promotion.type !== 'buy-x-get-y')
+    .forEach(promotion => {
+      const amount = roundCurrency(promotion.type === 'percent-off'
+        ? remainingTotal * Math.min(promotion.value, 100) / 100
+        : Math.min(promotion.value, remainingTotal));
+      if (amount > 0 && (!bestCart || amount > bestCart.amount)) {
+        bestCart = { promotion, amount };
+      }
+    });
+
+  if (bestCart) {
+    const lastIndex = remaining.reduce((last, amount, index) => (amount > 0 ? index : last), -1);
+    let allocated = 0;
+
+    discountedLines.forEach((line, index) => {
+      if (remaining[index] <= 0) return;
+      const share = index === lastIndex
+        ? roundCurrency(bestCart.amount - allocated)
+        : roundCurrency(bestCart.amount * remaining[index] / remainingTotal);
+      allocated += share;
+      line.discounts.push({ promotion: bestCart.promotion._id, name: bestCart.promotion.name, amount: share });
+      line.discountAmount = roundCurrency(line.discountAmount + share);
+    });
+  }
+
+  const appliedIds = new Set(discountedLines.flatMap(line => line.discounts.map(discount => String(discount.promotion))));
+
+  return {
+    lines: discountedLines,
+    discountTotal: roundCurrency(discountedLines.reduce((total, line) => total + line.discountAmount, 0)),
+    appliedIds
+  };
+};
+
+// Price a bill: live promotions (plus the coupon's, if one was entered), then tax.
+// Used both to quote the bill panel and to create the sale, so the two always agree.
+const priceSale = async (lines, { couponCode } = {}) => {
+  const code = couponCode ? String(couponCode).trim().toUpperCase() : null;
+  const now = new Date();
+
+  const promotions = (await Promotion.find({
+    active: true,
+    couponCode: code ? { $in: [null, code] } : null
+  })).filter(promotion => isPromotionLive(promotion, now));
+
+  const coupon = code ? promotions.find(promotion => promotion.couponCode === code) : null;
+  if (code && !coupon) {
+    throw new PromotionError(`Coupon ${code} is not valid`);
+  }
+
+  const discounted = applyPromotions(lines, promotions);
+  if (coupon && !discounted.appliedIds.has(String(coupon._id))) {
+    throw new PromotionError(`Coupon ${code} does not apply to this bill`);
+  }
+
+  const taxed = calculateSaleTax(discounted.lines, await getTaxConfig());
+  return { ...taxed, discountTotal: discounted.discountTotal, couponCode: coupon ? code : undefined };
+};
+
+// PAYMENT HELPERS
+
+const PAYMENT_TENDERS = ['cash', 'card', 'online', 'upi', 'loyalty'];
+
+// Tenders charged through a payment provider rather than taken at the till
+const CHARGED_TENDERS = ['card', 'online', 'upi'];
+
+// Thrown when the tenders given cannot settle a sale
+class PaymentError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+// Check the tenders cover `totalAmount` and work out change. Only cash can be overpaid;
+// the change comes out of the last cash tender so each payment records what it really paid.
+const settlePayments = (payments, totalAmount) => {
+  if (!Array.isArray(payments) || payments.length === 0) {
+    throw new PaymentError('At least one payment is required');
+  }
+
+  const settled = payments.map(payment => {
+    const amount = roundCurrency(Number(payment.amount));
+    if (!PAYMENT_TENDERS.includes(payment.method)) {
+      throw new PaymentError(`Unknown payment method: ${payment.method}`);
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new PaymentError('Each payment needs an amount greater than 0');
+    }
+    return {
+      method: payment.method,
+      amount,
+      provider: getTenderProvider(payment.method),
+      reference: payment.reference || undefined
+    };
+  });
+
+  const paid = roundCurrency(settled.reduce((total, payment) => total + payment.amount, 0));
+  if (paid < totalAmount) {
+    throw new PaymentError(`Payments of ${paid.toFixed(2)} do not cover the total of ${totalAmount.toFixed(2)}`);
+  }
+
+  const nonCash = settled.filter(payment => payment.method !== 'cash')
+    .reduce((total, payment) => total + payment.amount, 0);
+  if (roundCurrency(nonCash) > totalAmount) {
+    throw new PaymentError('Only cash can be paid over the amount due');
+  }
+
+  let change = roundCurrency(paid - totalAmount);
+  const changeDue = change;
+  for (let i = settled.length - 1; i >= 0 && change > 0; i--) {
+    const payment = settled[i];
+    if (payment.method !== 'cash') continue;
+    const taken = Math.min(change, payment.amount);
+    payment.tendered = payment.amount;
+    payment.amount = roundCurrency(payment.amount - taken);
+    change = roundCurrency(change - taken);
+  }
+
+  const methods = new Set(settled.map(payment => payment.method));
+  return {
+    payments: settled.filter(payment => payment.amount > 0 || payment.tendered),
+    changeDue,
+    paymentMethod: methods.size === 1 ? settled[0].method : 'split'
+  };
+};
+
+// What is left to charge through a provider once the tenders taken at the till
+// (cash, points) have been put towards `totalAmount`
+const getChargeAmount = (payments, totalAmount) => {
+  const paidAtTill = (Array.isArray(payments) ? payments : [])
+    .filter(payment => !CHARGED_TENDERS.includes(payment.method))
+    .reduce((total, payment) => {
+      const amount = Number(payment.amount);
+      if (!PAYMENT_TENDERS.includes(payment.method)) {
+        throw new PaymentError(`Unknown payment method: ${payment.method}`);
+      }
+      if (!Number.isFinite(amount) || amount <= 0) {
+        throw new PaymentError('Each payment needs an amount greater than 0');
+      }
+      return total + amount;
+    }, 0);
+  return roundCurrency(Math.max(totalAmount - paidAtTill, 0));
+};
+
+// The tender a refund goes back on by default: the one that paid the most.
+// Points are never refunded as money, so a sale paid only in points refunds as cash.
+const getPrimaryTender = (sale) => {
+  if (!sale.payments || sale.payments.length === 0) return sale.paymentMethod;
+  const refundable = sale.payments.filter(payment => payment.method !== 'loyalty');
+  if (refundable.length === 0) return 'cash';
+  return refundable.reduce((largest, payment) => (payment.amount > largest.amount ? payment : largest)).method;
+};
+
+// PAYMENT PROVIDER HELPERS
+
+// Every payment provider implements the same four calls:
+//   createIntent({ amount, payeeName, description, metadata }) -> { reference, clientSecret?, upi? }
+//   confirm(intent, { reference }) -> status once the customer has paid
+//   refund(intent, amount) -> { status, reference? }
+//   getStatus(intent) -> 'pending' | 'succeeded' | 'failed' | 'refunded'
+// `intent` is the stored PaymentIntent document and amounts are in rupees.
+
+// Map a Stripe PaymentIntent's status onto ours
+const toStripeIntentStatus = (paymentIntent) => {
+  if (paymentIntent.status === 'succeeded') return 'succeeded';
+  if (paymentIntent.status === 'canceled' || paymentIntent.last_payment_error) return 'failed';
+  return 'pending';
+};
+
+// Card and online payments through Stripe. The customer's card is confirmed in the
+// browser with Stripe.js; the server only ever checks what Stripe says happened.
+const stripeProvider = {
+  name: 'stripe',
+  label: 'Card',
+  isAvailable: () => Boolean(stripe),
+  createIntent: async ({ amount, metadata }) => {
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: Math.round(amount * 100),
+      currency: STRIPE_CURRENCY,
+      automatic_payment_methods: {
+        enabled: true,
+      },
+      metadata
+    });
+    return { reference: paymentIntent.id, clientSecret: paymentIntent.client_secret };
+  },
+  confirm: async (intent) => stripeProvider.getStatus(intent),
+  refund: async (intent, amount) => {
+    const refund = await stripe.refunds.create({
+      payment_intent: intent.paymentIntentId,
+      amount: Math.round(amount * 100)
+    });
+    return { status: refund.status === 'failed' ? 'failed' : 'refunded', reference: refund.id };
+  },
+  getStatus: async (intent) => {
+    if (intent.status === 'refunded') return intent.status;
+    return toStripeIntentStatus(await stripe.paymentIntents.retrieve(intent.paymentIntentId));
+  }
+};
+
+// UPI payments by QR code. The customer scans a upi:// deep link with their UPI app and
+// pays the shop's UPI ID directly, so nothing reports back: the cashier confirms the
+// payment once it shows up on the shop's UPI app, noting its UTR number.
+const upiProvider = {
+  name: 'upi',
+  label: 'UPI',
+  isAvailable: () => Boolean(UPI_VPA),
+  createIntent: async ({ amount, payeeName, description }) => {
+    const reference = `UPI${new mongoose.Types.ObjectId().toString().toUpperCase()}`;
+    const uri = `upi://pay?${new URLSearchParams({
+      pa: UPI_VPA,
+      pn: payeeName,
+      am: amount.toFixed(2),
+      cu: 'INR',
+      tr: reference,
+      tn: description
+    })}`;
+    return {
+      reference,
+      upi: {
+        uri,
+        payee: UPI_VPA,
+        qrSvg: bwipjs.toSVG({ bcid: 'qrcode', text: uri, scale: 3 })
+      }
+    };
+  },
+  confirm: async () => 'succeeded',
+  // Money can't be pushed back to a UPI payer from here; the refund is recorded and the
+  // cashier sends it from the shop's UPI app
+  refund: async () => ({ status: 'manual' }),
+  getStatus: async (intent) => intent.status
+};
+
+// A local stand-in for the real providers that never touches the network. Every
+// payment succeeds when confirmed, and refunds always go through.
+const fakeProvider = {
+  name: 'fake',
+  label: 'Test payment',
+  isAvailable: () => PAYMENT_PROVIDER === 'fake',
+  createIntent: async () => ({ reference: `fake_${new mongoose.Types.ObjectId()}` }),
+  confirm: async () => 'succeeded',
+  refund: async (intent) => ({ status: 'refunded', reference: `${intent.paymentIntentId}_refund` }),
+  getStatus: async (intent) => intent.status
+};
+
+const PAYMENT_PROVIDERS = {
+  stripe: stripeProvider,
+  upi: upiProvider,
+  fake: fakeProvider
+};
+
+// Who takes payment for a tender: UPI through the QR provider, card and online through
+// Stripe, everything else at the till. PAYMENT_PROVIDER=fake sends them all to the fake.
+const getTenderProvider = (method) => {
+  if (!CHARGED_TENDERS.includes(method)) return 'till';
+  if (PAYMENT_PROVIDER === 'fake') return 'fake';
+  return method === 'upi' ? 'upi' : 'stripe';
+};
+
+// Send part of a payment back through its provider and note it on the intent
+const refundPaymentIntent = async (intent, amount) => {
+  const provider = PAYMENT_PROVIDERS[intent.provider];
+  if (!provider.isAvailable()) {
+    throw new PaymentError(`${provider.label} payments are not configured`);
+  }
+  
+  const refund = await provider.refund(intent, amount);
+  if (refund.status === 'failed') {
+    throw new PaymentError(`The ${intent.provider} refund of ${amount.toFixed(2)} failed`);
+  }
+  
+  intent.amountRefunded = roundCurrency((intent.amountRefunded || 0) + amount);
+  if (intent.amountRefunded >= intent.amount) {
+    intent.status = 'refunded';
+  }
+  await intent.save();
+  return refund;
+};
+
+// LOYALTY HELPERS
+
+// Earn and redeem rates for loyalty points
+const getLoyaltyConfig = async () => {
+  const settings = await StoreSettings.findOne();
+  return {
+    pointsPerRupee: settings?.loyaltyPointsPerRupee ?? 0.01,
+    pointValue: settings?.loyaltyPointValue ?? 1
+  };
+};
+
+// Points earned on a sale: only what was paid with money earns, not what was paid in points
+const getPointsEarned = (totalAmount, payments, { pointsPerRupee }) => {
+  const paidInPoints = payments
+    .filter(payment => payment.method === 'loyalty')
+    .reduce((total, payment) => total + payment.amount, 0);
+  return Math.floor((totalAmount - paidInPoints) * pointsPerRupee);
+};
+
+// Points needed to pay `amount` rupees
+const getPointsToRedeem = (payments, { pointValue }) => {
+  const amount = payments
+    .filter(payment => payment.method === 'loyalty')
+    .reduce((total, payment) => total + payment.amount, 0);
+  if (amount === 0) return 0;
+  if (!pointValue) throw new PaymentError('Loyalty points cannot be redeemed');
+  return Math.ceil(roundCurrency(amount / pointValue));
+};
+
+// Take points off a customer, failing rather than going below zero
+const redeemLoyaltyPoints = async (customerId, points, session = null) => {
+  const customer = await Customer.findOneAndUpdate(
+    { _id: customerId, loyaltyPoints: { $gte: points } },
+    { $inc: { loyaltyPoints: -points } },
+    { new: true, session }
+  );
+  if (!customer) {
+    throw new PaymentError('The customer does not have enough loyalty points');
+  }
+  return customer;
+};
+
+// Add (or with a negative `points`, take back) loyalty points, never leaving a negative balance
+const adjustLoyaltyPoints = async (customerId, points, session = null) => {
+  if (!customerId || points === 0) return;
+  await Customer.updateOne(
+    { _id: customerId },
+    [{ $set: { loyaltyPoints: { $max: [0, { $add: ['$loyaltyPoints', points] }] } } }],
+    { session }
+  );
+};
+
+// Points already taken back from a sale's customer by its returns
+const getLoyaltyPointsReversed = async (saleId, session = null) => {
+  const reversed = await Return.aggregate([
+    { $match: { sale: saleId } },
+    { $group: { _id: null, points: { $sum: '$loyaltyPointsReversed' } } }
+  ]).session(session);
+  return reversed[0]?.points || 0;
+};
+
+// RETURN HELPERS
+
+// Thrown when a return asks for more than can be taken back
+class ReturnValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ReturnValidationError';
+  }
+}
+
+// Total refunded per sale, keyed by sale ID
+const getRefundTotals = async (saleIds) => {
+  const totals = await Return.aggregate([
+    { $match: { sale: { $in: saleIds } } },
+    { $group: { _id: '$sale', refundedAmount: { $sum: '$refundAmount' } } }
+  ]);
+  return new Map(totals.map(item => [String(item._id), item.refundedAmount]));
+};
+
+// Quantities already returned for a sale, keyed by product ID.
+// With `restockedOnly`, only lines that went back into stock are counted.
+const getReturnedQuantities = async (saleId, { session = null, restockedOnly = false } = {}) => {
+  const returns = await Return.find({ sale: saleId }).session(session);
+  const quantities = new Map();
+  returns.forEach(saleReturn => {
+    saleReturn.lines.forEach(line => {
+      if (restockedOnly && line.disposition !== 'restock') return;
+      const key = String(line.product);
+      quantities.set(key, (quantities.get(key) || 0) + line.quantity);
+    });
+  });
+  return quantities;
+};
+
+// RECEIPT HELPERS
+
+const RECEIPT_WIDTHS = [58, 80];
+
+// Tenders whose names don't read right just capitalized
+const RECEIPT_TENDER_LABELS = { loyalty: 'Loyalty points', upi: 'UPI' };
+
+const formatReceiptSettings = (settings) => ({
+  storeName: settings.storeName,
+  storeAddress: settings.storeAddress,
+  storePhone: settings.storePhone,
+  taxId: settings.taxId,
+  receiptFooter: settings.receiptFooter,
+  receiptWidth: settings.receiptWidth
+});
+
+// Receipt settings, falling back to the schema defaults before any are saved
+const getReceiptSettings = async () => {
+  const settings = await StoreSettings.findOne();
+  return formatReceiptSettings(settings || new StoreSettings());
+};
+
+const formatReceiptAmount = (amount, currency) =>
+  `${amount < 0 ? '-' : ''}${currency}${Math.abs(amount).toFixed(2)}`;
+
+const capitalize = (value) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Everything printed on a receipt, as plain rows, so the HTML and PDF versions
+// lay out the same content
+const buildReceipt = (sale, store, width) => {
+  const tenders = sale.payments?.length > 0
+    ? sale.payments
+    : [{ method: sale.paymentMethod, amount: sale.totalAmount }];
+
+  const items = sale.products.map(item => ({
+    name: item.productSnapshot?.name || item.product?.name || 'Item',
+    quantity: item.quantity,
+    price: item.priceAtSale,
+    amount: roundCurrency(item.priceAtSale * item.quantity),
+    discounts: (item.discounts || []).map(discount => ({ label: discount.name, amount: -discount.amount }))
+  }));
+
+  const totals = [{ label: 'Items', amount: roundCurrency(items.reduce((sum, item) => sum + item.amount, 0)) }];
+  if (sale.discountTotal > 0) {
+    totals.push({ label: sale.couponCode ? `Discounts (${sale.couponCode})` : 'Discounts', amount: -sale.discountTotal });
+  }
+  (sale.taxBreakdown || []).forEach(entry => {
+    if (!entry.taxAmount) return;
+    const label = entry.name.includes(`${entry.rate}%`) ? entry.name : `${entry.name} @ ${entry.rate}%`;
+    totals.push({ label: sale.pricesIncludeTax ? `Incl. ${label}` : label, amount: entry.taxAmount });
+  });
+  totals.push({ label: 'TOTAL', amount: sale.totalAmount, strong: true });
+
+  const payments = tenders.map(payment => ({
+    label: RECEIPT_TENDER_LABELS[payment.method] || capitalize(payment.method),
+    amount: payment.method === 'cash' && payment.tendered ? payment.tendered : payment.amount
+  }));
+  if (sale.changeDue > 0) {
+    payments.push({ label: 'Change', amount: sale.changeDue });
+  }
+
+  const notes = [];
+  if (sale.loyaltyPointsRedeemed > 0) notes.push(`Points redeemed: ${sale.loyaltyPointsRedeemed}`);
+  if (sale.loyaltyPointsEarned > 0) notes.push(`Points earned: ${sale.loyaltyPointsEarned}`);
+
+  return {
+    width,
+    header: [store.storeName, ...store.storeAddress.split('\n'), store.storePhone, store.taxId && `GSTIN: ${store.taxId}`]
+      .filter(Boolean),
+    meta: [
+      { label: 'Receipt', value: String(sale._id).slice(-8).toUpperCase() },
+      { label: 'Date', value: sale.timestamp.toLocaleString('en-IN', { timeZone: STORE_TIMEZONE }) },
+      { label: 'Cashier', value: sale.employeeName || sale.employeeId },
+      sale.customerName && { label: 'Customer', value: sale.customerName }
+    ].filter(Boolean),
+    items,
+    totals,
+    payments,
+    notes,
+    voided: sale.voided ? `VOIDED${sale.voidReason ? `: ${sale.voidReason}` : ''}` : null,
+    barcode: String(sale._id),
+    footer: store.receiptFooter
+  };
+};
+
+const escapeHtml = (value) =>
+  String(value).replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]);
+
+// Thermal-width HTML receipt, ready to print from a browser
+const renderReceiptHtml = (receipt) => {
+  const amount = (value) => escapeHtml(formatReceiptAmount(value, '₹'));
+  const row = (label, value, className = '') =>
+    `<div class="row ${className}"><span>${escapeHtml(label)}</span><span>${value}</span></div>`;
+  const barcode = bwipjs.toSVG({ bcid: 'code128', text: receipt.barcode, height: 10, includetext: true, textxalign: 'center' });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt ${escapeHtml(receipt.meta[0].value)}</title>
+<style>
+  @page { size: ${receipt.width}mm auto; margin: 0; }
+  body { width: ${receipt.width - 6}mm; margin: 0 auto; padding: 3mm 0; font: ${receipt.width === 58 ? 11 : 12}px/1.35 'Courier New', monospace; color: #000; }
+  .center { text-align: center; }
+  .store { font-weight: bold; font-size: 1.2em; }
+  .row { display: flex; justify-content: space-between; gap: 2mm; }
+  .row span:last-child { white-space: nowrap; }
+  .sub { padding-left: 3mm; }
+  .strong { font-weight: bold; font-size: 1.1em; }
+  .void { font-weight: bold; border: 1px solid #000; padding: 1mm; margin: 2mm 0; text-align: center; }
+  hr { border: 0; border-top: 1px dashed #000; margin: 2mm 0; }
+  svg { display: block; width: 100%; height: auto; margin-top: 2mm; }
+</style>
+</head>
+<body>
+${receipt.header.map((line, index) => `<div class="center${index === 0 ? ' store' : ''}">${escapeHtml(line)}</div>`).join('\n')}
+<hr>
+${receipt.meta.map(entry => row(entry.label, escapeHtml(entry.value))).join('\n')}
+${receipt.voided ? `<div class="void">${escapeHtml(receipt.voided)}</div>` : ''}
+<hr>
+${receipt.items.map(item => [
+    `<div>${escapeHtml(item.name)}</div>`,
+    row(`${item.quantity} x ${formatReceiptAmount(item.price, '₹')}`, amount(item.amount), 'sub'),
+    ...item.discounts.map(discount => row(discount.label, amount(discount.amount), 'sub'))
+  ].join('\n')).join('\n')}
+<hr>
+${receipt.totals.map(entry => row(entry.label, amount(entry.amount), entry.strong ? 'strong' : '')).join('\n')}
+<hr>
+${receipt.payments.map(entry => row(entry.label, amount(entry.amount))).join('\n')}
+${receipt.notes.map(note => `<div>${escapeHtml(note)}</div>`).join('\n')}
+${barcode}
+${receipt.footer ? `<hr>\n<div class="center">${escapeHtml(receipt.footer)}</div>` : ''}
+</body>
+</html>`;
+};
+
+// Lay a receipt out on a PDF page and return where the content ends
+const drawReceiptPdf = (doc, receipt, barcode) => {
+  const margin = 8;
+  const contentWidth = doc.page.width - margin * 2;
+  const amount = (value) => formatReceiptAmount(value, 'Rs.');
+  const divider = () => {
+    doc.moveDown(0.3);
+    doc.moveTo(margin, doc.y).lineTo(margin + contentWidth, doc.y).dash(2, { space: 2 }).stroke().undash();
+    doc.moveDown(0.3);
+  };
+  const text = (value, options = {}) => doc.text(value, margin, doc.y, { width: contentWidth, ...options });
+  const row = (label, value, { indent = 0, bold = false } = {}) => {
+    const y = doc.y;
+    doc.font(bold ? 'Courier-Bold' : 'Courier');
+    doc.text(value, margin, y, { width: contentWidth, align: 'right' });
+    const valueBottom = doc.y;
+    doc.text(label, margin + indent, y, { width: contentWidth - indent - doc.widthOfString(value) - 4 });
+    doc.y = Math.max(doc.y, valueBottom);
+    doc.font('Courier');
+  };
+
+  doc.fontSize(receipt.width === 58 ? 7 : 8).font('Courier-Bold');
+  text(receipt.header[0], { align: 'center' });
+  doc.font('Courier');
+  receipt.header.slice(1).forEach(line => text(line, { align: 'center' }));
+  divider();
+  receipt.meta.forEach(entry => row(entry.label, entry.value));
+  if (receipt.voided) {
+    doc.moveDown(0.3).font('Courier-Bold');
+    text(receipt.voided, { align: 'center' });
+    doc.font('Courier');
+  }
+  divider();
+  receipt.items.forEach(item => {
+    text(item.name);
+    row(`${item.quantity} x ${amount(item.price)}`, amount(item.amount), { indent: 8 });
+    item.discounts.forEach(discount => row(discount.label, amount(discount.amount), { indent: 8 }));
+  });
+  divider();
+  receipt.totals.forEach(entry => row(entry.label, amount(entry.amount), { bold: entry.strong }));
+  divider();
+  receipt.payments.forEach(entry => row(entry.label, amount(entry.amount)));
+  receipt.notes.forEach(note => text(note));
+
+  const image = doc.openImage(barcode);
+  const barcodeHeight = contentWidth * image.height / image.width;
+  doc.image(image, margin, doc.y + 6, { width: contentWidth });
+  doc.y += barcodeHeight + 6;
+
+  if (receipt.footer) {
+    divider();
+    text(receipt.footer, { align: 'center' });
+  }
+  return doc.y + margin;
+};
+
+// Thermal-width PDF receipt. The page is sized to fit, so the layout is measured
+// on a scratch page first.
+const renderReceiptPdf = async (receipt) => {
+  const pageWidth = receipt.width * 72 / 25.4;
+  const barcode = await bwipjs.toBuffer({ bcid: 'code128', text: receipt.barcode, scale: 3, height: 10, includetext: true, textxalign: 'center' });
+  const pageHeight = drawReceiptPdf(new PDFDocument({ size: [pageWidth, 10000], margin: 0 }), receipt, barcode);
+
+  const doc = new PDFDocument({ size: [pageWidth, pageHeight], margin: 0 });
+  const chunks = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  const done = new Promise((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+  drawReceiptPdf(doc, receipt, barcode);
+  doc.end();
+  return done;
+};
+
+// PARKED BILL HELPERS
+
+// Thrown when a bill can't be parked as sent
+class ParkedBillValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ParkedBillValidationError';
+  }
+}
+
+// Units held at `location` by parked bills that have not lapsed, keyed by product ID.
+// Pass `excludeBillId` to leave one bill's own items out.
+const getReservedStock = async (productIds, { location, excludeBillId = null, session = null } = {}) => {
+  const match = {
+    expiresAt: { $gt: new Date() },
+    location,
+    'items.product': { $in: productIds.map(id => new mongoose.Types.ObjectId(String(id))) }
+  };
+  if (excludeBillId) {
+    match._id = { $ne: new mongoose.Types.ObjectId(String(excludeBillId)) };
+  }
+
+  const totals = await ParkedBill.aggregate([
+    { $match: match },
+    { $unwind: '$items' },
+    { $group: { _id: '$items.product', quantity: { $sum: '$items.quantity' } } }
+  ]).session(session);
+  return new Map(totals.map(item => [String(item._id), item.quantity]));
+};
+
+// Check a bill to be parked and merge repeated products into one line each. A bill can
+// only hold stock that is on hand at its till's location and not already held by another
+// parked bill. Run it in the `session` the bill is saved in.
+const prepareParkedBill = async ({ label, items, customer: customerRef, customerName, couponCode, location: locationRef }, session = null) => {
+  if (typeof label !== 'string' || !label.trim()) {
+    throw new ParkedBillValidationError('Give the bill a label to find it by');
+  }
+  const location = await findLocation(locationRef);
+  if (!location) {
+    throw new ParkedBillValidationError('Location not found');
+  }
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ParkedBillValidationError('A parked bill needs at least one item');
+  }
+
+  // Lines scanned from weighted-item labels are kept apart, as each label has its own price
+  const lines = new Map();
+  const quantities = new Map();
+  for (const item of items) {
+    const productId = String(item.product?.id || item.product?._id || item.product);
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      throw new ParkedBillValidationError(`Invalid product ID format: ${productId}`);
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      throw new ParkedBillValidationError(`Invalid quantity for product ${productId}`);
+    }
+    const barcode = typeof item.barcode === 'string' && item.barcode ? item.barcode : undefined;
+    const key = `${productId}:${barcode || ''}`;
+    lines.set(key, {
+      product: productId,
+      quantity: (lines.get(key)?.quantity || 0) + item.quantity,
+      barcode
+    });
+    quantities.set(productId, (quantities.get(productId) || 0) + item.quantity);
+  }
+
+  // Writing to the products first makes a second bill parked with them at the same time
+  // conflict, so it is checked again against this one's hold
+  const productIds = [...quantities.keys()];
+  await Product.updateMany(
+    { _id: { $in: productIds } },
+    { $inc: { reservationVersion: 1 } },
+    { session, timestamps: false }
+  );
+  const products = await Product.find({ _id: { $in: productIds } }).session(session);
+  const reserved = await getReservedStock(productIds, { location: location._id, session });
+
+  for (const productId of productIds) {
+    const product = products.find(item => String(item._id) === productId);
+    if (!product) {
+      throw new ParkedBillValidationError(`Product with ID ${productId} not found`);
+    }
+    const held = reserved.get(productId) || 0;
+    const expired = getExpiredStock(product, location._id);
+    if (getLocationStock(product, location._id) - held - expired < quantities.get(productId)) {
+      throw new InsufficientStockError(product, quantities.get(productId), held, location._id, expired);
+    }
+  }
+
+  let customer = null;
+  if (customerRef) {
+    const customerIdValue = String(customerRef.id || customerRef._id || customerRef);
+    if (mongoose.Types.ObjectId.isValid(customerIdValue)) {
+      customer = await Customer.findById(customerIdValue);
+    }
+    if (!customer) {
+      throw new ParkedBillValidationError('Customer not found');
+    }
+  }
+
+  return {
+    label: label.trim(),
+    items: [...lines.values()],
+    customer: customer?._id,
+    customerName: customerName || customer?.name,
+    couponCode: typeof couponCode === 'string' && couponCode.trim() ? couponCode.trim() : undefined,
+    location: location._id
+  };
+};
+
+// TRANSFER HELPERS
+
+// Thrown when a transfer can't be created, dispatched or received as sent
+class TransferValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TransferValidationError';
+  }
+}
+
+// Check a new transfer and merge repeated products into one line each
+const prepareTransfer = async ({ from: fromRef, to: toRef, lines, note }) => {
+  if (!fromRef || !toRef) {
+    throw new TransferValidationError('Choose the locations to transfer from and to');
+  }
+  const [from, to] = await Promise.all([findLocation(fromRef), findLocation(toRef)]);
+  if (!from || !to) {
+    throw new TransferValidationError('Location not found');
+  }
+  if (from._id.equals(to._id)) {
+    throw new TransferValidationError('A transfer must go to a different location');
+  }
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new TransferValidationError('A transfer needs at least one item');
+  }
+
+  const quantities = new Map();
+  for (const line of lines) {
+    const productId = String(line.product?.id || line.product?._id || line.product);
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      throw new TransferValidationError(`Invalid product ID format: ${productId}`);
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new TransferValidationError(`Invalid quantity for product ${productId}`);
+    }
+    quantities.set(productId, (quantities.get(productId) || 0) + line.quantity);
+  }
+
+  const products = await Product.find({ _id: { $in: [...quantities.keys()] } }, 'name');
+  const merged = [...quantities.entries()].map(([productId, quantity]) => {
+    const product = products.find(item => String(item._id) === productId);
+    if (!product) {
+      throw new TransferValidationError(`Product with ID ${productId} not found`);
+    }
+    return { product: product._id, productName: product.name, quantity };
+  });
+
+  return {
+    from: from._id,
+    to: to._id,
+    lines: merged,
+    note: typeof note === 'string' && note.trim() ? note.trim() : undefined
+  };
+};
+
+// What arrived for each line of a dispatched transfer. Lines left out arrived in full;
+// a line that came up short needs a reason for the difference.
+const getReceivedLines = (transfer, received = []) => {
+  if (!Array.isArray(received)) {
+    throw new TransferValidationError('Received lines must be a list');
+  }
+
+  return transfer.lines.map(line => {
+    const entry = received.find(item => String(item.product?.id || item.product?._id || item.product) === String(line.product));
+    const receivedQuantity = entry?.receivedQuantity ?? line.quantity;
+    if (!Number.isInteger(receivedQuantity) || receivedQuantity < 0 || receivedQuantity > line.quantity) {
+      throw new TransferValidationError(`Received quantity for ${line.productName} must be between 0 and ${line.quantity}`);
+    }
+    const discrepancyReason = typeof entry?.discrepancyReason === 'string' ? entry.discrepancyReason.trim() : '';
+    if (receivedQuantity < line.quantity && !discrepancyReason) {
+      throw new TransferValidationError(`Give a reason why ${line.quantity - receivedQuantity} of ${line.productName} did not arrive`);
+    }
+    return {
+      product: line.product,
+      productName: line.productName,
+      quantity: line.quantity,
+      receivedQuantity,
+      discrepancyReason: receivedQuantity < line.quantity ? discrepancyReason : undefined,
+      lots: line.lots
+    };
+  });
+};
+
+// STOCK TAKE HELPERS
+
+// Thrown when a stock take can't be started, counted or moved on as asked
+class StockTakeValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'StockTakeValidationError';
+  }
+}
+
+const isCounted = (line) => line.counted !== undefined && line.counted !== null;
+
+// What the ledger says each product held at a location as of `at`, keyed by product ID.
+// A stock take expects this, so every movement is either in what it expects or in what
+// moved during the count, never both. Products from before the ledger get their opening
+// entry first; those entries, with no location, are at the default location.
+const getLedgerStockAt = async (products, location, at) => {
+  const withMovements = new Set((await StockMovement.distinct('product', {
+    product: { $in: products.map(product => product._id) }
+  })).map(String));
+  for (const product of products.filter(item => !withMovements.has(String(item._id)))) {
+    await ensureOpeningBalance(product);
+  }
+
+  const totals = await StockMovement.aggregate([
+    {
+      $match: {
+        product: { $in: products.map(product => product._id) },
+        location: location.isDefault ? { $in: [location._id, null] } : location._id,
+        timestamp: { $lte: at }
+      }
+    },
+    { $group: { _id: '$product', stock: { $sum: '$quantity' } } }
+  ]);
+  return new Map(totals.map(entry => [String(entry._id), entry.stock]));
+};
+
+// Net stock that moved at the location for each counted product between the snapshot
+// and its count, keyed by product ID. Sales rung up while the shelves were being counted
+// are in here, so they are not mistaken for shrinkage.
+const getMovementsDuringCount = async (stockTake) => {
+  const counted = stockTake.lines.filter(isCounted);
+  if (counted.length === 0) return new Map();
+
+  const totals = await StockMovement.aggregate([
+    {
+      $match: {
+        location: stockTake.location?._id || stockTake.location,
+        $or: counted.map(line => ({
+          product: line.product,
+          timestamp: { $gt: stockTake.snapshotAt, $lte: line.countedAt }
+        }))
+      }
+    },
+    { $group: { _id: '$product', quantity: { $sum: '$quantity' } } }
+  ]);
+  return new Map(totals.map(entry => [String(entry._id), entry.quantity]));
+};
+
+// The variance report: for each line, what the ledger expected when it was counted and how
+// far the count is from it, in units and at cost. Approved stock takes report what was posted.
+const getStockTakeReport = async (stockTake) => {
+  const moved = stockTake.status === 'approved' ? new Map() : await getMovementsDuringCount(stockTake);
+
+  const lines = stockTake.lines.map(line => {
+    const counted = isCounted(line) ? line.counted : null;
+    const movedDuringCount = stockTake.status === 'approved'
+      ? line.movedDuringCount || 0
+      : moved.get(String(line.product)) || 0;
+    const expectedAtCount = line.expected + movedDuringCount;
+    const variance = counted === null ? null : (stockTake.status === 'approved' ? line.variance : counted - expectedAtCount);
+    return {
+      productId: line.product,
+      productName: line.productName,
+      barcode: line.barcode,
+      category: line.category,
+      costPrice: line.costPrice,
+      expected: line.expected,
+      counted,
+      countedAt: line.countedAt,
+      movedDuringCount,
+      expectedAtCount,
+      variance,
+      varianceCost: variance === null ? null : roundCurrency(variance * (line.costPrice || 0))
+    };
+  });
+
+  const countedLines = lines.filter(line => line.counted !== null);
+  return {
+    lines,
+    totals: {
+      lineCount: lines.length,
+      countedCount: countedLines.length,
+      varianceUnits: countedLines.reduce((sum, line) => sum + line.variance, 0),
+      varianceCost: roundCurrency(countedLines.reduce((sum, line) => sum + line.varianceCost, 0)),
+      shortageCost: roundCurrency(countedLines.filter(line => line.variance < 0).reduce((sum, line) => sum + line.varianceCost, 0)),
+      surplusCost: roundCurrency(countedLines.filter(line => line.variance > 0).reduce((sum, line) => sum + line.varianceCost, 0))
+    }
+  };
+};
+
+// Record counts against an open stock take. Each count names its line by product ID or
+// by a scanned barcode, and either sets the counted quantity or adds to it (one scan,
+// one unit). Every update is atomic so several people can count the same session.
+const applyStockTakeCounts = async (stockTake, counts) => {
+  if (!Array.isArray(counts) || counts.length === 0) {
+    throw new StockTakeValidationError('Send at least one count');
+  }
+
+  for (const count of counts) {
+    let line;
+    if (count.barcode) {
+      const code = String(count.barcode).trim();
+      const itemCode = parseWeightedBarcode(code)?.itemCode;
+      line = stockTake.lines.find(item => item.barcode === code || (itemCode && item.barcode === itemCode));
+      if (!line) {
+        throw new StockTakeValidationError(`No product in this count has the barcode ${code}`);
+      }
+    } else {
+      const productId = String(count.product?.id || count.product?._id || count.product);
+      line = stockTake.lines.find(item => String(item.product) === productId);
+      if (!line) {
+        throw new StockTakeValidationError(`Product ${productId} is not part of this count`);
+      }
+    }
+
+    const now = new Date();
+    let update;
+    if (count.add !== undefined) {
+      if (!Number.isInteger(count.add)) {
+        throw new StockTakeValidationError(`Invalid count for ${line.productName}`);
+      }
+      update = { $inc: { 'lines.$.counted': count.add }, $set: { 'lines.$.countedAt': now } };
+    } else if (count.counted === null) {
+      update = { $unset: { 'lines.$.counted': '', 'lines.$.countedAt': '' } };
+    } else {
+      if (!Number.isInteger(count.counted) || count.counted < 0) {
+        throw new StockTakeValidationError(`Counted quantity for ${line.productName} must be a whole number of 0 or more`);
+      }
+      update = { $set: { 'lines.$.counted': count.counted, 'lines.$.countedAt': now } };
+    }
+
+    const result = await StockTake.updateOne(
+      { _id: stockTake._id, status: 'counting', 'lines.product': line.product },
+      update
+    );
+    if (result.matchedCount === 0) {
+      throw new StockTakeValidationError('The stock take is no longer open for counting');
+    }
+  }
+
+  // Scans that took a count below zero are put back at zero
+  await StockTake.updateOne(
+    { _id: stockTake._id },
+    { $max: { 'lines.$[short].counted': 0 } },
+    { arrayFilters: [{ 'short.counted': { $lt: 0 } }] }
+  );
+};
+
+// SHIFT HELPERS
+
+// Thrown when a shift can't be opened, used or closed as asked
+class ShiftError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ShiftError';
+  }
+}
+
+// The shift a sale or refund is taken in. With `required` one must be sent, so the takings
+// are counted when the till is cashed up. It has to be open, except for sales rung up
+// offline, which can reach the server after their shift closed. With `sentBy`, it has to
+// be running on the sending till ({ till }) or have been opened by the sender ({ user }).
+const getTransactionShift = async (shiftRef, { allowClosed = false, required = false, sentBy = null } = {}) => {
+  if (!shiftRef) {
+    if (required) {
+      throw new ShiftError('Open a shift on this till before taking payments or refunds');
+    }
+    return null;
+  }
+
+  const shiftId = String(shiftRef.id || shiftRef._id || shiftRef);
+  const shift = mongoose.Types.ObjectId.isValid(shiftId) ? await Shift.findById(shiftId) : null;
+  if (!shift) {
+    throw new ShiftError('Shift not found');
+  }
+  if (shift.status !== 'open' && !allowClosed) {
+    throw new ShiftError('This shift has been closed. Open a new shift to carry on selling.');
+  }
+  if (sentBy) {
+    const onTill = Boolean(sentBy.till) && shift.till === String(sentBy.till);
+    const openedBySender = Boolean(sentBy.user) && shift.openedBy?.id === String(sentBy.user.id);
+    if (!onTill && !openedBySender) {
+      throw new ShiftError('This shift is open on another till');
+    }
+  }
+  return shift;
+};
+
+// What a shift took and paid out by tender, and for cash what should be in the drawer.
+// While the shift is open this is an X report; the one worked out at close is its Z report.
+// `counted` holds what was counted per tender at close, e.g. { cash: 5230, card: 1200 }.
+const buildShiftReport = async (shift, counted = {}) => {
+  const [sales, returns] = await Promise.all([
+    Sale.find({ shift: shift._id }),
+    Return.find({ shift: shift._id })
+  ]);
+  const activeSales = sales.filter(sale => !sale.voided);
+
+  const tenders = new Map(PAYMENT_TENDERS.map(method => [method, { sales: 0, refunds: 0 }]));
+  activeSales.forEach(sale => {
+    const payments = sale.payments?.length ? sale.payments : [{ method: sale.paymentMethod, amount: sale.totalAmount }];
+    payments.forEach(payment => {
+      if (tenders.has(payment.method)) tenders.get(payment.method).sales += payment.amount;
+    });
+  });
+  returns.forEach(saleReturn => {
+    if (tenders.has(saleReturn.refundMethod)) tenders.get(saleReturn.refundMethod).refunds += saleReturn.refundAmount;
+  });
+
+  const sumMovements = (type) => roundCurrency(shift.cashMovements
+    .filter(movement => movement.type === type)
+    .reduce((total, movement) => total + movement.amount, 0));
+  const payIns = sumMovements('pay-in');
+  const payOuts = sumMovements('pay-out');
+
+  const byMethod = [...tenders.entries()]
+    .filter(([method, totals]) => method === 'cash' || totals.sales > 0 || totals.refunds > 0)
+    .map(([method, totals]) => {
+      const sold = roundCurrency(totals.sales);
+      const refunded = roundCurrency(totals.refunds);
+      const expected = method === 'cash'
+        ? roundCurrency(shift.openingFloat + sold - refunded + payIns - payOuts)
+        : roundCurrency(sold - refunded);
+      const countedAmount = Number.isFinite(counted[method]) ? roundCurrency(counted[method]) : null;
+      return {
+        method,
+        sales: sold,
+        refunds: refunded,
+        expected,
+        counted: countedAmount,
+        variance: countedAmount === null ? null : roundCurrency(countedAmount - expected)
+      };
+    });
+
+  return {
+    type: shift.status === 'closed' ? 'Z' : 'X',
+    generatedAt: new Date(),
+    openingFloat: shift.openingFloat,
+    payIns,
+    payOuts,
+    saleCount: activeSales.length,
+    voidedCount: sales.length - activeSales.length,
+    returnCount: returns.length,
+    grossSales: roundCurrency(activeSales.reduce((total, sale) => total + sale.totalAmount, 0)),
+    refunds: roundCurrency(returns.reduce((total, saleReturn) => total + saleReturn.refundAmount, 0)),
+    byMethod
+  };
+};
+
+// BARCODE HELPERS
+
+// In-store EAN-13 labels printed by the deli and produce scales (GS1 prefixes 20-29):
+// 2-digit prefix, 5-digit item code, 5-digit value, check digit. The product is the one
+// whose barcode is the first 7 digits, e.g. "2312345". Prefixes 20-24 carry the label's
+// price in paise; 25-29 carry the weight in grams, priced at the product's price per kg.
+const WEIGHTED_BARCODE_PATTERN = /^2\d{12}$/;
+
+const hasValidEan13CheckDigit = (code) => {
+  const digits = code.split('').map(Number);
+  const sum = digits.slice(0, 12).reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === digits[12];
+};
+
+// What a weighted-item barcode encodes, or null if the code isn't one
+const parseWeightedBarcode = (code) => {
+  if (typeof code !== 'string' || !WEIGHTED_BARCODE_PATTERN.test(code) || !hasValidEan13CheckDigit(code)) {
+    return null;
+  }
+  const value = Number(code.slice(7, 12));
+  return Number(code[1]) < 5
+    ? { itemCode: code.slice(0, 7), price: value / 100 }
+    : { itemCode: code.slice(0, 7), weight: value / 1000 };
+};
+
+// The price a scanned weighted-item label sets for one unit of `product`, or null when
+// the line wasn't scanned from such a label. Prices are always taken from the label
+// rather than the client, so a bill can't be repriced by editing the request.
+const getWeightedPrice = (item, product) => {
+  const parsed = parseWeightedBarcode(item.barcode);
+  if (!parsed || parsed.itemCode !== product.barcode) return null;
+  return parsed.price !== undefined ? parsed.price : roundCurrency(product.price * parsed.weight);
+};
+
+// SALE HELPERS
+
+// Thrown when a sale asks for something that cannot be sold
+class SaleValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SaleValidationError';
+  }
+}
+
+// Price, settle and save a sale, taking its stock and loyalty points in one transaction.
+// A sale paid through a payment intent, or sent with an idempotency key, is only ever
+// recorded once: recording it again (from the checkout page, the webhook, a cashier's
+// confirmation or a till replaying its offline sales) returns the sale already saved.
+// `allowNegativeStock` records an in-store sale even if the shelf count says it can't
+// have happened, for offline sales that were handed over before the stock ran out.
+// A sale paid through a provider passes its succeeded `intent`, and must charge exactly
+// what the provider took.
+const recordSale = async (data, actor, { allowNegativeStock = false, intent = null } = {}) => {
+  const {
+    products,
+    paymentMethod,
+    customerId,
+    customerName,
+    employeeId,
+    employeeName,
+    channel,
+    couponCode,
+    payments,
+    idempotencyKey,
+    offline,
+    till,
+    timestamp,
+    shift: shiftRef,
+    location: locationRef,
+    customer: customerRef
+  } = data;
+  
+  // Validate required fields
+  if (!products || !products.length || (!paymentMethod && !payments?.length) || !employeeId || !channel) {
+    throw new SaleValidationError('Missing required fields');
+  }
+  
+  const paymentIntentId = intent?.paymentIntentId;
+  if (intent) {
+    if (intent.status !== 'succeeded') {
+      throw new PaymentError('The payment has not been made');
+    }
+    
+    const existing = await Sale.findOne({ paymentIntentId });
+    if (existing) {
+      return { sale: existing, created: false };
+    }
+  }
+  
+  if (idempotencyKey !== undefined) {
+    if (typeof idempotencyKey !== 'string' || !idempotencyKey.trim()) {
+      throw new SaleValidationError('Invalid idempotency key');
+    }
+    
+    const existing = await Sale.findOne({ idempotencyKey });
+    if (existing) {
+      return { sale: existing, created: false };
+    }
+  }
+  
+  // An offline sale keeps the time it was rung up, as long as that isn't in the future
+  const soldAt = offline && timestamp ? new Date(timestamp) : new Date();
+  if (isNaN(soldAt.getTime()) || soldAt > new Date()) {
+    throw new SaleValidationError('Invalid sale time');
+  }
+  
+  // Link the sale to a customer account if one was picked at the till
+  let customer = null;
+  if (customerRef) {
+    const customerIdValue = String(customerRef.id || customerRef._id || customerRef);
+    if (mongoose.Types.ObjectId.isValid(customerIdValue)) {
+      customer = await Customer.findById(customerIdValue);
+    }
+    if (!customer) {
+      throw new SaleValidationError('Customer not found');
+    }
+  }
+  
+  // A card payment completed after its shift was closed still belongs to that shift,
+  // as does an offline sale. A paid bill's shift was checked when its payment was opened,
+  // and an offline sale's is checked below.
+  const shift = await getTransactionShift(shiftRef, {
+    allowClosed: Boolean(offline || paymentIntentId),
+    required: channel === 'in-store',
+    sentBy: intent || offline ? null : { till, user: actor }
+  });
+  
+  // An offline sale can only go into a shift of the till it was rung up on, at a time that
+  // shift was open. It keeps its cashier if that is who is sending it or who opened the
+  // shift; otherwise it is put down to whoever is sending it.
+  let cashier = { employeeId, employeeName };
+  if (offline) {
+    if (!shift || !till || shift.till !== String(till)) {
+      throw new ShiftError('An offline sale must be sent with the shift of the till it was rung up on');
+    }
+    if (soldAt < shift.openedAt || (shift.closedAt && soldAt > shift.closedAt)) {
+      throw new SaleValidationError('An offline sale must have been rung up while its shift was open');
+    }
+    const sender = actor ? { employeeId: String(actor.id), employeeName: actor.name } : null;
+    if (shift.openedBy?.id && String(employeeId) === shift.openedBy.id) {
+      cashier = { employeeId: shift.openedBy.id, employeeName: shift.openedBy.name };
+    } else if (sender) {
+      cashier = sender;
+    }
+  }
+  
+  // The till's location, which in-store sales take their stock from
+  const location = await findLocation(locationRef);
+  if (!location) {
+    throw new SaleValidationError('Location not found');
+  }
+  
+  // Allocate the sale ID up front so stock movements can reference it
+  const saleId = new mongoose.Types.ObjectId();
+  
+  // Create product snapshots and validate products
+  const processedProducts = [];
+  
+  for (const item of products) {
+    // Handle both string IDs and object format
+    let productId;
+    if (typeof item.product === 'object' && item.product.id) {
+      productId = item.product.id;
+    } else if (typeof item.product === 'object' && item.product._id) {
+      productId = item.product._id;
+    } else {
+      productId = item.product;
+    }
+    
+    // Ensure productId is a string
+    productId = String(productId);
+    
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      throw new SaleValidationError(`Invalid product ID format: ${productId}`);
+    }
+    
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      throw new SaleValidationError(`Invalid quantity for product ${productId}`);
+    }
+    
+    const product = await Product.findById(productId);
+    
+    if (!product) {
+      throw new SaleValidationError(`Product with ID ${productId} not found`);
+    }
+    
+    // A line scanned from a weighted-item label keeps that label's code and price
+    const weightedPrice = getWeightedPrice(item, product);
+    
+    // Create a snapshot of the product at the time of sale
+    processedProducts.push({
+      product: product._id, // Always use the MongoDB _id
+      productSnapshot: {
+        name: product.name,
+        category: product.category,
+        price: product.price,
+        barcode: weightedPrice !== null ? item.barcode : product.barcode
+      },
+      quantity: item.quantity,
+      // Priced from the stored product, never from the client. A paid bill keeps the
+      // prices its payment was opened at.
+      priceAtSale: intent && item.priceAtSale !== undefined ? item.priceAtSale : weightedPrice ?? product.price,
+      taxClass: product.taxClass
+    });
+  }
+  
+  // Discounts and tax are always worked out here, so the stored total never depends on the client's arithmetic
+  const taxed = await priceSale(processedProducts, { couponCode });
+  // A sale sent with just a payment method is paid in full by that one tender
+  const tenders = payments?.length ? payments : [{ method: paymentMethod, amount: taxed.totalAmount }];
+  // A paid bill's provider tender is exactly what the provider charged, so a bill that no
+  // longer comes to that amount fails to settle rather than being recorded as paid
+  const settlement = settlePayments(
+    intent
+      ? [...tenders.filter(payment => payment.method !== intent.method), { method: intent.method, amount: intent.amount }]
+      : tenders,
+    taxed.totalAmount
+  );
+  
+  // The tender the payment intent paid carries its provider and reference
+  if (intent) {
+    settlement.payments
+      .filter(payment => payment.method === intent.method)
+      .forEach(payment => {
+        payment.provider = intent.provider;
+        payment.reference = intent.paymentIntentId;
+      });
+  }
+  
+  const loyalty = await getLoyaltyConfig();
+  const pointsRedeemed = getPointsToRedeem(settlement.payments, loyalty);
+  if (pointsRedeemed > 0 && !customer) {
+    throw new PaymentError('Loyalty points can only be redeemed for a customer');
+  }
+  const pointsEarned = customer ? getPointsEarned(taxed.totalAmount, settlement.payments, loyalty) : 0;
+  
+  // Stock decrements and the sale itself are written in one transaction:
+  // if any line is short on stock, nothing is decremented and no sale is saved
+  const session = await mongoose.startSession();
+  let savedSale;
+  
+  try {
+    await session.withTransaction(async () => {
+      if (pointsRedeemed > 0) {
+        await redeemLoyaltyPoints(customer._id, pointsRedeemed, session);
+      }
+      
+      // Update stock for in-store purchases. Units held by parked bills can't be sold from
+      // under them; they are read in the transaction, so a bill parked meanwhile conflicts.
+      if (channel === 'in-store') {
+        const reserved = allowNegativeStock
+          ? new Map()
+          : await getReservedStock(taxed.lines.map(item => item.product), { location: location._id, session });
+        for (const item of taxed.lines) {
+          await applyStockMovement({
+            productId: item.product,
+            location: location._id,
+            quantity: -item.quantity,
+            type: 'sale',
+            reference: { kind: 'Sale', id: saleId },
+            actor,
+            session,
+            requireAvailable: !allowNegativeStock,
+            reserved: reserved.get(String(item.product)) || 0
+          });
+        }
+      }
+      
+      // Create new sale
+      const newSale = new Sale({
+        _id: saleId,
+        products: taxed.lines,
+        subtotal: taxed.subtotal,
+        discountTotal: taxed.discountTotal,
+        couponCode: taxed.couponCode,
+        taxTotal: taxed.taxTotal,
+        pricesIncludeTax: taxed.pricesIncludeTax,
+        taxBreakdown: taxed.taxBreakdown,
+        totalAmount: taxed.totalAmount,
+        paymentMethod: settlement.paymentMethod,
+        payments: settlement.payments,
+        changeDue: settlement.changeDue,
+        paymentIntentId: paymentIntentId || undefined,
+        idempotencyKey: idempotencyKey || undefined,
+        offline: Boolean(offline),
+        customer: customer?._id,
+        loyaltyPointsEarned: pointsEarned,
+        loyaltyPointsRedeemed: pointsRedeemed,
+        customerId,
+        customerName: customerName || customer?.name,
+        employeeId: cashier.employeeId,
+        employeeName: cashier.employeeName,
+        shift: shift?._id,
+        location: location._id,
+        channel,
+        timestamp: soldAt
+      });
+      
+      savedSale = await newSale.save({ session });
+      
+      if (pointsEarned > 0) {
+        await adjustLoyaltyPoints(customer._id, pointsEarned, session);
+      }
+    });
+  } catch (error) {
+    // The same sale was sent twice at once, e.g. the checkout page and the webhook
+    // racing to record one card payment
+    if (error.code === 11000 && (paymentIntentId || idempotencyKey)) {
+      const existing = await Sale.findOne(paymentIntentId ? { paymentIntentId } : { idempotencyKey });
+      if (existing) {
+        return { sale: existing, created: false };
+      }
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+  
+  if (paymentIntentId) {
+    await PaymentIntent.updateOne({ paymentIntentId }, { sale: savedSale._id });
+  }
+  
+  await recordAudit(null, {
+    action: 'create',
+    entity: 'sale',
+    entityId: savedSale._id,
+    after: savedSale,
+    summary: `Recorded ${savedSale.paymentMethod} sale of ${savedSale.totalAmount}`,
+    actor
+  });
+  
+  // Notify about the transaction
+  try {
+    await NotificationService.notifyNewTransaction(savedSale.totalAmount, processedProducts.length);
+    
+    // Notify about stock update
+    if (channel === 'in-store') {
+      await NotificationService.notifyStockUpdate(processedProducts.length);
+    }
+    
+    // Check for low stock after sale
+    const allProducts = await Product.find();
+    await NotificationService.checkStockLevels(allProducts);
+  } catch (notifyError) {
+    console.warn('Could not send notification:', notifyError);
+    // Continue - notifications are non-critical
+  }
+  
+  return { sale: savedSale, created: true };
+};
+
+// Void a sale: it is kept for the record but no longer counts towards revenue. Stock and
+// loyalty points not already given back by returns are restored. Returns null if the
+// sale was already voided.
+const voidSaleRecord = async (sale, reason, actor) => {
+  // Stock goes back where it was sold from; sales from before locations sold from the default one
+  const location = await findLocation(sale.location);
+  const session = await mongoose.startSession();
+  let voidedSale;
+  
+  try {
+    await session.withTransaction(async () => {
+      // Only one void can win if two arrive together
+      voidedSale = await Sale.findOneAndUpdate(
+        { _id: sale._id, voided: { $ne: true } },
+        {
+          voided: true,
+          voidedAt: new Date(),
+          voidedBy: actor ? { id: actor.id, name: actor.name } : undefined,
+          voidReason: reason
+        },
+        { new: true, session }
+      );
+      
+      if (!voidedSale) return;
+      
+      // Give back points spent on the sale and take back the points it earned,
+      // less any already taken back by returns
+      if (sale.customer) {
+        const earned = (sale.loyaltyPointsEarned || 0) - await getLoyaltyPointsReversed(sale._id, session);
+        await adjustLoyaltyPoints(sale.customer, (sale.loyaltyPointsRedeemed || 0) - earned, session);
+      }
+      
+      // If this was an in-store sale, restore stock that has not already
+      // been put back by a return
+      if (sale.channel === 'in-store') {
+        const restocked = await getReturnedQuantities(sale._id, { session, restockedOnly: true });
+        
+        for (const item of sale.products) {
+          const quantity = item.quantity - (restocked.get(String(item.product)) || 0);
+          
+          if (quantity > 0 && await Product.exists({ _id: item.product }).session(session)) {
+            // Returns put back the last lots the sale took, so a void puts back the first
+            await applyStockMovement({
+              productId: item.product,
+              location: location._id,
+              quantity,
+              type: 'sale-void',
+              reference: { kind: 'Sale', id: sale._id },
+              note: reason,
+              lots: takeLots(await getSaleLots(sale._id, item.product, session), quantity),
+              actor,
+              session
+            });
+          }
+        }
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+  
+  if (voidedSale) {
+    await recordAudit(null, {
+      action: 'update',
+      entity: 'sale',
+      entityId: sale._id,
+      before: sale,
+      after: voidedSale,
+      summary: `Voided sale of ${sale.totalAmount}: ${voidedSale.voidReason}`,
+      actor
+    });
+  }
+  
+  return voidedSale;
+};
+
+// Record the sale for a payment intent that has been paid, from the bill kept with it.
+// Callers must have checked with the provider that it was paid. If the sale can't be
+// recorded (e.g. stock ran out while the customer paid), the reason is kept on the
+// intent for staff to settle by hand and null is returned.
+const completePaymentIntent = async (intent, actor) => {
+  intent.status = 'succeeded';
+  try {
+    const { sale, created } = await recordSale(intent.bill, actor, { intent });
+    
+    intent.sale = sale._id;
+    intent.failureMessage = undefined;
+    await intent.save();
+    return { sale, created };
+  } catch (error) {
+    if (!(error instanceof SaleValidationError || error instanceof PromotionError || error instanceof PaymentError ||
+      error instanceof InsufficientStockError || error instanceof ShiftError || error.name === 'ValidationError')) {
+      throw error;
+    }
+    
+    console.error(`Could not record the sale for payment ${intent.paymentIntentId}:`, error);
+    intent.failureMessage = `Paid, but the sale could not be recorded: ${error.message}`;
+    await intent.save();
+    return null;
+  }
+};
+
+// Format a newly recorded sale with client-friendly IDs
+const formatRecordedSale = (sale) => ({
+  id: sale._id,
+  products: sale.products.map(item => ({
+    product: {
+      id: item.product,
+      ...item.productSnapshot
+    },
+    quantity: item.quantity,
+    priceAtSale: item.priceAtSale,
+    discounts: item.discounts,
+    discountAmount: item.discountAmount,
+    tax: item.tax,
+    lineTotal: item.lineTotal
+  })),
+  subtotal: sale.subtotal,
+  discountTotal: sale.discountTotal,
+  couponCode: sale.couponCode,
+  taxTotal: sale.taxTotal,
+  pricesIncludeTax: sale.pricesIncludeTax,
+  taxBreakdown: sale.taxBreakdown,
+  totalAmount: sale.totalAmount,
+  paymentMethod: sale.paymentMethod,
+  payments: sale.payments,
+  changeDue: sale.changeDue,
+  paymentIntentId: sale.paymentIntentId,
+  idempotencyKey: sale.idempotencyKey,
+  offline: sale.offline,
+  customer: sale.customer,
+  loyaltyPointsEarned: sale.loyaltyPointsEarned,
+  loyaltyPointsRedeemed: sale.loyaltyPointsRedeemed,
+  customerId: sale.customerId,
+  customerName: sale.customerName,
+  employeeId: sale.employeeId,
+  employeeName: sale.employeeName,
+  shift: sale.shift,
+  location: sale.location,
+  channel: sale.channel,
+  timestamp: sale.timestamp,
+  createdAt: sale.createdAt,
+  updatedAt: sale.updatedAt
+});
+
+// STRIPE WEBHOOK HELPERS
+
+// Who sales recorded, voided or refunded by Stripe events are attributed to
+const STRIPE_WEBHOOK_ACTOR = { id: 'stripe', name: 'Stripe webhook' };
+
+// Record the sale for a PaymentIntent that has been paid. Stripe may deliver the
+// event more than once, and the checkout page may have recorded the sale already.
+const handlePaymentSucceeded = async (paymentIntent) => {
+  const intent = await PaymentIntent.findOne({ paymentIntentId: paymentIntent.id, provider: 'stripe' });
+  
+  if (!intent) {
+    console.warn(`No payment on record for PaymentIntent ${paymentIntent.id}`);
+    return;
+  }
+  
+  // Only what was charged for the bill can pay for it
+  if (paymentIntent.amount_received !== undefined && paymentIntent.amount_received !== Math.round(intent.amount * 100)) {
+    intent.status = 'succeeded';
+    intent.failureMessage = `Stripe took ${(paymentIntent.amount_received / 100).toFixed(2)}, not the ${intent.amount.toFixed(2)} charged for the bill`;
+    await intent.save();
+    return;
+  }
+  
+  await completePaymentIntent(intent, STRIPE_WEBHOOK_ACTOR);
+};
+
+const handlePaymentFailed = async (paymentIntent) => {
+  await PaymentIntent.updateOne(
+    // A failed attempt can arrive after a retry on the same PaymentIntent has succeeded
+    { paymentIntentId: paymentIntent.id, provider: 'stripe', status: 'pending' },
+    {
+      status: 'failed',
+      failureMessage: paymentIntent.last_payment_error?.message || 'Payment failed'
+    }
+  );
+};
+
+// Record a refund made in Stripe. A full refund of a sale paid entirely by the charge,
+// with nothing returned at the till, voids the sale; anything else is only noted on it,
+// since the items taken back have to be recorded as a return.
+const handleChargeRefunded = async (charge) => {
+  const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+  const intent = await PaymentIntent.findOne({ paymentIntentId, provider: 'stripe' });
+  
+  if (!intent) {
+    console.warn(`No payment on record for refunded charge ${charge.id}`);
+    return;
+  }
+  
+  // Refunds made from a return here have already been noted on the intent
+  const amountRefunded = roundCurrency(charge.amount_refunded / 100);
+  if (amountRefunded === intent.amountRefunded) return;
+  
+  intent.amountRefunded = amountRefunded;
+  if (charge.refunded) {
+    intent.status = 'refunded';
+  }
+  await intent.save();
+  
+  const sale = intent.sale ? await Sale.findById(intent.sale) : null;
+  if (!sale || sale.voided) return;
+  
+  const paidByCharge = (sale.payments || []).every(payment => CHARGED_TENDERS.includes(payment.method));
+  if (charge.refunded && paidByCharge && !await Return.exists({ sale: sale._id })) {
+    await voidSaleRecord(sale, 'Refunded in Stripe', STRIPE_WEBHOOK_ACTOR);
+    return;
+  }
+  
+  await recordAudit(null, {
+    action: 'update',
+    entity: 'sale',
+    entityId: sale._id,
+    summary: `Stripe refunded ${amountRefunded} of the card payment ${paymentIntentId}`,
+    actor: STRIPE_WEBHOOK_ACTOR
+  });
+};
+
+// Apply a verified Stripe event. Every handler can safely see the same event twice.
+const handleStripeEvent = async (event) => {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      return handlePaymentSucceeded(event.data.object);
+    case 'payment_intent.payment_failed':
+      return handlePaymentFailed(event.data.object);
+    case 'charge.refunded':
+      return handleChargeRefunded(event.data.object);
+    default:
+      // Only the events above are subscribed to; anything else is acknowledged and ignored
+      return undefined;
+  }
+};
+
+// API Routes
+// Register User
+app.post('/api/auth/register', async (req, res) => {
+  try {
+    const { name, email, password, role } = req.body;
+
+    // Check if user already exists
+    const existingUser = await User.findOne({ email });
+    if (existingUser) {
+      return res.status(400).json({ message: 'User with this email already exists' });
+    }
+
+    // Only the very first account may bootstrap itself as an admin;
+    // after that, admins are promoted through PUT /api/users/:id/role
+    const requestedRole = role || 'staff';
+    if (!Object.keys(rolePermissions).includes(requestedRole)) {
+      return res.status(400).json({ message: `Role must be one of: ${Object.keys(rolePermissions).join(', ')}` });
+    }
+    if (requestedRole === 'admin' && await User.exists({})) {
+      return res.status(403).json({ message: 'Only an administrator can grant the admin role' });
+    }
+
+    // Hash password
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(password, salt);
+
+    // Create new user
+    const newUser = new User({
+      name,
+      email,
+      password: hashedPassword,
+      role: requestedRole,
+      avatar: 'https://github.com/shadcn.png'
+    });
+
+    // Save user
+    const savedUser = await newUser.save();
+
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'user',
+      entityId: savedUser._id,
+      after: savedUser,
+      summary: `Registered user ${savedUser.email}`,
+      actor: {
+        id: savedUser._id.toString(),
+        name: savedUser.name,
+        email: savedUser.email,
+        role: savedUser.role
+      }
+    });
+
+    // Sign the new user in straight away
+    const tokens = await issueTokens(savedUser);
+
+    // Return user data without password
+    res.status(201).json({
+      user: {
+        id: savedUser._id,
+        name: savedUser.name,
+        email: savedUser.email,
+        role: savedUser.role,
+        avatar: savedUser.avatar
+      },
+      ...tokens
+    });
+  } catch (error) {
+    console.error('Error registering user:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Login User
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    // Find user
+    const user = await User.findOne({ email });
+    if (!user) {
+      return res.status(400).json({ message: 'Invalid email or password' });
+    }
+
+    // Verify password
+    const isMatch = await bcrypt.compare(password, user.password);
+    if (!isMatch) {
+      return res.status(400).json({ message: 'Invalid email or password' });
+    }
+
+    // Issue access and refresh tokens
+    const tokens = await issueTokens(user);
+
+    // Return user data without password
+    res.json({
+      user: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        avatar: user.avatar
+      },
+      ...tokens
+    });
+  } catch (error) {
+    console.error('Error logging in user:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Refresh access token
+app.post('/api/auth/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ message: 'Refresh token is required' });
+    }
+
+    // Verify signature and expiry
+    const decoded = verifyRefreshToken(refreshToken);
+    if (!decoded) {
+      return res.status(401).json({ message: 'Invalid refresh token' });
+    }
+
+    // Rotate: revoking the stored token in the same step as checking it means each refresh
+    // token can only be used once, even by two refreshes sent together
+    const storedToken = await RefreshToken.findOneAndUpdate(
+      { tokenId: decoded.jti, user: decoded.sub, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+    if (!storedToken) {
+      return res.status(401).json({ message: 'Refresh token has been revoked' });
+    }
+
+    const user = await User.findById(decoded.sub);
+    if (!user) {
+      return res.status(401).json({ message: 'User not found' });
+    }
+
+    const tokens = await issueTokens(user);
+
+    res.json(tokens);
+  } catch (error) {
+    console.error('Error refreshing token:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Logout User
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    // Revoke the refresh token if it is still valid; logging out is idempotent
+    // Expired or malformed tokens are already unusable
+    const decoded = refreshToken ? verifyRefreshToken(refreshToken) : null;
+    if (decoded) {
+      await RefreshToken.updateOne(
+        { tokenId: decoded.jti, user: decoded.sub, revokedAt: null },
+        { revokedAt: new Date() }
+      );
+    }
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Error logging out user:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get all users
+app.get('/api/users', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const users = await User.find({}, '-password');
+    
+    res.json(users.map(user => ({
+      id: user._id,
       name: user.name,
       email: user.email,
       role: user.role,
       avatar: user.avatar
     })));
   } catch (error) {
-    console.error('Error getting users:', error);
+    console.error('Error getting users:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update user role
+app.put('/api/users/:id/role', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    // Validate role
+    if (!['admin', 'staff', 'guest'].includes(role)) {
+      return res.status(400).json({ message: 'Invalid role' });
+    }
+
+    const previousUser = await User.findById(id, '-password');
+
+    // Update user
+    const updatedUser = await User.findByIdAndUpdate(
+      id,
+      { role },
+      { new: true, select: '-password' }
+    );
+
+    if (!updatedUser) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'user',
+      entityId: updatedUser._id,
+      before: previousUser,
+      after: updatedUser,
+      summary: `Changed role of ${updatedUser.email} to ${updatedUser.role}`
+    });
+
+    res.json({
+      id: updatedUser._id,
+      name: updatedUser.name,
+      email: updatedUser.email,
+      role: updatedUser.role,
+      avatar: updatedUser.avatar
+    });
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// PRODUCT API ENDPOINTS
+
+// What a product has at each location it is kept at
+const formatStockByLocation = (product) => product.stockByLocation.map(entry => ({
+  location: entry.location,
+  stock: entry.stock,
+  reorderLevel: entry.reorderLevel
+}));
+
+// Get all products
+app.get('/api/products', requirePermission('inventory:read'), async (req, res) => {
+  try {
+    const { query, category } = req.query;
+    
+    // Stock from before there were locations is put at the default one before it is listed
+    await getDefaultLocation();
+    
+    // Build filter
+    const filter = {};
+    
+    // Add search by name or barcode if query present
+    if (query) {
+      filter.$or = [
+        { name: { $regex: query, $options: 'i' } }, // Case-insensitive search
+        { barcode: { $regex: query, $options: 'i' } }
+      ];
+    }
+    
+    // Add category filter if present and not 'all'
+    if (category && category !== 'all') {
+      filter.category = category;
+    }
+    
+    // Fetch products with filter
+    const products = await Product.find(filter);
+    
+    // Return formatted products
+    res.json(products.map(product => ({
+      id: product._id,
+      name: product.name,
+      barcode: product.barcode,
+      category: product.category,
+      price: product.price,
+      costPrice: product.costPrice,
+      stock: product.stock,
+      stockByLocation: formatStockByLocation(product),
+      lots: formatLots(product),
+      imageUrl: product.imageUrl,
+      supplier: product.supplier,
+      reorderLevel: product.reorderLevel,
+      autoReorder: product.autoReorder,
+      targetStockLevel: product.targetStockLevel,
+      taxClass: product.taxClass,
+      createdAt: product.createdAt,
+      updatedAt: product.updatedAt
+    })));
+  } catch (error) {
+    console.error('Error getting products:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get product categories
+app.get('/api/products/categories', requirePermission('inventory:read'), async (req, res) => {
+  try {
+    // Aggregate products by category
+    const categoryCounts = await Product.aggregate([
+      { $group: { _id: '$category', count: { $sum: 1 } } },
+      { $sort: { count: -1 } },
+      { $project: { _id: 0, name: '$_id', count: 1 } }
+    ]);
+    
+    res.json(categoryCounts);
+  } catch (error) {
+    console.error('Error getting product categories:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Look up a scanned barcode. An exact match wins; otherwise a weighted-item label is
+// matched on its item code and comes back with the price (and weight) printed on it.
+app.get('/api/products/by-barcode/:code', requirePermission('inventory:read'), async (req, res) => {
+  try {
+    const code = String(req.params.code).trim();
+    
+    let product = await Product.findOne({ barcode: code });
+    const weighted = product ? null : parseWeightedBarcode(code);
+    if (weighted) {
+      product = await Product.findOne({ barcode: weighted.itemCode });
+    }
+    
+    if (!product) {
+      return res.status(404).json({ message: `No product has the barcode ${code}` });
+    }
+    
+    let supplierName = '';
+    if (product.supplier) {
+      const supplier = await Supplier.findById(product.supplier);
+      if (supplier) {
+        supplierName = supplier.name;
+      }
+    }
+    
+    res.json({
+      barcode: code,
+      product: {
+        id: product._id,
+        name: product.name,
+        barcode: product.barcode,
+        category: product.category,
+        price: product.price,
+        costPrice: product.costPrice,
+        stock: product.stock,
+        stockByLocation: formatStockByLocation(product),
+        lots: formatLots(product),
+        imageUrl: product.imageUrl,
+        supplier: supplierName,
+        reorderLevel: product.reorderLevel,
+        autoReorder: product.autoReorder,
+        targetStockLevel: product.targetStockLevel,
+        taxClass: product.taxClass,
+        createdAt: product.createdAt,
+        updatedAt: product.updatedAt
+      },
+      price: weighted ? getWeightedPrice({ barcode: code }, product) : product.price,
+      weight: weighted?.weight
+    });
+  } catch (error) {
+    console.error('Error looking up barcode:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get product by ID
+app.get('/api/products/:id', requirePermission('inventory:read'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    // Skip if the ID is 'categories' as it's handled by a different route
+    if (id === 'categories') {
+      return res.status(404).json({ message: 'Invalid product ID' });
+    }
+    
+    const product = await Product.findById(id);
+    
+    if (!product) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+    
+    // Get supplier name if available
+    let supplierName = '';
+    if (product.supplier) {
+      const SupplierModel = mongoose.model('Supplier');
+      const supplier = await SupplierModel.findById(product.supplier);
+      if (supplier) {
+        supplierName = supplier.name;
+      }
+    }
+    
+    res.json({
+      id: product._id,
+      name: product.name,
+      barcode: product.barcode,
+      category: product.category,
+      price: product.price,
+      costPrice: product.costPrice,
+      stock: product.stock,
+      stockByLocation: formatStockByLocation(product),
+      lots: formatLots(product),
+      imageUrl: product.imageUrl,
+      supplier: supplierName,
+      reorderLevel: product.reorderLevel,
+      autoReorder: product.autoReorder,
+      targetStockLevel: product.targetStockLevel,
+      taxClass: product.taxClass,
+      createdAt: product.createdAt,
+      updatedAt: product.updatedAt
+    });
+  } catch (error) {
+    console.error('Error getting product:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Create new product
+app.post('/api/products', requirePermission('inventory:write'), async (req, res) => {
+  try {
+    const productData = req.body;
+    
+    console.log('Creating product with data:', JSON.stringify({
+      ...productData,
+      supplier: productData.supplier === '' ? 'EMPTY STRING' : productData.supplier
+    }));
+    
+    // Handle supplier field properly
+    if (productData.hasOwnProperty('supplier')) {
+      // If supplier is empty string, null, or undefined, try to use default supplier
+      if (!productData.supplier || productData.supplier === '' || productData.supplier === 'null') {
+        console.log('Finding default supplier');
+        try {
+          const defaultSupplier = await Supplier.findOne({ name: 'Default Supplier' });
+          if (defaultSupplier) {
+            console.log(`Using default supplier with ID: ${defaultSupplier._id}`);
+            productData.supplier = defaultSupplier._id;
+          } else {
+            console.log('No default supplier found, setting to null');
+            productData.supplier = null;
+          }
+        } catch (defaultSupplierError) {
+          console.error('Error finding default supplier:', defaultSupplierError);
+          productData.supplier = null;
+        }
+      } else if (typeof productData.supplier === 'string') {
+        // If it's a non-empty string, try to find the supplier by name
+        try {
+          const SupplierModel = mongoose.model('Supplier');
+          const supplier = await SupplierModel.findOne({ name: productData.supplier });
+          
+          if (supplier) {
+            console.log(`Found supplier: ${supplier.name} with ID: ${supplier._id}`);
+            productData.supplier = supplier._id;
+          } else {
+            console.log(`Supplier not found with name: ${productData.supplier}, using default`);
+            // Try to use default supplier
+            const defaultSupplier = await Supplier.findOne({ name: 'Default Supplier' });
+            if (defaultSupplier) {
+              console.log(`Using default supplier with ID: ${defaultSupplier._id}`);
+              productData.supplier = defaultSupplier._id;
+            } else {
+              productData.supplier = null;
+            }
+          }
+        } catch (supplierError) {
+          console.error('Error finding supplier:', supplierError);
+          productData.supplier = null;
+        }
+      }
+    } else {
+      // If supplier is not provided, use default supplier
+      try {
+        const defaultSupplier = await Supplier.findOne({ name: 'Default Supplier' });
+        if (defaultSupplier) {
+          console.log(`Adding default supplier with ID: ${defaultSupplier._id}`);
+          productData.supplier = defaultSupplier._id;
+        }
+      } catch (error) {
+        console.error('Error finding default supplier:', error);
+      }
+    }
+    
+    // Opening stock is booked through the ledger once the product exists, at the location named
+    const openingStock = Number(productData.stock) || 0;
+    const location = await findLocation(productData.location);
+    if (!location) {
+      return res.status(400).json({ message: 'Location not found' });
+    }
+    delete productData.location;
+    
+    // Create and save the product
+    const product = new Product({ ...productData, stock: 0, stockByLocation: [], lots: [] });
+    let savedProduct = await product.save();
+    
+    if (openingStock > 0) {
+      const result = await applyStockMovement({
+        productId: savedProduct._id,
+        location: location._id,
+        quantity: openingStock,
+        type: 'adjustment',
+        reference: { kind: 'Product', id: savedProduct._id },
+        note: 'Opening stock',
+        actor: req.user
+      });
+      savedProduct = result.product;
+    }
+    
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'product',
+      entityId: savedProduct._id,
+      after: savedProduct,
+      summary: `Created product ${savedProduct.name}`
+    });
+    
+    // If there's a supplier, add this product to the supplier's products array
+    if (savedProduct.supplier) {
+      const SupplierModel = mongoose.model('Supplier');
+      await SupplierModel.findByIdAndUpdate(
+        savedProduct.supplier,
+        { $addToSet: { products: savedProduct._id } }
+      );
+    }
+    
+    // Get supplier name for response
+    let supplierName = '';
+    if (savedProduct.supplier) {
+      const supplier = await Supplier.findById(savedProduct.supplier);
+      if (supplier) {
+        supplierName = supplier.name;
+      }
+    }
+    
+    res.status(201).json({
+      id: savedProduct._id,
+      name: savedProduct.name,
+      barcode: savedProduct.barcode,
+      category: savedProduct.category,
+      price: savedProduct.price,
+      costPrice: savedProduct.costPrice,
+      stock: savedProduct.stock,
+      stockByLocation: formatStockByLocation(savedProduct),
+      lots: formatLots(savedProduct),
+      imageUrl: savedProduct.imageUrl,
+      supplier: supplierName,
+      reorderLevel: savedProduct.reorderLevel,
+      autoReorder: savedProduct.autoReorder,
+      targetStockLevel: savedProduct.targetStockLevel,
+      taxClass: savedProduct.taxClass,
+      createdAt: savedProduct.createdAt,
+      updatedAt: savedProduct.updatedAt
+    });
+  } catch (error) {
+    console.error('Error creating product:', error);
+    
+    // Add better error diagnostics
+    if (error.name === 'ValidationError') {
+      // Check for specific validation errors
+      const errorMessages = {};
+      for (const field in error.errors) {
+        errorMessages[field] = {
+          message: error.errors[field].message,
+          kind: error.errors[field].kind,
+          value: error.errors[field].value
+        };
+      }
+      return res.status(400).json({ 
+        message: 'Validation error', 
+        fieldErrors: errorMessages 
+      });
+    }
+    
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update product
+app.put('/api/products/:id', requirePermission('inventory:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const updateData = req.body;
+    
+    console.log('Updating product:', id);
+    console.log('Update data:', JSON.stringify({
+      ...updateData,
+      supplier: updateData.supplier === '' ? 'EMPTY STRING' : updateData.supplier
+    }));
+    
+    // Find the current product to get the previous supplier if there is one
+    const currentProduct = await Product.findById(id);
+    
+    if (!currentProduct) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+    
+    const previousSupplierId = currentProduct.supplier;
+    
+    // Handle supplier field properly
+    if (updateData.hasOwnProperty('supplier')) {
+      // If supplier is empty string, null, or undefined, try to use default supplier
+      if (!updateData.supplier || updateData.supplier === '' || updateData.supplier === 'null') {
+        console.log('Finding default supplier');
+        try {
+          const defaultSupplier = await Supplier.findOne({ name: 'Default Supplier' });
+          if (defaultSupplier) {
+            console.log(`Using default supplier with ID: ${defaultSupplier._id}`);
+            updateData.supplier = defaultSupplier._id;
+          } else {
+            console.log('No default supplier found, setting to null');
+            updateData.supplier = null;
+          }
+        } catch (defaultSupplierError) {
+          console.error('Error finding default supplier:', defaultSupplierError);
+          updateData.supplier = null;
+        }
+      } else if (typeof updateData.supplier === 'string') {
+        // If it's a non-empty string, try to find the supplier by name
+        try {
+          const SupplierModel = mongoose.model('Supplier');
+          const supplier = await SupplierModel.findOne({ name: updateData.supplier });
+          
+          if (supplier) {
+            console.log(`Found supplier: ${supplier.name} with ID: ${supplier._id}`);
+            updateData.supplier = supplier._id;
+          } else {
+            console.log(`Supplier not found with name: ${updateData.supplier}, using default`);
+            // Try to use default supplier
+            const defaultSupplier = await Supplier.findOne({ name: 'Default Supplier' });
+            if (defaultSupplier) {
+              console.log(`Using default supplier with ID: ${defaultSupplier._id}`);
+              updateData.supplier = defaultSupplier._id;
+            } else {
+              updateData.supplier = null;
+            }
+          }
+        } catch (supplierError) {
+          console.error('Error finding supplier:', supplierError);
+          updateData.supplier = null;
+        }
+      }
+    }
+    
+    // An empty tax class means "use the default class"
+    if (updateData.hasOwnProperty('taxClass') && !updateData.taxClass) {
+      updateData.taxClass = null;
+    }
+    
+    // Stock is never written here: it only changes through the ledger, and an adjustment needs
+    // a reason. An unchanged `stock` (at `location` if given, otherwise the total) is let through.
+    const requestedStock = updateData.hasOwnProperty('stock') ? Number(updateData.stock) : null;
+    const stockLocation = await findLocation(updateData.location);
+    const locationReorderLevels = updateData.locationReorderLevels;
+    const adjustsLocation = Boolean(updateData.location);
+    delete updateData.stock;
+    delete updateData.stockByLocation;
+    delete updateData.lots;
+    delete updateData.location;
+    delete updateData.locationReorderLevels;
+    
+    if (!stockLocation) {
+      return res.status(400).json({ message: 'Location not found' });
+    }
+    
+    const currentStock = adjustsLocation ? getLocationStock(currentProduct, stockLocation._id) : currentProduct.stock;
+    if (requestedStock !== null && requestedStock !== currentStock) {
+      return res.status(400).json({
+        message: `Stock can't be changed by editing the product; record an adjustment with its reason at POST /api/products/${id}/adjustments`,
+        code: 'use-adjustment'
+      });
+    }
+    
+    if (locationReorderLevels !== undefined && (
+      typeof locationReorderLevels !== 'object' || locationReorderLevels === null ||
+      Object.entries(locationReorderLevels).some(([locationId, level]) =>
+        !mongoose.Types.ObjectId.isValid(locationId) ||
+        (level !== null && (!Number.isInteger(level) || level < 0)))
+    )) {
+      return res.status(400).json({ message: 'Reorder levels must be non-negative whole numbers, keyed by location' });
+    }
+    
+    if (locationReorderLevels) {
+      const locationIds = Object.keys(locationReorderLevels);
+      if (await Location.countDocuments({ _id: { $in: locationIds } }) !== locationIds.length) {
+        return res.status(400).json({ message: 'Location not found' });
+      }
+    }
+    
+    // Update the product
+    let updatedProduct = await Product.findByIdAndUpdate(
+      id,
+      updateData,
+      { new: true, runValidators: true }
+    );
+    
+    if (!updatedProduct) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+    
+    // A null level goes back to using the product's own reorder level at that location
+    if (locationReorderLevels) {
+      for (const [locationId, level] of Object.entries(locationReorderLevels)) {
+        await Product.updateOne(
+          { _id: updatedProduct._id, 'stockByLocation.location': { $ne: locationId } },
+          { $push: { stockByLocation: { location: locationId, stock: 0 } } }
+        );
+        await Product.updateOne(
+          { _id: updatedProduct._id, 'stockByLocation.location': locationId },
+          level === null
+            ? { $unset: { 'stockByLocation.$.reorderLevel': '' } }
+            : { $set: { 'stockByLocation.$.reorderLevel': level } }
+        );
+      }
+      updatedProduct = await Product.findById(updatedProduct._id);
+    }
+    
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'product',
+      entityId: updatedProduct._id,
+      before: currentProduct,
+      after: updatedProduct,
+      summary: `Updated product ${updatedProduct.name}`
+    });
+    
+    // Handle supplier product list updates
+    const SupplierModel = mongoose.model('Supplier');
+    
+    // 1. If there was a previous supplier, remove product from its list
+    if (previousSupplierId && (!updatedProduct.supplier || !previousSupplierId.equals(updatedProduct.supplier))) {
+      await SupplierModel.findByIdAndUpdate(
+        previousSupplierId,
+        { $pull: { products: id } }
+      );
+    }
+    
+    // 2. If there is a new supplier, add product to its list
+    if (updatedProduct.supplier && (!previousSupplierId || !previousSupplierId.equals(updatedProduct.supplier))) {
+      await SupplierModel.findByIdAndUpdate(
+        updatedProduct.supplier,
+        { $addToSet: { products: id } }
+      );
+    }
+    
+    // Get supplier name for response
+    let supplierName = '';
+    if (updatedProduct.supplier) {
+      const supplier = await SupplierModel.findById(updatedProduct.supplier);
+      if (supplier) {
+        supplierName = supplier.name;
+      }
+    }
+    
+    res.json({
+      id: updatedProduct._id,
+      name: updatedProduct.name,
+      barcode: updatedProduct.barcode,
+      category: updatedProduct.category,
+      price: updatedProduct.price,
+      costPrice: updatedProduct.costPrice,
+      stock: updatedProduct.stock,
+      stockByLocation: formatStockByLocation(updatedProduct),
+      lots: formatLots(updatedProduct),
+      imageUrl: updatedProduct.imageUrl,
+      supplier: supplierName,
+      reorderLevel: updatedProduct.reorderLevel,
+      autoReorder: updatedProduct.autoReorder,
+      targetStockLevel: updatedProduct.targetStockLevel,
+      taxClass: updatedProduct.taxClass,
+      createdAt: updatedProduct.createdAt,
+      updatedAt: updatedProduct.updatedAt
+    });
+  } catch (error) {
+    console.error('Error updating product:', error);
+    
+    // Add better error diagnostics
+    if (error.name === 'ValidationError') {
+      // Check for specific validation errors
+      const errorMessages = {};
+      for (const field in error.errors) {
+        errorMessages[field] = {
+          message: error.errors[field].message,
+          kind: error.errors[field].kind,
+          value: error.errors[field].value
+        };
+      }
+      return res.status(400).json({ 
+        message: 'Validation error', 
+        fieldErrors: errorMessages 
+      });
+    }
+    
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Delete product
+app.delete('/api/products/:id', requirePermission('inventory:delete'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    const deletedProduct = await Product.findByIdAndDelete(id);
+    
+    if (!deletedProduct) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+    
+    await recordAudit(req, {
+      action: 'delete',
+      entity: 'product',
+      entityId: deletedProduct._id,
+      before: deletedProduct,
+      summary: `Deleted product ${deletedProduct.name}`
+    });
+    
+    res.json({ message: 'Product deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting product:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get stock movement history for a product
+app.get('/api/products/:id/movements', requirePermission('inventory:read'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid product ID' });
+    }
+    
+    const limit = Math.min(Number(req.query.limit) || 100, 500);
+    const movements = await StockMovement.find({ product: id })
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(limit)
+      .populate('location', 'name')
+      .lean();
+    
+    res.json(movements.map(movement => ({
+      id: movement._id,
+      productId: movement.product,
+      type: movement.type,
+      quantity: movement.quantity,
+      balanceAfter: movement.balanceAfter,
+      location: movement.location?._id,
+      locationName: movement.location?.name,
+      locationBalanceAfter: movement.locationBalanceAfter,
+      reference: movement.reference,
+      note: movement.note,
+      reason: movement.reason,
+      unitCost: movement.unitCost,
+      actor: movement.actor,
+      timestamp: movement.timestamp
+    })));
+  } catch (error) {
+    console.error('Error getting stock movements:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Adjust a product's stock at a location for a reason: write off damaged, stolen, expired
+// or used stock, or book stock that turned up. `quantity` is how many units, always positive.
+app.post('/api/products/:id/adjustments', requirePermission('inventory:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { reason, quantity, note } = req.body;
+    
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid product ID' });
+    }
+    if (!ADJUSTMENT_REASONS.includes(reason)) {
+      return res.status(400).json({ message: `Reason must be one of ${ADJUSTMENT_REASONS.join(', ')}` });
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return res.status(400).json({ message: 'Quantity must be a whole number of at least 1' });
+    }
+    
+    const product = await Product.findById(id);
+    if (!product) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+    const location = await findLocation(req.body.location);
+    if (!location) {
+      return res.status(400).json({ message: 'Location not found' });
+    }
+    
+    // Stock that isn't on the shelf can't be written off
+    const isWriteOff = reason !== 'found';
+    const { product: updatedProduct, movement } = await applyStockMovement({
+      productId: product._id,
+      location: location._id,
+      quantity: isWriteOff ? -quantity : quantity,
+      type: 'adjustment',
+      reference: { kind: 'Product', id: product._id },
+      note: typeof note === 'string' && note.trim() ? note.trim() : undefined,
+      reason,
+      unitCost: product.costPrice || 0,
+      actor: req.user,
+      requireAvailable: isWriteOff
+    });
+    
+    const value = roundCurrency(quantity * (product.costPrice || 0));
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'product',
+      entityId: product._id,
+      summary: `${isWriteOff ? 'Wrote off' : 'Found'} ${quantity} x ${product.name} at ${location.name} (${reason}, ₹${value.toFixed(2)} at cost)`
+    });
+    
+    res.status(201).json({
+      movement: {
+        id: movement._id,
+        productId: movement.product,
+        type: movement.type,
+        quantity: movement.quantity,
+        balanceAfter: movement.balanceAfter,
+        location: location._id,
+        locationName: location.name,
+        locationBalanceAfter: movement.locationBalanceAfter,
+        reference: movement.reference,
+        note: movement.note,
+        reason: movement.reason,
+        unitCost: movement.unitCost,
+        actor: movement.actor,
+        timestamp: movement.timestamp
+      },
+      stock: updatedProduct.stock,
+      stockByLocation: formatStockByLocation(updatedProduct),
+      lots: formatLots(updatedProduct)
+    });
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      return res.status(400).json({
+        message: error.message,
+        code: 'insufficient-stock',
+        productId: error.productId,
+        available: error.available,
+        requested: error.requested
+      });
+    }
+    console.error('Error adjusting stock:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Shrinkage: stock written off with a reason, valued at cost, by reason, by category and
+// by month. Stock found is reported alongside so the net loss can be seen.
+app.get('/api/stock/shrinkage', requirePermission('inventory:read'), async (req, res) => {
+  try {
+    const match = { type: 'adjustment', reason: { $in: ADJUSTMENT_REASONS } };
+    
+    const from = req.query.from ? new Date(req.query.from) : null;
+    const to = req.query.to ? new Date(req.query.to) : null;
+    if ((from && isNaN(from)) || (to && isNaN(to))) {
+      return res.status(400).json({ message: 'Invalid date range' });
+    }
+    if (from || to) {
+      match.timestamp = {};
+      if (from) match.timestamp.$gte = from;
+      if (to) match.timestamp.$lte = to;
+    }
+    if (req.query.location) {
+      const location = await findLocation(req.query.location);
+      if (!location) {
+        return res.status(400).json({ message: 'Location not found' });
+      }
+      match.location = location.isDefault ? { $in: [location._id, null] } : location._id;
+    }
+    
+    const movements = await StockMovement.aggregate([
+      { $match: match },
+      { $lookup: { from: 'products', localField: 'product', foreignField: '_id', as: 'product' } },
+      {
+        $project: {
+          reason: 1,
+          category: { $ifNull: [{ $arrayElemAt: ['$product.category', 0] }, 'Uncategorized'] },
+          // The store's month, so an adjustment early on the 1st isn't counted in the month before
+          month: { $dateToString: { format: '%Y-%m', date: '$timestamp', timezone: STORE_TIMEZONE } },
+          units: { $abs: '$quantity' },
+          cost: { $multiply: [{ $abs: '$quantity' }, { $ifNull: ['$unitCost', 0] }] }
+        }
+      }
+    ]);
+    
+    // Write-offs and finds per group, with the net loss at cost
+    const summarize = (keyOf) => {
+      const groups = new Map();
+      movements.forEach(movement => {
+        const key = keyOf(movement);
+        const group = groups.get(key) || { key, writtenOffUnits: 0, writtenOffCost: 0, foundUnits: 0, foundCost: 0 };
+        if (movement.reason === 'found') {
+          group.foundUnits += movement.units;
+          group.foundCost += movement.cost;
+        } else {
+          group.writtenOffUnits += movement.units;
+          group.writtenOffCost += movement.cost;
+        }
+        groups.set(key, group);
+      });
+      return [...groups.values()].map(group => ({
+        ...group,
+        writtenOffCost: roundCurrency(group.writtenOffCost),
+        foundCost: roundCurrency(group.foundCost),
+        netCost: roundCurrency(group.writtenOffCost - group.foundCost)
+      }));
+    };
+    
+    const [totals] = summarize(() => 'all');
+    res.json({
+      totals: totals || { key: 'all', writtenOffUnits: 0, writtenOffCost: 0, foundUnits: 0, foundCost: 0, netCost: 0 },
+      byReason: summarize(movement => movement.reason)
+        .sort((a, b) => ADJUSTMENT_REASONS.indexOf(a.key) - ADJUSTMENT_REASONS.indexOf(b.key)),
+      byCategory: summarize(movement => movement.category).sort((a, b) => b.netCost - a.netCost),
+      byMonth: summarize(movement => movement.month).sort((a, b) => a.key.localeCompare(b.key))
+    });
+  } catch (error) {
+    console.error('Error getting shrinkage report:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Rebuild Product.stock, its stock by location and its lots from the stock ledger (one product, or all when no productId is given)
+app.post('/api/stock/rebuild', requirePermission('inventory:write'), async (req, res) => {
+  try {
+    const { productId } = req.body;
+    
+    if (productId && !mongoose.Types.ObjectId.isValid(productId)) {
+      return res.status(400).json({ message: 'Invalid product ID' });
+    }
+    
+    const productIds = productId
+      ? [productId]
+      : (await Product.find({}, '_id').lean()).map(product => product._id);
+    
+    const results = [];
+    for (const id of productIds) {
+      const result = await rebuildStockFromLedger(id);
+      if (result) {
+        results.push(result);
+      }
+    }
+    
+    if (productId && results.length === 0) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+    
+    res.json({
+      rebuilt: results.length,
+      corrected: results.filter(result => result.previousStock !== result.stock)
+    });
+  } catch (error) {
+    console.error('Error rebuilding stock from ledger:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Sales API endpoints
+// Get all sales
+app.get('/api/sales', requirePermission('sales:read'), async (req, res) => {
+  try {
+    const filter = {};
+    
+    // Filter by date range if provided
+    if (req.query.startDate && req.query.endDate) {
+      filter.timestamp = {
+        $gte: new Date(req.query.startDate),
+        $lte: new Date(req.query.endDate)
+      };
+    }
+    
+    // Filter by payment method if provided - split sales match any tender they include
+    if (req.query.paymentMethod) {
+      filter.$or = [
+        { paymentMethod: req.query.paymentMethod },
+        { 'payments.method': req.query.paymentMethod }
+      ];
+    }
+    
+    // Filter by channel if provided
+    if (req.query.channel) {
+      filter.channel = req.query.channel;
+    }
+    
+    // Filter by void status if provided
+    if (req.query.status === 'voided') {
+      filter.voided = true;
+    } else if (req.query.status === 'completed') {
+      filter.voided = { $ne: true };
+    }
+    
+    // Filter by linked customer account if provided
+    if (req.query.customer) {
+      if (!mongoose.Types.ObjectId.isValid(req.query.customer)) {
+        return res.status(400).json({ message: 'Invalid customer ID format' });
+      }
+      filter.customer = req.query.customer;
+    }
+    
+    // Filter by customer name if provided
+    if (req.query.customerName) {
+      filter.customerName = { $regex: req.query.customerName, $options: 'i' };
+    }
+    
+    const sales = await Sale.find(filter)
+      .populate('products.product', 'name category price barcode stock costPrice')
+      .sort({ timestamp: -1 });
+    
+    const refundTotals = await getRefundTotals(sales.map(sale => sale._id));
+    
+    // Ensure each sale has product information and valid IDs for client
+    const formattedSales = sales.map(sale => {
+      const saleObj = sale.toObject();
+      return {
+        ...saleObj,
+        id: saleObj._id, // Ensure there's always an id property
+        refundedAmount: refundTotals.get(String(saleObj._id)) || 0,
+        products: saleObj.products.map(product => ({
+          ...product,
+          product: {
+            id: product.product?._id || 'unknown-id',
+            name: product.productSnapshot?.name || product.product?.name || 'Unknown Product',
+            ...product.product,
+          }
+        }))
+      };
+    });
+    
+    res.json(formattedSales);
+  } catch (error) {
+    console.error('Error getting sales:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get sale by ID
+app.get('/api/sales/:id', requirePermission('sales:read'), async (req, res) => {
+  try {
+    const sale = await Sale.findById(req.params.id)
+      .populate('products.product', 'name category price barcode stock costPrice');
+    
+    if (!sale) {
+      return res.status(404).json({ message: 'Sale not found' });
+    }
+    
+    const refundTotals = await getRefundTotals([sale._id]);
+    
+    // Format the sale for the client
+    const saleObj = sale.toObject();
+    const formattedSale = {
+      ...saleObj,
+      id: saleObj._id, // Ensure there's always an id property
+      refundedAmount: refundTotals.get(String(saleObj._id)) || 0,
+      products: saleObj.products.map(product => ({
+        ...product,
+        product: {
+          id: product.product?._id || 'unknown-id',
+          name: product.productSnapshot?.name || product.product?.name || 'Unknown Product',
+          ...product.product,
+        }
+      }))
+    };
+    
+    res.json(formattedSale);
+  } catch (error) {
+    console.error('Error getting sale:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Create new sale
+app.post('/api/sales', requirePermission('sales:create'), idempotent('sales:create'), async (req, res) => {
+  try {
+    const allowNegativeStock = req.body.allowNegativeStock === true;
+    
+    // Overriding the stock check is a stock correction, so it needs the right to make one
+    if (allowNegativeStock && !roleHasPermission(req.user.role, 'inventory:write')) {
+      return res.status(403).json({ message: 'Only staff who can edit inventory can sell past the stock on hand' });
+    }
+    
+    // A sale paid through a provider is recorded from the bill its payment was opened for,
+    // and only once the provider says it has been paid; the request's own bill is ignored
+    if (req.body.paymentIntentId !== undefined) {
+      const intent = typeof req.body.paymentIntentId === 'string'
+        ? await PaymentIntent.findOne({ paymentIntentId: req.body.paymentIntentId })
+        : null;
+      if (!intent) {
+        return res.status(400).json({ message: 'Unknown payment' });
+      }
+      
+      const provider = PAYMENT_PROVIDERS[intent.provider];
+      if (intent.status === 'pending' && provider.isAvailable()) {
+        intent.status = await provider.getStatus(intent);
+      }
+      if (intent.status !== 'succeeded' && !intent.sale) {
+        return res.status(400).json({ message: 'The payment has not been made' });
+      }
+      
+      const existing = intent.sale ? await Sale.findById(intent.sale) : null;
+      const completed = existing ? { sale: existing, created: false } : await completePaymentIntent(intent, req.user);
+      if (!completed) {
+        return res.status(400).json({ message: intent.failureMessage });
+      }
+      return res.status(completed.created ? 201 : 200).json(formatRecordedSale(completed.sale));
+    }
+    
+    // The cashier is whoever is signed in. A sale rung up offline names the cashier it was
+    // rung up by, since someone else may be signed in by the time it is sent; recordSale
+    // only keeps that cashier if it checks out against the shift.
+    const cashier = req.body.offline && req.body.employeeId
+      ? { employeeId: String(req.body.employeeId), employeeName: req.body.employeeName }
+      : { employeeId: String(req.user.id), employeeName: req.user.name };
+    
+    const { sale, created } = await recordSale({ ...req.body, ...cashier }, req.user, { allowNegativeStock });
+    
+    // A sale already recorded on an earlier attempt comes back as it was saved
+    res.status(created ? 201 : 200).json(formatRecordedSale(sale));
+  } catch (error) {
+    // Stock conflicts are told apart so a till syncing offline sales can offer to resolve them
+    if (error instanceof InsufficientStockError) {
+      return res.status(400).json({
+        message: error.message,
+        code: 'insufficient-stock',
+        productId: error.productId,
+        available: error.available,
+        requested: error.requested
+      });
+    }
+    if (error instanceof SaleValidationError || error instanceof PromotionError || error instanceof PaymentError ||
+      error instanceof ShiftError || error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error creating sale:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Quote a bill - the same discounts and tax a sale would get, without saving anything
+app.post('/api/sales/quote', requirePermission('sales:create'), async (req, res) => {
+  try {
+    const { products, couponCode } = req.body;
+    
+    if (!Array.isArray(products)) {
+      return res.status(400).json({ message: 'Products are required' });
+    }
+    
+    const productIds = products.map(item => String(item.product?.id || item.product?._id || item.product));
+    if (productIds.some(productId => !mongoose.Types.ObjectId.isValid(productId))) {
+      return res.status(400).json({ message: 'Invalid product ID format' });
+    }
+    
+    const found = await Product.find({ _id: { $in: productIds } });
+    const productsById = new Map(found.map(product => [String(product._id), product]));
+    
+    const lines = [];
+    for (const [index, item] of products.entries()) {
+      const product = productsById.get(productIds[index]);
+      if (!product) {
+        return res.status(400).json({ message: `Product with ID ${productIds[index]} not found` });
+      }
+      lines.push({
+        product: product._id,
+        productSnapshot: { name: product.name, category: product.category },
+        quantity: item.quantity,
+        priceAtSale: getWeightedPrice(item, product) ?? product.price,
+        taxClass: product.taxClass
+      });
+    }
+    
+    // A bad coupon still returns the bill without it, so the panel can keep showing totals
+    let quote;
+    let couponError;
+    try {
+      quote = await priceSale(lines, { couponCode });
+    } catch (error) {
+      if (!(error instanceof PromotionError)) throw error;
+      couponError = error.message;
+      quote = await priceSale(lines);
+    }
+    
+    res.json({
+      lines: quote.lines.map(line => ({
+        productId: line.product,
+        quantity: line.quantity,
+        priceAtSale: line.priceAtSale,
+        discounts: line.discounts,
+        discountAmount: line.discountAmount,
+        tax: line.tax,
+        lineTotal: line.lineTotal
+      })),
+      subtotal: quote.subtotal,
+      discountTotal: quote.discountTotal,
+      taxTotal: quote.taxTotal,
+      totalAmount: quote.totalAmount,
+      taxBreakdown: quote.taxBreakdown,
+      pricesIncludeTax: quote.pricesIncludeTax,
+      couponCode: quote.couponCode,
+      couponError
+    });
+  } catch (error) {
+    console.error('Error quoting sale:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Void sale - the sale is kept for the record but no longer counts towards revenue
+app.post('/api/sales/:id/void', requirePermission('sales:void'), async (req, res) => {
+  try {
+    const { reason } = req.body;
+    
+    if (!reason || !reason.trim()) {
+      return res.status(400).json({ message: 'A reason is required to void a sale' });
+    }
+    
+    const sale = await Sale.findById(req.params.id);
+    
+    if (!sale) {
+      return res.status(404).json({ message: 'Sale not found' });
+    }
+    
+    if (sale.voided) {
+      return res.status(400).json({ message: 'Sale is already voided' });
+    }
+    
+    const voidedSale = await voidSaleRecord(sale, reason.trim(), req.user);
+    
+    if (!voidedSale) {
+      return res.status(400).json({ message: 'Sale is already voided' });
+    }
+    
+    res.json({
+      id: voidedSale._id,
+      voided: voidedSale.voided,
+      voidedAt: voidedSale.voidedAt,
+      voidedBy: voidedSale.voidedBy,
+      voidReason: voidedSale.voidReason
+    });
+  } catch (error) {
+    console.error('Error voiding sale:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get sales analytics
+app.get('/api/sales/analytics/summary', requirePermission('sales:read'), async (req, res) => {
+  try {
+    // Voided sales, and any returns made against them, are left out of every figure
+    const activeSales = { voided: { $ne: true } };
+    const voidedSaleIds = await Sale.distinct('_id', { voided: true });
+    
+    // Get total revenue
+    const totalRevenue = await Sale.aggregate([
+      { $match: activeSales },
+      { $group: { _id: null, total: { $sum: '$totalAmount' } } }
+    ]);
+    
+    // Get total refunded through returns
+    const totalRefunds = await Return.aggregate([
+      { $match: { sale: { $nin: voidedSaleIds } } },
+      { $group: { _id: null, total: { $sum: '$refundAmount' } } }
+    ]);
+    
+    // Get sales by tender - split sales count each payment under its own method,
+    // sales from before split payments count their total under their payment method
+    const salesByPaymentMethod = await Sale.aggregate([
+      { $match: activeSales },
+      {
+        $project: {
+          tenders: {
+            $cond: [
+              { $gt: [{ $size: { $ifNull: ['$payments', []] } }, 0] },
+              '$payments',
+              [{ method: '$paymentMethod', amount: '$totalAmount' }]
+            ]
+          }
+        }
+      },
+      { $unwind: '$tenders' },
+      { $group: { _id: '$tenders.method', amount: { $sum: '$tenders.amount' } } }
+    ]);
+    
+    // Get sales by channel
+    const salesByChannel = await Sale.aggregate([
+      { $match: activeSales },
+      { $group: { _id: '$channel', amount: { $sum: '$totalAmount' } } }
+    ]);
+    
+    // Get total number of transactions
+    const totalTransactions = await Sale.countDocuments(activeSales);
+    
+    // Get total number of products sold
+    const productsSold = await Sale.aggregate([
+      { $match: activeSales },
+      { $unwind: '$products' },
+      { $group: { _id: null, count: { $sum: '$products.quantity' } } }
+    ]);
+    
+    // Get tax collected per rate, less tax given back on returns
+    const taxCollected = await Sale.aggregate([
+      { $match: activeSales },
+      { $unwind: '$taxBreakdown' },
+      { $group: {
+        _id: '$taxBreakdown.rate',
+        name: { $first: '$taxBreakdown.name' },
+        taxableAmount: { $sum: '$taxBreakdown.taxableAmount' },
+        taxAmount: { $sum: '$taxBreakdown.taxAmount' }
+      } }
+    ]);
+    const taxRefunded = await Return.aggregate([
+      { $match: { sale: { $nin: voidedSaleIds } } },
+      { $unwind: '$lines' },
+      { $group: { _id: '$lines.taxRate', taxAmount: { $sum: '$lines.taxAmount' } } }
+    ]);
+    const refundedByRate = new Map(taxRefunded.map(item => [item._id, item.taxAmount]));
+    
+    const grossRevenue = totalRevenue.length > 0 ? totalRevenue[0].total : 0;
+    const refunds = totalRefunds.length > 0 ? totalRefunds[0].total : 0;
+    
+    res.json({
+      // Revenue is reported net of returns
+      totalRevenue: grossRevenue - refunds,
+      grossRevenue,
+      totalRefunds: refunds,
+      salesByPaymentMethod: salesByPaymentMethod.map(item => ({
+        name: item._id,
+        value: item.amount
+      })),
+      salesByChannel: salesByChannel.map(item => ({
+        name: item._id,
+        value: item.amount
+      })),
+      taxByRate: taxCollected
+        .map(item => ({
+          name: item.name,
+          rate: item._id,
+          taxableAmount: item.taxableAmount,
+          taxAmount: roundCurrency(item.taxAmount - (refundedByRate.get(item._id) || 0))
+        }))
+        .sort((a, b) => a.rate - b.rate),
+      totalTransactions,
+      productsSold: productsSold.length > 0 ? productsSold[0].count : 0
+    });
+  } catch (error) {
+    console.error('Error getting sales analytics:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// PARKED BILL API ENDPOINTS
+
+// Format a parked bill for the client. Items carry the product's name for the list of
+// parked bills; the till prices them from its own catalogue when the bill is resumed.
+const formatParkedBill = (bill) => ({
+  id: bill._id,
+  label: bill.label,
+  items: bill.items.map(item => ({
+    productId: item.product?._id || item.product,
+    name: item.product?.name,
+    quantity: item.quantity,
+    barcode: item.barcode
+  })),
+  customer: bill.customer,
+  customerName: bill.customerName,
+  couponCode: bill.couponCode,
+  location: bill.location,
+  parkedBy: bill.parkedBy,
+  expiresAt: bill.expiresAt,
+  createdAt: bill.createdAt
+});
+
+// Get the parked bills that have not lapsed, newest first
+app.get('/api/parked-bills', requirePermission('sales:create'), async (req, res) => {
+  try {
+    const bills = await ParkedBill.find({ expiresAt: { $gt: new Date() } })
+      .populate('items.product', 'name')
+      .sort({ createdAt: -1 });
+    res.json(bills.map(formatParkedBill));
+  } catch (error) {
+    console.error('Error getting parked bills:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Park a bill, holding its items until it is resumed or lapses
+app.post('/api/parked-bills', requirePermission('sales:create'), async (req, res) => {
+  try {
+    // The stock check and the hold are one step, so two tills can't both park the last units
+    const session = await mongoose.startSession();
+    let bill;
+    try {
+      await session.withTransaction(async () => {
+        [bill] = await ParkedBill.create([{
+          ...await prepareParkedBill(req.body, session),
+          parkedBy: { id: req.user.id, name: req.user.name },
+          expiresAt: new Date(Date.now() + PARKED_BILL_TTL_HOURS * 60 * 60 * 1000)
+        }], { session });
+      });
+    } finally {
+      await session.endSession();
+    }
+    await bill.populate('items.product', 'name');
+    res.status(201).json(formatParkedBill(bill));
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      return res.status(400).json({
+        message: error.message,
+        code: 'insufficient-stock',
+        productId: error.productId,
+        available: error.available,
+        requested: error.requested
+      });
+    }
+    if (error instanceof ParkedBillValidationError || error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error parking bill:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Resume a parked bill. It is taken off the list in the same step, so two tills can't
+// both pick it up, and its items are no longer held.
+app.post('/api/parked-bills/:id/resume', requirePermission('sales:create'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ message: 'Parked bill not found' });
+    }
+
+    const bill = await ParkedBill.findOneAndDelete({ _id: req.params.id, expiresAt: { $gt: new Date() } })
+      .populate('items.product', 'name');
+
+    if (!bill) {
+      return res.status(404).json({ message: 'This bill has already been resumed, discarded or has lapsed' });
+    }
+
+    res.json(formatParkedBill(bill));
+  } catch (error) {
+    console.error('Error resuming parked bill:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Discard a parked bill, freeing its items
+app.delete('/api/parked-bills/:id', requirePermission('sales:create'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ message: 'Parked bill not found' });
+    }
+
+    const bill = await ParkedBill.findByIdAndDelete(req.params.id);
+
+    if (!bill) {
+      return res.status(404).json({ message: 'Parked bill not found' });
+    }
+
+    res.json({ message: 'Parked bill discarded' });
+  } catch (error) {
+    console.error('Error discarding parked bill:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// SHIFT API ENDPOINTS
+
+// Format a shift for the client
+const formatShift = (shift) => ({
+  id: shift._id,
+  till: shift.till,
+  tillName: shift.tillName,
+  status: shift.status,
+  openingFloat: shift.openingFloat,
+  openedBy: shift.openedBy,
+  openedAt: shift.openedAt,
+  cashMovements: shift.cashMovements.map(movement => ({
+    id: movement._id,
+    type: movement.type,
+    amount: movement.amount,
+    reason: movement.reason,
+    actor: movement.actor,
+    timestamp: movement.timestamp
+  })),
+  closedBy: shift.closedBy,
+  closedAt: shift.closedAt,
+  closingNote: shift.closingNote,
+  report: shift.report
+});
+
+// Read a non-negative amount of money from a request body
+const parseCashAmount = (value) => {
+  const amount = roundCurrency(Number(value));
+  return value !== '' && value !== null && Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+// Get recent shifts, optionally for one till or in one status
+app.get('/api/shifts', requirePermission('shifts:read'), async (req, res) => {
+  try {
+    const { till, status } = req.query;
+    const filter = {};
+    if (till) filter.till = String(till);
+    if (status) filter.status = String(status);
+
+    const shifts = await Shift.find(filter).sort({ openedAt: -1 }).limit(100);
+    res.json(shifts.map(formatShift));
+  } catch (error) {
+    console.error('Error getting shifts:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get the open shift on a till, or null if the till has none
+app.get('/api/shifts/current', requirePermission('sales:create'), async (req, res) => {
+  try {
+    if (!req.query.till) {
+      return res.status(400).json({ message: 'Till is required' });
+    }
+
+    const shift = await Shift.findOne({ till: String(req.query.till), status: 'open' });
+    res.json(shift ? formatShift(shift) : null);
+  } catch (error) {
+    console.error('Error getting current shift:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Open a shift on a till with the float counted into the drawer
+app.post('/api/shifts', requirePermission('shifts:write'), async (req, res) => {
+  try {
+    const { till, tillName } = req.body;
+    const openingFloat = parseCashAmount(req.body.openingFloat);
+
+    if (typeof till !== 'string' || !till.trim()) {
+      return res.status(400).json({ message: 'Till is required' });
+    }
+    if (openingFloat === null) {
+      return res.status(400).json({ message: 'Enter the opening float counted into the drawer' });
+    }
+
+    let shift;
+    try {
+      shift = await Shift.create({
+        till: till.trim(),
+        tillName: tillName || undefined,
+        openingFloat,
+        openedBy: { id: String(req.user.id), name: req.user.name },
+        openedAt: new Date()
+      });
+    } catch (error) {
+      if (error.code === 11000) {
+        return res.status(409).json({ message: 'This till already has an open shift' });
+      }
+      throw error;
+    }
+
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'shift',
+      entityId: shift._id,
+      after: shift,
+      summary: `Opened a shift on ${shift.tillName || shift.till} with a float of ${openingFloat}`
+    });
+
+    res.status(201).json(formatShift(shift));
+  } catch (error) {
+    console.error('Error opening shift:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Record cash put into (pay-in) or taken out of (pay-out) the drawer during a shift
+app.post('/api/shifts/:id/cash-movements', requirePermission('shifts:write'), async (req, res) => {
+  try {
+    const { type, reason } = req.body;
+    const amount = parseCashAmount(req.body.amount);
+
+    if (!['pay-in', 'pay-out'].includes(type)) {
+      return res.status(400).json({ message: 'Type must be pay-in or pay-out' });
+    }
+    if (!amount) {
+      return res.status(400).json({ message: 'Enter an amount greater than 0' });
+    }
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({ message: 'Give a reason for the cash movement' });
+    }
+
+    const shift = mongoose.Types.ObjectId.isValid(req.params.id)
+      ? await Shift.findOneAndUpdate(
+        { _id: req.params.id, status: 'open' },
+        {
+          $push: {
+            cashMovements: {
+              type,
+              amount,
+              reason: reason.trim(),
+              actor: { id: String(req.user.id), name: req.user.name },
+              timestamp: new Date()
+            }
+          }
+        },
+        { new: true }
+      )
+      : null;
+
+    if (!shift) {
+      return res.status(404).json({ message: 'Open shift not found' });
+    }
+
+    res.status(201).json(formatShift(shift));
+  } catch (error) {
+    console.error('Error recording cash movement:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get a shift's report: an X report while it is open, its Z report once closed
+app.get('/api/shifts/:id/report', requirePermission('shifts:read'), async (req, res) => {
+  try {
+    const shift = mongoose.Types.ObjectId.isValid(req.params.id) ? await Shift.findById(req.params.id) : null;
+
+    if (!shift) {
+      return res.status(404).json({ message: 'Shift not found' });
+    }
+
+    res.json(shift.status === 'closed' && shift.report ? shift.report : await buildShiftReport(shift));
+  } catch (error) {
+    console.error('Error getting shift report:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Close a shift with what was counted. Cash is required; other tenders can be given to
+// check them against the card terminal or UPI statement. The Z report is kept with the shift.
+app.post('/api/shifts/:id/close', requirePermission('shifts:write'), async (req, res) => {
+  try {
+    const counted = {};
+    for (const [method, value] of Object.entries(req.body.counted || {})) {
+      if (!PAYMENT_TENDERS.includes(method)) continue;
+      const amount = parseCashAmount(value);
+      if (amount === null) {
+        return res.status(400).json({ message: `Invalid counted amount for ${method}` });
+      }
+      counted[method] = amount;
+    }
+
+    if (counted.cash === undefined) {
+      return res.status(400).json({ message: 'Enter the cash counted in the drawer' });
+    }
+
+    const shift = mongoose.Types.ObjectId.isValid(req.params.id) ? await Shift.findById(req.params.id) : null;
+
+    if (!shift) {
+      return res.status(404).json({ message: 'Shift not found' });
+    }
+    if (shift.status === 'closed') {
+      return res.status(400).json({ message: 'This shift is already closed' });
+    }
+
+    const before = shift.toObject();
+    shift.status = 'closed';
+    shift.closedAt = new Date();
+    shift.closedBy = { id: String(req.user.id), name: req.user.name };
+    shift.closingNote = req.body.note || undefined;
+    shift.report = await buildShiftReport(shift, counted);
+
+    // Only one close wins if two arrive at once
+    const closed = await Shift.findOneAndUpdate(
+      { _id: shift._id, status: 'open' },
+      {
+        status: shift.status,
+        closedAt: shift.closedAt,
+        closedBy: shift.closedBy,
+        closingNote: shift.closingNote,
+        report: shift.report
+      },
+      { new: true }
+    );
+
+    if (!closed) {
+      return res.status(400).json({ message: 'This shift is already closed' });
+    }
+
+    const cash = closed.report.byMethod.find(line => line.method === 'cash');
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'shift',
+      entityId: closed._id,
+      before,
+      after: closed,
+      summary: `Closed the shift on ${closed.tillName || closed.till}: cash expected ${cash.expected}, counted ${cash.counted}`
+    });
+
+    res.json(formatShift(closed));
+  } catch (error) {
+    console.error('Error closing shift:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// RETURN API ENDPOINTS
+
+// Format a return for the client
+const formatReturn = (saleReturn) => ({
+  id: saleReturn._id,
+  saleId: saleReturn.sale,
+  lines: saleReturn.lines.map(line => ({
+    productId: line.product,
+    name: line.productSnapshot?.name,
+    quantity: line.quantity,
+    refundAmount: line.refundAmount,
+    taxAmount: line.taxAmount,
+    disposition: line.disposition
+  })),
+  reason: saleReturn.reason,
+  note: saleReturn.note,
+  refundMethod: saleReturn.refundMethod,
+  refundAmount: saleReturn.refundAmount,
+  refundReference: saleReturn.refundReference,
+  loyaltyPointsReversed: saleReturn.loyaltyPointsReversed,
+  processedBy: saleReturn.processedBy,
+  shift: saleReturn.shift,
+  location: saleReturn.location,
+  timestamp: saleReturn.timestamp
+});
+
+// Get returns recorded against a sale
+app.get('/api/sales/:id/returns', requirePermission('sales:read'), async (req, res) => {
+  try {
+    const returns = await Return.find({ sale: req.params.id }).sort({ timestamp: -1 });
+    res.json(returns.map(formatReturn));
+  } catch (error) {
+    console.error('Error getting returns:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Record a return against a sale
+app.post('/api/sales/:id/returns', requirePermission('sales:return'), async (req, res) => {
+  try {
+    const { lines, reason, note, refundMethod, shift: shiftRef, till, location: locationRef } = req.body;
+    
+    if (!lines || !lines.length || !reason) {
+      return res.status(400).json({ message: 'Missing required fields' });
+    }
+    
+    // Refunds are paid out at a till, so they count against its open shift
+    let shift;
+    try {
+      shift = await getTransactionShift(shiftRef, { required: true, sentBy: { till, user: req.user } });
+    } catch (error) {
+      if (error instanceof ShiftError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+    
+    const sale = await Sale.findById(req.params.id);
+    
+    if (!sale) {
+      return res.status(404).json({ message: 'Sale not found' });
+    }
+    
+    if (sale.voided) {
+      return res.status(400).json({ message: 'Cannot return items from a voided sale' });
+    }
+    
+    // Restocked items go back where they are handed in, or where they were sold from
+    const location = await findLocation(locationRef || sale.location);
+    if (!location) {
+      return res.status(400).json({ message: 'Location not found' });
+    }
+    
+    const returnId = new mongoose.Types.ObjectId();
+    const session = await mongoose.startSession();
+    let savedReturn;
+    
+    try {
+      await session.withTransaction(async () => {
+        const alreadyReturned = await getReturnedQuantities(sale._id, { session });
+        const restockedBefore = await getReturnedQuantities(sale._id, { session, restockedOnly: true });
+        const returnLines = [];
+        
+        for (const line of lines) {
+          const saleItem = sale.products.find(item => String(item.product) === String(line.productId));
+          
+          if (!saleItem) {
+            throw new ReturnValidationError(`Product ${line.productId} is not part of this sale`);
+          }
+          
+          if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+            throw new ReturnValidationError(`Invalid quantity for ${saleItem.productSnapshot?.name || line.productId}`);
+          }
+          
+          if (!['restock', 'write-off'].includes(line.disposition)) {
+            throw new ReturnValidationError('Each line must be either restocked or written off');
+          }
+          
+          const key = String(saleItem.product);
+          const returnable = saleItem.quantity - (alreadyReturned.get(key) || 0);
+          
+          const notReturnable = new ReturnValidationError(
+            `Cannot return ${line.quantity} of ${saleItem.productSnapshot?.name || key}. Returnable: ${returnable}`
+          );
+          if (line.quantity > returnable) {
+            throw notReturnable;
+          }
+          
+          // Claim the units on the sale line itself. Reads of earlier returns don't clash
+          // between transactions, but writes to the same sale do, so of two returns at once
+          // one is retried and sees what the other took back.
+          await Sale.updateOne(
+            { _id: sale._id },
+            { $set: { 'products.$[item].returnedQuantity': alreadyReturned.get(key) || 0 } },
+            { arrayFilters: [{ 'item._id': saleItem._id, 'item.returnedQuantity': { $exists: false } }], session }
+          );
+          const claimed = await Sale.updateOne(
+            {
+              _id: sale._id,
+              products: { $elemMatch: { _id: saleItem._id, returnedQuantity: { $lte: saleItem.quantity - line.quantity } } }
+            },
+            { $inc: { 'products.$.returnedQuantity': line.quantity } },
+            { session }
+          );
+          if (claimed.modifiedCount === 0) {
+            throw notReturnable;
+          }
+          alreadyReturned.set(key, (alreadyReturned.get(key) || 0) + line.quantity);
+          
+          // Refund what was paid for the line, tax included. Sales from before
+          // tax was stored only have the unit price to go on.
+          const share = line.quantity / saleItem.quantity;
+          returnLines.push({
+            product: saleItem.product,
+            productSnapshot: { name: saleItem.productSnapshot?.name },
+            quantity: line.quantity,
+            refundAmount: saleItem.lineTotal !== undefined
+              ? roundCurrency(saleItem.lineTotal * share)
+              : line.quantity * saleItem.priceAtSale,
+            taxRate: saleItem.tax?.rate || 0,
+            taxAmount: roundCurrency((saleItem.tax?.amount || 0) * share),
+            disposition: line.disposition
+          });
+          
+          // Online sales never took stock off the shelf, so there is nothing to put back
+          if (line.disposition === 'restock' && sale.channel === 'in-store') {
+            // Restocked units go back into the lots the sale took them from, latest to expire
+            // first, passing over those earlier returns already put back
+            const restocked = restockedBefore.get(key) || 0;
+            await applyStockMovement({
+              productId: saleItem.product,
+              location: location._id,
+              quantity: line.quantity,
+              type: 'return',
+              reference: { kind: 'Return', id: returnId },
+              lots: takeLots(await getSaleLots(sale._id, saleItem.product, session), line.quantity, { fromEnd: true, skip: restocked }),
+              actor: req.user,
+              session
+            });
+            restockedBefore.set(key, restocked + line.quantity);
+          }
+        }
+        
+        const refundAmount = roundCurrency(returnLines.reduce((sum, line) => sum + line.refundAmount, 0));
+        
+        // Take back the points earned on what is being refunded
+        let loyaltyPointsReversed = 0;
+        if (sale.customer && sale.loyaltyPointsEarned > 0 && sale.totalAmount > 0) {
+          loyaltyPointsReversed = Math.min(
+            Math.floor(sale.loyaltyPointsEarned * refundAmount / sale.totalAmount),
+            sale.loyaltyPointsEarned - await getLoyaltyPointsReversed(sale._id, session)
+          );
+          await adjustLoyaltyPoints(sale.customer, -loyaltyPointsReversed, session);
+        }
+        
+        const [created] = await Return.create([{
+          _id: returnId,
+          sale: sale._id,
+          lines: returnLines,
+          reason,
+          note,
+          // Refunds go back the way the customer paid unless told otherwise
+          refundMethod: refundMethod || getPrimaryTender(sale),
+          refundAmount,
+          loyaltyPointsReversed,
+          processedBy: req.user ? { id: req.user.id, name: req.user.name } : undefined,
+          shift: shift?._id,
+          location: location._id,
+          timestamp: new Date()
+        }], { session });
+        
+        savedReturn = created;
+      });
+    } catch (error) {
+      if (error instanceof ReturnValidationError || error.name === 'ValidationError') {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    } finally {
+      await session.endSession();
+    }
+    
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'return',
+      entityId: savedReturn._id,
+      after: savedReturn,
+      summary: `Refunded ${savedReturn.refundAmount} by ${savedReturn.refundMethod} against sale ${sale._id}`
+    });
+    
+    // Send the money back through the provider that took it. The return stands even if
+    // this fails, and the cashier is told to refund by hand.
+    let refundError;
+    const intent = sale.paymentIntentId ? await PaymentIntent.findOne({ paymentIntentId: sale.paymentIntentId }) : null;
+    if (intent && intent.provider === getTenderProvider(savedReturn.refundMethod)) {
+      const amount = roundCurrency(Math.min(savedReturn.refundAmount, intent.amount - (intent.amountRefunded || 0)));
+      try {
+        if (amount > 0) {
+          const refund = await refundPaymentIntent(intent, amount);
+          if (refund.reference) {
+            savedReturn.refundReference = refund.reference;
+            await savedReturn.save();
+          }
+        }
+      } catch (error) {
+        console.error(`Error refunding payment ${intent.paymentIntentId}:`, error);
+        refundError = `The ${savedReturn.refundMethod} refund could not be sent: ${error.message}`;
+      }
+    }
+    
+    res.status(201).json({ ...formatReturn(savedReturn), refundError });
+  } catch (error) {
+    console.error('Error creating return:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// PURCHASE ORDER HELPERS
+
+// Thrown when a purchase order's status can't be changed or its goods can't be received
+class PurchaseOrderError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+  }
+}
+
+// PURCHASE ORDER API ENDPOINTS
+
+// Get all purchase orders
+app.get('/api/purchase-orders', requirePermission('purchaseOrders:read'), async (req, res) => {
+  try {
+    // First get all purchase orders without population
+    const purchaseOrders = await PurchaseOrder.find().lean();
+
+    // Get all unique supplier IDs
+    const supplierIds = [...new Set(purchaseOrders.map(order => order.supplierId))];
+
+    // Fetch all relevant suppliers in one query
+    const suppliers = await Supplier.find({
+      _id: { $in: supplierIds.filter(id => mongoose.Types.ObjectId.isValid(id)) }
+    }).lean();
+
+    // Create a map of supplier IDs to names
+    const supplierMap = new Map(suppliers.map(s => [s._id.toString(), s.name]));
+
+    // Format orders with supplier names
+    const formattedOrders = purchaseOrders.map(order => {
+      // Get supplier name from map or use default
+      const supplierName = supplierMap.get(order.supplierId?.toString()) || 'Default Supplier';
+
+      return {
+        id: order._id,
+        supplierId: order.supplierId,
+        supplierName: supplierName,
+        products: order.products.map(item => ({
+          productId: item.productId || 'unknown',
+          productName: 'Product Name', // We'll populate this in the next step
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          batchNumber: item.batchNumber,
+          expiryDate: item.expiryDate
+        })),
+        status: order.status,
+        totalAmount: order.totalAmount,
+        orderDate: order.orderDate,
+        expectedDeliveryDate: order.expectedDeliveryDate,
+        deliveredDate: order.deliveredDate,
+        location: order.location,
+        createdAt: order.createdAt,
+        updatedAt: order.updatedAt
+      };
+    });
+
+    // Get all unique product IDs
+    const productIds = [...new Set(purchaseOrders.flatMap(order => 
+      order.products.map(product => product.productId)
+    ))];
+
+    // Fetch all products in one query
+    const products = await Product.find({
+      _id: { $in: productIds.filter(id => mongoose.Types.ObjectId.isValid(id)) }
+    }).lean();
+
+    // Create a map of product IDs to names
+    const productMap = new Map(products.map(p => [p._id.toString(), p.name]));
+
+    // Add product names to formatted orders
+    const completeOrders = formattedOrders.map(order => ({
+      ...order,
+      products: order.products.map(item => ({
+        ...item,
+        productName: productMap.get(item.productId?.toString()) || 'Unknown Product'
+      }))
+    }));
+
+    // Sort orders by date (newest first)
+    const sortedOrders = completeOrders.sort((a, b) => 
+      new Date(b.orderDate) - new Date(a.orderDate)
+    );
+
+    res.json(sortedOrders);
+  } catch (error) {
+    console.error('Error getting purchase orders:', error);
+    res.status(500).json({ 
+      message: 'Server error', 
+      error: error.message,
+      details: error.stack 
+    });
+  }
+});
+
+// Get purchase order by ID
+app.get('/api/purchase-orders/:id', requirePermission('purchaseOrders:read'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    const purchaseOrder = await PurchaseOrder.findById(id)
+      .populate('products.productId', 'name category price barcode stock');
+    
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+    
+    res.json({
+      id: purchaseOrder._id,
+      supplierId: purchaseOrder.supplierId,
+      products: purchaseOrder.products.map(item => {
+        // Check if product exists before accessing its properties
+        if (!item.productId) {
+          return {
+            productId: 'unknown',
+            productName: 'Product Not Found',
+            quantity: item.quantity,
+            unitPrice: item.unitPrice
+          };
+        }
+        
+        return {
+          productId: item.productId._id,
+          productName: item.productId.name,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice
+        };
+      }),
+      status: purchaseOrder.status,
+      totalAmount: purchaseOrder.totalAmount,
+      orderDate: purchaseOrder.orderDate,
+      expectedDeliveryDate: purchaseOrder.expectedDeliveryDate,
+      deliveredDate: purchaseOrder.deliveredDate,
+      location: purchaseOrder.location,
+      createdAt: purchaseOrder.createdAt,
+      updatedAt: purchaseOrder.updatedAt
+    });
+  } catch (error) {
+    console.error('Error getting purchase order:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Create purchase order
+app.post('/api/purchase-orders', requirePermission('purchaseOrders:write'), idempotent('purchaseOrders:create'), async (req, res) => {
+  try {
+    const orderData = req.body;
+    
+    // Orders are received into the location they name, or the default one
+    const location = await findLocation(orderData.location);
+    if (!location) {
+      return res.status(400).json({ message: 'Location not found' });
+    }
+    orderData.location = location._id;
+    
+    // First check for existing pending or ordered purchase orders for the same product and location.
+    // Orders from before locations go to the default one.
+    const productIds = orderData.products.map(p => p.productId);
+    const existingOrders = await PurchaseOrder.find({
+      status: { $in: ['pending', 'ordered'] },
+      'products.productId': { $in: productIds },
+      location: location.isDefault ? { $in: [location._id, null] } : location._id
+    });
+
+    if (existingOrders.length > 0) {
+      return res.status(409).json({
+        message: 'An order already exists for one or more of these products',
+        existingOrders: existingOrders.map(order => ({
+          id: order._id,
+          status: order.status,
+          orderDate: order.orderDate
+        }))
+      });
+    }
+    
+    // Continue with order creation if no existing orders found
+    // Validate product IDs before creating purchase order
+    if (orderData.products && Array.isArray(orderData.products)) {
+      const validatedProducts = [];
+      
+      for (const item of orderData.products) {
+        // Skip items with missing or invalid productId
+        if (!item.productId) {
+          console.warn('Skipping purchase order item with missing productId');
+          continue;
+        }
+        
+        try {
+          // Check if product exists
+          const product = await Product.findById(item.productId);
+          if (product) {
+            validatedProducts.push(item);
+          } else {
+            console.warn(`Product with ID ${item.productId} not found, skipping from purchase order`);
+          }
+        } catch (err) {
+          console.error(`Error validating product ${item.productId}:`, err);
+          // Skip invalid product IDs
+        }
+      }
+      
+      // Replace products array with validated products
+      orderData.products = validatedProducts;
+    }
+    
+    // Create purchase order
+    const purchaseOrder = new PurchaseOrder(orderData);
+    
+    // Save purchase order
+    const savedOrder = await purchaseOrder.save();
+    
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'purchaseOrder',
+      entityId: savedOrder._id,
+      after: savedOrder,
+      summary: `Created purchase order for ${savedOrder.totalAmount}`
+    });
+    
+    // Return formatted order
+    res.status(201).json({
+      id: savedOrder._id,
+      supplierId: savedOrder.supplierId,
+      products: savedOrder.products,
+      status: savedOrder.status,
+      totalAmount: savedOrder.totalAmount,
+      orderDate: savedOrder.orderDate,
+      expectedDeliveryDate: savedOrder.expectedDeliveryDate,
+      deliveredDate: savedOrder.deliveredDate,
+      location: savedOrder.location,
+      createdAt: savedOrder.createdAt,
+      updatedAt: savedOrder.updatedAt
+    });
+  } catch (error) {
+    console.error('Error creating purchase order:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update purchase order status
+app.patch('/api/purchase-orders/:id/status', requirePermission('purchaseOrders:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+    
+    // Validate status
+    if (!['pending', 'ordered', 'received', 'canceled'].includes(status)) {
+      return res.status(400).json({ message: 'Invalid status value' });
+    }
+    
+    const previousOrder = await PurchaseOrder.findById(id);
+    if (!previousOrder) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+    
+    // Goods are received into the location picked at the door, or the one the order was raised for
+    const location = status === 'received' ? await findLocation(req.body.location || previousOrder?.location) : null;
+    if (status === 'received' && !location) {
+      return res.status(400).json({ message: 'Location not found' });
+    }
+    
+    // Lines received with a batch number become lots: `lots` is [{ product, batchNumber, expiryDate }]
+    let receivedProducts;
+    if (status === 'received') {
+      const lots = Array.isArray(req.body.lots) ? req.body.lots : [];
+      receivedProducts = [];
+      for (const item of previousOrder.products) {
+        const lot = lots.find(entry => String(entry.product) === String(item.productId));
+        const batchNumber = typeof lot?.batchNumber === 'string' ? lot.batchNumber.trim() : '';
+        const expiryDate = lot?.expiryDate ? parseExpiryDate(lot.expiryDate) : null;
+        if (expiryDate && isNaN(expiryDate)) {
+          return res.status(400).json({ message: 'Invalid expiry date' });
+        }
+        if (expiryDate && !batchNumber) {
+          return res.status(400).json({ message: 'A batch number is needed with an expiry date' });
+        }
+        receivedProducts.push({
+          ...item.toObject(),
+          batchNumber: batchNumber || undefined,
+          expiryDate: expiryDate || undefined
+        });
+      }
+    }
+    
+    const session = await mongoose.startSession();
+    let updatedOrder;
+    
+    try {
+      await session.withTransaction(async () => {
+        // Only an order not yet received can move, so a second receipt finds nothing to update.
+        // Goods are only received against an order still pending or ordered, never a canceled one.
+        updatedOrder = await PurchaseOrder.findOneAndUpdate(
+          { _id: previousOrder._id, status: status === 'received' ? { $in: ['pending', 'ordered'] } : { $ne: 'received' } },
+          { 
+            status,
+            ...(status === 'received' ? { deliveredDate: new Date(), location: location._id } : {}),
+            ...(receivedProducts ? { products: receivedProducts } : {})
+          },
+          { new: true, session }
+        );
+        if (!updatedOrder) {
+          const current = await PurchaseOrder.findById(previousOrder._id).session(session);
+          throw new PurchaseOrderError(current?.status === 'canceled'
+            ? 'A canceled purchase order can\'t be received'
+            : 'This purchase order has already been received');
+        }
+        
+        if (status !== 'received') return;
+        
+        // Every line is received or none is
+        for (const item of updatedOrder.products) {
+          if (!item.productId || !(await Product.exists({ _id: item.productId }).session(session))) {
+            throw new PurchaseOrderError(`Product ${item.productId || 'unknown'} on this order no longer exists`);
+          }
+          await applyStockMovement({
+            productId: item.productId,
+            location: location._id,
+            quantity: item.quantity,
+            type: 'po-receipt',
+            reference: { kind: 'PurchaseOrder', id: updatedOrder._id },
+            lots: item.batchNumber ? [{
+              batchNumber: item.batchNumber,
+              expiryDate: item.expiryDate,
+              quantity: item.quantity,
+              purchaseOrder: updatedOrder._id
+            }] : undefined,
+            actor: req.user,
+            session
+          });
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+    
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'purchaseOrder',
+      entityId: updatedOrder._id,
+      before: previousOrder,
+      after: updatedOrder,
+      summary: `Moved purchase order from ${previousOrder.status} to ${updatedOrder.status}`
+    });
+    
+    // Return updated order
+    res.json({
+      id: updatedOrder._id,
+      supplierId: updatedOrder.supplierId,
+      products: updatedOrder.products.map(item => {
+        return {
+          productId: item.productId || 'unknown',
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          batchNumber: item.batchNumber,
+          expiryDate: item.expiryDate
+        };
+      }),
+      status: updatedOrder.status,
+      totalAmount: updatedOrder.totalAmount,
+      orderDate: updatedOrder.orderDate,
+      expectedDeliveryDate: updatedOrder.expectedDeliveryDate,
+      deliveredDate: updatedOrder.deliveredDate,
+      location: updatedOrder.location,
+      createdAt: updatedOrder.createdAt,
+      updatedAt: updatedOrder.updatedAt
+    });
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error updating purchase order:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// LOT API ENDPOINTS
+
+// Lots with stock that expire within `days` (the store's alert window by default), including
+// those already expired, soonest first. Valued at the product's cost price.
+app.get('/api/lots/expiring', requirePermission('inventory:read'), async (req, res) => {
+  try {
+    const settings = await StoreSettings.findOne();
+    const days = req.query.days !== undefined ? Number(req.query.days) : (settings?.expiryAlertDays ?? 30);
+    if (!Number.isInteger(days) || days < 0) {
+      return res.status(400).json({ message: 'Days must be a non-negative whole number' });
+    }
+    
+    let location = null;
+    if (req.query.location) {
+      location = await findLocation(req.query.location);
+      if (!location) {
+        return res.status(400).json({ message: 'Location not found' });
+      }
+    }
+    
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const cutoff = new Date(today);
+    cutoff.setDate(cutoff.getDate() + days + 1);
+    
+    const lotMatch = { quantity: { $gt: 0 }, expiryDate: { $lt: cutoff } };
+    if (location) lotMatch.location = location._id;
+    
+    const [products, locations] = await Promise.all([
+      Product.find({ lots: { $elemMatch: lotMatch } }),
+      Location.find()
+    ]);
+    const locationNames = new Map(locations.map(item => [String(item._id), item.name]));
+    
+    const lots = products.flatMap(product => product.lots
+      .filter(lot => lot.quantity > 0 && lot.expiryDate && lot.expiryDate < cutoff &&
+        (!location || lot.location.equals(location._id)))
+      .map(lot => ({
+        productId: product._id,
+        productName: product.name,
+        barcode: product.barcode,
+        lotId: lot._id,
+        batchNumber: lot.batchNumber,
+        expiryDate: lot.expiryDate,
+        quantity: lot.quantity,
+        location: lot.location,
+        locationName: locationNames.get(String(lot.location)) || null,
+        costValue: roundCurrency(lot.quantity * (product.costPrice || 0)),
+        expired: isLotExpired(lot),
+        daysLeft: Math.floor((lot.expiryDate - today) / 86400000)
+      })))
+      .sort((a, b) => a.expiryDate - b.expiryDate);
+    
+    res.json({ days, lots });
+  } catch (error) {
+    console.error('Error getting expiring lots:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Update user role
-app.put('/api/users/:id/role', async (req, res) => {
+// Set how many days ahead lots are flagged as near expiry
+app.put('/api/lots/settings', requirePermission('inventory:write'), async (req, res) => {
   try {
-    const { id } = req.params;
-    const { role } = req.body;
+    const { expiryAlertDays } = req.body;
+    
+    if (!Number.isInteger(expiryAlertDays) || expiryAlertDays < 0) {
+      return res.status(400).json({ message: 'Alert days must be a non-negative whole number' });
+    }
+    
+    const before = await StoreSettings.findOne();
+    const settings = await StoreSettings.findOneAndUpdate(
+      {},
+      { expiryAlertDays },
+      { new: true, upsert: true }
+    );
+    
+    await recordAudit(req, {
+      action: before ? 'update' : 'create',
+      entity: 'settings',
+      entityId: settings._id,
+      before,
+      after: settings,
+      summary: `Lots flagged ${expiryAlertDays} day(s) before expiry`
+    });
+    
+    res.json({ expiryAlertDays: settings.expiryAlertDays });
+  } catch (error) {
+    console.error('Error updating expiry settings:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
 
-    // Validate role
-    if (!['admin', 'staff', 'guest'].includes(role)) {
-      return res.status(400).json({ message: 'Invalid role' });
+// TRANSFER API ENDPOINTS
+
+// Format a transfer for the client, with its locations populated
+const formatTransfer = (transfer) => ({
+  id: transfer._id,
+  from: transfer.from?._id || transfer.from,
+  fromName: transfer.from?.name,
+  to: transfer.to?._id || transfer.to,
+  toName: transfer.to?.name,
+  status: transfer.status,
+  lines: transfer.lines.map(line => ({
+    productId: line.product,
+    productName: line.productName,
+    quantity: line.quantity,
+    receivedQuantity: line.receivedQuantity,
+    discrepancyReason: line.discrepancyReason,
+    lots: line.lots
+  })),
+  note: transfer.note,
+  createdBy: transfer.createdBy,
+  dispatchedBy: transfer.dispatchedBy,
+  dispatchedAt: transfer.dispatchedAt,
+  receivedBy: transfer.receivedBy,
+  receivedAt: transfer.receivedAt,
+  createdAt: transfer.createdAt,
+  updatedAt: transfer.updatedAt
+});
+
+// Reply to a transfer that could not be dispatched or received
+const sendTransferError = (res, error, context) => {
+  if (error instanceof InsufficientStockError) {
+    return res.status(400).json({
+      message: error.message,
+      code: 'insufficient-stock',
+      productId: error.productId,
+      available: error.available,
+      requested: error.requested
+    });
+  }
+  if (error instanceof TransferValidationError || error.name === 'ValidationError') {
+    return res.status(400).json({ message: error.message });
+  }
+  console.error(`Error ${context}:`, error);
+  res.status(500).json({ message: 'Server error', error: error.message });
+};
+
+// Get transfers, newest first, optionally only those in one status
+app.get('/api/transfers', requirePermission('transfers:read'), async (req, res) => {
+  try {
+    const filter = {};
+    if (req.query.status) {
+      filter.status = req.query.status;
     }
+    
+    const transfers = await Transfer.find(filter)
+      .populate('from', 'name')
+      .populate('to', 'name')
+      .sort({ createdAt: -1 });
+    res.json(transfers.map(formatTransfer));
+  } catch (error) {
+    console.error('Error getting transfers:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
 
-    // Update user
-    const updatedUser = await User.findByIdAndUpdate(
-      id,
-      { role },
-      { new: true, select: '-password' }
-    );
+// Draft a transfer. Nothing moves until it is dispatched.
+app.post('/api/transfers', requirePermission('transfers:write'), async (req, res) => {
+  try {
+    const transfer = await Transfer.create({
+      ...await prepareTransfer(req.body),
+      createdBy: { id: req.user.id, name: req.user.name }
+    });
+    
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'transfer',
+      entityId: transfer._id,
+      after: transfer,
+      summary: `Drafted transfer of ${transfer.lines.length} product(s)`
+    });
+    
+    await transfer.populate(['from', 'to']);
+    res.status(201).json(formatTransfer(transfer));
+  } catch (error) {
+    sendTransferError(res, error, 'creating transfer');
+  }
+});
 
-    if (!updatedUser) {
-      return res.status(404).json({ message: 'User not found' });
+// Send a draft transfer on its way. Its stock leaves the source now and is counted
+// nowhere until it is received. If any line is short at the source, nothing moves.
+app.post('/api/transfers/:id/dispatch', requirePermission('transfers:write'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid transfer ID format' });
+    }
+    
+    const before = await Transfer.findById(req.params.id);
+    if (!before) {
+      return res.status(404).json({ message: 'Transfer not found' });
+    }
+    const [from, to] = await Promise.all([Location.findById(before.from), Location.findById(before.to)]);
+    if (before.status !== 'draft') {
+      return res.status(400).json({ message: `A ${before.status} transfer can't be dispatched` });
+    }
+    
+    // Units held by parked bills at the source can't be sent away from under them
+    const reserved = await getReservedStock(before.lines.map(line => line.product), { location: before.from });
+    
+    const session = await mongoose.startSession();
+    let transfer;
+    
+    try {
+      await session.withTransaction(async () => {
+        // Claiming the draft first means a second dispatch finds nothing to send
+        transfer = await Transfer.findOneAndUpdate(
+          { _id: before._id, status: 'draft' },
+          {
+            status: 'dispatched',
+            dispatchedBy: { id: req.user.id, name: req.user.name },
+            dispatchedAt: new Date()
+          },
+          { new: true, session }
+        );
+        if (!transfer) {
+          throw new TransferValidationError('The transfer has already been dispatched or canceled');
+        }
+        
+        // The lots sent are kept on each line so they arrive as the same lots
+        for (const line of transfer.lines) {
+          const { movement } = await applyStockMovement({
+            productId: line.product,
+            location: transfer.from,
+            quantity: -line.quantity,
+            type: 'transfer',
+            reference: { kind: 'Transfer', id: transfer._id },
+            note: `Dispatched to ${to.name}`,
+            actor: req.user,
+            session,
+            requireAvailable: true,
+            reserved: reserved.get(String(line.product)) || 0
+          });
+          line.lots = movement.lots;
+        }
+        await transfer.save({ session });
+      });
+    } finally {
+      await session.endSession();
     }
+    
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'transfer',
+      entityId: transfer._id,
+      before,
+      after: transfer,
+      summary: `Dispatched transfer from ${from.name} to ${to.name}`
+    });
+    
+    await transfer.populate(['from', 'to']);
+    res.json(formatTransfer(transfer));
+  } catch (error) {
+    sendTransferError(res, error, 'dispatching transfer');
+  }
+});
 
-    res.json({
-      id: updatedUser._id,
-      name: updatedUser.name,
-      email: updatedUser.email,
-      role: updatedUser.role,
-      avatar: updatedUser.avatar
+// Receive a dispatched transfer at its destination. What arrived is added there; any
+// shortfall is recorded on the line with its reason and is not put back at the source.
+app.post('/api/transfers/:id/receive', requirePermission('transfers:write'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid transfer ID format' });
+    }
+    
+    const before = await Transfer.findById(req.params.id);
+    if (!before) {
+      return res.status(404).json({ message: 'Transfer not found' });
+    }
+    const [from, to] = await Promise.all([Location.findById(before.from), Location.findById(before.to)]);
+    if (before.status !== 'dispatched') {
+      return res.status(400).json({ message: `A ${before.status} transfer can't be received` });
+    }
+    
+    const lines = getReceivedLines(before, req.body.lines);
+    
+    const session = await mongoose.startSession();
+    let transfer;
+    
+    try {
+      await session.withTransaction(async () => {
+        transfer = await Transfer.findOneAndUpdate(
+          { _id: before._id, status: 'dispatched' },
+          {
+            status: 'received',
+            lines,
+            receivedBy: { id: req.user.id, name: req.user.name },
+            receivedAt: new Date()
+          },
+          { new: true, session }
+        );
+        if (!transfer) {
+          throw new TransferValidationError('The transfer has already been received');
+        }
+        
+        for (const line of lines) {
+          if (line.receivedQuantity === 0) continue;
+          await applyStockMovement({
+            productId: line.product,
+            location: transfer.to,
+            quantity: line.receivedQuantity,
+            type: 'transfer',
+            reference: { kind: 'Transfer', id: transfer._id },
+            lots: takeLots(line.lots, line.receivedQuantity),
+            note: line.discrepancyReason
+              ? `Received from ${from.name}, ${line.quantity - line.receivedQuantity} short: ${line.discrepancyReason}`
+              : `Received from ${from.name}`,
+            actor: req.user,
+            session
+          });
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+    
+    const shortLines = lines.filter(line => line.receivedQuantity < line.quantity).length;
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'transfer',
+      entityId: transfer._id,
+      before,
+      after: transfer,
+      summary: `Received transfer from ${from.name} at ${to.name}${shortLines > 0 ? ` with ${shortLines} line(s) short` : ''}`
     });
+    
+    await transfer.populate(['from', 'to']);
+    res.json(formatTransfer(transfer));
   } catch (error) {
-    console.error('Error updating user role:', error);
+    sendTransferError(res, error, 'receiving transfer');
+  }
+});
+
+// Cancel a draft transfer. Dispatched stock is already on its way and has to be received.
+app.post('/api/transfers/:id/cancel', requirePermission('transfers:write'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid transfer ID format' });
+    }
+    
+    const before = await Transfer.findById(req.params.id);
+    if (!before) {
+      return res.status(404).json({ message: 'Transfer not found' });
+    }
+    
+    const transfer = await Transfer.findOneAndUpdate(
+      { _id: before._id, status: 'draft' },
+      { status: 'canceled' },
+      { new: true }
+    ).populate(['from', 'to']);
+    if (!transfer) {
+      return res.status(400).json({ message: `A ${before.status} transfer can't be canceled` });
+    }
+    
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'transfer',
+      entityId: transfer._id,
+      before,
+      after: transfer,
+      summary: 'Canceled transfer'
+    });
+    
+    res.json(formatTransfer(transfer));
+  } catch (error) {
+    console.error('Error canceling transfer:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// PRODUCT API ENDPOINTS
+// STOCK TAKE API ENDPOINTS
 
-// Get all products
-app.get('/api/products', async (req, res) => {
+// Format a stock take for the client; pass its report to include the counted lines
+const formatStockTake = (stockTake, report = null) => ({
+  id: stockTake._id,
+  location: stockTake.location?._id || stockTake.location,
+  locationName: stockTake.location?.name,
+  category: stockTake.category,
+  supplier: stockTake.supplier,
+  status: stockTake.status,
+  snapshotAt: stockTake.snapshotAt,
+  lineCount: stockTake.lines.length,
+  countedCount: stockTake.lines.filter(isCounted).length,
+  note: stockTake.note,
+  startedBy: stockTake.startedBy,
+  submittedBy: stockTake.submittedBy,
+  submittedAt: stockTake.submittedAt,
+  approvedBy: stockTake.approvedBy,
+  approvedAt: stockTake.approvedAt,
+  createdAt: stockTake.createdAt,
+  ...(report ? { lines: report.lines, totals: report.totals } : {})
+});
+
+// Reply with a stock take and its variance report
+const sendStockTake = async (res, stockTakeId, status = 200) => {
+  const stockTake = await StockTake.findById(stockTakeId).populate('location', 'name');
+  res.status(status).json(formatStockTake(stockTake, await getStockTakeReport(stockTake)));
+};
+
+// Get stock takes, newest first
+app.get('/api/stock-takes', requirePermission('stockTakes:read'), async (req, res) => {
   try {
-    const { query, category } = req.query;
+    const stockTakes = await StockTake.find()
+      .populate('location', 'name')
+      .sort({ createdAt: -1 });
+    res.json(stockTakes.map(stockTake => formatStockTake(stockTake)));
+  } catch (error) {
+    console.error('Error getting stock takes:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get a stock take with its counted lines and variance report
+app.get('/api/stock-takes/:id', requirePermission('stockTakes:read'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid stock take ID format' });
+    }
+    if (!await StockTake.exists({ _id: req.params.id })) {
+      return res.status(404).json({ message: 'Stock take not found' });
+    }
+    await sendStockTake(res, req.params.id);
+  } catch (error) {
+    console.error('Error getting stock take:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Start a stock take of a location, optionally only one category's or supplier's products.
+// What the ledger holds for each product is frozen now and counts are checked against it.
+app.post('/api/stock-takes', requirePermission('stockTakes:write'), async (req, res) => {
+  try {
+    const { category, supplier, note } = req.body;
+    
+    const location = await findLocation(req.body.location);
+    if (!location) {
+      return res.status(400).json({ message: 'Location not found' });
+    }
+    if (supplier && !mongoose.Types.ObjectId.isValid(supplier)) {
+      return res.status(400).json({ message: 'Invalid supplier ID format' });
+    }
+    
+    // Two open counts of one location would both correct the same stock
+    if (await StockTake.exists({ location: location._id, status: { $in: ['counting', 'submitted'] } })) {
+      return res.status(400).json({ message: `${location.name} already has a stock take in progress` });
+    }
     
-    // Build filter
     const filter = {};
+    if (category) filter.category = category;
+    if (supplier) filter.supplier = supplier;
     
-    // Add search by name or barcode if query present
-    if (query) {
-      filter.$or = [
-        { name: { $regex: query, $options: 'i' } }, // Case-insensitive search
-        { barcode: { $regex: query, $options: 'i' } }
-      ];
+    const products = await Product.find(filter).sort({ category: 1, name: 1 });
+    if (products.length === 0) {
+      return res.status(400).json({ message: 'No products match this stock take' });
     }
     
-    // Add category filter if present and not 'all'
-    if (category && category !== 'all') {
-      filter.category = category;
+    // Expected stock comes from the ledger as of the snapshot, not from the products read
+    // above, so a sale made while they were being read is counted once, as moved during the count
+    const snapshotAt = new Date();
+    const expected = await getLedgerStockAt(products, location, snapshotAt);
+    
+    const stockTake = await StockTake.create({
+      location: location._id,
+      category: category || undefined,
+      supplier: supplier || undefined,
+      snapshotAt,
+      lines: products.map(product => ({
+        product: product._id,
+        productName: product.name,
+        barcode: product.barcode,
+        category: product.category,
+        costPrice: product.costPrice,
+        expected: expected.get(String(product._id)) || 0
+      })),
+      note: typeof note === 'string' && note.trim() ? note.trim() : undefined,
+      startedBy: { id: req.user.id, name: req.user.name }
+    });
+    
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'stockTake',
+      entityId: stockTake._id,
+      summary: `Started a stock take of ${products.length} product(s) at ${location.name}`
+    });
+    
+    await sendStockTake(res, stockTake._id, 201);
+  } catch (error) {
+    console.error('Error starting stock take:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Record counted quantities, typed in or scanned
+app.post('/api/stock-takes/:id/counts', requirePermission('stockTakes:write'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid stock take ID format' });
     }
     
-    // Fetch products with filter
-    const products = await Product.find(filter);
+    const stockTake = await StockTake.findById(req.params.id);
+    if (!stockTake) {
+      return res.status(404).json({ message: 'Stock take not found' });
+    }
+    if (stockTake.status !== 'counting') {
+      return res.status(400).json({ message: `A ${stockTake.status} stock take can't be counted` });
+    }
     
-    // Return formatted products
-    res.json(products.map(product => ({
-      id: product._id,
-      name: product.name,
-      barcode: product.barcode,
-      category: product.category,
-      price: product.price,
-      costPrice: product.costPrice,
-      stock: product.stock,
-      imageUrl: product.imageUrl,
-      supplier: product.supplier,
-      reorderLevel: product.reorderLevel,
-      autoReorder: product.autoReorder,
-      targetStockLevel: product.targetStockLevel,
-      createdAt: product.createdAt,
-      updatedAt: product.updatedAt
+    await applyStockTakeCounts(stockTake, req.body.counts);
+    await sendStockTake(res, stockTake._id);
+  } catch (error) {
+    if (error instanceof StockTakeValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error recording counts:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Move a stock take on: `submit` hands a finished count over for approval, `reopen` sends
+// it back for recounting and `cancel` abandons it. None of them change stock.
+const STOCK_TAKE_TRANSITIONS = {
+  submit: { from: ['counting'], to: 'submitted', permission: 'stockTakes:write' },
+  reopen: { from: ['submitted'], to: 'counting', permission: 'stockTakes:approve' },
+  cancel: { from: ['counting', 'submitted'], to: 'canceled', permission: 'stockTakes:write' }
+};
+
+Object.entries(STOCK_TAKE_TRANSITIONS).forEach(([action, transition]) => {
+  app.post(`/api/stock-takes/:id/${action}`, requirePermission(transition.permission), async (req, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        return res.status(400).json({ message: 'Invalid stock take ID format' });
+      }
+      
+      const before = await StockTake.findById(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: 'Stock take not found' });
+      }
+      if (action === 'submit' && !before.lines.some(isCounted)) {
+        return res.status(400).json({ message: 'Count at least one product before submitting' });
+      }
+      
+      const update = { status: transition.to };
+      if (action === 'submit') {
+        update.submittedBy = { id: req.user.id, name: req.user.name };
+        update.submittedAt = new Date();
+      }
+      
+      const stockTake = await StockTake.findOneAndUpdate(
+        { _id: before._id, status: { $in: transition.from } },
+        update,
+        { new: true }
+      );
+      if (!stockTake) {
+        return res.status(400).json({ message: `A ${before.status} stock take can't be ${transition.to === 'counting' ? 'reopened' : transition.to}` });
+      }
+      
+      await recordAudit(req, {
+        action: 'update',
+        entity: 'stockTake',
+        entityId: stockTake._id,
+        summary: `Moved stock take from ${before.status} to ${stockTake.status}`
+      });
+      
+      await sendStockTake(res, stockTake._id);
+    } catch (error) {
+      console.error(`Error moving stock take to ${transition.to}:`, error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  });
+});
+
+// Approve a submitted stock take and post a count correction for every counted line that
+// is off. Lines that were never counted are left as they are.
+app.post('/api/stock-takes/:id/approve', requirePermission('stockTakes:approve'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid stock take ID format' });
+    }
+    
+    const before = await StockTake.findById(req.params.id).populate('location', 'name');
+    if (!before) {
+      return res.status(404).json({ message: 'Stock take not found' });
+    }
+    if (before.status !== 'submitted') {
+      return res.status(400).json({ message: `A ${before.status} stock take can't be approved` });
+    }
+    
+    const report = await getStockTakeReport(before);
+    const reportByProduct = new Map(report.lines.map(line => [String(line.productId), line]));
+    
+    const session = await mongoose.startSession();
+    let corrections = 0;
+    
+    try {
+      await session.withTransaction(async () => {
+        corrections = 0;
+        
+        // Claiming the stock take first means a second approval finds nothing to post
+        const stockTake = await StockTake.findOneAndUpdate(
+          { _id: before._id, status: 'submitted' },
+          {
+            status: 'approved',
+            approvedBy: { id: req.user.id, name: req.user.name },
+            approvedAt: new Date(),
+            lines: before.lines.map(line => {
+              const reported = reportByProduct.get(String(line.product));
+              return {
+                ...line.toObject(),
+                movedDuringCount: reported.counted === null ? undefined : reported.movedDuringCount,
+                variance: reported.variance ?? undefined
+              };
+            })
+          },
+          { new: true, session }
+        );
+        if (!stockTake) {
+          throw new StockTakeValidationError('The stock take has already been approved or sent back');
+        }
+        
+        for (const line of report.lines) {
+          if (!line.variance) continue;
+          await applyStockMovement({
+            productId: line.productId,
+            location: before.location._id,
+            quantity: line.variance,
+            type: 'count-correction',
+            reference: { kind: 'StockTake', id: before._id },
+            note: `Counted ${line.counted}, expected ${line.expectedAtCount}`,
+            actor: req.user,
+            session
+          });
+          corrections += 1;
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+    
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'stockTake',
+      entityId: before._id,
+      summary: `Approved stock take at ${before.location.name}: ${corrections} correction(s), ${report.totals.varianceUnits} unit(s), ₹${report.totals.varianceCost.toFixed(2)} at cost`
+    });
+    
+    await sendStockTake(res, before._id);
+  } catch (error) {
+    if (error instanceof StockTakeValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error approving stock take:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// SUPPLIER API ENDPOINTS
+
+// Get all suppliers
+app.get('/api/suppliers', requirePermission('suppliers:read'), async (req, res) => {
+  try {
+    const suppliers = await mongoose.model('Supplier').find({})
+      .populate('products', 'name category price stock')
+      .sort({ name: 1 });
+    
+    res.json(suppliers.map(supplier => ({
+      id: supplier._id,
+      name: supplier.name,
+      contactPerson: supplier.contactPerson,
+      email: supplier.email,
+      phone: supplier.phone,
+      address: supplier.address,
+      products: supplier.products,
+      createdAt: supplier.createdAt,
+      updatedAt: supplier.updatedAt
     })));
   } catch (error) {
-    console.error('Error getting products:', error);
+    console.error('Error getting suppliers:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get product categories
-app.get('/api/products/categories', async (req, res) => {
+// Get supplier by ID
+app.get('/api/suppliers/:id', requirePermission('suppliers:read'), async (req, res) => {
   try {
-    // Aggregate products by category
-    const categoryCounts = await Product.aggregate([
-      { $group: { _id: '$category', count: { $sum: 1 } } },
-      { $sort: { count: -1 } },
-      { $project: { _id: 0, name: '$_id', count: 1 } }
-    ]);
+    const { id } = req.params;
     
-    res.json(categoryCounts);
+    const supplier = await mongoose.model('Supplier').findById(id)
+      .populate('products', 'name category price stock');
+    
+    if (!supplier) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+    
+    res.json({
+      id: supplier._id,
+      name: supplier.name,
+      contactPerson: supplier.contactPerson,
+      email: supplier.email,
+      phone: supplier.phone,
+      address: supplier.address,
+      products: supplier.products,
+      createdAt: supplier.createdAt,
+      updatedAt: supplier.updatedAt
+    });
   } catch (error) {
-    console.error('Error getting product categories:', error);
+    console.error('Error getting supplier:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get product by ID
-app.get('/api/products/:id', async (req, res) => {
+// Create supplier
+app.post('/api/suppliers', requirePermission('suppliers:write'), async (req, res) => {
   try {
-    const { id } = req.params;
+    const supplierData = req.body;
     
-    // Skip if the ID is 'categories' as it's handled by a different route
-    if (id === 'categories') {
-      return res.status(404).json({ message: 'Invalid product ID' });
+    // Initialize products as empty array if not provided
+    if (!supplierData.products) {
+      supplierData.products = [];
     }
     
-    const product = await Product.findById(id);
+    // Create new supplier
+    const SupplierModel = mongoose.model('Supplier');
+    const newSupplier = new SupplierModel(supplierData);
     
-    if (!product) {
-      return res.status(404).json({ message: 'Product not found' });
-    }
+    // Save supplier
+    const savedSupplier = await newSupplier.save();
     
-    // Get supplier name if available
-    let supplierName = '';
-    if (product.supplier) {
-      const SupplierModel = mongoose.model('Supplier');
-      const supplier = await SupplierModel.findById(product.supplier);
-      if (supplier) {
-        supplierName = supplier.name;
-      }
-    }
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'supplier',
+      entityId: savedSupplier._id,
+      after: savedSupplier,
+      summary: `Created supplier ${savedSupplier.name}`
+    });
     
-    res.json({
-      id: product._id,
-      name: product.name,
-      barcode: product.barcode,
-      category: product.category,
-      price: product.price,
-      costPrice: product.costPrice,
-      stock: product.stock,
-      imageUrl: product.imageUrl,
-      supplier: supplierName,
-      reorderLevel: product.reorderLevel,
-      autoReorder: product.autoReorder,
-      targetStockLevel: product.targetStockLevel,
-      createdAt: product.createdAt,
-      updatedAt: product.updatedAt
+    // Return the newly created supplier
+    res.status(201).json({
+      id: savedSupplier._id,
+      name: savedSupplier.name,
+      contactPerson: savedSupplier.contactPerson,
+      email: savedSupplier.email,
+      phone: savedSupplier.phone,
+      address: savedSupplier.address,
+      products: savedSupplier.products || [],
+      createdAt: savedSupplier.createdAt,
+      updatedAt: savedSupplier.updatedAt
     });
   } catch (error) {
-    console.error('Error getting product:', error);
-    res.status(500).json({ message: 'Server error', error: error.message });
+    console.error('Error creating supplier:', error);
+    res.status(500).json({ message: 'Failed to create supplier' });
   }
 });
 
-// Create new product
-app.post('/api/products', async (req, res) => {
+// Update supplier
+app.put('/api/suppliers/:id', requirePermission('suppliers:write'), async (req, res) => {
   try {
-    const productData = req.body;
+    const { id } = req.params;
+    const supplierData = req.body;
     
-    console.log('Creating product with data:', JSON.stringify({
-      ...productData,
-      supplier: productData.supplier === '' ? 'EMPTY STRING' : productData.supplier
-    }));
+    // Update supplier
+    const SupplierModel = mongoose.model('Supplier');
+    const previousSupplier = await SupplierModel.findById(id);
+    const updatedSupplier = await SupplierModel.findByIdAndUpdate(
+      id,
+      supplierData,
+      { new: true } // Return the updated document
+    ).populate('products', 'name category price stock');
     
-    // Handle supplier field properly
-    if (productData.hasOwnProperty('supplier')) {
-      // If supplier is empty string, null, or undefined, try to use default supplier
-      if (!productData.supplier || productData.supplier === '' || productData.supplier === 'null') {
-        console.log('Finding default supplier');
-        try {
-          const defaultSupplier = await Supplier.findOne({ name: 'Default Supplier' });
-          if (defaultSupplier) {
-            console.log(`Using default supplier with ID: ${defaultSupplier._id}`);
-            productData.supplier = defaultSupplier._id;
-          } else {
-            console.log('No default supplier found, setting to null');
-            productData.supplier = null;
-          }
-        } catch (defaultSupplierError) {
-          console.error('Error finding default supplier:', defaultSupplierError);
-          productData.supplier = null;
-        }
-      } else if (typeof productData.supplier === 'string') {
-        // If it's a non-empty string, try to find the supplier by name
-        try {
-          const SupplierModel = mongoose.model('Supplier');
-          const supplier = await SupplierModel.findOne({ name: productData.supplier });
-          
-          if (supplier) {
-            console.log(`Found supplier: ${supplier.name} with ID: ${supplier._id}`);
-            productData.supplier = supplier._id;
-          } else {
-            console.log(`Supplier not found with name: ${productData.supplier}, using default`);
-            // Try to use default supplier
-            const defaultSupplier = await Supplier.findOne({ name: 'Default Supplier' });
-            if (defaultSupplier) {
-              console.log(`Using default supplier with ID: ${defaultSupplier._id}`);
-              productData.supplier = defaultSupplier._id;
-            } else {
-              productData.supplier = null;
-            }
-          }
-        } catch (supplierError) {
-          console.error('Error finding supplier:', supplierError);
-          productData.supplier = null;
-        }
-      }
-    } else {
-      // If supplier is not provided, use default supplier
-      try {
-        const defaultSupplier = await Supplier.findOne({ name: 'Default Supplier' });
-        if (defaultSupplier) {
-          console.log(`Adding default supplier with ID: ${defaultSupplier._id}`);
-          productData.supplier = defaultSupplier._id;
-        }
-      } catch (error) {
-        console.error('Error finding default supplier:', error);
-      }
+    if (!updatedSupplier) {
+      return res.status(404).json({ message: 'Supplier not found' });
     }
     
-    // Create and save the product
-    const product = new Product(productData);
-    const savedProduct = await product.save();
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'supplier',
+      entityId: updatedSupplier._id,
+      before: previousSupplier,
+      after: await SupplierModel.findById(id),
+      summary: `Updated supplier ${updatedSupplier.name}`
+    });
     
-    // If there's a supplier, add this product to the supplier's products array
-    if (savedProduct.supplier) {
-      const SupplierModel = mongoose.model('Supplier');
-      await SupplierModel.findByIdAndUpdate(
-        savedProduct.supplier,
-        { $addToSet: { products: savedProduct._id } }
-      );
-    }
+    // Return the updated supplier
+    res.json({
+      id: updatedSupplier._id,
+      name: updatedSupplier.name,
+      contactPerson: updatedSupplier.contactPerson,
+      email: updatedSupplier.email,
+      phone: updatedSupplier.phone,
+      address: updatedSupplier.address,
+      products: updatedSupplier.products || [],
+      createdAt: updatedSupplier.createdAt,
+      updatedAt: updatedSupplier.updatedAt
+    });
+  } catch (error) {
+    console.error('Error updating supplier:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Delete supplier
+app.delete('/api/suppliers/:id', requirePermission('suppliers:write'), async (req, res) => {
+  try {
+    const { id } = req.params;
     
-    // Get supplier name for response
-    let supplierName = '';
-    if (savedProduct.supplier) {
-      const supplier = await Supplier.findById(savedProduct.supplier);
-      if (supplier) {
-        supplierName = supplier.name;
-      }
+    const SupplierModel = mongoose.model('Supplier');
+    const deletedSupplier = await SupplierModel.findByIdAndDelete(id);
+    
+    if (!deletedSupplier) {
+      return res.status(404).json({ message: 'Supplier not found' });
     }
     
-    res.status(201).json({
-      id: savedProduct._id,
-      name: savedProduct.name,
-      barcode: savedProduct.barcode,
-      category: savedProduct.category,
-      price: savedProduct.price,
-      costPrice: savedProduct.costPrice,
-      stock: savedProduct.stock,
-      imageUrl: savedProduct.imageUrl,
-      supplier: supplierName,
-      reorderLevel: savedProduct.reorderLevel,
-      autoReorder: savedProduct.autoReorder,
-      targetStockLevel: savedProduct.targetStockLevel,
-      createdAt: savedProduct.createdAt,
-      updatedAt: savedProduct.updatedAt
+    await recordAudit(req, {
+      action: 'delete',
+      entity: 'supplier',
+      entityId: deletedSupplier._id,
+      before: deletedSupplier,
+      summary: `Deleted supplier ${deletedSupplier.name}`
     });
+    
+    res.json({ message: 'Supplier deleted successfully' });
   } catch (error) {
-    console.error('Error creating product:', error);
+    console.error('Error deleting supplier:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// LOCATION API ENDPOINTS
+
+// Format a location for the client
+const formatLocation = (location) => ({
+  id: location._id,
+  name: location.name,
+  kind: location.kind,
+  isDefault: location.isDefault
+});
+
+// Get locations. The default one is created on first use.
+app.get('/api/locations', requirePermission('inventory:read'), async (req, res) => {
+  try {
+    await getDefaultLocation();
+    const locations = await Location.find().sort({ name: 1 });
+    res.json(locations.map(formatLocation));
+  } catch (error) {
+    console.error('Error getting locations:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Create location
+app.post('/api/locations', requirePermission('inventory:write'), async (req, res) => {
+  try {
+    const { name, kind, isDefault } = req.body;
     
-    // Add better error diagnostics
-    if (error.name === 'ValidationError') {
-      // Check for specific validation errors
-      const errorMessages = {};
-      for (const field in error.errors) {
-        errorMessages[field] = {
-          message: error.errors[field].message,
-          kind: error.errors[field].kind,
-          value: error.errors[field].value
-        };
-      }
-      return res.status(400).json({ 
-        message: 'Validation error', 
-        fieldErrors: errorMessages 
-      });
+    if (!name || !name.trim()) {
+      return res.status(400).json({ message: 'Name is required' });
+    }
+    
+    if (await Location.exists({ name: name.trim() })) {
+      return res.status(400).json({ message: 'A location with this name already exists' });
     }
     
+    const location = await Location.create({ name, kind, isDefault: !!isDefault });
+    
+    if (location.isDefault) {
+      await Location.updateMany({ _id: { $ne: location._id }, isDefault: true }, { isDefault: false });
+    }
+    
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'location',
+      entityId: location._id,
+      after: location,
+      summary: `Created location ${location.name}`
+    });
+    
+    res.status(201).json(formatLocation(location));
+  } catch (error) {
+    console.error('Error creating location:', error);
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Update product
-app.put('/api/products/:id', async (req, res) => {
+// Update location. There is always one default, so it can only be moved, not cleared.
+app.put('/api/locations/:id', requirePermission('inventory:write'), async (req, res) => {
   try {
-    const { id } = req.params;
-    const updateData = req.body;
-    
-    console.log('Updating product:', id);
-    console.log('Update data:', JSON.stringify({
-      ...updateData,
-      supplier: updateData.supplier === '' ? 'EMPTY STRING' : updateData.supplier
-    }));
-    
-    // Find the current product to get the previous supplier if there is one
-    const currentProduct = await Product.findById(id);
+    const { name, kind, isDefault } = req.body;
+    const before = await Location.findById(req.params.id);
     
-    if (!currentProduct) {
-      return res.status(404).json({ message: 'Product not found' });
+    if (!before) {
+      return res.status(404).json({ message: 'Location not found' });
     }
     
-    const previousSupplierId = currentProduct.supplier;
-    
-    // Handle supplier field properly
-    if (updateData.hasOwnProperty('supplier')) {
-      // If supplier is empty string, null, or undefined, try to use default supplier
-      if (!updateData.supplier || updateData.supplier === '' || updateData.supplier === 'null') {
-        console.log('Finding default supplier');
-        try {
-          const defaultSupplier = await Supplier.findOne({ name: 'Default Supplier' });
-          if (defaultSupplier) {
-            console.log(`Using default supplier with ID: ${defaultSupplier._id}`);
-            updateData.supplier = defaultSupplier._id;
-          } else {
-            console.log('No default supplier found, setting to null');
-            updateData.supplier = null;
-          }
-        } catch (defaultSupplierError) {
-          console.error('Error finding default supplier:', defaultSupplierError);
-          updateData.supplier = null;
-        }
-      } else if (typeof updateData.supplier === 'string') {
-        // If it's a non-empty string, try to find the supplier by name
-        try {
-          const SupplierModel = mongoose.model('Supplier');
-          const supplier = await SupplierModel.findOne({ name: updateData.supplier });
-          
-          if (supplier) {
-            console.log(`Found supplier: ${supplier.name} with ID: ${supplier._id}`);
-            updateData.supplier = supplier._id;
-          } else {
-            console.log(`Supplier not found with name: ${updateData.supplier}, using default`);
-            // Try to use default supplier
-            const defaultSupplier = await Supplier.findOne({ name: 'Default Supplier' });
-            if (defaultSupplier) {
-              console.log(`Using default supplier with ID: ${defaultSupplier._id}`);
-              updateData.supplier = defaultSupplier._id;
-            } else {
-              updateData.supplier = null;
-            }
-          }
-        } catch (supplierError) {
-          console.error('Error finding supplier:', supplierError);
-          updateData.supplier = null;
-        }
-      }
+    if (before.isDefault && isDefault === false) {
+      return res.status(400).json({ message: 'Make another location the default instead' });
     }
     
-    // Update the product
-    const updatedProduct = await Product.findByIdAndUpdate(
-      id,
+    const updateData = {};
+    if (name !== undefined) updateData.name = name;
+    if (kind !== undefined) updateData.kind = kind;
+    if (isDefault) updateData.isDefault = true;
+    
+    const location = await Location.findByIdAndUpdate(
+      req.params.id,
       updateData,
       { new: true, runValidators: true }
     );
     
-    if (!updatedProduct) {
-      return res.status(404).json({ message: 'Product not found' });
+    if (location.isDefault) {
+      await Location.updateMany({ _id: { $ne: location._id }, isDefault: true }, { isDefault: false });
     }
     
-    // Handle supplier product list updates
-    const SupplierModel = mongoose.model('Supplier');
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'location',
+      entityId: location._id,
+      before,
+      after: location,
+      summary: `Updated location ${location.name}`
+    });
     
-    // 1. If there was a previous supplier, remove product from its list
-    if (previousSupplierId && (!updatedProduct.supplier || !previousSupplierId.equals(updatedProduct.supplier))) {
-      await SupplierModel.findByIdAndUpdate(
-        previousSupplierId,
-        { $pull: { products: id } }
-      );
+    res.json(formatLocation(location));
+  } catch (error) {
+    console.error('Error updating location:', error);
+    if (error.name === 'ValidationError' || error.code === 11000) {
+      return res.status(400).json({ message: error.code === 11000 ? 'A location with this name already exists' : error.message });
     }
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// TAX API ENDPOINTS
+
+// Format a tax class for the client
+const formatTaxClass = (taxClass) => ({
+  id: taxClass._id,
+  name: taxClass.name,
+  rate: taxClass.rate,
+  isDefault: taxClass.isDefault
+});
+
+// Only one class can be the default; setting a new one clears the rest
+const clearOtherDefaults = async (taxClassId) => {
+  await TaxClass.updateMany({ _id: { $ne: taxClassId }, isDefault: true }, { isDefault: false });
+};
+
+// Get tax classes and pricing mode
+app.get('/api/tax', requirePermission('tax:read'), async (req, res) => {
+  try {
+    const { classes, pricesIncludeTax } = await getTaxConfig();
+    res.json({ pricesIncludeTax, classes: classes.map(formatTaxClass) });
+  } catch (error) {
+    console.error('Error getting tax settings:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Switch between tax-inclusive and tax-exclusive pricing
+app.put('/api/tax/settings', requirePermission('tax:write'), async (req, res) => {
+  try {
+    const { pricesIncludeTax } = req.body;
     
-    // 2. If there is a new supplier, add product to its list
-    if (updatedProduct.supplier && (!previousSupplierId || !previousSupplierId.equals(updatedProduct.supplier))) {
-      await SupplierModel.findByIdAndUpdate(
-        updatedProduct.supplier,
-        { $addToSet: { products: id } }
-      );
+    if (typeof pricesIncludeTax !== 'boolean') {
+      return res.status(400).json({ message: 'pricesIncludeTax must be true or false' });
     }
     
-    // Get supplier name for response
-    let supplierName = '';
-    if (updatedProduct.supplier) {
-      const supplier = await SupplierModel.findById(updatedProduct.supplier);
-      if (supplier) {
-        supplierName = supplier.name;
-      }
-    }
+    const before = await StoreSettings.findOne();
+    const settings = await StoreSettings.findOneAndUpdate(
+      {},
+      { pricesIncludeTax },
+      { new: true, upsert: true }
+    );
     
-    res.json({
-      id: updatedProduct._id,
-      name: updatedProduct.name,
-      barcode: updatedProduct.barcode,
-      category: updatedProduct.category,
-      price: updatedProduct.price,
-      costPrice: updatedProduct.costPrice,
-      stock: updatedProduct.stock,
-      imageUrl: updatedProduct.imageUrl,
-      supplier: supplierName,
-      reorderLevel: updatedProduct.reorderLevel,
-      autoReorder: updatedProduct.autoReorder,
-      targetStockLevel: updatedProduct.targetStockLevel,
-      createdAt: updatedProduct.createdAt,
-      updatedAt: updatedProduct.updatedAt
+    await recordAudit(req, {
+      action: before ? 'update' : 'create',
+      entity: 'settings',
+      entityId: settings._id,
+      before,
+      after: settings,
+      summary: `Prices ${pricesIncludeTax ? 'include' : 'exclude'} tax`
     });
-  } catch (error) {
-    console.error('Error updating product:', error);
-    
-    // Add better error diagnostics
-    if (error.name === 'ValidationError') {
-      // Check for specific validation errors
-      const errorMessages = {};
-      for (const field in error.errors) {
-        errorMessages[field] = {
-          message: error.errors[field].message,
-          kind: error.errors[field].kind,
-          value: error.errors[field].value
-        };
-      }
-      return res.status(400).json({ 
-        message: 'Validation error', 
-        fieldErrors: errorMessages 
-      });
-    }
     
+    res.json({ pricesIncludeTax: settings.pricesIncludeTax });
+  } catch (error) {
+    console.error('Error updating tax settings:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Delete product
-app.delete('/api/products/:id', async (req, res) => {
+// Create tax class
+app.post('/api/tax/classes', requirePermission('tax:write'), async (req, res) => {
   try {
-    const { id } = req.params;
+    const { name, rate, isDefault } = req.body;
     
-    const deletedProduct = await Product.findByIdAndDelete(id);
+    if (!name || rate === undefined || rate === null) {
+      return res.status(400).json({ message: 'Name and rate are required' });
+    }
     
-    if (!deletedProduct) {
-      return res.status(404).json({ message: 'Product not found' });
+    if (await TaxClass.exists({ name: name.trim() })) {
+      return res.status(400).json({ message: 'A tax class with this name already exists' });
     }
     
-    res.json({ message: 'Product deleted successfully' });
+    const taxClass = await TaxClass.create({ name, rate: Number(rate), isDefault: !!isDefault });
+    
+    if (taxClass.isDefault) {
+      await clearOtherDefaults(taxClass._id);
+    }
+    
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'taxClass',
+      entityId: taxClass._id,
+      after: taxClass,
+      summary: `Created tax class ${taxClass.name} at ${taxClass.rate}%`
+    });
+    
+    res.status(201).json(formatTaxClass(taxClass));
   } catch (error) {
-    console.error('Error deleting product:', error);
+    console.error('Error creating tax class:', error);
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ message: error.message });
+    }
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Sales API endpoints
-// Get all sales
-app.get('/api/sales', async (req, res) => {
+// Update tax class
+app.put('/api/tax/classes/:id', requirePermission('tax:write'), async (req, res) => {
   try {
-    const filter = {};
+    const { name, rate, isDefault } = req.body;
+    const before = await TaxClass.findById(req.params.id);
     
-    // Filter by date range if provided
-    if (req.query.startDate && req.query.endDate) {
-      filter.timestamp = {
-        $gte: new Date(req.query.startDate),
-        $lte: new Date(req.query.endDate)
-      };
+    if (!before) {
+      return res.status(404).json({ message: 'Tax class not found' });
     }
     
-    // Filter by payment method if provided
-    if (req.query.paymentMethod) {
-      filter.paymentMethod = req.query.paymentMethod;
+    const updateData = {};
+    if (name !== undefined) updateData.name = name;
+    if (rate !== undefined) updateData.rate = Number(rate);
+    if (isDefault !== undefined) updateData.isDefault = !!isDefault;
+    
+    const taxClass = await TaxClass.findByIdAndUpdate(
+      req.params.id,
+      updateData,
+      { new: true, runValidators: true }
+    );
+    
+    if (taxClass.isDefault) {
+      await clearOtherDefaults(taxClass._id);
     }
     
-    // Filter by channel if provided
-    if (req.query.channel) {
-      filter.channel = req.query.channel;
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'taxClass',
+      entityId: taxClass._id,
+      before,
+      after: taxClass,
+      summary: `Updated tax class ${taxClass.name}`
+    });
+    
+    res.json(formatTaxClass(taxClass));
+  } catch (error) {
+    console.error('Error updating tax class:', error);
+    if (error.name === 'ValidationError' || error.code === 11000) {
+      return res.status(400).json({ message: error.code === 11000 ? 'A tax class with this name already exists' : error.message });
     }
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Delete tax class - products using it fall back to the default class
+app.delete('/api/tax/classes/:id', requirePermission('tax:write'), async (req, res) => {
+  try {
+    const taxClass = await TaxClass.findById(req.params.id);
     
-    // Filter by customer name if provided
-    if (req.query.customerName) {
-      filter.customerName = { $regex: req.query.customerName, $options: 'i' };
+    if (!taxClass) {
+      return res.status(404).json({ message: 'Tax class not found' });
     }
     
-    const sales = await Sale.find(filter)
-      .populate('products.product', 'name category price barcode stock costPrice')
-      .sort({ timestamp: -1 });
+    await Product.updateMany({ taxClass: taxClass._id }, { taxClass: null });
+    await TaxClass.findByIdAndDelete(taxClass._id);
     
-    // Ensure each sale has product information and valid IDs for client
-    const formattedSales = sales.map(sale => {
-      const saleObj = sale.toObject();
-      return {
-        ...saleObj,
-        id: saleObj._id, // Ensure there's always an id property
-        products: saleObj.products.map(product => ({
-          ...product,
-          product: {
-            id: product.product?._id || 'unknown-id',
-            name: product.productSnapshot?.name || product.product?.name || 'Unknown Product',
-            ...product.product,
-          }
-        }))
-      };
+    await recordAudit(req, {
+      action: 'delete',
+      entity: 'taxClass',
+      entityId: taxClass._id,
+      before: taxClass,
+      summary: `Deleted tax class ${taxClass.name}`
     });
     
-    res.json(formattedSales);
+    res.json({ message: 'Tax class deleted successfully' });
   } catch (error) {
-    console.error('Error getting sales:', error);
+    console.error('Error deleting tax class:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get sale by ID
-app.get('/api/sales/:id', async (req, res) => {
+// PAYMENT API ENDPOINTS
+
+// Format a payment intent for the client
+const formatPaymentIntent = (intent) => ({
+  paymentIntentId: intent.paymentIntentId,
+  provider: intent.provider,
+  method: intent.method,
+  status: intent.status,
+  amount: intent.amount,
+  amountRefunded: intent.amountRefunded,
+  saleId: intent.sale,
+  failureMessage: intent.failureMessage,
+  confirmationReference: intent.confirmationReference,
+  createdAt: intent.createdAt
+});
+
+// Open a payment with the provider for the card/online/UPI share of a bill. The bill is
+// priced here from the stored product prices, so the client can't choose what it is charged.
+// The bill is kept with the payment so the sale can be recorded once it is paid.
+app.post('/api/payments/intents', requirePermission('sales:create'), async (req, res) => {
   try {
-    const sale = await Sale.findById(req.params.id)
-      .populate('products.product', 'name category price barcode stock costPrice');
+    const { products, couponCode, payments, paymentMethod, channel, customerName, customer, shift, till, location } = req.body;
     
-    if (!sale) {
-      return res.status(404).json({ message: 'Sale not found' });
+    if (!Array.isArray(products) || products.length === 0) {
+      return res.status(400).json({ message: 'Products are required' });
     }
     
-    // Format the sale for the client
-    const saleObj = sale.toObject();
-    const formattedSale = {
-      ...saleObj,
-      id: saleObj._id, // Ensure there's always an id property
-      products: saleObj.products.map(product => ({
-        ...product,
-        product: {
-          id: product.product?._id || 'unknown-id',
-          name: product.productSnapshot?.name || product.product?.name || 'Unknown Product',
-          ...product.product,
-        }
-      }))
-    };
+    // The sale may only be recorded later, from the webhook, so an in-store bill's shift is
+    // checked now: it must be open on the till taking the payment
+    if (channel === 'in-store') {
+      await getTransactionShift(shift, { required: true, sentBy: { till, user: req.user } });
+    }
+    
+    // One provider takes the whole share that isn't paid at the till
+    const chargedMethods = [...new Set((Array.isArray(payments) ? payments : [])
+      .map(payment => payment.method)
+      .filter(method => CHARGED_TENDERS.includes(method)))];
+    if (chargedMethods.length > 1) {
+      return res.status(400).json({ message: 'Only one card, online or UPI tender can be charged per bill' });
+    }
+    
+    const method = chargedMethods[0] || paymentMethod || 'card';
+    if (!CHARGED_TENDERS.includes(method)) {
+      return res.status(400).json({ message: `${method} payments are taken at the till` });
+    }
+    
+    const provider = PAYMENT_PROVIDERS[getTenderProvider(method)];
+    if (!provider.isAvailable()) {
+      return res.status(503).json({ message: `${provider.label} payments are not configured` });
+    }
+    
+    const productIds = products.map(item => String(item.product?.id || item.product?._id || item.product));
+    if (productIds.some(productId => !mongoose.Types.ObjectId.isValid(productId))) {
+      return res.status(400).json({ message: 'Invalid product ID format' });
+    }
+    
+    const found = await Product.find({ _id: { $in: productIds } });
+    const productsById = new Map(found.map(product => [String(product._id), product]));
+    
+    const lines = [];
+    for (const [index, item] of products.entries()) {
+      const product = productsById.get(productIds[index]);
+      const quantity = Number(item.quantity);
+      if (!product) {
+        return res.status(400).json({ message: `Product with ID ${productIds[index]} not found` });
+      }
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return res.status(400).json({ message: `Invalid quantity for ${product.name}` });
+      }
+      lines.push({
+        product: product._id,
+        productSnapshot: { name: product.name, category: product.category },
+        quantity,
+        priceAtSale: getWeightedPrice(item, product) ?? product.price,
+        taxClass: product.taxClass,
+        barcode: item.barcode
+      });
+    }
+    
+    const quote = await priceSale(lines, { couponCode });
+    const amount = getChargeAmount(payments, quote.totalAmount);
+    
+    if (amount <= 0) {
+      return res.status(400).json({ message: `Nothing is left to charge by ${method}` });
+    }
+    
+    const { storeName } = await getReceiptSettings();
+    const opened = await provider.createIntent({
+      amount,
+      payeeName: storeName,
+      description: `${storeName} bill`,
+      metadata: {
+        totalAmount: quote.totalAmount.toFixed(2),
+        couponCode: quote.couponCode || '',
+        employeeId: String(req.user.id)
+      }
+    });
+    
+    await PaymentIntent.create({
+      paymentIntentId: opened.reference,
+      provider: provider.name,
+      method,
+      amount,
+      bill: {
+        // Each line keeps the price it was charged at, so the sale records what was paid
+        products: lines.map(line => ({
+          product: String(line.product),
+          quantity: line.quantity,
+          priceAtSale: line.priceAtSale,
+          barcode: line.barcode
+        })),
+        couponCode: quote.couponCode || undefined,
+        paymentMethod: paymentMethod || method,
+        payments: Array.isArray(payments) && payments.length ? payments : undefined,
+        channel: channel || 'online',
+        employeeId: String(req.user.id),
+        employeeName: req.user.name,
+        customerName,
+        customer: customer || undefined,
+        shift: shift || undefined,
+        till: till || undefined,
+        location: location || undefined
+      },
+      createdBy: { id: String(req.user.id), name: req.user.name }
+    });
     
-    res.json(formattedSale);
+    res.status(201).json({
+      provider: provider.name,
+      paymentIntentId: opened.reference,
+      clientSecret: opened.clientSecret,
+      upi: opened.upi,
+      amount,
+      totalAmount: quote.totalAmount
+    });
   } catch (error) {
-    console.error('Error getting sale:', error);
+    if (error instanceof PromotionError || error instanceof PaymentError || error instanceof ShiftError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error creating payment intent:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Create new sale
-app.post('/api/sales', async (req, res) => {
-  try {
-    const {
-      products,
-      totalAmount,
-      paymentMethod,
-      customerId,
-      customerName,
-      employeeId,
-      channel
-    } = req.body;
-    
-    // Validate required fields
-    if (!products || !products.length || !totalAmount || !paymentMethod || !employeeId || !channel) {
-      return res.status(400).json({ message: 'Missing required fields' });
-    }
+// Get a payment and where it stands with its provider
+app.get('/api/payments/:id', requirePermission('sales:read'), async (req, res) => {
+  try {
+    const intent = await PaymentIntent.findOne({ paymentIntentId: req.params.id });
     
-    // Create product snapshots and validate products
-    const processedProducts = [];
+    if (!intent) {
+      return res.status(404).json({ message: 'Payment not found' });
+    }
     
-    for (const item of products) {
-      try {
-        // Check if product exists and has sufficient stock
-        let productId;
-        
-        // Handle both string IDs and object format
-        if (typeof item.product === 'object' && item.product.id) {
-          productId = item.product.id;
-        } else if (typeof item.product === 'object' && item.product._id) {
-          productId = item.product._id;
-        } else {
-          productId = item.product;
-        }
-        
-        // Ensure productId is a string
-        productId = String(productId);
-        
-        // Check if productId is valid
-        try {
-          if (!mongoose.Types.ObjectId.isValid(productId)) {
-            console.error(`Invalid ObjectId format for product: ${JSON.stringify(item.product)}`);
-            return res.status(400).json({ message: `Invalid product ID format: ${productId}` });
-          }
-        } catch (idError) {
-          console.error(`Error validating ObjectId: ${idError.message}`);
-          return res.status(400).json({ message: `Invalid product ID: ${idError.message}` });
-        }
-        
-        const product = await Product.findById(productId);
-        
-        if (!product) {
-          return res.status(400).json({ message: `Product with ID ${productId} not found` });
-        }
-        
-        if (channel === 'in-store' && product.stock < item.quantity) {
-          return res.status(400).json({ 
-            message: `Insufficient stock for ${product.name}. Available: ${product.stock}, Requested: ${item.quantity}` 
-          });
-        }
-        
-        // Create a snapshot of the product at the time of sale
-        processedProducts.push({
-          product: product._id, // Always use the MongoDB _id
-          productSnapshot: {
-            name: product.name,
-            category: product.category,
-            price: product.price,
-            barcode: product.barcode
-          },
-          quantity: item.quantity,
-          priceAtSale: item.priceAtSale || product.price
-        });
-        
-        // Update stock for in-store purchases
-        if (channel === 'in-store') {
-          product.stock -= item.quantity;
-          await product.save();
-        }
-      } catch (error) {
-        console.error(`Error processing product ${JSON.stringify(item.product)}:`, error);
-        return res.status(400).json({ message: `Error processing product: ${error.message}` });
+    const provider = PAYMENT_PROVIDERS[intent.provider];
+    if (intent.status === 'pending' && provider.isAvailable()) {
+      intent.status = await provider.getStatus(intent);
+      if (intent.isModified('status')) {
+        await intent.save();
       }
     }
     
-    // Create new sale
-    const newSale = new Sale({
-      products: processedProducts,
-      totalAmount,
-      paymentMethod,
-      customerId,
-      customerName,
-      employeeId,
-      channel,
-      timestamp: new Date()
-    });
+    res.json(formatPaymentIntent(intent));
+  } catch (error) {
+    console.error('Error getting payment:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Confirm a payment has been made and record its sale. For UPI this is the cashier
+// vouching that the money has arrived, with its UTR number as `reference`; Stripe
+// payments are checked with Stripe. Confirming a payment twice returns the same sale.
+app.post('/api/payments/:id/confirm', requirePermission('sales:create'), async (req, res) => {
+  try {
+    const { reference } = req.body;
+    const intent = await PaymentIntent.findOne({ paymentIntentId: req.params.id });
     
-    const savedSale = await newSale.save();
+    if (!intent) {
+      return res.status(404).json({ message: 'Payment not found' });
+    }
     
-    // Format the response with client-friendly IDs
-    const formattedSale = {
-      id: savedSale._id,
-      products: savedSale.products.map(item => ({
-        product: {
-          id: item.product,
-          ...item.productSnapshot
-        },
-        quantity: item.quantity,
-        priceAtSale: item.priceAtSale
-      })),
-      totalAmount: savedSale.totalAmount,
-      paymentMethod: savedSale.paymentMethod,
-      customerId: savedSale.customerId,
-      customerName: savedSale.customerName,
-      employeeId: savedSale.employeeId,
-      channel: savedSale.channel,
-      timestamp: savedSale.timestamp,
-      createdAt: savedSale.createdAt,
-      updatedAt: savedSale.updatedAt
-    };
+    const provider = PAYMENT_PROVIDERS[intent.provider];
+    if (!provider.isAvailable()) {
+      return res.status(503).json({ message: `${provider.label} payments are not configured` });
+    }
     
-    // Notify about the transaction
-    try {
-      await NotificationService.notifyNewTransaction(totalAmount, processedProducts.length);
+    if (intent.status === 'pending') {
+      const status = await provider.confirm(intent, { reference });
       
-      // Notify about stock update
-      if (channel === 'in-store') {
-        await NotificationService.notifyStockUpdate(processedProducts.length);
+      if (status === 'failed') {
+        intent.status = 'failed';
+        await intent.save();
+      }
+      if (status !== 'succeeded') {
+        return res.status(400).json({ message: intent.failureMessage || `The payment has ${status === 'failed' ? 'failed' : 'not been made yet'}` });
       }
       
-      // Check for low stock after sale
-      const allProducts = await Product.find();
-      await NotificationService.checkStockLevels(allProducts);
-    } catch (notifyError) {
-      console.warn('Could not send notification:', notifyError);
-      // Continue - notifications are non-critical
+      intent.confirmationReference = reference ? String(reference).trim() : undefined;
+      intent.confirmedBy = { id: String(req.user.id), name: req.user.name };
+    } else if (intent.status !== 'succeeded') {
+      return res.status(400).json({ message: `The payment is ${intent.status}` });
+    }
+    
+    const completed = await completePaymentIntent(intent, req.user);
+    
+    if (!completed) {
+      return res.status(400).json({ message: intent.failureMessage });
     }
     
-    res.status(201).json(formattedSale);
+    res.status(completed.created ? 201 : 200).json(formatRecordedSale(completed.sale));
   } catch (error) {
-    console.error('Error creating sale:', error);
+    console.error('Error confirming payment:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Delete sale
-app.delete('/api/sales/:id', async (req, res) => {
+// Stripe webhook - records the sale once a card payment succeeds, and notes failed and
+// refunded payments. Test it locally by signing a payload with
+// Stripe.webhooks.generateTestHeaderString and STRIPE_WEBHOOK_SECRET.
+app.post('/api/payments/webhook', async (req, res) => {
+  if (!process.env.STRIPE_WEBHOOK_SECRET) {
+    return res.status(503).json({ message: 'Stripe webhooks are not configured' });
+  }
+  
+  let event;
   try {
-    const sale = await Sale.findById(req.params.id);
+    event = Stripe.webhooks.constructEvent(
+      req.rawBody || '',
+      req.headers['stripe-signature'],
+      process.env.STRIPE_WEBHOOK_SECRET
+    );
+  } catch (error) {
+    return res.status(400).json({ message: `Invalid webhook signature: ${error.message}` });
+  }
+  
+  try {
+    await handleStripeEvent(event);
+    res.json({ received: true });
+  } catch (error) {
+    // Stripe retries the event until it is acknowledged
+    console.error(`Error handling Stripe event ${event.id}:`, error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// RECEIPT API ENDPOINTS
+
+// Receipt for a sale, as printable HTML or a downloadable PDF
+app.get('/api/sales/:id/receipt', requirePermission('sales:read'), async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Sale not found' });
+    }
+    
+    const sale = await Sale.findById(req.params.id).populate('products.product', 'name');
     
     if (!sale) {
       return res.status(404).json({ message: 'Sale not found' });
     }
     
-    // If this was an in-store sale, restore stock
-    if (sale.channel === 'in-store') {
-      for (const item of sale.products) {
-        const product = await Product.findById(item.product);
-        if (product) {
-          product.stock += item.quantity;
-          await product.save();
-        }
-      }
+    const store = await getReceiptSettings();
+    const width = req.query.width ? Number(req.query.width) : store.receiptWidth;
+    
+    if (!RECEIPT_WIDTHS.includes(width)) {
+      return res.status(400).json({ message: `Receipt width must be one of: ${RECEIPT_WIDTHS.join(', ')}mm` });
     }
     
-    await Sale.findByIdAndDelete(req.params.id);
+    const receipt = buildReceipt(sale, store, width);
+    
+    if (req.query.format === 'pdf') {
+      const pdf = await renderReceiptPdf(receipt);
+      res.set('Content-Type', 'application/pdf');
+      res.set('Content-Disposition', `attachment; filename="receipt-${receipt.meta[0].value}.pdf"`);
+      return res.send(pdf);
+    }
     
-    res.json({ message: 'Sale deleted successfully' });
+    res.type('html').send(renderReceiptHtml(receipt));
   } catch (error) {
-    console.error('Error deleting sale:', error);
+    console.error('Error rendering receipt:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get sales analytics
-app.get('/api/sales/analytics/summary', async (req, res) => {
+// Get the store header, footer and paper width printed on receipts
+app.get('/api/receipts/settings', requirePermission('sales:read'), async (req, res) => {
   try {
-    // Get total revenue
-    const totalRevenue = await Sale.aggregate([
-      { $group: { _id: null, total: { $sum: '$totalAmount' } } }
-    ]);
+    res.json(await getReceiptSettings());
+  } catch (error) {
+    console.error('Error getting receipt settings:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update the receipt settings
+app.put('/api/receipts/settings', requirePermission('receipts:write'), async (req, res) => {
+  try {
+    const updateData = {};
     
-    // Get sales by payment method
-    const salesByPaymentMethod = await Sale.aggregate([
-      { $group: { _id: '$paymentMethod', amount: { $sum: '$totalAmount' } } }
-    ]);
+    ['storeName', 'storeAddress', 'storePhone', 'taxId', 'receiptFooter'].forEach(field => {
+      if (req.body[field] !== undefined) updateData[field] = String(req.body[field]);
+    });
     
-    // Get sales by channel
-    const salesByChannel = await Sale.aggregate([
-      { $group: { _id: '$channel', amount: { $sum: '$totalAmount' } } }
-    ]);
+    if (req.body.receiptWidth !== undefined) {
+      updateData.receiptWidth = Number(req.body.receiptWidth);
+      
+      if (!RECEIPT_WIDTHS.includes(updateData.receiptWidth)) {
+        return res.status(400).json({ message: `Receipt width must be one of: ${RECEIPT_WIDTHS.join(', ')}mm` });
+      }
+    }
     
-    // Get total number of transactions
-    const totalTransactions = await Sale.countDocuments();
+    if (updateData.storeName !== undefined && !updateData.storeName.trim()) {
+      return res.status(400).json({ message: 'Store name is required' });
+    }
     
-    // Get total number of products sold
-    const productsSold = await Sale.aggregate([
-      { $unwind: '$products' },
-      { $group: { _id: null, count: { $sum: '$products.quantity' } } }
-    ]);
+    const before = await StoreSettings.findOne();
+    const settings = await StoreSettings.findOneAndUpdate(
+      {},
+      updateData,
+      { new: true, upsert: true, setDefaultsOnInsert: true, runValidators: true }
+    );
     
-    res.json({
-      totalRevenue: totalRevenue.length > 0 ? totalRevenue[0].total : 0,
-      salesByPaymentMethod: salesByPaymentMethod.map(item => ({
-        name: item._id,
-        value: item.amount
-      })),
-      salesByChannel: salesByChannel.map(item => ({
-        name: item._id,
-        value: item.amount
-      })),
-      totalTransactions,
-      productsSold: productsSold.length > 0 ? productsSold[0].count : 0
+    await recordAudit(req, {
+      action: before ? 'update' : 'create',
+      entity: 'settings',
+      entityId: settings._id,
+      before,
+      after: settings,
+      summary: 'Receipt settings updated'
     });
+    
+    res.json(formatReceiptSettings(settings));
   } catch (error) {
-    console.error('Error getting sales analytics:', error);
+    console.error('Error updating receipt settings:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// PURCHASE ORDER API ENDPOINTS
-
-// Get all purchase orders
-app.get('/api/purchase-orders', async (req, res) => {
-  try {
-    // First get all purchase orders without population
-    const purchaseOrders = await PurchaseOrder.find().lean();
-
-    // Get all unique supplier IDs
-    const supplierIds = [...new Set(purchaseOrders.map(order => order.supplierId))];
+// CUSTOMER API ENDPOINTS
 
-    // Fetch all relevant suppliers in one query
-    const suppliers = await Supplier.find({
-      _id: { $in: supplierIds.filter(id => mongoose.Types.ObjectId.isValid(id)) }
-    }).lean();
+// Purchase history and lifetime value (net of voids and refunds) per customer, keyed by customer ID
+const getCustomerStats = async (customerIds) => {
+  const sales = await Sale.aggregate([
+    { $match: { customer: { $in: customerIds }, voided: { $ne: true } } },
+    { $sort: { timestamp: -1 } },
+    {
+      $group: {
+        _id: '$customer',
+        saleIds: { $push: '$_id' },
+        total: { $sum: '$totalAmount' },
+        lastPurchaseAt: { $max: '$timestamp' }
+      }
+    }
+  ]);
+  
+  const refundTotals = await getRefundTotals(sales.flatMap(item => item.saleIds));
+  
+  return new Map(sales.map(item => [String(item._id), {
+    purchaseHistory: item.saleIds.map(String),
+    lifetimeValue: roundCurrency(item.saleIds.reduce(
+      (total, saleId) => total - (refundTotals.get(String(saleId)) || 0),
+      item.total
+    )),
+    lastPurchaseAt: item.lastPurchaseAt
+  }]));
+};
 
-    // Create a map of supplier IDs to names
-    const supplierMap = new Map(suppliers.map(s => [s._id.toString(), s.name]));
+// Format a customer for the client
+const formatCustomer = (customer, stats) => ({
+  id: customer._id,
+  name: customer.name,
+  email: customer.email || '',
+  phone: customer.phone || '',
+  loyaltyPoints: customer.loyaltyPoints,
+  purchaseHistory: stats?.purchaseHistory || [],
+  lifetimeValue: stats?.lifetimeValue || 0,
+  lastPurchaseAt: stats?.lastPurchaseAt || null,
+  createdAt: customer.createdAt,
+  updatedAt: customer.updatedAt
+});
 
-    // Format orders with supplier names
-    const formattedOrders = purchaseOrders.map(order => {
-      // Get supplier name from map or use default
-      const supplierName = supplierMap.get(order.supplierId?.toString()) || 'Default Supplier';
+// Escape user input for use inside a regular expression
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-      return {
-        id: order._id,
-        supplierId: order.supplierId,
-        supplierName: supplierName,
-        products: order.products.map(item => ({
-          productId: item.productId || 'unknown',
-          productName: 'Product Name', // We'll populate this in the next step
-          quantity: item.quantity,
-          unitPrice: item.unitPrice
-        })),
-        status: order.status,
-        totalAmount: order.totalAmount,
-        orderDate: order.orderDate,
-        expectedDeliveryDate: order.expectedDeliveryDate,
-        deliveredDate: order.deliveredDate,
-        createdAt: order.createdAt,
-        updatedAt: order.updatedAt
-      };
+const sendCustomerError = (res, error) => {
+  if (error.name === 'ValidationError' || error.code === 11000) {
+    return res.status(400).json({
+      message: error.code === 11000 ? 'Another customer already has this phone number or email' : error.message
     });
+  }
+  res.status(500).json({ message: 'Server error', error: error.message });
+};
 
-    // Get all unique product IDs
-    const productIds = [...new Set(purchaseOrders.flatMap(order => 
-      order.products.map(product => product.productId)
-    ))];
-
-    // Fetch all products in one query
-    const products = await Product.find({
-      _id: { $in: productIds.filter(id => mongoose.Types.ObjectId.isValid(id)) }
-    }).lean();
-
-    // Create a map of product IDs to names
-    const productMap = new Map(products.map(p => [p._id.toString(), p.name]));
-
-    // Add product names to formatted orders
-    const completeOrders = formattedOrders.map(order => ({
-      ...order,
-      products: order.products.map(item => ({
-        ...item,
-        productName: productMap.get(item.productId?.toString()) || 'Unknown Product'
-      }))
-    }));
-
-    // Sort orders by date (newest first)
-    const sortedOrders = completeOrders.sort((a, b) => 
-      new Date(b.orderDate) - new Date(a.orderDate)
-    );
-
-    res.json(sortedOrders);
+// Get loyalty earn and redeem rates
+app.get('/api/loyalty', requirePermission('customers:read'), async (req, res) => {
+  try {
+    res.json(await getLoyaltyConfig());
   } catch (error) {
-    console.error('Error getting purchase orders:', error);
-    res.status(500).json({ 
-      message: 'Server error', 
-      error: error.message,
-      details: error.stack 
-    });
+    console.error('Error getting loyalty settings:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get purchase order by ID
-app.get('/api/purchase-orders/:id', async (req, res) => {
+// Update loyalty earn and redeem rates
+app.put('/api/loyalty', requirePermission('customers:write'), async (req, res) => {
   try {
-    const { id } = req.params;
+    const { pointsPerRupee, pointValue } = req.body;
+    const updateData = {};
     
-    const purchaseOrder = await PurchaseOrder.findById(id)
-      .populate('products.productId', 'name category price barcode stock');
+    if (pointsPerRupee !== undefined) updateData.loyaltyPointsPerRupee = Number(pointsPerRupee);
+    if (pointValue !== undefined) updateData.loyaltyPointValue = Number(pointValue);
     
-    if (!purchaseOrder) {
-      return res.status(404).json({ message: 'Purchase order not found' });
+    if (Object.values(updateData).some(value => !Number.isFinite(value) || value < 0)) {
+      return res.status(400).json({ message: 'Loyalty rates must be numbers of 0 or more' });
     }
     
-    res.json({
-      id: purchaseOrder._id,
-      supplierId: purchaseOrder.supplierId,
-      products: purchaseOrder.products.map(item => {
-        // Check if product exists before accessing its properties
-        if (!item.productId) {
-          return {
-            productId: 'unknown',
-            productName: 'Product Not Found',
-            quantity: item.quantity,
-            unitPrice: item.unitPrice
-          };
-        }
-        
-        return {
-          productId: item.productId._id,
-          productName: item.productId.name,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice
-        };
-      }),
-      status: purchaseOrder.status,
-      totalAmount: purchaseOrder.totalAmount,
-      orderDate: purchaseOrder.orderDate,
-      expectedDeliveryDate: purchaseOrder.expectedDeliveryDate,
-      deliveredDate: purchaseOrder.deliveredDate,
-      createdAt: purchaseOrder.createdAt,
-      updatedAt: purchaseOrder.updatedAt
+    const before = await StoreSettings.findOne();
+    const settings = await StoreSettings.findOneAndUpdate(
+      {},
+      updateData,
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+    
+    await recordAudit(req, {
+      action: before ? 'update' : 'create',
+      entity: 'settings',
+      entityId: settings._id,
+      before,
+      after: settings,
+      summary: `Loyalty set to ${settings.loyaltyPointsPerRupee} points per rupee, worth ${settings.loyaltyPointValue} each`
     });
+    
+    res.json({ pointsPerRupee: settings.loyaltyPointsPerRupee, pointValue: settings.loyaltyPointValue });
+  } catch (error) {
+    console.error('Error updating loyalty settings:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get customers, optionally searching by name, phone or email
+app.get('/api/customers', requirePermission('customers:read'), async (req, res) => {
+  try {
+    const filter = {};
+    
+    if (req.query.search) {
+      const pattern = { $regex: escapeRegex(String(req.query.search).trim()), $options: 'i' };
+      filter.$or = [{ name: pattern }, { phone: pattern }, { email: pattern }];
+    }
+    
+    const customers = await Customer.find(filter).sort({ name: 1 }).limit(req.query.search ? 20 : 500);
+    const stats = await getCustomerStats(customers.map(customer => customer._id));
+    
+    res.json(customers.map(customer => formatCustomer(customer, stats.get(String(customer._id)))));
+  } catch (error) {
+    console.error('Error getting customers:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get customer by ID
+app.get('/api/customers/:id', requirePermission('customers:read'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid customer ID format' });
+    }
+    
+    const customer = await Customer.findById(req.params.id);
+    
+    if (!customer) {
+      return res.status(404).json({ message: 'Customer not found' });
+    }
+    
+    const stats = await getCustomerStats([customer._id]);
+    res.json(formatCustomer(customer, stats.get(String(customer._id))));
   } catch (error) {
-    console.error('Error getting purchase order:', error);
+    console.error('Error getting customer:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Create purchase order
-app.post('/api/purchase-orders', async (req, res) => {
+// Create customer
+app.post('/api/customers', requirePermission('customers:write'), async (req, res) => {
   try {
-    const orderData = req.body;
-    
-    // First check for existing pending or ordered purchase orders for the same product
-    const productIds = orderData.products.map(p => p.productId);
-    const existingOrders = await PurchaseOrder.find({
-      status: { $in: ['pending', 'ordered'] },
-      'products.productId': { $in: productIds }
-    });
-
-    if (existingOrders.length > 0) {
-      return res.status(409).json({
-        message: 'An order already exists for one or more of these products',
-        existingOrders: existingOrders.map(order => ({
-          id: order._id,
-          status: order.status,
-          orderDate: order.orderDate
-        }))
-      });
-    }
+    const { name, email, phone } = req.body;
     
-    // Continue with order creation if no existing orders found
-    // Validate product IDs before creating purchase order
-    if (orderData.products && Array.isArray(orderData.products)) {
-      const validatedProducts = [];
-      
-      for (const item of orderData.products) {
-        // Skip items with missing or invalid productId
-        if (!item.productId) {
-          console.warn('Skipping purchase order item with missing productId');
-          continue;
-        }
-        
-        try {
-          // Check if product exists
-          const product = await Product.findById(item.productId);
-          if (product) {
-            validatedProducts.push(item);
-          } else {
-            console.warn(`Product with ID ${item.productId} not found, skipping from purchase order`);
-          }
-        } catch (err) {
-          console.error(`Error validating product ${item.productId}:`, err);
-          // Skip invalid product IDs
-        }
-      }
-      
-      // Replace products array with validated products
-      orderData.products = validatedProducts;
+    if (!name || (!email && !phone)) {
+      return res.status(400).json({ message: 'Name and a phone number or email are required' });
     }
     
-    // Create purchase order
-    const purchaseOrder = new PurchaseOrder(orderData);
-    
-    // Save purchase order
-    const savedOrder = await purchaseOrder.save();
+    const customer = await Customer.create({
+      name,
+      email: email || undefined,
+      phone: phone || undefined
+    });
     
-    // Return formatted order
-    res.status(201).json({
-      id: savedOrder._id,
-      supplierId: savedOrder.supplierId,
-      products: savedOrder.products,
-      status: savedOrder.status,
-      totalAmount: savedOrder.totalAmount,
-      orderDate: savedOrder.orderDate,
-      expectedDeliveryDate: savedOrder.expectedDeliveryDate,
-      deliveredDate: savedOrder.deliveredDate,
-      createdAt: savedOrder.createdAt,
-      updatedAt: savedOrder.updatedAt
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'customer',
+      entityId: customer._id,
+      after: customer,
+      summary: `Created customer ${customer.name}`
     });
+    
+    res.status(201).json(formatCustomer(customer));
   } catch (error) {
-    console.error('Error creating purchase order:', error);
-    res.status(500).json({ message: 'Server error', error: error.message });
+    console.error('Error creating customer:', error);
+    sendCustomerError(res, error);
   }
 });
 
-// Update purchase order status
-app.patch('/api/purchase-orders/:id/status', async (req, res) => {
+// Update customer - points only change through sales, so they cannot be edited here
+app.put('/api/customers/:id', requirePermission('customers:write'), async (req, res) => {
   try {
-    const { id } = req.params;
-    const { status } = req.body;
+    const customer = await Customer.findById(req.params.id);
     
-    // Validate status
-    if (!['pending', 'ordered', 'received', 'canceled'].includes(status)) {
-      return res.status(400).json({ message: 'Invalid status value' });
+    if (!customer) {
+      return res.status(404).json({ message: 'Customer not found' });
     }
     
-    // Update purchase order
-    const updatedOrder = await PurchaseOrder.findByIdAndUpdate(
-      id,
-      { 
-        status,
-        ...(status === 'received' ? { deliveredDate: new Date() } : {})
-      },
-      { new: true }
-    );
+    const before = customer.toObject();
+    const { name, email, phone } = req.body;
+    if (name !== undefined) customer.name = name;
+    if (email !== undefined) customer.email = email || undefined;
+    if (phone !== undefined) customer.phone = phone || undefined;
+    await customer.save();
     
-    if (!updatedOrder) {
-      return res.status(404).json({ message: 'Purchase order not found' });
-    }
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'customer',
+      entityId: customer._id,
+      before,
+      after: customer,
+      summary: `Updated customer ${customer.name}`
+    });
     
-    // If order is received, update product stock
-    if (status === 'received') {
-      for (const item of updatedOrder.products) {
-        // Skip if productId is missing or invalid
-        if (!item.productId) {
-          console.warn(`Skipping stock update for item with missing productId in order ${id}`);
-          continue;
-        }
-        
-        try {
-          // Find product
-          const product = await Product.findById(item.productId);
-          if (product) {
-            // Increase stock
-            product.stock += item.quantity;
-            await product.save();
-          } else {
-            console.warn(`Product with ID ${item.productId} not found during order processing`);
-          }
-        } catch (err) {
-          console.error(`Error updating stock for product ${item.productId}:`, err);
-          // Continue with other products
-        }
-      }
+    const stats = await getCustomerStats([customer._id]);
+    res.json(formatCustomer(customer, stats.get(String(customer._id))));
+  } catch (error) {
+    console.error('Error updating customer:', error);
+    sendCustomerError(res, error);
+  }
+});
+
+// Delete customer - their sales stay on record under the name they were made for
+app.delete('/api/customers/:id', requirePermission('customers:write'), async (req, res) => {
+  try {
+    const customer = await Customer.findByIdAndDelete(req.params.id);
+    
+    if (!customer) {
+      return res.status(404).json({ message: 'Customer not found' });
     }
     
-    // Return updated order
-    res.json({
-      id: updatedOrder._id,
-      supplierId: updatedOrder.supplierId,
-      products: updatedOrder.products.map(item => {
-        return {
-          productId: item.productId || 'unknown',
-          quantity: item.quantity,
-          unitPrice: item.unitPrice
-        };
-      }),
-      status: updatedOrder.status,
-      totalAmount: updatedOrder.totalAmount,
-      orderDate: updatedOrder.orderDate,
-      expectedDeliveryDate: updatedOrder.expectedDeliveryDate,
-      deliveredDate: updatedOrder.deliveredDate,
-      createdAt: updatedOrder.createdAt,
-      updatedAt: updatedOrder.updatedAt
+    await Sale.updateMany({ customer: customer._id }, { $unset: { customer: 1 } });
+    
+    await recordAudit(req, {
+      action: 'delete',
+      entity: 'customer',
+      entityId: customer._id,
+      before: customer,
+      summary: `Deleted customer ${customer.name}`
     });
+    
+    res.json({ message: 'Customer deleted successfully' });
   } catch (error) {
-    console.error('Error updating purchase order:', error);
+    console.error('Error deleting customer:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// SUPPLIER API ENDPOINTS
+// PROMOTION API ENDPOINTS
 
-// Get all suppliers
-app.get('/api/suppliers', async (req, res) => {
+// Format a promotion for the client
+const formatPromotion = (promotion) => ({
+  id: promotion._id,
+  name: promotion.name,
+  type: promotion.type,
+  scope: promotion.scope,
+  value: promotion.value,
+  products: promotion.products.map(String),
+  categories: promotion.categories,
+  buyQuantity: promotion.buyQuantity,
+  getQuantity: promotion.getQuantity,
+  minimumSpend: promotion.minimumSpend,
+  couponCode: promotion.couponCode,
+  startsAt: promotion.startsAt,
+  endsAt: promotion.endsAt,
+  active: promotion.active,
+  live: isPromotionLive(promotion),
+  createdAt: promotion.createdAt,
+  updatedAt: promotion.updatedAt
+});
+
+const PROMOTION_FIELDS = [
+  'name', 'type', 'scope', 'value', 'products', 'categories', 'buyQuantity',
+  'getQuantity', 'minimumSpend', 'couponCode', 'startsAt', 'endsAt', 'active'
+];
+
+// Pick the editable promotion fields out of a request body
+const getPromotionData = (body) => {
+  const data = {};
+  PROMOTION_FIELDS.forEach(field => {
+    if (body[field] !== undefined) data[field] = body[field] === '' ? null : body[field];
+  });
+  return data;
+};
+
+const sendPromotionError = (res, error) => {
+  if (error.name === 'ValidationError' || error.code === 11000) {
+    return res.status(400).json({ message: error.code === 11000 ? 'Another promotion already uses this coupon code' : error.message });
+  }
+  res.status(500).json({ message: 'Server error', error: error.message });
+};
+
+// Get all promotions
+app.get('/api/promotions', requirePermission('promotions:read'), async (req, res) => {
   try {
-    const suppliers = await mongoose.model('Supplier').find({})
-      .populate('products', 'name category price stock')
-      .sort({ name: 1 });
+    const filter = {};
     
-    res.json(suppliers.map(supplier => ({
-      id: supplier._id,
-      name: supplier.name,
-      contactPerson: supplier.contactPerson,
-      email: supplier.email,
-      phone: supplier.phone,
-      address: supplier.address,
-      products: supplier.products,
-      createdAt: supplier.createdAt,
-      updatedAt: supplier.updatedAt
-    })));
+    if (req.query.active === 'true') {
+      filter.active = true;
+    }
+    
+    const promotions = await Promotion.find(filter).sort({ createdAt: -1 });
+    res.json(promotions.map(formatPromotion));
   } catch (error) {
-    console.error('Error getting suppliers:', error);
+    console.error('Error getting promotions:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get supplier by ID
-app.get('/api/suppliers/:id', async (req, res) => {
+// Create promotion
+app.post('/api/promotions', requirePermission('promotions:write'), async (req, res) => {
   try {
-    const { id } = req.params;
-    
-    const supplier = await mongoose.model('Supplier').findById(id)
-      .populate('products', 'name category price stock');
-    
-    if (!supplier) {
-      return res.status(404).json({ message: 'Supplier not found' });
-    }
+    const promotion = await Promotion.create(getPromotionData(req.body));
     
-    res.json({
-      id: supplier._id,
-      name: supplier.name,
-      contactPerson: supplier.contactPerson,
-      email: supplier.email,
-      phone: supplier.phone,
-      address: supplier.address,
-      products: supplier.products,
-      createdAt: supplier.createdAt,
-      updatedAt: supplier.updatedAt
+    await recordAudit(req, {
+      action: 'create',
+      entity: 'promotion',
+      entityId: promotion._id,
+      after: promotion,
+      summary: `Created promotion ${promotion.name}`
     });
+    
+    res.status(201).json(formatPromotion(promotion));
   } catch (error) {
-    console.error('Error getting supplier:', error);
-    res.status(500).json({ message: 'Server error', error: error.message });
+    console.error('Error creating promotion:', error);
+    sendPromotionError(res, error);
   }
 });
 
-// Create supplier
-app.post('/api/suppliers', async (req, res) => {
+// Update promotion
+app.put('/api/promotions/:id', requirePermission('promotions:write'), async (req, res) => {
   try {
-    const supplierData = req.body;
+    const promotion = await Promotion.findById(req.params.id);
     
-    // Initialize products as empty array if not provided
-    if (!supplierData.products) {
-      supplierData.products = [];
+    if (!promotion) {
+      return res.status(404).json({ message: 'Promotion not found' });
     }
     
-    // Create new supplier
-    const SupplierModel = mongoose.model('Supplier');
-    const newSupplier = new SupplierModel(supplierData);
-    
-    // Save supplier
-    const savedSupplier = await newSupplier.save();
+    const before = promotion.toObject();
+    promotion.set(getPromotionData(req.body));
+    await promotion.save();
     
-    // Return the newly created supplier
-    res.status(201).json({
-      id: savedSupplier._id,
-      name: savedSupplier.name,
-      contactPerson: savedSupplier.contactPerson,
-      email: savedSupplier.email,
-      phone: savedSupplier.phone,
-      address: savedSupplier.address,
-      products: savedSupplier.products || [],
-      createdAt: savedSupplier.createdAt,
-      updatedAt: savedSupplier.updatedAt
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'promotion',
+      entityId: promotion._id,
+      before,
+      after: promotion,
+      summary: `Updated promotion ${promotion.name}`
     });
+    
+    res.json(formatPromotion(promotion));
   } catch (error) {
-    console.error('Error creating supplier:', error);
-    res.status(500).json({ message: 'Failed to create supplier' });
+    console.error('Error updating promotion:', error);
+    sendPromotionError(res, error);
   }
 });
 
-// Update supplier
-app.put('/api/suppliers/:id', async (req, res) => {
+// Delete promotion - sales already made keep the discount they were given
+app.delete('/api/promotions/:id', requirePermission('promotions:write'), async (req, res) => {
   try {
-    const { id } = req.params;
-    const supplierData = req.body;
-    
-    // Update supplier
-    const SupplierModel = mongoose.model('Supplier');
-    const updatedSupplier = await SupplierModel.findByIdAndUpdate(
-      id,
-      supplierData,
-      { new: true } // Return the updated document
-    ).populate('products', 'name category price stock');
+    const promotion = await Promotion.findByIdAndDelete(req.params.id);
     
-    if (!updatedSupplier) {
-      return res.status(404).json({ message: 'Supplier not found' });
+    if (!promotion) {
+      return res.status(404).json({ message: 'Promotion not found' });
     }
     
-    // Return the updated supplier
-    res.json({
-      id: updatedSupplier._id,
-      name: updatedSupplier.name,
-      contactPerson: updatedSupplier.contactPerson,
-      email: updatedSupplier.email,
-      phone: updatedSupplier.phone,
-      address: updatedSupplier.address,
-      products: updatedSupplier.products || [],
-      createdAt: updatedSupplier.createdAt,
-      updatedAt: updatedSupplier.updatedAt
+    await recordAudit(req, {
+      action: 'delete',
+      entity: 'promotion',
+      entityId: promotion._id,
+      before: promotion,
+      summary: `Deleted promotion ${promotion.name}`
     });
+    
+    res.json({ message: 'Promotion deleted successfully' });
   } catch (error) {
-    console.error('Error updating supplier:', error);
+    console.error('Error deleting promotion:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Delete supplier
-app.delete('/api/suppliers/:id', async (req, res) => {
+// AUDIT API ENDPOINTS
+
+// Get audit events
+app.get('/api/audit', requirePermission('audit:read'), async (req, res) => {
   try {
-    const { id } = req.params;
+    const { entity, entityId, action, actorId, startDate, endDate } = req.query;
+    const filter = {};
     
-    const SupplierModel = mongoose.model('Supplier');
-    const deletedSupplier = await SupplierModel.findByIdAndDelete(id);
+    if (entity) {
+      filter.entity = entity;
+    }
     
-    if (!deletedSupplier) {
-      return res.status(404).json({ message: 'Supplier not found' });
+    if (entityId) {
+      filter.entityId = entityId;
     }
     
-    res.json({ message: 'Supplier deleted successfully' });
+    if (action) {
+      filter.action = action;
+    }
+    
+    if (actorId) {
+      filter['actor.id'] = actorId;
+    }
+    
+    // Filter by date range if provided
+    if (startDate || endDate) {
+      filter.timestamp = {
+        ...(startDate ? { $gte: new Date(startDate) } : {}),
+        ...(endDate ? { $lte: new Date(endDate) } : {})
+      };
+    }
+    
+    const limit = Math.min(Number(req.query.limit) || 100, 500);
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    
+    const [events, total] = await Promise.all([
+      AuditEvent.find(filter)
+        .sort({ timestamp: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      AuditEvent.countDocuments(filter)
+    ]);
+    
+    res.json({
+      events: events.map(event => ({
+        id: event._id,
+        actor: event.actor,
+        action: event.action,
+        entity: event.entity,
+        entityId: event.entityId,
+        summary: event.summary,
+        before: event.before,
+        after: event.after,
+        changes: event.changes,
+        timestamp: event.timestamp
+      })),
+      total,
+      page,
+      limit
+    });
   } catch (error) {
-    console.error('Error deleting supplier:', error);
+    console.error('Error getting audit events:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
@@ -1710,6 +8298,9 @@ app.use((err, req, res, next) => {
 
 export default app;
 
+// The stock ledger helpers, for the tests to drive directly
+export { applyStockMovement, rebuildStockFromLedger, getDefaultLocation, InsufficientStockError };
+
 // Only listen if not running on Vercel
 if (!process.env.VERCEL) {
   app.listen(PORT, () => {
@@ -16,10 +16,15 @@ import Billing from './pages/Billing';
 import Analytics from './pages/Analytics';
 import Transactions from './pages/Transactions';
 import PurchaseOrders from './pages/PurchaseOrders';
+import Transfers from './pages/Transfers';
+import StockTakes from './pages/StockTakes';
+import StockTakeDetail from './pages/StockTakeDetail';
 import Auth from './pages/Auth';
 import Checkout from './pages/Checkout';
 import PaymentConfirmation from './pages/PaymentConfirmation';
 import Settings from './pages/Settings';
+import CustomerProfile from './pages/CustomerProfile';
+import UnsyncedSales from './pages/UnsyncedSales';
 import NotFound from "./pages/NotFound";
 import Unauthorized from "./pages/Unauthorized";
 import SupplierForm from './components/suppliers/SupplierForm';
@@ -31,6 +36,7 @@ import { LanguageProvider } from './lib/providers/LanguageProvider';
 import { NotificationProvider } from './lib/providers/NotificationProvider';
 import { AuthProvider } from './lib/providers/AuthProvider';
 import { AutoReorderProvider } from './lib/providers/AutoReorderProvider';
+import { OutboxSyncProvider } from './lib/providers/OutboxSyncProvider';
 
 const queryClient = new QueryClient();
 
@@ -69,39 +75,46 @@ const App = () => (
         <LanguageProvider>
           <NotificationProvider>
             <AutoReorderProvider>
-              <Toaster />
-              <Sonner />
-              <BrowserRouter>
-                <AuthProvider>
-                  <AnimatePresence mode="wait">
-                    <Routes>
-                      <Route
-                        path="/*"
-                        element={
-                          <AppLayout>
-                            <Routes>
-                              <Route path="/" element={<Dashboard />} />
-                              <Route path="/inventory" element={<Inventory />} />
-                              <Route path="/suppliers/new" element={<SupplierForm />} />
-                              <Route path="/suppliers/:id" element={<SupplierForm />} />
-                              <Route path="/billing" element={<Billing />} />
-                              <Route path="/transactions" element={<Transactions />} />
-                              <Route path="/analytics" element={<Analytics />} />
-                              <Route path="/purchase-orders" element={<PurchaseOrders />} />
-                              <Route path="/settings" element={<Settings />} />
-                              <Route path="/checkout" element={<Checkout />} />
-                              <Route path="/payment-confirmation" element={<PaymentConfirmation />} />
-                              <Route path="/unauthorized" element={<Unauthorized />} />
-                              <Route path="*" element={<NotFound />} />
-                            </Routes>
-                          </AppLayout>
-                        }
-                      />
-                      <Route path="/auth" element={<Auth />} />
-                    </Routes>
-                  </AnimatePresence>
-                </AuthProvider>
-              </BrowserRouter>
+              <OutboxSyncProvider>
+                <Toaster />
+                <Sonner />
+                <BrowserRouter>
+                  <AuthProvider>
+                    <AnimatePresence mode="wait">
+                      <Routes>
+                        <Route
+                          path="/*"
+                          element={
+                            <AppLayout>
+                              <Routes>
+                                <Route path="/" element={<Dashboard />} />
+                                <Route path="/inventory" element={<Inventory />} />
+                                <Route path="/suppliers/new" element={<SupplierForm />} />
+                                <Route path="/suppliers/:id" element={<SupplierForm />} />
+                                <Route path="/billing" element={<Billing />} />
+                                <Route path="/billing/unsynced" element={<UnsyncedSales />} />
+                                <Route path="/transactions" element={<Transactions />} />
+                                <Route path="/analytics" element={<Analytics />} />
+                                <Route path="/purchase-orders" element={<PurchaseOrders />} />
+                                <Route path="/transfers" element={<Transfers />} />
+                                <Route path="/stock-takes" element={<StockTakes />} />
+                                <Route path="/stock-takes/:id" element={<StockTakeDetail />} />
+                                <Route path="/settings" element={<Settings />} />
+                                <Route path="/customers/:id" element={<CustomerProfile />} />
+                                <Route path="/checkout" element={<Checkout />} />
+                                <Route path="/payment-confirmation" element={<PaymentConfirmation />} />
+                                <Route path="/unauthorized" element={<Unauthorized />} />
+                                <Route path="*" element={<NotFound />} />
+                              </Routes>
+                            </AppLayout>
+                          }
+                        />
+                        <Route path="/auth" element={<Auth />} />
+                      </Routes>
+                    </AnimatePresence>
+                  </AuthProvider>
+                </BrowserRouter>
+              </OutboxSyncProvider>
             </AutoReorderProvider>
           </NotificationProvider>
         </LanguageProvider>
@@ -0,0 +1,56 @@
+import { AuditEvent } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+export interface AuditFilters {
+  entity?: AuditEvent['entity'];
+  entityId?: string;
+  action?: AuditEvent['action'];
+  actorId?: string;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface AuditPage {
+  events: AuditEvent[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Get audit events matching the given filters (admin only)
+export async function getAuditEvents(filters: AuditFilters = {}): Promise<AuditPage> {
+  try {
+    // Build query string from filters
+    const queryParams = new URLSearchParams();
+    
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        queryParams.append(key, String(value));
+      }
+    });
+    
+    const queryString = queryParams.toString();
+    const response = await apiFetch(`${API_BASE_URL}/audit${queryString ? `?${queryString}` : ''}`);
+    
+    if (!response.ok) {
+      throw new Error('Failed to fetch audit events');
+    }
+    
+    const data = await response.json();
+    return {
+      ...data,
+      events: data.events.map((event: any) => ({
+        ...event,
+        timestamp: new Date(event.timestamp)
+      }))
+    };
+  } catch (error) {
+    console.error('Error getting audit events:', error);
+    throw error;
+  }
+}
@@ -3,6 +3,14 @@ import { v4 as uuidv4 } from 'uuid';
 import { UserModel } from '../lib/models/User';
 import { connectToDatabase, disconnectFromDatabase } from '../lib/db';
 import { User, UserRole } from '../lib/stores/authStore';
+import { apiFetch } from './client';
+
+// Signed-in user together with the tokens issued by the server
+export interface AuthSession {
+  user: User;
+  accessToken?: string;
+  refreshToken?: string;
+}
 
 // Check if we're in a browser environment
 const isBrowser = typeof window !== 'undefined';
@@ -37,7 +45,7 @@ export async function registerUser(
   email: string,
   password: string,
   role: UserRole = 'staff'
-): Promise<User | null> {
+): Promise<AuthSession | null> {
   // Use mock data if in fallback mode
   if (useFallbackMode) {
     console.log('Using fallback mode for user registration');
@@ -59,7 +67,7 @@ export async function registerUser(
     // Add to mock users
     mockUsers.push(newUser);
     
-    return newUser;
+    return { user: newUser };
   }
   
   try {
@@ -93,13 +101,17 @@ export async function registerUser(
       throw new Error(errorMessage);
     }
 
-    const userData = await response.json();
+    const { user: userData, accessToken, refreshToken } = await response.json();
     return {
-      id: userData.id,
-      name: userData.name,
-      email: userData.email,
-      role: userData.role as UserRole,
-      avatar: userData.avatar
+      user: {
+        id: userData.id,
+        name: userData.name,
+        email: userData.email,
+        role: userData.role as UserRole,
+        avatar: userData.avatar
+      },
+      accessToken,
+      refreshToken
     };
   } catch (error) {
     console.error('Error registering user:', error);
@@ -117,7 +129,7 @@ export async function registerUser(
 export async function loginUser(
   email: string,
   password: string
-): Promise<User | null> {
+): Promise<AuthSession | null> {
   // Use mock data if in fallback mode
   if (useFallbackMode) {
     console.log('Using fallback mode for user login');
@@ -127,7 +139,7 @@ export async function loginUser(
     
     // Simple mock authentication (password is 'password' for mocks)
     if (user && password === 'password') {
-      return user;
+      return { user };
     }
     
     return null;
@@ -155,13 +167,17 @@ export async function loginUser(
       return null;
     }
 
-    const userData = await response.json();
+    const { user: userData, accessToken, refreshToken } = await response.json();
     return {
-      id: userData.id,
-      name: userData.name,
-      email: userData.email,
-      role: userData.role as UserRole,
-      avatar: userData.avatar
+      user: {
+        id: userData.id,
+        name: userData.name,
+        email: userData.email,
+        role: userData.role as UserRole,
+        avatar: userData.avatar
+      },
+      accessToken,
+      refreshToken
     };
   } catch (error) {
     console.error('Error logging in user:', error);
@@ -185,7 +201,7 @@ export async function getAllUsers(): Promise<User[]> {
   
   try {
     console.log('Attempting to fetch users via API');
-    const response = await fetch(`${API_BASE_URL}/users`);
+    const response = await apiFetch(`${API_BASE_URL}/users`);
 
     console.log('GetAllUsers API response status:', response.status);
     
@@ -243,7 +259,7 @@ export async function updateUserRole(
   
   try {
     console.log('Attempting to update user role via API');
-    const response = await fetch(`${API_BASE_URL}/users/${userId}/role`, {
+    const response = await apiFetch(`${API_BASE_URL}/users/${userId}/role`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
@@ -281,4 +297,24 @@ export async function updateUserRole(
     }
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+// Logout user (revokes the refresh token on the server)
+export async function logoutUser(refreshToken: string | null): Promise<void> {
+  if (useFallbackMode || !refreshToken) {
+    return;
+  }
+  
+  try {
+    await fetch(`${API_BASE_URL}/auth/logout`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refreshToken }),
+    });
+  } catch (error) {
+    // The local session is cleared regardless, so a failed revoke is not fatal
+    console.error('Error logging out user:', error);
+  }
+}
@@ -0,0 +1,97 @@
+import { useAuthStore } from '../lib/stores/authStore';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+// An API call the server answered with an error. `code` is set when the server
+// gives a machine-readable reason, e.g. 'insufficient-stock'.
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Whether a failed call never reached the server: fetch() rejects with a TypeError
+// when the network is down, rather than resolving with an error response
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine || (error instanceof TypeError && !(error instanceof ApiError));
+
+// Shared in-flight refresh so concurrent 401s only trigger a single refresh call
+let refreshPromise: Promise<string | null> | null = null;
+
+// Exchange the stored refresh token for a new access/refresh token pair
+async function refreshAccessToken(): Promise<string | null> {
+  const { refreshToken, setTokens, logout } = useAuthStore.getState();
+  
+  if (!refreshToken) {
+    return null;
+  }
+  
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refreshToken }),
+    });
+    
+    if (!response.ok) {
+      // The session is gone (expired or revoked), so sign the user out
+      console.warn('Session expired, logging out');
+      logout();
+      return null;
+    }
+    
+    const tokens = await response.json();
+    setTokens(tokens.accessToken, tokens.refreshToken);
+    return tokens.accessToken;
+  } catch (error) {
+    console.error('Error refreshing access token:', error);
+    return null;
+  }
+}
+
+// Attach the Bearer token to the request headers
+const withAuthHeader = (init: RequestInit, accessToken: string | null): RequestInit => {
+  const headers = new Headers(init.headers);
+  
+  if (accessToken) {
+    headers.set('Authorization', `Bearer ${accessToken}`);
+  }
+  
+  return { ...init, headers };
+};
+
+/**
+ * fetch() wrapper for authenticated API calls.
+ * Sends the current access token and transparently refreshes it once on a 401.
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { accessToken } = useAuthStore.getState();
+  const response = await fetch(input, withAuthHeader(init, accessToken));
+  
+  if (response.status !== 401 || !useAuthStore.getState().refreshToken) {
+    return response;
+  }
+  
+  if (!refreshPromise) {
+    refreshPromise = refreshAccessToken().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  
+  const newAccessToken = await refreshPromise;
+  
+  if (!newAccessToken) {
+    return response;
+  }
+  
+  return fetch(input, withAuthHeader(init, newAccessToken));
+}
@@ -1,14 +1,18 @@
-import Stripe from 'stripe';
+import { PaymentProviderName, Sale, SalePayment } from '../lib/types';
+import { apiFetch } from './client';
 
-// IMPORTANT NOTE: This is a client-side simulation of a server-side API endpoint.
-// In a real application, this code should NEVER be run on the client.
-// Payment Intents should always be created on the server to protect your Stripe secret key.
-// This implementation is for demonstration purposes only.
+// API Base URL
+const API_BASE_URL = '/api';
 
-// Initialize Stripe with the test secret key
-// In a real application, this would be in a secure server environment
-const stripeSecretKey = 'sk_test_51R5ANkQqLNd9hUolxovJxIAG74tE5VVlgT2PRnlNUJ0VJL6HVZ8csonjLqLaZ5CyCQU9PJqsaWY6eBskNKA11h8c00Q48VkiTG';
-const stripe = new Stripe(stripeSecretKey);
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
 
 // Interface for cart items
 export interface CartItem {
@@ -16,49 +20,58 @@ export interface CartItem {
   name: string;
   price: number;
   quantity: number;
+  barcode?: string; // a weighted-item label, which the server prices the line from
+}
+
+export interface PaymentIntentResult {
+  provider: Exclude<PaymentProviderName, 'till'>;
+  paymentIntentId: string;
+  clientSecret?: string; // Stripe only
+  upi?: {
+    uri: string; // upi://pay deep link
+    payee: string; // the shop's UPI ID
+    qrSvg: string; // the deep link as a QR code
+  };
+  amount: number; // what will be charged, in rupees
+  totalAmount: number; // the whole bill as priced by the server
 }
 
-// Function to create a payment intent
+// The rest of the sale, kept with the payment so the server can record the sale
+// from Stripe's webhook even if this page is closed before the payment completes
+export type PaymentIntentOptions = Partial<
+  Pick<Sale, 'paymentMethod' | 'channel' | 'customerName' | 'customer' | 'shift' | 'till' | 'location'>
+> & {
+  couponCode?: string;
+  payments?: SalePayment[];
+};
+
+// Create a payment intent on the server. The server prices the cart from its own product
+// prices and picks the provider for the tender; pass the tenders taken at the till so only
+// the card/online/UPI share is charged.
 export async function createPaymentIntent(
-  items: CartItem[], 
-  currency: string = 'inr'
-): Promise<{ clientSecret: string }> {
+  items: CartItem[],
+  options: PaymentIntentOptions = {}
+): Promise<PaymentIntentResult> {
   try {
-    // Calculate order amount
-    const amount = calculateOrderAmount(items);
-    
-    // Create a PaymentIntent with the order amount and currency
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount,
-      currency,
-      // In a production app, you would collect this from the customer
-      automatic_payment_methods: {
-        enabled: true,
+    const response = await apiFetch(`${API_BASE_URL}/payments/intents`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
       },
-      metadata: {
-        order_items: JSON.stringify(
-          items.map(item => ({
-            id: item.id,
-            name: item.name,
-            quantity: item.quantity
-          }))
-        )
-      }
+      body: JSON.stringify({
+        products: items.map(item => ({ product: item.id, quantity: item.quantity, barcode: item.barcode })),
+        ...options,
+        couponCode: options.couponCode || undefined
+      }),
     });
 
-    return {
-      clientSecret: paymentIntent.client_secret!
-    };
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to create payment intent'));
+    }
+
+    return await response.json();
   } catch (error) {
     console.error('Error creating payment intent:', error);
     throw error;
   }
 }
-
-// Calculate the order amount based on cart items
-function calculateOrderAmount(items: CartItem[]): number {
-  // Convert price to cents for Stripe
-  return items.reduce((sum, item) => {
-    return sum + (item.price * 100 * item.quantity);
-  }, 0);
-} 
\ No newline at end of file
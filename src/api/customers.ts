@@ -0,0 +1,157 @@
+import { Customer, LoyaltySettings } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+export type CustomerInput = Pick<Customer, 'name' | 'email' | 'phone'>;
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Helper function to convert API customer to client Customer type
+const mapApiCustomer = (apiCustomer: any): Customer => ({
+  ...apiCustomer,
+  lastPurchaseAt: apiCustomer.lastPurchaseAt ? new Date(apiCustomer.lastPurchaseAt) : null,
+  createdAt: new Date(apiCustomer.createdAt),
+  updatedAt: new Date(apiCustomer.updatedAt)
+});
+
+// Get customers, optionally matching a name, phone number or email
+export async function getCustomers(search?: string): Promise<Customer[]> {
+  try {
+    const query = search ? `?search=${encodeURIComponent(search)}` : '';
+    const response = await apiFetch(`${API_BASE_URL}/customers${query}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch customers');
+    }
+
+    const customers = await response.json();
+    return customers.map(mapApiCustomer);
+  } catch (error) {
+    console.error('Error getting customers:', error);
+    throw error;
+  }
+}
+
+// Get a customer with their purchase history and lifetime value
+export async function getCustomer(id: string): Promise<Customer> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/customers/${id}`);
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to fetch customer'));
+    }
+
+    return mapApiCustomer(await response.json());
+  } catch (error) {
+    console.error(`Error getting customer ${id}:`, error);
+    throw error;
+  }
+}
+
+// Create a customer
+export async function createCustomer(customer: CustomerInput): Promise<Customer> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/customers`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(customer),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to create customer'));
+    }
+
+    return mapApiCustomer(await response.json());
+  } catch (error) {
+    console.error('Error creating customer:', error);
+    throw error;
+  }
+}
+
+// Update a customer's contact details
+export async function updateCustomer(id: string, customer: Partial<CustomerInput>): Promise<Customer> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/customers/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(customer),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to update customer'));
+    }
+
+    return mapApiCustomer(await response.json());
+  } catch (error) {
+    console.error(`Error updating customer ${id}:`, error);
+    throw error;
+  }
+}
+
+// Delete a customer
+export async function deleteCustomer(id: string): Promise<void> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/customers/${id}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to delete customer'));
+    }
+  } catch (error) {
+    console.error(`Error deleting customer ${id}:`, error);
+    throw error;
+  }
+}
+
+// Get loyalty earn and redeem rates
+export async function getLoyaltySettings(): Promise<LoyaltySettings> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/loyalty`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch loyalty settings');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error getting loyalty settings:', error);
+    throw error;
+  }
+}
+
+// Update loyalty earn and redeem rates
+export async function updateLoyaltySettings(settings: Partial<LoyaltySettings>): Promise<LoyaltySettings> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/loyalty`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(settings),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to update loyalty settings'));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error updating loyalty settings:', error);
+    throw error;
+  }
+}
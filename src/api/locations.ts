@@ -0,0 +1,77 @@
+import { Location } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+export type LocationInput = Omit<Location, 'id'>;
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Get the places stock is kept
+export async function getLocations(): Promise<Location[]> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/locations`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch locations');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error getting locations:', error);
+    throw error;
+  }
+}
+
+// Create a location
+export async function createLocation(location: LocationInput): Promise<Location> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/locations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(location),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to create location'));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error creating location:', error);
+    throw error;
+  }
+}
+
+// Rename a location, change its kind or make it the default
+export async function updateLocation(id: string, location: Partial<LocationInput>): Promise<Location> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/locations/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(location),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to update location'));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error(`Error updating location ${id}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+import { ExpiringLot } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Lots expiring within `days` (the store's alert window when left out), expired ones included
+export async function getExpiringLots(days?: number, location?: string): Promise<{ days: number; lots: ExpiringLot[] }> {
+  try {
+    const params = new URLSearchParams();
+    if (days !== undefined) params.set('days', String(days));
+    if (location) params.set('location', location);
+    const query = params.toString() ? `?${params}` : '';
+    const response = await apiFetch(`${API_BASE_URL}/lots/expiring${query}`);
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to fetch expiring lots'));
+    }
+
+    const result = await response.json();
+    return {
+      days: result.days,
+      lots: result.lots.map((lot: any) => ({ ...lot, expiryDate: new Date(lot.expiryDate) }))
+    };
+  } catch (error) {
+    console.error('Error getting expiring lots:', error);
+    throw error;
+  }
+}
+
+// Set how many days ahead lots are flagged as near expiry
+export async function updateExpirySettings(expiryAlertDays: number): Promise<{ expiryAlertDays: number }> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/lots/settings`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ expiryAlertDays }),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to update expiry settings'));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error updating expiry settings:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,104 @@
+import { ParkedBill } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+export interface ParkBillInput {
+  label: string;
+  items: { product: string; quantity: number; barcode?: string }[];
+  customer?: string;
+  customerName?: string;
+  couponCode?: string;
+  location?: string; // where the items are held; defaults to the default location
+}
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Helper function to convert API parked bill to client ParkedBill type
+const mapApiParkedBill = (apiBill: any): ParkedBill => ({
+  ...apiBill,
+  expiresAt: new Date(apiBill.expiresAt),
+  createdAt: new Date(apiBill.createdAt)
+});
+
+// Get the bills parked on any till that have not expired
+export async function getParkedBills(): Promise<ParkedBill[]> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/parked-bills`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch parked bills');
+    }
+
+    const bills = await response.json();
+    return bills.map(mapApiParkedBill);
+  } catch (error) {
+    console.error('Error getting parked bills:', error);
+    throw error;
+  }
+}
+
+// Park a bill under a label, holding its items until it is resumed
+export async function parkBill(bill: ParkBillInput): Promise<ParkedBill> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/parked-bills`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(bill),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to park bill'));
+    }
+
+    return mapApiParkedBill(await response.json());
+  } catch (error) {
+    console.error('Error parking bill:', error);
+    throw error;
+  }
+}
+
+// Resume a parked bill. It comes off the list, so no other till can resume it too.
+export async function resumeParkedBill(id: string): Promise<ParkedBill> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/parked-bills/${id}/resume`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to resume parked bill'));
+    }
+
+    return mapApiParkedBill(await response.json());
+  } catch (error) {
+    console.error(`Error resuming parked bill ${id}:`, error);
+    throw error;
+  }
+}
+
+// Discard a parked bill, freeing its items
+export async function discardParkedBill(id: string): Promise<void> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/parked-bills/${id}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to discard parked bill'));
+    }
+  } catch (error) {
+    console.error(`Error discarding parked bill ${id}:`, error);
+    throw error;
+  }
+}
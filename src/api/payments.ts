@@ -0,0 +1,42 @@
+import { Sale } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Confirm a payment has been made and get back the sale recorded for it. For UPI the
+// cashier passes the UTR number shown on the shop's UPI app as `reference`.
+export async function confirmPayment(paymentIntentId: string, reference?: string): Promise<Sale> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/payments/${paymentIntentId}/confirm`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ reference: reference || undefined }),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to confirm payment'));
+    }
+
+    const sale = await response.json();
+    return {
+      ...sale,
+      timestamp: new Date(sale.timestamp)
+    };
+  } catch (error) {
+    console.error(`Error confirming payment ${paymentIntentId}:`, error);
+    throw error;
+  }
+}
@@ -1,8 +1,23 @@
-import { Product } from '../lib/types';
+import { AdjustmentReason, LocationStock, Product, ProductLot, ScannedProduct, ShrinkageReport, StockMovement } from '../lib/types';
+import { apiFetch } from './client';
 
 // API Base URL
 const API_BASE_URL = '/api';
 
+// Which location a stock figure is for, and per-location reorder levels (null clears one).
+// Without a location, stock is the product's total and any change lands at the default location.
+export interface ProductLocationInput {
+  location?: string;
+  locationReorderLevels?: Record<string, number | null>;
+}
+
+// Convert the dates on a product's lots, or on the lots a stock movement took
+export const mapApiLots = (lots?: any[]) => lots?.map(lot => ({
+  ...lot,
+  expiryDate: lot.expiryDate ? new Date(lot.expiryDate) : undefined,
+  ...(lot.receivedAt ? { receivedAt: new Date(lot.receivedAt) } : {})
+}));
+
 // Fallback to mock data when API fails - set to false to only use MongoDB data
 let useFallbackMode = false;
 
@@ -52,7 +67,7 @@ export async function getAllProducts(): Promise<Product[]> {
   
   try {
     console.log('Fetching products from API');
-    const response = await fetch(`${API_BASE_URL}/products`);
+    const response = await apiFetch(`${API_BASE_URL}/products`);
     
     console.log('Get Products API response status:', response.status);
     
@@ -63,6 +78,7 @@ export async function getAllProducts(): Promise<Product[]> {
     const products = await response.json();
     return products.map((product: any) => ({
       ...product,
+      lots: mapApiLots(product.lots),
       createdAt: new Date(product.createdAt),
       updatedAt: new Date(product.updatedAt)
     }));
@@ -90,7 +106,7 @@ export async function getProductCategories(): Promise<{ name: string; count: num
   
   try {
     console.log('Fetching product categories from API');
-    const response = await fetch(`${API_BASE_URL}/products/categories`);
+    const response = await apiFetch(`${API_BASE_URL}/products/categories`);
     
     console.log('Get Product Categories API response status:', response.status);
     
@@ -137,7 +153,7 @@ export async function getProductById(id: string): Promise<Product | null> {
   
   try {
     console.log(`Fetching product with ID ${id} from API`);
-    const response = await fetch(`${API_BASE_URL}/products/${id}`);
+    const response = await apiFetch(`${API_BASE_URL}/products/${id}`);
     
     console.log('Get Product by ID API response status:', response.status);
     
@@ -152,6 +168,7 @@ export async function getProductById(id: string): Promise<Product | null> {
     const product = await response.json();
     return {
       ...product,
+      lots: mapApiLots(product.lots),
       createdAt: new Date(product.createdAt),
       updatedAt: new Date(product.updatedAt)
     };
@@ -162,8 +179,45 @@ export async function getProductById(id: string): Promise<Product | null> {
   }
 }
 
+// Look up a scanned barcode, including weighted-item labels with an embedded price or weight
+export async function getProductByBarcode(code: string): Promise<ScannedProduct | null> {
+  if (useFallbackMode) {
+    console.log('Using fallback mode for barcode lookup');
+    const product = mockProducts.find(p => p.barcode === code);
+    return product ? { barcode: code, product, price: product.price } : null;
+  }
+  
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/products/by-barcode/${encodeURIComponent(code)}`);
+    
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null;
+      }
+      
+      throw new Error('Failed to look up barcode');
+    }
+    
+    const scanned = await response.json();
+    return {
+      ...scanned,
+      product: {
+        ...scanned.product,
+        lots: mapApiLots(scanned.product.lots),
+        createdAt: new Date(scanned.product.createdAt),
+        updatedAt: new Date(scanned.product.updatedAt)
+      }
+    };
+  } catch (error) {
+    console.error(`Error looking up barcode ${code}:`, error);
+    throw error;
+  }
+}
+
 // Create product
-export async function createProduct(productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>): Promise<Product> {
+export async function createProduct(
+  productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'> & Pick<ProductLocationInput, 'location'>
+): Promise<Product> {
   // Use mock data if in fallback mode
   if (useFallbackMode) {
     console.log('Using fallback mode for creating product');
@@ -179,7 +233,7 @@ export async function createProduct(productData: Omit<Product, 'id' | 'createdAt
   
   try {
     console.log('Creating product via API');
-    const response = await fetch(`${API_BASE_URL}/products`, {
+    const response = await apiFetch(`${API_BASE_URL}/products`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -211,6 +265,7 @@ export async function createProduct(productData: Omit<Product, 'id' | 'createdAt
     const createdProduct = await response.json();
     return {
       ...createdProduct,
+      lots: mapApiLots(createdProduct.lots),
       createdAt: new Date(createdProduct.createdAt),
       updatedAt: new Date(createdProduct.updatedAt)
     };
@@ -227,7 +282,7 @@ export async function createProduct(productData: Omit<Product, 'id' | 'createdAt
 }
 
 // Update product
-export async function updateProduct(id: string, productData: Partial<Product>): Promise<Product | null> {
+export async function updateProduct(id: string, productData: Partial<Product> & ProductLocationInput): Promise<Product | null> {
   // Use mock data if in fallback mode
   if (useFallbackMode) {
     console.log('Using fallback mode for updating product');
@@ -248,7 +303,7 @@ export async function updateProduct(id: string, productData: Partial<Product>):
   
   try {
     console.log(`Updating product with ID ${id} via API`);
-    const response = await fetch(`${API_BASE_URL}/products/${id}`, {
+    const response = await apiFetch(`${API_BASE_URL}/products/${id}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
@@ -284,6 +339,7 @@ export async function updateProduct(id: string, productData: Partial<Product>):
     const updatedProduct = await response.json();
     return {
       ...updatedProduct,
+      lots: mapApiLots(updatedProduct.lots),
       createdAt: new Date(updatedProduct.createdAt),
       updatedAt: new Date(updatedProduct.updatedAt)
     };
@@ -314,7 +370,7 @@ export async function deleteProduct(id: string): Promise<boolean> {
   
   try {
     console.log(`Deleting product with ID ${id} via API`);
-    const response = await fetch(`${API_BASE_URL}/products/${id}`, {
+    const response = await apiFetch(`${API_BASE_URL}/products/${id}`, {
       method: 'DELETE',
     });
     
@@ -371,7 +427,7 @@ export async function searchProducts(query: string, category?: string): Promise<
     if (query) params.append('query', query);
     if (category) params.append('category', category);
     
-    const response = await fetch(`${API_BASE_URL}/products?${params.toString()}`);
+    const response = await apiFetch(`${API_BASE_URL}/products?${params.toString()}`);
     
     console.log('Search Products API response status:', response.status);
     
@@ -389,6 +445,7 @@ export async function searchProducts(query: string, category?: string): Promise<
     const products = await response.json();
     return products.map((product: any) => ({
       ...product,
+      lots: mapApiLots(product.lots),
       createdAt: new Date(product.createdAt),
       updatedAt: new Date(product.updatedAt)
     }));
@@ -402,4 +459,130 @@ export async function searchProducts(query: string, category?: string): Promise<
     }
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+// Get the stock movement ledger for a product (newest first)
+export async function getStockMovements(productId: string): Promise<StockMovement[]> {
+  if (useFallbackMode) {
+    console.log('Using fallback mode for getting stock movements');
+    return [];
+  }
+  
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/products/${productId}/movements`);
+    
+    if (!response.ok) {
+      throw new Error('Failed to fetch stock movements');
+    }
+    
+    const movements = await response.json();
+    return movements.map((movement: any) => ({
+      ...movement,
+      lots: mapApiLots(movement.lots),
+      timestamp: new Date(movement.timestamp)
+    }));
+  } catch (error) {
+    console.error(`Error getting stock movements for product ${productId}:`, error);
+    throw error;
+  }
+}
+
+export interface StockAdjustmentInput {
+  location?: string; // the default location when left out
+  reason: AdjustmentReason;
+  quantity: number; // units written off, or found; always positive
+  note?: string;
+}
+
+// Write stock off, or book stock that was found, for a reason
+export async function adjustStock(productId: string, adjustment: StockAdjustmentInput): Promise<{
+  movement: StockMovement;
+  stock: number;
+  stockByLocation: LocationStock[];
+  lots: ProductLot[];
+}> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/products/${productId}/adjustments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(adjustment),
+    });
+    
+    if (!response.ok) {
+      let errorMessage = 'Failed to adjust stock';
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.message || errorMessage;
+      } catch (e) {
+        console.error('Failed to parse error response:', e);
+      }
+      throw new Error(errorMessage);
+    }
+    
+    const result = await response.json();
+    return {
+      ...result,
+      lots: mapApiLots(result.lots),
+      movement: { ...result.movement, lots: mapApiLots(result.movement.lots), timestamp: new Date(result.movement.timestamp) }
+    };
+  } catch (error) {
+    console.error(`Error adjusting stock for product ${productId}:`, error);
+    throw error;
+  }
+}
+
+// Get stock written off and found by reason, category and month, valued at cost
+export async function getShrinkageReport(filters: { from?: Date; to?: Date; location?: string } = {}): Promise<ShrinkageReport> {
+  try {
+    const params = new URLSearchParams();
+    if (filters.from) params.append('from', filters.from.toISOString());
+    if (filters.to) params.append('to', filters.to.toISOString());
+    if (filters.location) params.append('location', filters.location);
+    const query = params.toString() ? `?${params.toString()}` : '';
+    
+    const response = await apiFetch(`${API_BASE_URL}/stock/shrinkage${query}`);
+    
+    if (!response.ok) {
+      throw new Error('Failed to fetch shrinkage report');
+    }
+    
+    return await response.json();
+  } catch (error) {
+    console.error('Error getting shrinkage report:', error);
+    throw error;
+  }
+}
+
+// Rebuild a product's stock (or every product's, when no ID is given) from the stock ledger
+export async function rebuildStockFromLedger(productId?: string): Promise<{
+  rebuilt: number;
+  corrected: { productId: string; name: string; previousStock: number; stock: number }[];
+}> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/stock/rebuild`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ productId }),
+    });
+    
+    if (!response.ok) {
+      let errorMessage = 'Failed to rebuild stock';
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.message || errorMessage;
+      } catch (e) {
+        console.error('Failed to parse error response:', e);
+      }
+      throw new Error(errorMessage);
+    }
+    
+    return await response.json();
+  } catch (error) {
+    console.error('Error rebuilding stock from ledger:', error);
+    throw error;
+  }
+}
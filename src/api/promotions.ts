@@ -0,0 +1,132 @@
+import { Promotion, SaleQuote } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+export type PromotionInput = Omit<Promotion, 'id' | 'live' | 'createdAt' | 'updatedAt'>;
+
+export interface QuoteItem {
+  product: string;
+  quantity: number;
+  priceAtSale: number;
+  barcode?: string; // a weighted-item label, which the server prices the line from
+}
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Helper function to convert API promotion to client Promotion type
+const mapApiPromotion = (apiPromotion: any): Promotion => ({
+  ...apiPromotion,
+  startsAt: apiPromotion.startsAt ? new Date(apiPromotion.startsAt) : null,
+  endsAt: apiPromotion.endsAt ? new Date(apiPromotion.endsAt) : null,
+  createdAt: new Date(apiPromotion.createdAt),
+  updatedAt: new Date(apiPromotion.updatedAt)
+});
+
+// Get all promotions
+export async function getPromotions(): Promise<Promotion[]> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/promotions`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch promotions');
+    }
+
+    const promotions = await response.json();
+    return promotions.map(mapApiPromotion);
+  } catch (error) {
+    console.error('Error getting promotions:', error);
+    throw error;
+  }
+}
+
+// Create a promotion
+export async function createPromotion(promotion: PromotionInput): Promise<Promotion> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/promotions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(promotion),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to create promotion'));
+    }
+
+    return mapApiPromotion(await response.json());
+  } catch (error) {
+    console.error('Error creating promotion:', error);
+    throw error;
+  }
+}
+
+// Update a promotion
+export async function updatePromotion(id: string, promotion: Partial<PromotionInput>): Promise<Promotion> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/promotions/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(promotion),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to update promotion'));
+    }
+
+    return mapApiPromotion(await response.json());
+  } catch (error) {
+    console.error(`Error updating promotion ${id}:`, error);
+    throw error;
+  }
+}
+
+// Delete a promotion
+export async function deletePromotion(id: string): Promise<void> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/promotions/${id}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to delete promotion'));
+    }
+  } catch (error) {
+    console.error(`Error deleting promotion ${id}:`, error);
+    throw error;
+  }
+}
+
+// Price a bill on the server with the promotions and tax a sale would get
+export async function quoteSale(items: QuoteItem[], couponCode?: string): Promise<SaleQuote> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/sales/quote`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ products: items, couponCode: couponCode || undefined }),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to price bill'));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error quoting sale:', error);
+    throw error;
+  }
+}
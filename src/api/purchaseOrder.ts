@@ -1,9 +1,24 @@
+import { v4 as uuidv4 } from 'uuid';
 import { PurchaseOrder } from '../lib/types';
 import { updateProduct, getProductById } from './product';
+import { apiFetch } from './client';
 
 // API Base URL
 const API_BASE_URL = '/api';
 
+// The batch a received line belongs to. An expiry date (YYYY-MM-DD) needs a batch number.
+export interface ReceivedLotInput {
+  product: string; // product ID
+  batchNumber: string;
+  expiryDate?: string;
+}
+
+// Convert the expiry dates recorded on received lines
+const mapApiOrderProducts = (products: any[]) => products.map(item => ({
+  ...item,
+  expiryDate: item.expiryDate ? new Date(item.expiryDate) : undefined
+}));
+
 // Fallback to mock data when API fails
 let useFallbackMode = false;
 
@@ -20,7 +35,7 @@ export const getAllPurchaseOrders = async (): Promise<PurchaseOrder[]> => {
   }
   
   try {
-    const response = await fetch(`${API_BASE_URL}/purchase-orders`);
+    const response = await apiFetch(`${API_BASE_URL}/purchase-orders`);
     
     if (!response.ok) {
       throw new Error(`Failed to fetch purchase orders: ${response.status}`);
@@ -29,6 +44,7 @@ export const getAllPurchaseOrders = async (): Promise<PurchaseOrder[]> => {
     const data = await response.json();
     return data.map((order: any) => ({
       ...order,
+      products: mapApiOrderProducts(order.products),
       orderDate: new Date(order.orderDate),
       expectedDeliveryDate: order.expectedDeliveryDate ? new Date(order.expectedDeliveryDate) : undefined,
       deliveredDate: order.deliveredDate ? new Date(order.deliveredDate) : undefined,
@@ -52,7 +68,7 @@ export const getPurchaseOrderById = async (id: string): Promise<PurchaseOrder |
   }
   
   try {
-    const response = await fetch(`${API_BASE_URL}/purchase-orders/${id}`);
+    const response = await apiFetch(`${API_BASE_URL}/purchase-orders/${id}`);
     
     if (!response.ok) {
       if (response.status === 404) {
@@ -79,9 +95,14 @@ export const getPurchaseOrderById = async (id: string): Promise<PurchaseOrder |
 };
 
 /**
- * Create a new purchase order
+ * Create a new purchase order.
+ * Sent with an Idempotency-Key, so a retried request returns the order already
+ * created instead of raising a second one; pass the same key to retry.
  */
-export const createPurchaseOrder = async (orderData: Partial<PurchaseOrder>): Promise<PurchaseOrder> => {
+export const createPurchaseOrder = async (
+  orderData: Partial<PurchaseOrder>,
+  idempotencyKey: string = uuidv4()
+): Promise<PurchaseOrder> => {
   if (useFallbackMode) {
     const newOrder: PurchaseOrder = {
       id: `po-${nextOrderId++}`,
@@ -101,10 +122,11 @@ export const createPurchaseOrder = async (orderData: Partial<PurchaseOrder>): Pr
   }
   
   try {
-    const response = await fetch(`${API_BASE_URL}/purchase-orders`, {
+    const response = await apiFetch(`${API_BASE_URL}/purchase-orders`, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        'Idempotency-Key': idempotencyKey
       },
       body: JSON.stringify(orderData)
     });
@@ -145,12 +167,16 @@ export const createPurchaseOrder = async (orderData: Partial<PurchaseOrder>): Pr
 };
 
 /**
- * Update purchase order status and handle stock updates when necessary
+ * Update purchase order status and handle stock updates when necessary.
+ * Received goods go into `location`, or the location the order was raised for,
+ * and lines given a batch in `lots` are received as that lot.
  */
 export const updatePurchaseOrderStatus = async (
   id: string, 
   status: 'pending' | 'ordered' | 'received' | 'canceled',
-  updateStock: boolean = true
+  updateStock: boolean = true,
+  location?: string,
+  lots: ReceivedLotInput[] = []
 ): Promise<PurchaseOrder | null> => {
   if (useFallbackMode) {
     const orderIndex = mockPurchaseOrders.findIndex(o => o.id === id);
@@ -181,12 +207,12 @@ export const updatePurchaseOrderStatus = async (
       throw new Error('Purchase order not found');
     }
     
-    const response = await fetch(`${API_BASE_URL}/purchase-orders/${id}/status`, {
+    const response = await apiFetch(`${API_BASE_URL}/purchase-orders/${id}/status`, {
       method: 'PATCH',
       headers: {
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify({ status })
+      body: JSON.stringify({ status, location, lots })
     });
     
     if (!response.ok) {
@@ -196,6 +222,7 @@ export const updatePurchaseOrderStatus = async (
     const updatedOrder = await response.json();
     const result = {
       ...updatedOrder,
+      products: mapApiOrderProducts(updatedOrder.products),
       orderDate: new Date(updatedOrder.orderDate),
       expectedDeliveryDate: updatedOrder.expectedDeliveryDate ? new Date(updatedOrder.expectedDeliveryDate) : undefined,
       deliveredDate: updatedOrder.deliveredDate ? new Date(updatedOrder.deliveredDate) : undefined,
@@ -210,7 +237,7 @@ export const updatePurchaseOrderStatus = async (
   } catch (error) {
     console.error('Error updating purchase order status:', error);
     useFallbackMode = true;
-    return updatePurchaseOrderStatus(id, status, updateStock);
+    return updatePurchaseOrderStatus(id, status, updateStock, location, lots);
   }
 };
 
@@ -0,0 +1,96 @@
+import { ReceiptSettings, ReceiptWidth } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+const getReceiptUrl = (saleId: string, format: 'html' | 'pdf', width?: ReceiptWidth) => {
+  const queryParams = new URLSearchParams({ format });
+  if (width) queryParams.append('width', String(width));
+  return `${API_BASE_URL}/sales/${saleId}/receipt?${queryParams.toString()}`;
+};
+
+// Get a sale's receipt as printable HTML
+export async function getReceiptHtml(saleId: string, width?: ReceiptWidth): Promise<string> {
+  try {
+    const response = await apiFetch(getReceiptUrl(saleId, 'html', width));
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to load receipt'));
+    }
+
+    return await response.text();
+  } catch (error) {
+    console.error(`Error getting receipt for sale ${saleId}:`, error);
+    throw error;
+  }
+}
+
+// Download a sale's receipt as a PDF file
+export async function downloadReceiptPdf(saleId: string, width?: ReceiptWidth): Promise<void> {
+  try {
+    const response = await apiFetch(getReceiptUrl(saleId, 'pdf', width));
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to download receipt'));
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `receipt-${saleId.slice(-8).toUpperCase()}.pdf`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  } catch (error) {
+    console.error(`Error downloading receipt for sale ${saleId}:`, error);
+    throw error;
+  }
+}
+
+// Get the store header, footer and paper width printed on receipts
+export async function getReceiptSettings(): Promise<ReceiptSettings> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/receipts/settings`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch receipt settings');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error getting receipt settings:', error);
+    throw error;
+  }
+}
+
+// Update the receipt settings
+export async function updateReceiptSettings(settings: Partial<ReceiptSettings>): Promise<ReceiptSettings> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/receipts/settings`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(settings),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to update receipt settings'));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error updating receipt settings:', error);
+    throw error;
+  }
+}
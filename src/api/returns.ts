@@ -0,0 +1,73 @@
+import { SaleReturn, ReturnReason, RefundMethod } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+export interface ReturnRequest {
+  lines: {
+    productId: string;
+    quantity: number;
+    disposition: 'restock' | 'write-off';
+  }[];
+  reason: ReturnReason;
+  note?: string;
+  refundMethod?: RefundMethod; // defaults to the tender that paid most of the sale
+  shift?: string; // the open shift on the till paying the refund out
+  till?: string; // the till paying it out, which the shift must be open on
+}
+
+// Helper function to convert API return to client SaleReturn type
+const mapApiReturn = (apiReturn: any): SaleReturn => ({
+  ...apiReturn,
+  timestamp: new Date(apiReturn.timestamp)
+});
+
+// Get returns recorded against a sale
+export async function getSaleReturns(saleId: string): Promise<SaleReturn[]> {
+  try {
+    console.log(`Fetching returns for sale ${saleId} from API`);
+    const response = await apiFetch(`${API_BASE_URL}/sales/${saleId}/returns`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch returns');
+    }
+
+    const returns = await response.json();
+    return returns.map(mapApiReturn);
+  } catch (error) {
+    console.error(`Error getting returns for sale ${saleId}:`, error);
+    throw error;
+  }
+}
+
+// Record a return against a sale
+export async function createReturn(saleId: string, returnData: ReturnRequest): Promise<SaleReturn> {
+  try {
+    console.log(`Recording return for sale ${saleId} via API with data:`, returnData);
+
+    const response = await apiFetch(`${API_BASE_URL}/sales/${saleId}/returns`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(returnData),
+    });
+
+    if (!response.ok) {
+      let errorMessage = 'Failed to record return';
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.message || errorMessage;
+      } catch (e) {
+        // If parsing fails, use default error message
+      }
+      throw new Error(errorMessage);
+    }
+
+    return mapApiReturn(await response.json());
+  } catch (error) {
+    console.error(`Error recording return for sale ${saleId}:`, error);
+    throw error;
+  }
+}
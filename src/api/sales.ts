@@ -1,4 +1,7 @@
-import { Sale, Product } from '../lib/types';
+import { v4 as uuidv4 } from 'uuid';
+import { Sale, Product, TaxBreakdownEntry } from '../lib/types';
+import { ApiError, apiFetch } from './client';
+import { getSaleTenders } from '../lib/payments';
 
 // API Base URL
 const API_BASE_URL = '/api';
@@ -72,6 +75,7 @@ const mapApiSaleToClientSale = (apiSale: any): Sale => {
   return {
     ...apiSale,
     timestamp: ensureDateObject(apiSale.timestamp),
+    voidedAt: apiSale.voidedAt ? ensureDateObject(apiSale.voidedAt) : undefined,
     products: apiSale.products.map((item: any) => ({
       product: {
         id: item.product?._id || item.product?.id || item.productSnapshot?._id || 'unknown-id',
@@ -85,7 +89,11 @@ const mapApiSaleToClientSale = (apiSale: any): Sale => {
         updatedAt: ensureDateObject(item.product?.updatedAt || new Date())
       },
       quantity: item.quantity,
-      priceAtSale: item.priceAtSale
+      priceAtSale: item.priceAtSale,
+      discounts: item.discounts,
+      discountAmount: item.discountAmount,
+      tax: item.tax,
+      lineTotal: item.lineTotal
     }))
   };
 };
@@ -112,7 +120,7 @@ export async function getAllSales(filters: Record<string, any> = {}): Promise<Sa
     const queryString = queryParams.toString();
     const url = `${API_BASE_URL}/sales${queryString ? `?${queryString}` : ''}`;
     
-    const response = await fetch(url);
+    const response = await apiFetch(url);
     
     console.log('Get Sales API response status:', response.status);
     
@@ -139,7 +147,7 @@ export async function getSaleById(id: string): Promise<Sale | null> {
   
   try {
     console.log(`Fetching sale with ID ${id} from API`);
-    const response = await fetch(`${API_BASE_URL}/sales/${id}`);
+    const response = await apiFetch(`${API_BASE_URL}/sales/${id}`);
     
     console.log('Get Sale by ID API response status:', response.status);
     
@@ -160,8 +168,14 @@ export async function getSaleById(id: string): Promise<Sale | null> {
   }
 }
 
-// Create a new sale
-export async function createSale(saleData: Omit<Sale, 'id' | 'timestamp'>): Promise<Sale> {
+// Create a new sale. `allowNegativeStock` records it even if the stock on hand is short,
+// for sales already handed over while the till was offline. It is sent with an
+// Idempotency-Key (the sale's own key if it has one), so a retried request returns the
+// sale already recorded instead of recording it again.
+export async function createSale(
+  saleData: Omit<Sale, 'id' | 'timestamp'>,
+  options: { allowNegativeStock?: boolean; idempotencyKey?: string } = {}
+): Promise<Sale> {
   if (useFallbackMode) {
     console.log('Using fallback mode for creating sale');
     const newSale: Sale = {
@@ -175,23 +189,23 @@ export async function createSale(saleData: Omit<Sale, 'id' | 'timestamp'>): Prom
   try {
     console.log('Creating sale via API with data:', saleData);
     
-    const response = await fetch(`${API_BASE_URL}/sales`, {
+    const response = await apiFetch(`${API_BASE_URL}/sales`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Idempotency-Key': options.idempotencyKey || saleData.idempotencyKey || uuidv4(),
       },
-      body: JSON.stringify(saleData),
+      body: JSON.stringify({ ...saleData, allowNegativeStock: options.allowNegativeStock || undefined }),
     });
     
     if (!response.ok) {
-      let errorMessage = 'Failed to create sale';
+      let errorData: { message?: string; code?: string } = {};
       try {
-        const errorData = await response.json();
-        errorMessage = errorData.message || errorMessage;
+        errorData = await response.json();
       } catch (e) {
         // If parsing fails, use default error message
       }
-      throw new Error(errorMessage);
+      throw new ApiError(errorData.message || 'Failed to create sale', response.status, errorData.code);
     }
     
     const createdSale = await response.json();
@@ -201,38 +215,37 @@ export async function createSale(saleData: Omit<Sale, 'id' | 'timestamp'>): Prom
     };
   } catch (error) {
     console.error('Error creating sale:', error);
-    // If fetch failed (network error), switch to fallback
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      console.warn('Network error detected, switching to fallback mode');
-      useFallbackMode = true;
-      return createSale(saleData);
-    }
+    // Network errors are left to the caller, which can queue the sale to send later
     throw error;
   }
 }
 
-// Delete a sale
-export async function deleteSale(id: string): Promise<boolean> {
+// Void a sale - the server keeps it on record and restocks in-store items
+export async function voidSale(id: string, reason: string): Promise<Pick<Sale, 'voided' | 'voidedAt' | 'voidedBy' | 'voidReason'> | null> {
   if (useFallbackMode) {
-    console.log('Using fallback mode for deleting sale');
-    const index = mockSales.findIndex(s => s.id === id);
-    if (index === -1) {
-      return false;
+    console.log('Using fallback mode for voiding sale');
+    const sale = mockSales.find(s => s.id === id);
+    if (!sale) {
+      return null;
     }
-    mockSales.splice(index, 1);
-    return true;
+    Object.assign(sale, { voided: true, voidedAt: new Date(), voidReason: reason });
+    return { voided: true, voidedAt: sale.voidedAt, voidReason: reason };
   }
   
   try {
-    console.log(`Deleting sale with ID ${id} via API`);
-    const response = await fetch(`${API_BASE_URL}/sales/${id}`, {
-      method: 'DELETE',
+    console.log(`Voiding sale with ID ${id} via API`);
+    const response = await apiFetch(`${API_BASE_URL}/sales/${id}/void`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ reason }),
     });
     
-    console.log('Delete Sale API response status:', response.status);
+    console.log('Void Sale API response status:', response.status);
     
     if (!response.ok) {
-      let errorMessage = 'Failed to delete sale';
+      let errorMessage = 'Failed to void sale';
       try {
         const errorData = await response.json();
         errorMessage = errorData.message || errorMessage;
@@ -240,36 +253,32 @@ export async function deleteSale(id: string): Promise<boolean> {
         console.error('Failed to parse error response:', e);
       }
       
-      // If server error, switch to fallback mode
-      if (response.status >= 500) {
-        console.warn('Server error detected, switching to fallback mode');
-        useFallbackMode = true;
-        return deleteSale(id);
-      }
-      
       if (response.status === 404) {
-        return false;
+        return null;
       }
       
       throw new Error(errorMessage);
     }
     
-    return true;
+    const voidDetails = await response.json();
+    return {
+      voided: voidDetails.voided,
+      voidedAt: ensureDateObject(voidDetails.voidedAt),
+      voidedBy: voidDetails.voidedBy,
+      voidReason: voidDetails.voidReason
+    };
   } catch (error) {
-    console.error(`Error deleting sale with ID ${id}:`, error);
-    // If fetch failed (network error), switch to fallback
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      console.warn('Network error detected, switching to fallback mode');
-      useFallbackMode = true;
-      return deleteSale(id);
-    }
+    console.error(`Error voiding sale with ID ${id}:`, error);
     throw error;
   }
 }
 
 // Get sales analytics
 export async function getSalesAnalytics(): Promise<{
-  totalRevenue: number;
+  totalRevenue: number; // net of returns
+  grossRevenue: number;
+  totalRefunds: number;
+  taxByRate: TaxBreakdownEntry[];
   salesByPaymentMethod: { name: string; value: number }[];
   salesByChannel: { name: string; value: number }[];
   totalTransactions: number;
@@ -278,38 +287,45 @@ export async function getSalesAnalytics(): Promise<{
   if (useFallbackMode) {
     console.log('Using fallback mode for getting sales analytics');
     
-    // Calculate analytics from mock data
-    const totalRevenue = mockSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+    // Calculate analytics from mock data, leaving out voided sales
+    const activeSales = mockSales.filter(sale => !sale.voided);
+    const grossRevenue = activeSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+    const totalRefunds = activeSales.reduce((sum, sale) => sum + (sale.refundedAmount || 0), 0);
     
-    // Group by payment method
+    // Group by tender
     const paymentMethods: Record<string, number> = {};
-    mockSales.forEach(sale => {
-      paymentMethods[sale.paymentMethod] = (paymentMethods[sale.paymentMethod] || 0) + sale.totalAmount;
+    activeSales.forEach(sale => {
+      getSaleTenders(sale).forEach(payment => {
+        paymentMethods[payment.method] = (paymentMethods[payment.method] || 0) + payment.amount;
+      });
     });
     
     // Group by channel
     const channels: Record<string, number> = {};
-    mockSales.forEach(sale => {
+    activeSales.forEach(sale => {
       channels[sale.channel] = (channels[sale.channel] || 0) + sale.totalAmount;
     });
     
     // Count products sold
-    const productsSold = mockSales.reduce((sum, sale) => {
+    const productsSold = activeSales.reduce((sum, sale) => {
       return sum + sale.products.reduce((pSum, p) => pSum + p.quantity, 0);
     }, 0);
     
     return {
-      totalRevenue,
+      totalRevenue: grossRevenue - totalRefunds,
+      grossRevenue,
+      totalRefunds,
+      taxByRate: [],
       salesByPaymentMethod: Object.entries(paymentMethods).map(([name, value]) => ({ name, value })),
       salesByChannel: Object.entries(channels).map(([name, value]) => ({ name, value })),
-      totalTransactions: mockSales.length,
+      totalTransactions: activeSales.length,
       productsSold
     };
   }
   
   try {
     console.log('Fetching sales analytics from API');
-    const response = await fetch(`${API_BASE_URL}/sales/analytics/summary`);
+    const response = await apiFetch(`${API_BASE_URL}/sales/analytics/summary`);
     
     console.log('Get Sales Analytics API response status:', response.status);
     
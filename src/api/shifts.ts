@@ -0,0 +1,163 @@
+import { PaymentTender, Shift, ShiftCashMovement, ShiftReport } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+export interface OpenShiftInput {
+  till: string;
+  tillName?: string;
+  openingFloat: number;
+}
+
+export interface CloseShiftInput {
+  counted: Partial<Record<PaymentTender, number>>; // cash is required
+  note?: string;
+}
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+const mapApiReport = (apiReport: any): ShiftReport => ({
+  ...apiReport,
+  generatedAt: new Date(apiReport.generatedAt)
+});
+
+// Helper function to convert API shift to client Shift type
+const mapApiShift = (apiShift: any): Shift => ({
+  ...apiShift,
+  openedAt: new Date(apiShift.openedAt),
+  closedAt: apiShift.closedAt ? new Date(apiShift.closedAt) : undefined,
+  cashMovements: apiShift.cashMovements.map((movement: any): ShiftCashMovement => ({
+    ...movement,
+    timestamp: new Date(movement.timestamp)
+  })),
+  report: apiShift.report ? mapApiReport(apiShift.report) : undefined
+});
+
+// Get recent shifts, optionally for one till
+export async function getShifts(till?: string): Promise<Shift[]> {
+  try {
+    const query = till ? `?till=${encodeURIComponent(till)}` : '';
+    const response = await apiFetch(`${API_BASE_URL}/shifts${query}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch shifts');
+    }
+
+    const shifts = await response.json();
+    return shifts.map(mapApiShift);
+  } catch (error) {
+    console.error('Error getting shifts:', error);
+    throw error;
+  }
+}
+
+// Get the open shift on a till, or null if it has none
+export async function getCurrentShift(till: string): Promise<Shift | null> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/shifts/current?till=${encodeURIComponent(till)}`);
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to fetch current shift'));
+    }
+
+    const shift = await response.json();
+    return shift ? mapApiShift(shift) : null;
+  } catch (error) {
+    console.error('Error getting current shift:', error);
+    throw error;
+  }
+}
+
+// Open a shift on a till with its opening float
+export async function openShift(shift: OpenShiftInput): Promise<Shift> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/shifts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(shift),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to open shift'));
+    }
+
+    return mapApiShift(await response.json());
+  } catch (error) {
+    console.error('Error opening shift:', error);
+    throw error;
+  }
+}
+
+// Record a pay-in or pay-out of cash during a shift
+export async function addCashMovement(
+  id: string,
+  movement: Pick<ShiftCashMovement, 'type' | 'amount' | 'reason'>
+): Promise<Shift> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/shifts/${id}/cash-movements`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(movement),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to record cash movement'));
+    }
+
+    return mapApiShift(await response.json());
+  } catch (error) {
+    console.error(`Error recording cash movement for shift ${id}:`, error);
+    throw error;
+  }
+}
+
+// Get a shift's X report (open) or Z report (closed)
+export async function getShiftReport(id: string): Promise<ShiftReport> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/shifts/${id}/report`);
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to fetch shift report'));
+    }
+
+    return mapApiReport(await response.json());
+  } catch (error) {
+    console.error(`Error getting report for shift ${id}:`, error);
+    throw error;
+  }
+}
+
+// Close a shift with the amounts counted. The closed shift carries its Z report.
+export async function closeShift(id: string, close: CloseShiftInput): Promise<Shift> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/shifts/${id}/close`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(close),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to close shift'));
+    }
+
+    return mapApiShift(await response.json());
+  } catch (error) {
+    console.error(`Error closing shift ${id}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,127 @@
+import { StockTake } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+export interface StockTakeInput {
+  location: string;
+  category?: string;
+  supplier?: string;
+  note?: string;
+}
+
+// A count for one line, named by product ID or by a scanned barcode. `counted` sets the
+// quantity (null clears it); `add` adds to it, e.g. 1 per scan.
+export interface StockTakeCount {
+  product?: string;
+  barcode?: string;
+  counted?: number | null;
+  add?: number;
+}
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Helper function to convert API stock take to client StockTake type
+const mapApiStockTake = (apiStockTake: any): StockTake => ({
+  ...apiStockTake,
+  snapshotAt: new Date(apiStockTake.snapshotAt),
+  submittedAt: apiStockTake.submittedAt ? new Date(apiStockTake.submittedAt) : undefined,
+  approvedAt: apiStockTake.approvedAt ? new Date(apiStockTake.approvedAt) : undefined,
+  createdAt: new Date(apiStockTake.createdAt),
+  lines: apiStockTake.lines?.map((line: any) => ({
+    ...line,
+    countedAt: line.countedAt ? new Date(line.countedAt) : undefined
+  }))
+});
+
+// Send a stock take request and map the stock take it replies with
+const sendStockTakeRequest = async (url: string, body: unknown, fallback: string): Promise<StockTake> => {
+  const response = await apiFetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response, fallback));
+  }
+
+  return mapApiStockTake(await response.json());
+};
+
+// Get stock takes, newest first
+export async function getStockTakes(): Promise<StockTake[]> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/stock-takes`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch stock takes');
+    }
+
+    const stockTakes = await response.json();
+    return stockTakes.map(mapApiStockTake);
+  } catch (error) {
+    console.error('Error getting stock takes:', error);
+    throw error;
+  }
+}
+
+// Get a stock take with its lines and variance report
+export async function getStockTake(id: string): Promise<StockTake> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/stock-takes/${id}`);
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to fetch stock take'));
+    }
+
+    return mapApiStockTake(await response.json());
+  } catch (error) {
+    console.error(`Error getting stock take ${id}:`, error);
+    throw error;
+  }
+}
+
+// Start a stock take; what the location holds now is what counts are checked against
+export async function createStockTake(stockTake: StockTakeInput): Promise<StockTake> {
+  try {
+    return await sendStockTakeRequest(`${API_BASE_URL}/stock-takes`, stockTake, 'Failed to start stock take');
+  } catch (error) {
+    console.error('Error starting stock take:', error);
+    throw error;
+  }
+}
+
+// Record counted quantities
+export async function recordStockTakeCounts(id: string, counts: StockTakeCount[]): Promise<StockTake> {
+  try {
+    return await sendStockTakeRequest(`${API_BASE_URL}/stock-takes/${id}/counts`, { counts }, 'Failed to record count');
+  } catch (error) {
+    console.error(`Error recording counts for stock take ${id}:`, error);
+    throw error;
+  }
+}
+
+// Submit, reopen, approve or cancel a stock take. Only approving changes stock.
+export async function moveStockTake(
+  id: string,
+  action: 'submit' | 'reopen' | 'approve' | 'cancel'
+): Promise<StockTake> {
+  try {
+    return await sendStockTakeRequest(`${API_BASE_URL}/stock-takes/${id}/${action}`, undefined, `Failed to ${action} stock take`);
+  } catch (error) {
+    console.error(`Error trying to ${action} stock take ${id}:`, error);
+    throw error;
+  }
+}
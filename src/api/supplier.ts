@@ -1,4 +1,5 @@
 import { Supplier } from '../lib/types';
+import { apiFetch } from './client';
 
 // API Base URL
 const API_BASE_URL = '/api';
@@ -68,7 +69,7 @@ function normalizeSupplier(supplier: any): Supplier {
 export async function getAllSuppliers(): Promise<Supplier[]> {
   try {
     console.log('Fetching suppliers from API');
-    const response = await fetch(`${API_BASE_URL}/suppliers`);
+    const response = await apiFetch(`${API_BASE_URL}/suppliers`);
     
     if (!response.ok) {
       console.log('API response not OK, falling back to mock data');
@@ -96,7 +97,7 @@ export async function getSupplierById(id: string): Promise<Supplier> {
   }
   
   try {
-    const response = await fetch(`${API_BASE_URL}/suppliers/${id}`);
+    const response = await apiFetch(`${API_BASE_URL}/suppliers/${id}`);
     
     if (!response.ok) {
       throw new Error('Failed to fetch supplier');
@@ -128,7 +129,7 @@ export async function createSupplier(supplierData: Omit<Supplier, 'id' | 'create
   
   try {
     console.log('Creating supplier via API');
-    const response = await fetch(`${API_BASE_URL}/suppliers`, {
+    const response = await apiFetch(`${API_BASE_URL}/suppliers`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -174,7 +175,7 @@ export async function updateSupplier(id: string, supplierData: Partial<Supplier>
   
   try {
     console.log(`Updating supplier with ID ${id} via API`);
-    const response = await fetch(`${API_BASE_URL}/suppliers/${id}`, {
+    const response = await apiFetch(`${API_BASE_URL}/suppliers/${id}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json'
@@ -218,7 +219,7 @@ export async function deleteSupplier(id: string): Promise<boolean> {
   
   try {
     console.log(`Deleting supplier with ID ${id} via API`);
-    const response = await fetch(`${API_BASE_URL}/suppliers/${id}`, {
+    const response = await apiFetch(`${API_BASE_URL}/suppliers/${id}`, {
       method: 'DELETE'
     });
     
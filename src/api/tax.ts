@@ -0,0 +1,114 @@
+import { TaxClass, TaxSettings } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Get tax classes and pricing mode
+export async function getTaxSettings(): Promise<TaxSettings> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/tax`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch tax settings');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error getting tax settings:', error);
+    throw error;
+  }
+}
+
+// Switch between tax-inclusive and tax-exclusive pricing
+export async function updatePricesIncludeTax(pricesIncludeTax: boolean): Promise<boolean> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/tax/settings`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ pricesIncludeTax }),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to update tax settings'));
+    }
+
+    const settings = await response.json();
+    return settings.pricesIncludeTax;
+  } catch (error) {
+    console.error('Error updating tax settings:', error);
+    throw error;
+  }
+}
+
+// Create a tax class
+export async function createTaxClass(taxClass: Omit<TaxClass, 'id'>): Promise<TaxClass> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/tax/classes`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(taxClass),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to create tax class'));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error creating tax class:', error);
+    throw error;
+  }
+}
+
+// Update a tax class
+export async function updateTaxClass(id: string, taxClass: Partial<Omit<TaxClass, 'id'>>): Promise<TaxClass> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/tax/classes/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(taxClass),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to update tax class'));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error(`Error updating tax class ${id}:`, error);
+    throw error;
+  }
+}
+
+// Delete a tax class
+export async function deleteTaxClass(id: string): Promise<void> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/tax/classes/${id}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to delete tax class'));
+    }
+  } catch (error) {
+    console.error(`Error deleting tax class ${id}:`, error);
+    throw error;
+  }
+}
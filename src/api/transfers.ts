@@ -0,0 +1,136 @@
+import { Transfer, TransferStatus } from '../lib/types';
+import { apiFetch } from './client';
+
+// API Base URL
+const API_BASE_URL = '/api';
+
+export interface TransferInput {
+  from: string;
+  to: string;
+  lines: { product: string; quantity: number }[];
+  note?: string;
+}
+
+// What arrived for a line. Lines left out arrived in full.
+export interface ReceivedTransferLine {
+  product: string;
+  receivedQuantity: number;
+  discrepancyReason?: string; // required when less arrived than was sent
+}
+
+// Read the error message from a failed response
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Helper function to convert API transfer to client Transfer type
+const mapApiTransfer = (apiTransfer: any): Transfer => ({
+  ...apiTransfer,
+  dispatchedAt: apiTransfer.dispatchedAt ? new Date(apiTransfer.dispatchedAt) : undefined,
+  receivedAt: apiTransfer.receivedAt ? new Date(apiTransfer.receivedAt) : undefined,
+  createdAt: new Date(apiTransfer.createdAt),
+  updatedAt: new Date(apiTransfer.updatedAt)
+});
+
+// Get transfers, newest first, optionally only those in one status
+export async function getTransfers(status?: TransferStatus): Promise<Transfer[]> {
+  try {
+    const query = status ? `?status=${status}` : '';
+    const response = await apiFetch(`${API_BASE_URL}/transfers${query}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch transfers');
+    }
+
+    const transfers = await response.json();
+    return transfers.map(mapApiTransfer);
+  } catch (error) {
+    console.error('Error getting transfers:', error);
+    throw error;
+  }
+}
+
+// Draft a transfer; no stock moves until it is dispatched
+export async function createTransfer(transfer: TransferInput): Promise<Transfer> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/transfers`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(transfer),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to create transfer'));
+    }
+
+    return mapApiTransfer(await response.json());
+  } catch (error) {
+    console.error('Error creating transfer:', error);
+    throw error;
+  }
+}
+
+// Take a draft transfer's stock out of its source location
+export async function dispatchTransfer(id: string): Promise<Transfer> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/transfers/${id}/dispatch`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to dispatch transfer'));
+    }
+
+    return mapApiTransfer(await response.json());
+  } catch (error) {
+    console.error(`Error dispatching transfer ${id}:`, error);
+    throw error;
+  }
+}
+
+// Add what arrived of a dispatched transfer to its destination
+export async function receiveTransfer(id: string, lines: ReceivedTransferLine[] = []): Promise<Transfer> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/transfers/${id}/receive`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ lines }),
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to receive transfer'));
+    }
+
+    return mapApiTransfer(await response.json());
+  } catch (error) {
+    console.error(`Error receiving transfer ${id}:`, error);
+    throw error;
+  }
+}
+
+// Cancel a draft transfer
+export async function cancelTransfer(id: string): Promise<Transfer> {
+  try {
+    const response = await apiFetch(`${API_BASE_URL}/transfers/${id}/cancel`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response, 'Failed to cancel transfer'));
+    }
+
+    return mapApiTransfer(await response.json());
+  } catch (error) {
+    console.error(`Error canceling transfer ${id}:`, error);
+    throw error;
+  }
+}
@@ -1,34 +1,74 @@
-import React, { useState, useEffect } from 'react';
-import { QrCode, Plus, Search, Trash, CornerDownLeft, CreditCard, Banknote, Receipt } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { QrCode, ScanLine, Plus, Search, Trash, CornerDownLeft, CreditCard, Banknote, Receipt, Tag, X, UserPlus, Star, PauseCircle } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { BillItem, Product, Sale } from '@/lib/types';
+import { BillItem, Customer, ParkedBill, PaymentTender, Product, Sale, SalePayment, ScannedProduct } from '@/lib/types';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useToast } from '@/components/ui/use-toast';
 import { useNavigate } from 'react-router-dom';
-import { createPaymentIntent } from '@/api/createPaymentIntent';
 import { useSalesStore } from '@/lib/stores/salesStore';
 import { v4 as uuidv4 } from 'uuid';
 import { NotificationService } from '@/lib/services/notificationService';
-import { getAllProducts } from '@/api/product';
-import { useQuery } from '@tanstack/react-query';
+import { getAllProducts, getProductByBarcode } from '@/api/product';
+import { getTaxSettings } from '@/api/tax';
+import { getLocations } from '@/api/locations';
+import { isNetworkError } from '@/api/client';
+import { withOfflineCache } from '@/lib/offline';
+import { useOutboxStore } from '@/lib/stores/outboxStore';
+import { useCurrentShift } from '@/hooks/use-current-shift';
+import { useBarcodeScanner } from '@/hooks/use-barcode-scanner';
+import { useTillStore } from '@/lib/stores/tillStore';
+import { beepError, beepSuccess } from '@/lib/beep';
+import { quoteSale } from '@/api/promotions';
+import { getCustomer, getCustomers, createCustomer, getLoyaltySettings } from '@/api/customers';
+import { getParkedBills, parkBill, resumeParkedBill } from '@/api/parkedBills';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import { calculateTax } from '@/lib/tax';
+import { getLocationStock, resolveLocation } from '@/lib/locations';
+import { getExpiredStock } from '@/lib/lots';
+import { summarizeTenders, isChargedTender } from '@/lib/payments';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import ReceiptDialog from '@/components/sales/ReceiptDialog';
+import ParkedBillsDialog from '@/components/billing/ParkedBillsDialog';
 
 const BillingSystem: React.FC = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const { addSale } = useSalesStore();
+  const { enqueue } = useOutboxStore();
+  const { user, hasPermission } = useAuth();
+  const { data: shift } = useCurrentShift();
+  const { tillId, scanMode, setScanMode, locationId, setLocationId } = useTillStore();
+  const canLookUpCustomers = hasPermission('customers:read');
+  const canAddCustomers = hasPermission('customers:write');
   const [searchQuery, setSearchQuery] = useState('');
   const [billItems, setBillItems] = useState<BillItem[]>([]);
+  // The bill as scans see it: a scan arriving before the last one has rendered still counts its unit
+  const scannedItemsRef = useRef<BillItem[]>([]);
+  useEffect(() => {
+    scannedItemsRef.current = billItems;
+  }, [billItems]);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [quantity, setQuantity] = useState(1);
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card' | 'online'>('cash');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentTender>('cash');
+  const [payments, setPayments] = useState<SalePayment[]>([]);
+  const [tenderAmount, setTenderAmount] = useState('');
+  const [tenderReference, setTenderReference] = useState('');
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
+  const [receiptSaleId, setReceiptSaleId] = useState<string | null>(null);
   const [customerName, setCustomerName] = useState('');
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [customerResults, setCustomerResults] = useState<Customer[] | null>(null);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [showParkedBills, setShowParkedBills] = useState(false);
   
-  // Fetch products from MongoDB
+  // Fetch products from MongoDB, falling back to the last copy fetched when offline
   const { 
     data: products = [], 
     isLoading: isLoadingProducts,
@@ -36,30 +76,221 @@ const BillingSystem: React.FC = () => {
     refetch: refetchProducts
   } = useQuery({
     queryKey: ['products'],
-    queryFn: getAllProducts,
+    queryFn: () => withOfflineCache('products', getAllProducts),
     retry: 1
   });
   
-  // Calculate totals
-  const subtotal = billItems.reduce((sum, item) => sum + item.subtotal, 0);
-  const tax = subtotal * 0.08; // 8% tax
-  const total = subtotal + tax;
+  // The till sells from its own location's stock
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: () => withOfflineCache('locations', getLocations)
+  });
+  const location = resolveLocation(locations, locationId);
+  
+  // Bills parked on any till. Their items are held back, so this till can't sell them.
+  const { data: parkedBills = [] } = useQuery({
+    queryKey: ['parked-bills'],
+    queryFn: getParkedBills,
+    refetchInterval: 30000
+  });
+  
+  // Only bills parked at this till's location hold its stock; bills from before locations hold the default's
+  const defaultLocationId = locations.find(l => l.isDefault)?.id;
+  const reservedStock = new Map<string, number>();
+  parkedBills
+    .filter(bill => !location || (bill.location || defaultLocationId) === location.id)
+    .forEach(bill => bill.items.forEach(item => {
+      reservedStock.set(item.productId, (reservedStock.get(item.productId) || 0) + item.quantity);
+    }));
+  // Expired lots can't be sold either
+  const getAvailableStock = (product: Product) => {
+    const stock = location ? getLocationStock(product, location.id) : product.stock;
+    return Math.max(stock - getExpiredStock(product, location?.id) - (reservedStock.get(product.id) || 0), 0);
+  };
+  const getExpiredNote = (product: Product) => {
+    const expired = getExpiredStock(product, location?.id);
+    return expired > 0 ? ` (${expired} more expired and can't be sold)` : '';
+  };
+  
+  // Loyalty rates, to show what a customer's points are worth
+  const { data: loyaltySettings } = useQuery({
+    queryKey: ['loyalty-settings'],
+    queryFn: getLoyaltySettings,
+    enabled: !!selectedCustomer
+  });
+  
+  // Fetch tax classes so the bill shows the same tax the server will charge
+  const { data: taxSettings } = useQuery({
+    queryKey: ['tax-settings'],
+    queryFn: () => withOfflineCache('tax-settings', getTaxSettings)
+  });
+  
+  // Price the bill on the server so promotions show exactly as the sale will get them
+  const quoteItems = billItems.map(item => ({
+    product: item.product.id,
+    quantity: item.quantity,
+    priceAtSale: item.product.price,
+    barcode: item.barcode
+  }));
+  const { data: quote } = useQuery({
+    queryKey: ['sale-quote', quoteItems, couponCode],
+    queryFn: () => quoteSale(quoteItems, couponCode),
+    enabled: billItems.length > 0,
+    placeholderData: previous => previous,
+    retry: false
+  });
+  const currentQuote = billItems.length > 0 ? quote : undefined;
+  
+  // Calculate totals; until the quote arrives, preview tax without discounts
+  const localTotals = calculateTax(
+    billItems.map(item => ({
+      price: item.product.price,
+      quantity: item.quantity,
+      taxClass: item.product.taxClass
+    })),
+    taxSettings
+  );
+  const subtotal = currentQuote ? currentQuote.subtotal : localTotals.subtotal;
+  const tax = currentQuote ? currentQuote.taxTotal : localTotals.taxTotal;
+  const total = currentQuote ? currentQuote.totalAmount : localTotals.total;
+  const taxBreakdown = currentQuote ? currentQuote.taxBreakdown : localTotals.breakdown;
+  const discountTotal = currentQuote?.discountTotal || 0;
+  const appliedCoupon = currentQuote?.couponCode;
+  
+  const getLineDiscount = (productId: string) =>
+    currentQuote?.lines.find(line => line.productId === productId);
+  
+  const handleApplyCoupon = () => {
+    setCouponCode(couponInput.trim().toUpperCase());
+  };
+  
+  const handleRemoveCoupon = () => {
+    setCouponInput('');
+    setCouponCode('');
+  };
+  
+  const tenderSummary = summarizeTenders(payments, total);
+  
+  // Add a tender towards the bill; a blank amount pays whatever is left
+  const handleAddTender = () => {
+    const amount = tenderAmount ? parseFloat(tenderAmount) : tenderSummary.remaining;
+    
+    if (isNaN(amount) || amount <= 0) {
+      toast({
+        title: "Invalid amount",
+        description: tenderSummary.remaining > 0 ? "Enter an amount greater than 0" : "The bill is already paid",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    // Only cash can be overpaid, since only cash can be given back as change
+    if (paymentMethod !== 'cash' && amount > tenderSummary.remaining) {
+      toast({
+        title: "Amount too high",
+        description: `Only ₹${tenderSummary.remaining.toFixed(2)} is left to pay by ${paymentMethod}`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    setPayments([...payments, {
+      method: paymentMethod,
+      amount: Math.round(amount * 100) / 100,
+      reference: tenderReference.trim() || undefined
+    }]);
+    setTenderAmount('');
+    setTenderReference('');
+  };
+  
+  const handleRemoveTender = (index: number) => {
+    setPayments(payments.filter((_, i) => i !== index));
+  };
+  
+  // Find customer accounts by name, phone number or email
+  const handleCustomerSearch = async () => {
+    if (!customerSearch.trim()) return;
+    try {
+      setCustomerResults(await getCustomers(customerSearch.trim()));
+    } catch (error) {
+      toast({
+        title: "Customer lookup failed",
+        description: error instanceof Error ? error.message : "Could not search customers",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  const handleSelectCustomer = (customer: Customer) => {
+    setSelectedCustomer(customer);
+    setCustomerName(customer.name);
+    setCustomerSearch('');
+    setCustomerResults(null);
+  };
+  
+  // Register the searched phone number or email under the name entered for the bill
+  const handleRegisterCustomer = async () => {
+    if (!customerName.trim()) {
+      toast({
+        title: "Name required",
+        description: "Enter the customer's name to register them",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    const contact = customerSearch.trim();
+    try {
+      const customer = await createCustomer({
+        name: customerName.trim(),
+        email: contact.includes('@') ? contact : '',
+        phone: contact.includes('@') ? '' : contact
+      });
+      handleSelectCustomer(customer);
+      toast({ title: "Customer registered", description: `${customer.name} will earn points on this sale` });
+    } catch (error) {
+      toast({
+        title: "Could not register customer",
+        description: error instanceof Error ? error.message : "Failed to create customer",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  const handleClearCustomer = () => {
+    setSelectedCustomer(null);
+    setCustomerName('');
+    setPayments(payments.filter(payment => payment.method !== 'loyalty'));
+  };
+  
+  // Put the customer's points towards whatever is left to pay
+  const pointsValue = selectedCustomer && loyaltySettings
+    ? Math.floor(selectedCustomer.loyaltyPoints * loyaltySettings.pointValue * 100) / 100
+    : 0;
+  const hasRedeemed = payments.some(payment => payment.method === 'loyalty');
+  
+  const handleRedeemPoints = () => {
+    const amount = Math.min(pointsValue, tenderSummary.remaining);
+    if (amount <= 0) return;
+    setPayments([...payments, { method: 'loyalty', amount }]);
+  };
   
   const handleAddToBill = () => {
     if (!selectedProduct) return;
+    const availableStock = getAvailableStock(selectedProduct);
     
-    // Check stock level
-    if (selectedProduct.stock < quantity) {
+    // Check stock level, less what parked bills are holding
+    if (availableStock < quantity) {
       toast({
         title: "Insufficient stock",
-        description: `Only ${selectedProduct.stock} units available`,
+        description: `Only ${availableStock} units available${getExpiredNote(selectedProduct)}`,
         variant: "destructive"
       });
       return;
     }
     
-    // Check if product is already in the bill
-    const existingItemIndex = billItems.findIndex(item => item.product.id === selectedProduct.id);
+    // Check if product is already in the bill (lines from weighted-item labels stay apart)
+    const existingItemIndex = billItems.findIndex(item => item.product.id === selectedProduct.id && !item.barcode);
     
     if (existingItemIndex >= 0) {
       // Update quantity if the product is already in the bill
@@ -67,10 +298,10 @@ const BillingSystem: React.FC = () => {
       const totalQuantity = updatedItems[existingItemIndex].quantity + quantity;
       
       // Check if updated quantity exceeds stock
-      if (totalQuantity > selectedProduct.stock) {
+      if (totalQuantity > availableStock) {
         toast({
           title: "Insufficient stock",
-          description: `Cannot add ${quantity} more units. Only ${selectedProduct.stock - updatedItems[existingItemIndex].quantity} more available`,
+          description: `Cannot add ${quantity} more units. Only ${availableStock - updatedItems[existingItemIndex].quantity} more available${getExpiredNote(selectedProduct)}`,
           variant: "destructive"
         });
         return;
@@ -96,6 +327,84 @@ const BillingSystem: React.FC = () => {
     setSearchQuery('');
   };
   
+  // Find what a scanned barcode is. Offline, plain barcodes are still found in the cached catalogue.
+  const lookUpBarcode = async (code: string): Promise<ScannedProduct | null> => {
+    try {
+      return await getProductByBarcode(code);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      const product = products.find(p => p.barcode === code);
+      return product ? { barcode: code, product, price: product.price } : null;
+    }
+  };
+  
+  // In scan mode a scanned barcode adds one unit straight to the bill, with a beep either way
+  const handleScan = async (code: string) => {
+    setSearchQuery('');
+    setSelectedProduct(null);
+    
+    try {
+      const scanned = await lookUpBarcode(code);
+      if (!scanned) {
+        beepError();
+        toast({
+          title: "Unknown barcode",
+          description: `No product has the barcode ${code}`,
+          variant: "destructive"
+        });
+        return;
+      }
+      
+      const { product } = scanned;
+      const availableStock = getAvailableStock(product);
+      const items = scannedItemsRef.current;
+      const inBill = items
+        .filter(item => item.product.id === product.id)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      
+      if (inBill + 1 > availableStock) {
+        beepError();
+        toast({
+          title: "Insufficient stock",
+          description: `Only ${availableStock} units of ${product.name} available${getExpiredNote(product)}`,
+          variant: "destructive"
+        });
+        return;
+      }
+      
+      let updatedItems: BillItem[];
+      if (scanned.barcode !== product.barcode) {
+        // A weighted-item label is its own line, at the price printed on it
+        updatedItems = [...items, {
+          product: { ...product, price: scanned.price },
+          quantity: 1,
+          subtotal: scanned.price,
+          barcode: scanned.barcode,
+          weight: scanned.weight
+        }];
+      } else {
+        const existing = items.find(item => item.product.id === product.id && !item.barcode);
+        updatedItems = existing
+          ? items.map(item => item === existing
+            ? { ...item, quantity: item.quantity + 1, subtotal: (item.quantity + 1) * item.product.price }
+            : item)
+          : [...items, { product, quantity: 1, subtotal: product.price }];
+      }
+      scannedItemsRef.current = updatedItems;
+      setBillItems(updatedItems);
+      beepSuccess();
+    } catch (error) {
+      beepError();
+      toast({
+        title: "Scan failed",
+        description: error instanceof Error ? error.message : "Failed to look up barcode",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  useBarcodeScanner(handleScan, scanMode);
+  
   const handleRemoveItem = (index: number) => {
     const updatedItems = [...billItems];
     updatedItems.splice(index, 1);
@@ -123,13 +432,96 @@ const BillingSystem: React.FC = () => {
     }
   };
   
+  const resetBill = () => {
+    setBillItems([]);
+    setPayments([]);
+    setSelectedCustomer(null);
+    setCustomerName('');
+    handleRemoveCoupon();
+  };
+  
+  // Put the bill on hold under a label so the next customer can be served
+  const handleParkBill = async (label: string) => {
+    try {
+      await parkBill({
+        label,
+        items: billItems.map(item => ({ product: item.product.id, quantity: item.quantity, barcode: item.barcode })),
+        customer: selectedCustomer?.id,
+        customerName: customerName || undefined,
+        couponCode: couponCode || undefined,
+        location: location?.id
+      });
+      queryClient.invalidateQueries({ queryKey: ['parked-bills'] });
+      resetBill();
+      setShowParkedBills(false);
+      toast({ title: "Bill parked", description: `Resume "${label}" from Parked Bills on any till` });
+    } catch (error) {
+      toast({
+        title: "Could not park bill",
+        description: error instanceof Error ? error.message : "Failed to park bill",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  // Pick a parked bill back up, priced from the current catalogue
+  const handleResumeBill = async (bill: ParkedBill) => {
+    try {
+      const resumed = await resumeParkedBill(bill.id);
+      queryClient.invalidateQueries({ queryKey: ['parked-bills'] });
+      
+      const items: BillItem[] = [];
+      const missing: string[] = [];
+      for (const item of resumed.items) {
+        // Weighted-item lines are priced from their label again
+        const scanned = item.barcode ? await getProductByBarcode(item.barcode).catch(() => null) : null;
+        const product = scanned
+          ? { ...scanned.product, price: scanned.price }
+          : products.find(p => p.id === item.productId);
+        if (product && (scanned || !item.barcode)) {
+          items.push({
+            product,
+            quantity: item.quantity,
+            subtotal: item.quantity * product.price,
+            barcode: item.barcode,
+            weight: scanned?.weight
+          });
+        } else {
+          missing.push(item.name || item.productId);
+        }
+      }
+      
+      setBillItems(items);
+      setPayments([]);
+      setCustomerName(resumed.customerName || '');
+      setCouponInput(resumed.couponCode || '');
+      setCouponCode(resumed.couponCode || '');
+      setSelectedCustomer(resumed.customer ? await getCustomer(resumed.customer).catch(() => null) : null);
+      setShowParkedBills(false);
+      
+      toast({
+        title: "Bill resumed",
+        description: missing.length > 0 ? `No longer in the catalogue: ${missing.join(', ')}` : resumed.label,
+        variant: missing.length > 0 ? "destructive" : undefined
+      });
+    } catch (error) {
+      queryClient.invalidateQueries({ queryKey: ['parked-bills'] });
+      toast({
+        title: "Could not resume bill",
+        description: error instanceof Error ? error.message : "Failed to resume parked bill",
+        variant: "destructive"
+      });
+    }
+  };
+  
   // Convert bill items to cart items for Stripe
   const getBillItemsForStripe = () => {
     return billItems.map(item => ({
       id: item.product.id,
       name: item.product.name,
       price: item.product.price,
-      quantity: item.quantity
+      quantity: item.quantity,
+      barcode: item.barcode
     }));
   };
   
@@ -143,65 +535,119 @@ const BillingSystem: React.FC = () => {
       return;
     }
     
+    // Every sale on the till counts towards its open shift, for cashing up
+    if (!shift || !user) {
+      toast({
+        title: "No shift open",
+        description: "Open a shift on this till before taking payments",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    // With no tenders added, the selected method pays the whole bill
+    const tenders: SalePayment[] = payments.length > 0 ? payments : [{ method: paymentMethod, amount: total }];
+    const { remaining, changeDue } = summarizeTenders(tenders, total);
+    
+    if (remaining > 0) {
+      toast({
+        title: "Payment incomplete",
+        description: `₹${remaining.toFixed(2)} still to be paid`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    // Card, online and UPI payments need the payment provider; cash can be queued offline
+    if (!navigator.onLine && tenders.some(payment => isChargedTender(payment.method))) {
+      toast({
+        title: "No connection",
+        description: "Card, online and UPI payments need a connection. Take cash or try again once back online.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
     setIsProcessingPayment(true);
     
     try {
-      if (paymentMethod === 'cash') {
+      if (!tenders.some(payment => isChargedTender(payment.method))) {
         // Create a new sale record and add it to the transaction history via MongoDB
-        const saleData = {
-          products: billItems.map(item => ({
-            product: item.product.id, // Just the ID for the API
-            quantity: item.quantity,
-            priceAtSale: item.product.price
-          })),
-          totalAmount: total,
-          paymentMethod: 'cash',
-          customerName: customerName || undefined,
-          employeeId: 'EMP-001', // Default employee ID
-          channel: 'in-store',
-          timestamp: new Date()
-        };
-        
-        // Add sale to MongoDB via our store (which uses the API)
-        await addSale({
-          id: 'new', // Temporary ID that will be replaced by MongoDB
+        const sale: Omit<Sale, 'id'> & { idempotencyKey: string } = {
           products: billItems.map(item => ({
             product: item.product,
             quantity: item.quantity,
-            priceAtSale: item.product.price
+            priceAtSale: item.product.price,
+            barcode: item.barcode
           })),
           totalAmount: total,
           paymentMethod: 'cash',
+          payments: tenders,
+          customer: selectedCustomer?.id,
           customerName: customerName || undefined,
-          employeeId: 'EMP-001', // Default employee ID
+          employeeId: user.id,
+          employeeName: user.name,
+          shift: shift.id,
+          till: tillId,
+          location: location?.id,
           channel: 'in-store',
+          couponCode: appliedCoupon,
+          idempotencyKey: uuidv4(), // lets the outbox resend the sale without recording it twice
           timestamp: new Date()
-        });
+        };
         
-        // Refresh products to get updated stock levels
-        refetchProducts();
+        // Add sale to MongoDB via our store (which uses the API), or keep it to send
+        // later if the till can't reach the server
+        let savedSale: Sale | null = null;
+        if (navigator.onLine) {
+          try {
+            savedSale = await addSale(sale);
+          } catch (error) {
+            if (!isNetworkError(error)) throw error;
+          }
+        }
         
-        // Display success message
-        toast({
-          title: "Sale completed",
-          description: `Cash payment of ₹${total.toFixed(2)} received`,
-        });
+        if (savedSale) {
+          // Refresh products to get updated stock levels
+          refetchProducts();
+          
+          // Display success message
+          toast({
+            title: "Sale completed",
+            description: changeDue > 0
+              ? `Cash payment of ₹${total.toFixed(2)} received. Change due: ₹${changeDue.toFixed(2)}`
+              : `Cash payment of ₹${total.toFixed(2)} received`,
+          });
+          
+          // Offer the receipt for the completed sale
+          setReceiptSaleId(savedSale.id);
+        } else {
+          await enqueue(sale);
+          toast({
+            title: "Saved offline",
+            description: changeDue > 0
+              ? `Cash payment of ₹${total.toFixed(2)} received. Change due: ₹${changeDue.toFixed(2)}. The sale will be sent when the till is back online.`
+              : `Cash payment of ₹${total.toFixed(2)} received. The sale will be sent when the till is back online.`,
+          });
+        }
         
         // Reset bill
-        setBillItems([]);
+        resetBill();
       } else {
-        // For card or online payments, use Stripe
+        // Card, online and UPI payments are taken through their payment provider at checkout
         // Store bill items in session storage to retrieve after payment
         sessionStorage.setItem('pendingBillItems', JSON.stringify(billItems));
         sessionStorage.setItem('billTotal', total.toString());
-        sessionStorage.setItem('paymentMethod', paymentMethod);
+        // Card, online and UPI tenders are charged through a provider; any cash was taken at the till
+        const cardTender = tenders.find(payment => isChargedTender(payment.method))!;
+        sessionStorage.setItem('paymentMethod', cardTender.method);
         sessionStorage.setItem('customerName', customerName || '');
         
         // Create a payment intent and redirect to checkout
         const cartItems = getBillItemsForStripe();
         
         // Set the correct channel based on payment method
-        const channel = paymentMethod === 'online' ? 'online' : 'in-store';
+        const channel = tenders.every(payment => payment.method === 'online') ? 'online' : 'in-store';
         
         // Navigate to the checkout page with the cart items
         navigate('/checkout', { 
@@ -210,10 +656,16 @@ const BillingSystem: React.FC = () => {
             cartItems,
             subtotal,
             tax,
+            discountTotal,
             total,
+            couponCode: appliedCoupon,
             billItems: JSON.stringify(billItems), // Include bill items for stock update
             customerName,
-            paymentMethod,
+            customer: selectedCustomer?.id,
+            paymentMethod: cardTender.method,
+            payments: tenders,
+            shift: shift.id,
+            location: location?.id,
             channel
           } 
         });
@@ -241,8 +693,20 @@ const BillingSystem: React.FC = () => {
     <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
       <div className="lg:col-span-3 space-y-6">
         <Card>
-          <CardHeader className="pb-3">
+          <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
             <CardTitle>Add Products</CardTitle>
+            {locations.length > 1 && location && (
+              <Select value={location.id} onValueChange={setLocationId}>
+                <SelectTrigger className="w-[180px]" title="Where this till sells from">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(l => (
+                    <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -251,14 +715,19 @@ const BillingSystem: React.FC = () => {
                   <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                   <Input
                     type="text"
-                    placeholder="Search product or scan barcode..."
+                    placeholder={scanMode ? "Scan a barcode or search products..." : "Search product or scan barcode..."}
                     className="pl-8"
                     value={searchQuery}
                     onChange={handleSearch}
                   />
                 </div>
-                <Button variant="outline" size="icon">
-                  <QrCode className="h-4 w-4" />
+                <Button
+                  variant={scanMode ? "default" : "outline"}
+                  size="icon"
+                  title={scanMode ? "Scan mode on: scanned items go straight to the bill" : "Turn on scan mode"}
+                  onClick={() => setScanMode(!scanMode)}
+                >
+                  <ScanLine className="h-4 w-4" />
                 </Button>
               </div>
               
@@ -296,7 +765,7 @@ const BillingSystem: React.FC = () => {
                             </div>
                             <div className="text-right">
                               <p className="font-medium">₹{product.price.toFixed(2)}</p>
-                              <p className="text-sm text-muted-foreground">{product.stock} in stock</p>
+                              <p className="text-sm text-muted-foreground">{getAvailableStock(product)} in stock</p>
                             </div>
                           </motion.div>
                         ))}
@@ -332,7 +801,7 @@ const BillingSystem: React.FC = () => {
                       <Input
                         type="number"
                         min="1"
-                        max={selectedProduct.stock}
+                        max={getAvailableStock(selectedProduct)}
                         value={quantity}
                         onChange={handleQuantityChange}
                       />
@@ -347,8 +816,14 @@ const BillingSystem: React.FC = () => {
                   </div>
                   
                   <p className="text-sm text-muted-foreground">
-                    {selectedProduct.stock} units available in stock
+                    {getAvailableStock(selectedProduct)} units available in stock
+                    {reservedStock.has(selectedProduct.id) && ` (${reservedStock.get(selectedProduct.id)} held in parked bills)`}
                   </p>
+                  {getExpiredStock(selectedProduct, location?.id) > 0 && (
+                    <p className="text-sm text-destructive">
+                      {getExpiredStock(selectedProduct, location?.id)} units are past their expiry date and can't be sold
+                    </p>
+                  )}
                 </motion.div>
               )}
             </div>
@@ -356,8 +831,12 @@ const BillingSystem: React.FC = () => {
         </Card>
         
         <Card>
-          <CardHeader className="pb-3">
+          <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
             <CardTitle>Current Bill</CardTitle>
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => setShowParkedBills(true)}>
+              <PauseCircle className="h-4 w-4" />
+              Parked Bills{parkedBills.length > 0 && ` (${parkedBills.length})`}
+            </Button>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -383,7 +862,17 @@ const BillingSystem: React.FC = () => {
                         transition={{ duration: 0.2 }}
                         className="flex justify-between items-center py-2"
                       >
-                        <span className="flex-1 font-medium">{item.product.name}</span>
+                        <div className="flex-1">
+                          <span className="font-medium">{item.product.name}</span>
+                          {item.weight !== undefined && (
+                            <p className="text-xs text-muted-foreground">{item.weight.toFixed(3)} kg</p>
+                          )}
+                          {getLineDiscount(item.product.id)?.discounts.map(discount => (
+                            <p key={discount.promotion} className="text-xs text-green-600">
+                              {discount.name}: -₹{discount.amount.toFixed(2)}
+                            </p>
+                          ))}
+                        </div>
                         <div className="flex items-center">
                           <span className="w-20 text-right">₹{item.product.price.toFixed(2)}</span>
                           <span className="w-20 text-right">{item.quantity}</span>
@@ -422,10 +911,25 @@ const BillingSystem: React.FC = () => {
               <span className="text-muted-foreground">Subtotal:</span>
               <span>₹{subtotal.toFixed(2)}</span>
             </div>
-            <div className="flex justify-between">
-              <span className="text-muted-foreground">Tax (8%):</span>
-              <span>₹{tax.toFixed(2)}</span>
-            </div>
+            {discountTotal > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Discounts:</span>
+                <span>-₹{discountTotal.toFixed(2)}</span>
+              </div>
+            )}
+            {taxBreakdown.length > 0 ? taxBreakdown.map(entry => (
+              <div key={entry.rate} className="flex justify-between">
+                <span className="text-muted-foreground">
+                  {entry.name}{taxSettings?.pricesIncludeTax ? ' (incl.)' : ''}:
+                </span>
+                <span>₹{entry.taxAmount.toFixed(2)}</span>
+              </div>
+            )) : (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Tax:</span>
+                <span>₹{tax.toFixed(2)}</span>
+              </div>
+            )}
             <Separator />
             <div className="flex justify-between text-lg font-semibold">
               <span>Total:</span>
@@ -433,17 +937,119 @@ const BillingSystem: React.FC = () => {
             </div>
             
             <div className="pt-4">
-              <p className="text-sm font-medium mb-2">Customer Name</p>
-              <Input
-                placeholder="Enter customer name"
-                value={customerName}
-                onChange={(e) => setCustomerName(e.target.value)}
-              />
+              <p className="text-sm font-medium mb-2">Coupon Code</p>
+              {appliedCoupon ? (
+                <div className="flex items-center justify-between rounded-md border px-3 py-2">
+                  <span className="flex items-center gap-2 text-sm font-medium">
+                    <Tag className="h-4 w-4" />
+                    {appliedCoupon}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={handleRemoveCoupon}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Enter coupon code"
+                    value={couponInput}
+                    onChange={(e) => setCouponInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleApplyCoupon()}
+                  />
+                  <Button variant="outline" onClick={handleApplyCoupon} disabled={!couponInput.trim() || billItems.length === 0}>
+                    Apply
+                  </Button>
+                </div>
+              )}
+              {couponCode && currentQuote?.couponError && (
+                <p className="text-sm text-destructive mt-1">{currentQuote.couponError}</p>
+              )}
+            </div>
+            
+            <div className="pt-4">
+              <p className="text-sm font-medium mb-2">Customer</p>
+              {selectedCustomer ? (
+                <div className="rounded-md border px-3 py-2 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium">{selectedCustomer.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {selectedCustomer.phone || selectedCustomer.email} · {selectedCustomer.loyaltyPoints} points
+                        {pointsValue > 0 && ` (₹${pointsValue.toFixed(2)})`}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={handleClearCustomer}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {pointsValue > 0 && !hasRedeemed && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full gap-1"
+                      onClick={handleRedeemPoints}
+                      disabled={billItems.length === 0 || tenderSummary.remaining === 0}
+                    >
+                      <Star className="h-3.5 w-3.5" />
+                      Redeem points
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Input
+                    placeholder="Enter customer name"
+                    value={customerName}
+                    onChange={(e) => setCustomerName(e.target.value)}
+                  />
+                  {canLookUpCustomers && (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Find by phone or email"
+                        value={customerSearch}
+                        onChange={(e) => {
+                          setCustomerSearch(e.target.value);
+                          setCustomerResults(null);
+                        }}
+                        onKeyDown={(e) => e.key === 'Enter' && handleCustomerSearch()}
+                      />
+                      <Button variant="outline" size="icon" onClick={handleCustomerSearch} disabled={!customerSearch.trim()}>
+                        <Search className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                  {customerResults && (
+                    <div className="border rounded-md overflow-hidden">
+                      {customerResults.map(customer => (
+                        <div
+                          key={customer.id}
+                          className="p-2 border-b last:border-0 hover:bg-muted cursor-pointer text-sm flex justify-between"
+                          onClick={() => handleSelectCustomer(customer)}
+                        >
+                          <span className="font-medium">{customer.name}</span>
+                          <span className="text-muted-foreground">{customer.phone || customer.email}</span>
+                        </div>
+                      ))}
+                      {customerResults.length === 0 && (
+                        <div className="p-2 text-sm flex items-center justify-between">
+                          <span className="text-muted-foreground">No customer found</span>
+                          {canAddCustomers && (
+                            <Button variant="ghost" size="sm" className="gap-1" onClick={handleRegisterCustomer}>
+                              <UserPlus className="h-3.5 w-3.5" />
+                              Register
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
             
             <div className="pt-4">
               <p className="text-sm font-medium mb-2">Payment Method</p>
-              <div className="grid grid-cols-3 gap-2">
+              <div className="grid grid-cols-4 gap-2">
                 <Button 
                   variant={paymentMethod === 'cash' ? 'default' : 'outline'} 
                   className="flex flex-col items-center py-3 h-auto"
@@ -460,6 +1066,14 @@ const BillingSystem: React.FC = () => {
                   <CreditCard className="h-5 w-5 mb-1" />
                   Card
                 </Button>
+                <Button 
+                  variant={paymentMethod === 'upi' ? 'default' : 'outline'} 
+                  className="flex flex-col items-center py-3 h-auto"
+                  onClick={() => setPaymentMethod('upi')}
+                >
+                  <QrCode className="h-5 w-5 mb-1" />
+                  UPI
+                </Button>
                 <Button 
                   variant={paymentMethod === 'online' ? 'default' : 'outline'} 
                   className="flex flex-col items-center py-3 h-auto"
@@ -469,6 +1083,63 @@ const BillingSystem: React.FC = () => {
                   Online
                 </Button>
               </div>
+              
+              {/* Split payment: take part of the bill on one tender, the rest on others */}
+              <div className="flex gap-2 mt-3">
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder={`₹${tenderSummary.remaining.toFixed(2)}`}
+                  value={tenderAmount}
+                  onChange={(e) => setTenderAmount(e.target.value)}
+                />
+                {paymentMethod !== 'cash' && (
+                  <Input
+                    placeholder="Reference"
+                    value={tenderReference}
+                    onChange={(e) => setTenderReference(e.target.value)}
+                  />
+                )}
+                <Button
+                  variant="outline"
+                  onClick={handleAddTender}
+                  disabled={billItems.length === 0 || tenderSummary.remaining === 0}
+                >
+                  Add
+                </Button>
+              </div>
+              
+              {payments.length > 0 && (
+                <div className="mt-3 space-y-1 text-sm">
+                  {payments.map((payment, index) => (
+                    <div key={index} className="flex justify-between items-center">
+                      <span className="capitalize">
+                        {payment.method}
+                        {payment.reference && <span className="text-muted-foreground"> · {payment.reference}</span>}
+                      </span>
+                      <span className="flex items-center">
+                        ₹{payment.amount.toFixed(2)}
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRemoveTender(index)}>
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      </span>
+                    </div>
+                  ))}
+                  <Separator />
+                  {tenderSummary.changeDue > 0 ? (
+                    <div className="flex justify-between font-medium">
+                      <span>Change due:</span>
+                      <span>₹{tenderSummary.changeDue.toFixed(2)}</span>
+                    </div>
+                  ) : (
+                    <div className="flex justify-between font-medium">
+                      <span>Remaining:</span>
+                      <span>₹{tenderSummary.remaining.toFixed(2)}</span>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
@@ -477,7 +1148,7 @@ const BillingSystem: React.FC = () => {
             className="w-full py-6" 
             size="lg" 
             onClick={handleCompleteSale}
-            disabled={billItems.length === 0 || isProcessingPayment}
+            disabled={!shift || billItems.length === 0 || isProcessingPayment || (payments.length > 0 && tenderSummary.remaining > 0)}
           >
             {isProcessingPayment ? (
               <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -491,6 +1162,21 @@ const BillingSystem: React.FC = () => {
           </Button>
         </CardFooter>
       </Card>
+      
+      <ReceiptDialog
+        saleId={receiptSaleId}
+        open={!!receiptSaleId}
+        onOpenChange={(open) => !open && setReceiptSaleId(null)}
+      />
+      
+      <ParkedBillsDialog
+        open={showParkedBills}
+        onOpenChange={setShowParkedBills}
+        bills={parkedBills}
+        hasCurrentBill={billItems.length > 0}
+        onPark={handleParkBill}
+        onResume={handleResumeBill}
+      />
     </div>
   );
 };
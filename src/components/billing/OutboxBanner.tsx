@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useOutboxStore } from '@/lib/stores/outboxStore';
+import { useSalesStore } from '@/lib/stores/salesStore';
+
+// Shows when the till is offline or has sales it has yet to send
+const OutboxBanner: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { entries, isSyncing, sync } = useOutboxStore();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  const pending = entries.filter(entry => entry.status === 'pending').length;
+  const conflicts = entries.filter(entry => entry.status === 'conflict').length;
+
+  if (isOnline && entries.length === 0) return null;
+
+  const handleSync = async () => {
+    const sent = await sync();
+    if (sent > 0) {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      useSalesStore.getState().fetchSales();
+    }
+
+    const remaining = useOutboxStore.getState().entries.filter(entry => entry.status === 'pending').length;
+    toast({
+      title: sent > 0 ? `${sent} offline sale${sent === 1 ? '' : 's'} sent` : 'Nothing sent',
+      description: remaining > 0 ? `${remaining} still waiting to be sent` : undefined,
+      variant: remaining > 0 && sent === 0 ? 'destructive' : undefined,
+      duration: 3000,
+    });
+  };
+
+  return (
+    <Alert className="mb-6 bg-amber-50 border-amber-200">
+      {conflicts > 0 ? (
+        <AlertTriangle className="h-4 w-4 text-amber-600" />
+      ) : (
+        <CloudOff className="h-4 w-4 text-amber-600" />
+      )}
+      <AlertTitle>{isOnline ? 'Offline sales waiting' : 'Working offline'}</AlertTitle>
+      <AlertDescription>
+        {!isOnline && 'Cash sales are saved on this till and sent when the connection is back. '}
+        {pending > 0 && `${pending} sale${pending === 1 ? '' : 's'} waiting to be sent. `}
+        {conflicts > 0 && `${conflicts} sale${conflicts === 1 ? ' was' : 's were'} turned down by the server and need${conflicts === 1 ? 's' : ''} reviewing.`}
+      </AlertDescription>
+      <div className="mt-3 flex gap-2">
+        {pending > 0 && (
+          <Button size="sm" variant="outline" className="gap-1" onClick={handleSync} disabled={!isOnline || isSyncing}>
+            <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+            Sync now
+          </Button>
+        )}
+        {entries.length > 0 && (
+          <Button size="sm" variant="outline" asChild>
+            <Link to="/billing/unsynced">Review</Link>
+          </Button>
+        )}
+      </div>
+    </Alert>
+  );
+};
+
+export default OutboxBanner;
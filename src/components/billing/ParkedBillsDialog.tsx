@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { PauseCircle, PlayCircle, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/components/ui/use-toast';
+import { discardParkedBill } from '@/api/parkedBills';
+import { ParkedBill } from '@/lib/types';
+
+interface ParkedBillsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bills: ParkedBill[];
+  hasCurrentBill: boolean;
+  onPark: (label: string) => Promise<void>;
+  onResume: (bill: ParkedBill) => Promise<void>;
+}
+
+const ParkedBillsDialog: React.FC<ParkedBillsDialogProps> = ({
+  open,
+  onOpenChange,
+  bills,
+  hasCurrentBill,
+  onPark,
+  onResume
+}) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [label, setLabel] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handlePark = async () => {
+    if (!label.trim()) {
+      toast({
+        title: 'Label required',
+        description: 'Enter a name or note to find the bill by',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      await onPark(label.trim());
+      setLabel('');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleResume = async (bill: ParkedBill) => {
+    try {
+      setIsBusy(true);
+      await onResume(bill);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDiscard = async (bill: ParkedBill) => {
+    if (!window.confirm(`Discard the bill parked as "${bill.label}"? Its items go back on sale.`)) {
+      return;
+    }
+
+    try {
+      await discardParkedBill(bill.id);
+      queryClient.invalidateQueries({ queryKey: ['parked-bills'] });
+      toast({ title: 'Parked bill discarded', duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to discard parked bill',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Parked Bills</DialogTitle>
+          <DialogDescription>
+            Put a bill on hold to serve the next customer, and pick it up again on any till.
+            Parked items are held back from other sales until the bill expires.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Label, e.g. customer name or description"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && hasCurrentBill && handlePark()}
+            disabled={!hasCurrentBill}
+          />
+          <Button className="gap-1" onClick={handlePark} disabled={!hasCurrentBill || isBusy}>
+            <PauseCircle className="h-4 w-4" />
+            Park current bill
+          </Button>
+        </div>
+
+        <Separator />
+
+        {bills.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">No parked bills</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Label</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Parked</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bills.map(bill => (
+                <TableRow key={bill.id}>
+                  <TableCell className="font-medium">
+                    {bill.label}
+                    {bill.customerName && (
+                      <div className="text-xs text-muted-foreground">{bill.customerName}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {bill.items.map(item => (
+                      <div key={`${bill.id}-${item.productId}`}>
+                        {item.quantity}x {item.name || 'Unknown Product'}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {bill.createdAt.toLocaleTimeString()}
+                    {bill.parkedBy?.name && <div>by {bill.parkedBy.name}</div>}
+                    <div>expires {bill.expiresAt.toLocaleTimeString()}</div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="gap-1"
+                        onClick={() => handleResume(bill)}
+                        disabled={hasCurrentBill || isBusy}
+                        title={hasCurrentBill ? 'Park or finish the current bill first' : undefined}
+                      >
+                        <PlayCircle className="h-4 w-4" />
+                        Resume
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => handleDiscard(bill)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ParkedBillsDialog;
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { Users, Plus, Search, Star } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import {
+  getCustomers,
+  createCustomer,
+  getLoyaltySettings,
+  updateLoyaltySettings
+} from '@/api/customers';
+
+const CustomerList: React.FC = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const canEdit = hasPermission('customers:write');
+
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [newCustomer, setNewCustomer] = useState({ name: '', phone: '', email: '' });
+  const [rates, setRates] = useState<{ pointsPerRupee: string; pointValue: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: customers = [], isLoading, error } = useQuery({
+    queryKey: ['customers', appliedSearch],
+    queryFn: () => getCustomers(appliedSearch || undefined),
+  });
+
+  const { data: loyaltySettings } = useQuery({
+    queryKey: ['loyalty-settings'],
+    queryFn: getLoyaltySettings,
+  });
+
+  const handleAddCustomer = async () => {
+    if (!newCustomer.name.trim() || (!newCustomer.phone.trim() && !newCustomer.email.trim())) {
+      toast({
+        title: 'Invalid customer',
+        description: 'Enter a name and a phone number or email',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await createCustomer({
+        name: newCustomer.name.trim(),
+        phone: newCustomer.phone.trim(),
+        email: newCustomer.email.trim()
+      });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      setNewCustomer({ name: '', phone: '', email: '' });
+      toast({ title: 'Customer added', duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to add customer',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveRates = async () => {
+    if (!rates) return;
+    const pointsPerRupee = parseFloat(rates.pointsPerRupee);
+    const pointValue = parseFloat(rates.pointValue);
+
+    if (isNaN(pointsPerRupee) || isNaN(pointValue) || pointsPerRupee < 0 || pointValue < 0) {
+      toast({
+        title: 'Invalid rates',
+        description: 'Both rates must be numbers of 0 or more',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateLoyaltySettings({ pointsPerRupee, pointValue });
+      queryClient.invalidateQueries({ queryKey: ['loyalty-settings'] });
+      setRates(null);
+      toast({ title: 'Loyalty rates updated', duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update loyalty rates',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Customers
+          </CardTitle>
+          <CardDescription>Customer accounts, their loyalty points and what they have spent</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, phone or email..."
+                className="pl-8"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && setAppliedSearch(search.trim())}
+              />
+            </div>
+            <Button variant="outline" onClick={() => setAppliedSearch(search.trim())}>
+              Search
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-6 text-destructive">
+              <p>Error loading customers. Please try again.</p>
+            </div>
+          ) : customers.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">No customers found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead className="text-right">Points</TableHead>
+                  <TableHead className="text-right">Purchases</TableHead>
+                  <TableHead className="text-right">Lifetime Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customers.map(customer => (
+                  <TableRow
+                    key={customer.id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/customers/${customer.id}`)}
+                  >
+                    <TableCell className="font-medium">{customer.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {customer.phone}
+                      {customer.phone && customer.email && <br />}
+                      {customer.email}
+                    </TableCell>
+                    <TableCell className="text-right">{customer.loyaltyPoints}</TableCell>
+                    <TableCell className="text-right">{customer.purchaseHistory.length}</TableCell>
+                    <TableCell className="text-right">₹{customer.lifetimeValue.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Star className="h-5 w-5" />
+              Loyalty
+            </CardTitle>
+            <CardDescription>Points are earned on what customers pay and can be redeemed at the till</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rates ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="pointsPerRupee">Points earned per ₹1</Label>
+                  <Input
+                    id="pointsPerRupee"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={rates.pointsPerRupee}
+                    onChange={(e) => setRates({ ...rates, pointsPerRupee: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pointValue">Value of 1 point (₹)</Label>
+                  <Input
+                    id="pointValue"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={rates.pointValue}
+                    onChange={(e) => setRates({ ...rates, pointValue: e.target.value })}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setRates(null)}>Cancel</Button>
+                  <Button onClick={handleSaveRates} disabled={isSaving}>Save</Button>
+                </div>
+              </>
+            ) : loyaltySettings ? (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Earned per ₹100 paid</span>
+                  <span>{+(loyaltySettings.pointsPerRupee * 100).toFixed(2)} points</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Each point is worth</span>
+                  <span>₹{loyaltySettings.pointValue.toFixed(2)}</span>
+                </div>
+                {canEdit && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRates({
+                      pointsPerRupee: String(loyaltySettings.pointsPerRupee),
+                      pointValue: String(loyaltySettings.pointValue)
+                    })}
+                  >
+                    Change rates
+                  </Button>
+                )}
+              </>
+            ) : null}
+          </CardContent>
+        </Card>
+
+        {canEdit && (
+          <Card>
+            <CardHeader>
+              <CardTitle>New Customer</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input
+                placeholder="Name"
+                value={newCustomer.name}
+                onChange={(e) => setNewCustomer({ ...newCustomer, name: e.target.value })}
+              />
+              <Input
+                placeholder="Phone"
+                value={newCustomer.phone}
+                onChange={(e) => setNewCustomer({ ...newCustomer, phone: e.target.value })}
+              />
+              <Input
+                type="email"
+                placeholder="Email"
+                value={newCustomer.email}
+                onChange={(e) => setNewCustomer({ ...newCustomer, email: e.target.value })}
+              />
+              <Button onClick={handleAddCustomer} disabled={isSaving} className="w-full gap-1">
+                <Plus className="h-4 w-4" />
+                Add Customer
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomerList;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis, PieChart, Pie, Cell, Legend } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import StatsCard from './StatsCard';
+import NearExpiryCard from './NearExpiryCard';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { BarChart, Bar } from 'recharts';
@@ -526,6 +527,8 @@ const DashboardOverview: React.FC = () => {
         </CardContent>
       </Card>
 
+      <NearExpiryCard />
+
       <Card className="mt-6">
         <CardHeader className="flex flex-row items-center justify-between">
           <div>
@@ -550,9 +553,11 @@ const DashboardOverview: React.FC = () => {
                           ? 'bg-yellow-100 text-yellow-700' 
                           : sale.paymentMethod === 'card'
                             ? 'bg-purple-100 text-purple-700'
-                            : 'bg-green-100 text-green-700'
+                            : sale.paymentMethod === 'split'
+                              ? 'bg-gray-100 text-gray-700'
+                              : 'bg-green-100 text-green-700'
                       }`}>
-                        {sale.paymentMethod === 'cash' ? '₹' : sale.paymentMethod === 'card' ? 'C' : 'O'}
+                        {sale.paymentMethod === 'cash' ? '₹' : sale.paymentMethod === 'card' ? 'C' : sale.paymentMethod === 'split' ? 'S' : sale.paymentMethod === 'upi' ? 'U' : 'O'}
                       </div>
                       <div className="space-y-1">
                         <p className="font-medium">{sale.products[0].product.name}{sale.products.length > 1 ? ` +${sale.products.length - 1} more` : ''}</p>
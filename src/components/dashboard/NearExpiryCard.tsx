@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalendarClock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import { getExpiringLots, updateExpirySettings } from '@/api/lots';
+
+// Lots expiring within the store's alert window, and those already expired, soonest first
+const NearExpiryCard: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const canEdit = hasPermission('inventory:write');
+  const [alertDays, setAlertDays] = useState<string | null>(null); // set while editing
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['expiring-lots'],
+    queryFn: () => getExpiringLots(),
+    enabled: hasPermission('inventory:read'),
+  });
+  const lots = data?.lots || [];
+  const expired = lots.filter(lot => lot.expired);
+  const atRisk = lots.reduce((sum, lot) => sum + lot.costValue, 0);
+
+  const handleSaveDays = async () => {
+    const days = parseInt(alertDays ?? '', 10);
+    if (isNaN(days) || days < 0) {
+      toast({
+        title: 'Invalid days',
+        description: 'Enter a whole number of days, 0 or more',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateExpirySettings(days);
+      queryClient.invalidateQueries({ queryKey: ['expiring-lots'] });
+      setAlertDays(null);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update expiry settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!hasPermission('inventory:read')) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Near Expiry
+          </CardTitle>
+          <CardDescription>
+            {data
+              ? `Lots expiring within ${data.days} day(s): ${lots.length - expired.length} near expiry, ${expired.length} expired, ₹${atRisk.toFixed(2)} at cost`
+              : 'Lots close to their expiry date'}
+          </CardDescription>
+        </div>
+        {canEdit && (alertDays === null ? (
+          <Button variant="outline" size="sm" onClick={() => setAlertDays(String(data?.days ?? 30))}>
+            Alert Window
+          </Button>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              className="w-20"
+              aria-label="Days before expiry"
+              value={alertDays}
+              onChange={(e) => setAlertDays(e.target.value)}
+            />
+            <span className="text-sm text-muted-foreground">days</span>
+            <Button size="sm" onClick={handleSaveDays} disabled={isSaving}>Save</Button>
+            <Button size="sm" variant="ghost" onClick={() => setAlertDays(null)}>Cancel</Button>
+          </div>
+        ))}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-6 text-destructive">
+            <p>Error loading expiring lots. Please try again.</p>
+          </div>
+        ) : lots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No lots are close to expiry</p>
+        ) : (
+          <div className="border rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Product</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Batch</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Location</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Quantity</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Expires</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-border">
+                {lots.slice(0, 8).map(lot => (
+                  <tr key={lot.lotId} className="hover:bg-muted/50 transition-colors">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium">{lot.productName}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-muted-foreground">{lot.batchNumber}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-muted-foreground">{lot.locationName || '—'}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-muted-foreground">
+                      {lot.quantity} (₹{lot.costValue.toFixed(2)})
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm">
+                      {lot.expired ? (
+                        <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                          Expired {lot.expiryDate.toLocaleDateString()}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">
+                          {lot.daysLeft === 0 ? 'Last day' : `${lot.daysLeft} day(s)`}, {lot.expiryDate.toLocaleDateString()}
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {lots.length > 8 && (
+              <p className="px-4 py-2 text-xs text-muted-foreground">and {lots.length - 8} more</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NearExpiryCard;
@@ -16,6 +16,7 @@ import {
   CardTitle 
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Undo2, Receipt } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { 
   Select, 
@@ -28,10 +29,18 @@ import { useSalesStore } from '@/lib/stores/salesStore';
 import { useToast } from "@/components/ui/use-toast";
 import { mockProducts } from '@/lib/mockData';
 import { Sale } from '@/lib/types';
+import { describeTenders } from '@/lib/payments';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import ReturnItemsDialog from '@/components/sales/ReturnItemsDialog';
+import ReceiptDialog from '@/components/sales/ReceiptDialog';
 
 const TransactionHistory: React.FC = () => {
   const { toast } = useToast();
   const { sales, addSale } = useSalesStore();
+  const { hasPermission } = useAuth();
+  const canReturn = hasPermission('sales:return');
+  const [returningSale, setReturningSale] = useState<Sale | null>(null);
+  const [receiptSaleId, setReceiptSaleId] = useState<string | null>(null);
   
   // Form state
   const [selectedProduct, setSelectedProduct] = useState("");
@@ -202,6 +211,7 @@ const TransactionHistory: React.FC = () => {
                   <TableHead>Channel</TableHead>
                   <TableHead>Payment</TableHead>
                   <TableHead className="text-right">Amount</TableHead>
+                  <TableHead></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -235,17 +245,48 @@ const TransactionHistory: React.FC = () => {
                               ? 'bg-yellow-100 text-yellow-800' 
                               : sale.paymentMethod === 'card'
                                 ? 'bg-purple-100 text-purple-800'
-                                : 'bg-green-100 text-green-800'
-                          }`}>
+                                : sale.paymentMethod === 'split'
+                                  ? 'bg-gray-100 text-gray-800'
+                                  : 'bg-green-100 text-green-800'
+                          }`} title={describeTenders(sale)}>
                             {sale.paymentMethod}
                           </span>
                         </TableCell>
-                        <TableCell className="text-right">₹{sale.totalAmount.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          ₹{sale.totalAmount.toFixed(2)}
+                          {!!sale.refundedAmount && (
+                            <div className="text-xs text-destructive">-₹{sale.refundedAmount.toFixed(2)} refunded</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="gap-1"
+                            onClick={() => setReceiptSaleId(sale.id)}
+                          >
+                            <Receipt className="h-3.5 w-3.5" />
+                            Receipt
+                          </Button>
+                          {canReturn && (sale.voided ? (
+                            <span className="text-xs text-muted-foreground">Voided</span>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="gap-1"
+                              onClick={() => setReturningSale(sale)}
+                            >
+                              <Undo2 className="h-3.5 w-3.5" />
+                              Return items
+                            </Button>
+                          ))}
+                        </TableCell>
                       </TableRow>
                     ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                    <TableCell colSpan={8} className="text-center py-6 text-muted-foreground">
                       No transactions recorded yet. Add your first sale with the form.
                     </TableCell>
                   </TableRow>
@@ -255,6 +296,18 @@ const TransactionHistory: React.FC = () => {
           </CardContent>
         </Card>
       </div>
+      
+      <ReturnItemsDialog
+        sale={returningSale}
+        open={!!returningSale}
+        onOpenChange={(open) => !open && setReturningSale(null)}
+      />
+
+      <ReceiptDialog
+        saleId={receiptSaleId}
+        open={!!receiptSaleId}
+        onOpenChange={(open) => !open && setReceiptSaleId(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { adjustStock } from '@/api/product';
+import { ADJUSTMENT_REASONS, getAdjustmentReasonLabel, isWriteOff } from '@/lib/adjustments';
+import { getLocationStock } from '@/lib/locations';
+import { AdjustmentReason, Location, Product } from '@/lib/types';
+
+interface AdjustStockDialogProps {
+  product: Product | null;
+  onOpenChange: (open: boolean) => void;
+  locations: Location[];
+  locationId?: string; // preselected location
+  onAdjusted?: (product: Product) => void;
+}
+
+// Write stock off, or book stock that turned up, with a reason. Valued at the cost price.
+const AdjustStockDialog: React.FC<AdjustStockDialogProps> = ({ product, onOpenChange, locations, locationId, onAdjusted }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [location, setLocation] = useState('');
+  const [reason, setReason] = useState<AdjustmentReason | ''>('');
+  const [quantity, setQuantity] = useState('1');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (product) {
+      setLocation(locationId || locations.find(item => item.isDefault)?.id || '');
+      setReason('');
+      setQuantity('1');
+      setNote('');
+    }
+  }, [product]);
+
+  const amount = parseInt(quantity, 10);
+  const available = product && location ? getLocationStock(product, location) : product?.stock || 0;
+  const value = product && !isNaN(amount) ? amount * (product.costPrice || 0) : 0;
+
+  const handleSave = async () => {
+    if (!product) return;
+    if (!reason) {
+      toast({
+        title: 'Reason needed',
+        description: 'Choose why the stock is being adjusted',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      toast({
+        title: 'Invalid quantity',
+        description: 'Quantity must be a whole number of at least 1',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const result = await adjustStock(product.id, {
+        location: location || undefined,
+        reason,
+        quantity: amount,
+        note: note.trim() || undefined
+      });
+      toast({
+        title: isWriteOff(reason) ? 'Stock written off' : 'Stock added',
+        description: `${amount} x ${product.name} (${getAdjustmentReasonLabel(reason)}, ₹${value.toFixed(2)} at cost)`,
+        duration: 2000
+      });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements', product.id] });
+      onAdjusted?.({ ...product, stock: result.stock, stockByLocation: result.stockByLocation, lots: result.lots });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to adjust stock',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Adjust Stock</DialogTitle>
+          <DialogDescription>
+            {product && `${product.name}: ${available} in stock${location ? ' here' : ''}, ₹${(product.costPrice || 0).toFixed(2)} cost each.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {locations.length > 1 && (
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select value={location} onValueChange={setLocation}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(item => (
+                    <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Reason*</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as AdjustmentReason)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ADJUSTMENT_REASONS.map(item => (
+                    <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustQuantity">Quantity*</Label>
+              <Input
+                id="adjustQuantity"
+                type="number"
+                min="1"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="adjustNote">Note</Label>
+            <Input
+              id="adjustNote"
+              placeholder="Optional, e.g. dropped during unpacking"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          {reason && !isNaN(amount) && amount > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {isWriteOff(reason)
+                ? <>Writes off <span className="font-medium text-destructive">₹{value.toFixed(2)}</span> at cost, leaving {available - amount}.</>
+                : <>Adds <span className="font-medium text-green-700">₹{value.toFixed(2)}</span> at cost, making {available + amount}.</>}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Adjust Stock'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AdjustStockDialog;
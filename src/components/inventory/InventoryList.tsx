@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, Filter, SlidersHorizontal, Package } from 'lucide-react';
+import { Plus, Search, Filter, SlidersHorizontal, Package, MapPin } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { 
@@ -11,7 +11,9 @@ import {
 } from '@/components/ui/select';
 import ProductCard from './ProductCard';
 import ProductEditModal from './ProductEditModal';
+import AdjustStockDialog from './AdjustStockDialog';
 import { Product } from '@/lib/types';
+import { getLocationStock } from '@/lib/locations';
 import { useToast } from '@/components/ui/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { AlertCircle } from 'lucide-react';
@@ -29,14 +31,17 @@ import {
 import { NotificationService } from '@/lib/services/notificationService';
 import { ReorderService } from '@/lib/services/reorderService';
 import { getAllProducts, createProduct, updateProduct, deleteProduct as apiDeleteProduct } from '@/api/product';
+import { getLocations } from '@/api/locations';
 
 const InventoryList: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [category, setCategory] = useState('all');
+  const [locationFilter, setLocationFilter] = useState('all');
   const [sortBy, setSortBy] = useState('name');
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [productToDelete, setProductToDelete] = useState<Product | null>(null);
   const [productToEdit, setProductToEdit] = useState<Product | null>(null);
+  const [productToAdjust, setProductToAdjust] = useState<Product | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const { toast } = useToast();
@@ -54,6 +59,11 @@ const InventoryList: React.FC = () => {
     retry: 1
   });
   
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations
+  });
+  
   // Create product mutation
   const createProductMutation = useMutation({
     mutationFn: createProduct,
@@ -140,7 +150,9 @@ const InventoryList: React.FC = () => {
         return matchesSearch && matchesCategory;
       });
       
-      // Sort filtered products
+      // Sort filtered products, by the stock at the chosen location if there is one
+      const stockOf = (product: Product) =>
+        locationFilter === 'all' ? product.stock : getLocationStock(product, locationFilter);
       const sorted = [...filtered].sort((a, b) => {
         switch (sortBy) {
           case 'name':
@@ -150,9 +162,9 @@ const InventoryList: React.FC = () => {
           case 'price-desc':
             return b.price - a.price;
           case 'stock-asc':
-            return a.stock - b.stock;
+            return stockOf(a) - stockOf(b);
           case 'stock-desc':
-            return b.stock - a.stock;
+            return stockOf(b) - stockOf(a);
           default:
             return 0;
         }
@@ -162,7 +174,7 @@ const InventoryList: React.FC = () => {
     };
     
     filterProducts();
-  }, [products, searchQuery, category, sortBy]);
+  }, [products, searchQuery, category, sortBy, locationFilter]);
   
   // Handle edit product
   const handleEditProduct = (product: Product) => {
@@ -178,8 +190,8 @@ const InventoryList: React.FC = () => {
         const { id, createdAt, updatedAt, ...productData } = savedProduct;
         createProductMutation.mutate(productData);
       } else {
-        // Update existing product
-        const { id, createdAt, updatedAt, ...productData } = savedProduct;
+        // Update existing product; its stock only changes through adjustments
+        const { id, createdAt, updatedAt, stock, stockByLocation, lots, ...productData } = savedProduct;
         updateProductMutation.mutate({ id, data: productData });
       }
     } catch (error: any) {
@@ -236,6 +248,14 @@ const InventoryList: React.FC = () => {
     );
   };
   
+  // A write-off can take a product below its reorder level
+  const handleStockAdjusted = (adjustedProduct: Product) => {
+    handleProductUpdated(adjustedProduct);
+    getAllProducts().then(allProducts => {
+      ReorderService.checkAndReorderProducts(allProducts);
+    });
+  };
+  
   return (
     <div>
       {/* Error display */}
@@ -278,6 +298,23 @@ const InventoryList: React.FC = () => {
             </SelectContent>
           </Select>
           
+          {locations.length > 1 && (
+            <Select value={locationFilter} onValueChange={setLocationFilter}>
+              <SelectTrigger className="w-[180px]">
+                <MapPin className="mr-2 h-4 w-4" />
+                <SelectValue placeholder="Location" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Locations</SelectItem>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          
           <Select value={sortBy} onValueChange={setSortBy}>
             <SelectTrigger className="w-[180px]">
               <SlidersHorizontal className="mr-2 h-4 w-4" />
@@ -316,7 +353,10 @@ const InventoryList: React.FC = () => {
               product={product} 
               onEdit={() => handleEditProduct(product)}
               onDelete={() => handleDeleteConfirm(product)}
+              onAdjustStock={() => setProductToAdjust(product)}
               onProductUpdated={handleProductUpdated}
+              locations={locations}
+              locationId={locationFilter === 'all' ? undefined : locationFilter}
             />
           ))}
         </div>
@@ -347,6 +387,15 @@ const InventoryList: React.FC = () => {
         />
       )}
       
+      {/* Stock adjustment dialog */}
+      <AdjustStockDialog
+        product={productToAdjust}
+        onOpenChange={(open) => !open && setProductToAdjust(null)}
+        locations={locations}
+        locationId={locationFilter === 'all' ? undefined : locationFilter}
+        onAdjusted={handleStockAdjusted}
+      />
+      
       {/* Delete confirmation dialog */}
       <AlertDialog open={confirmDialogOpen} onOpenChange={setConfirmDialogOpen}>
         <AlertDialogContent>
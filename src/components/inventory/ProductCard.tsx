@@ -2,8 +2,9 @@ import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Edit, Trash, RefreshCw, Power } from 'lucide-react';
-import { Product } from '@/lib/types';
+import { Edit, Trash, RefreshCw, Power, PackageMinus } from 'lucide-react';
+import { Location, Product } from '@/lib/types';
+import { getLocationReorderLevel, getLocationStock } from '@/lib/locations';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { ReorderService } from '@/lib/services/reorderService';
 import { useToast } from '@/components/ui/use-toast';
@@ -13,11 +14,16 @@ interface ProductCardProps {
   product: Product;
   onEdit?: (product: Product) => void;
   onDelete?: (product: Product) => void;
+  onAdjustStock?: (product: Product) => void;
   onProductUpdated?: (product: Product) => void;
+  locations?: Location[];
+  locationId?: string; // show the stock at one location rather than the total
 }
 
-const ProductCard: React.FC<ProductCardProps> = ({ product, onEdit, onDelete, onProductUpdated }) => {
-  const { name, price, stock, category, barcode, imageUrl, reorderLevel, autoReorder: initialAutoReorder, targetStockLevel } = product;
+const ProductCard: React.FC<ProductCardProps> = ({ product, onEdit, onDelete, onAdjustStock, onProductUpdated, locations = [], locationId }) => {
+  const { name, price, category, barcode, imageUrl, autoReorder: initialAutoReorder, targetStockLevel } = product;
+  const stock = locationId ? getLocationStock(product, locationId) : product.stock;
+  const reorderLevel = locationId ? getLocationReorderLevel(product, locationId) : product.reorderLevel;
   const [isToggling, setIsToggling] = React.useState(false);
   const [localAutoReorder, setLocalAutoReorder] = React.useState(initialAutoReorder);
   const { toast } = useToast();
@@ -147,6 +153,16 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onEdit, onDelete, on
             <p>Category: {category}</p>
             <p>Barcode: {barcode}</p>
             {stockStatus === 'low' && <p className="text-amber-600">Reorder Level: {threshold}</p>}
+            {!locationId && locations.length > 1 && (
+              <div className="mt-1">
+                {locations.map(location => (
+                  <p key={location.id} className="flex justify-between">
+                    <span>{location.name}</span>
+                    <span>{getLocationStock(product, location.id)}</span>
+                  </p>
+                ))}
+              </div>
+            )}
             {localAutoReorder && stockStatus === 'low' && (
               <p className="text-green-600">Will auto-reorder to {targetStockLevel} units</p>
             )}
@@ -182,6 +198,16 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onEdit, onDelete, on
                   <Edit className="h-4 w-4" />
                 </Button>
               )}
+              {onAdjustStock && (
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  onClick={() => onAdjustStock(product)}
+                  aria-label={`Adjust stock of ${name}`}
+                >
+                  <PackageMinus className="h-4 w-4" />
+                </Button>
+              )}
               {onDelete && (
                 <Button 
                   variant="ghost" 
@@ -25,6 +25,11 @@ import { useToast } from '@/components/ui/use-toast';
 import { createProduct, updateProduct } from '@/api/product';
 import { Checkbox } from '@/components/ui/checkbox';
 import { getAllSuppliers } from '@/api/supplier';
+import { getTaxSettings } from '@/api/tax';
+import { getLocations } from '@/api/locations';
+import { getLocationStock } from '@/lib/locations';
+import { isLotExpired } from '@/lib/lots';
+import { Label } from '@/components/ui/label';
 import { useQuery } from '@tanstack/react-query';
 import {
   Command,
@@ -40,6 +45,9 @@ import {
 } from '@/components/ui/popover';
 import { Check, ChevronsUpDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import StockMovementHistory from './StockMovementHistory';
+import AdjustStockDialog from './AdjustStockDialog';
 
 // Validation schema
 const formSchema = z.object({
@@ -52,6 +60,7 @@ const formSchema = z.object({
   stock: z.coerce.number().int().min(0, { message: 'Stock must be a positive integer or zero' }),
   imageUrl: z.string().optional(),
   supplier: z.string().optional(),
+  taxClass: z.string().optional(),
   reorderLevel: z.coerce.number().int().min(0).optional(),
   autoReorder: z.boolean().optional(),
   targetStockLevel: z.coerce.number().int().min(0).optional(),
@@ -86,6 +95,28 @@ const ProductEditModal: React.FC<ProductEditModalProps> = ({
     enabled: isOpen,
   });
   
+  // Fetch tax classes for the dropdown
+  const { data: taxSettings } = useQuery({
+    queryKey: ['tax-settings'],
+    queryFn: getTaxSettings,
+    enabled: isOpen,
+  });
+  const defaultTaxClass = taxSettings?.classes.find(taxClass => taxClass.isDefault);
+  
+  // Fetch locations so stock and reorder levels can be set per location
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+    enabled: isOpen,
+  });
+  const defaultLocation = locations.find(location => location.isDefault);
+  // The location the stock field is for; empty means the total (or, for a new product, the default location)
+  const [stockLocation, setStockLocation] = useState('');
+  const [locationReorderLevels, setLocationReorderLevels] = useState<Record<string, string>>({});
+  // Stock only changes here through a reasoned adjustment; this holds the product as it left
+  const [stockProduct, setStockProduct] = useState<Product | null>(product);
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  
   // Initialize form with default or product values
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -99,6 +130,7 @@ const ProductEditModal: React.FC<ProductEditModalProps> = ({
       stock: product?.stock || 0,
       imageUrl: product?.imageUrl || '',
       supplier: product?.supplier || '',
+      taxClass: product?.taxClass || '',
       reorderLevel: product?.reorderLevel || 0,
       autoReorder: product?.autoReorder || false,
       targetStockLevel: product?.targetStockLevel || 0,
@@ -118,33 +150,80 @@ const ProductEditModal: React.FC<ProductEditModalProps> = ({
         stock: product.stock || 0,
         imageUrl: product.imageUrl || '',
         supplier: product.supplier || '',
+        taxClass: product.taxClass || '',
         reorderLevel: product.reorderLevel || 0,
         autoReorder: product.autoReorder || false,
         targetStockLevel: product.targetStockLevel || 0,
       });
+      setStockLocation('');
+      setStockProduct(product);
+      setLocationReorderLevels(Object.fromEntries(
+        (product.stockByLocation || [])
+          .filter(entry => entry.reorderLevel !== undefined && entry.reorderLevel !== null)
+          .map(entry => [entry.location, String(entry.reorderLevel)])
+      ));
     }
   }, [product, form]);
   
+  // Show the stock held at the chosen location
+  const handleStockLocationChange = (locationId: string) => {
+    setStockLocation(locationId);
+    if (stockProduct && !isNewProduct) {
+      form.setValue('stock', locationId ? getLocationStock(stockProduct, locationId) : stockProduct.stock);
+    }
+  };
+  
+  const handleStockAdjusted = (adjustedProduct: Product) => {
+    setStockProduct(adjustedProduct);
+    form.setValue('stock', stockLocation ? getLocationStock(adjustedProduct, stockLocation) : adjustedProduct.stock);
+  };
+  
+  // Reorder levels that differ from what the product has; null clears a location's own level
+  const getReorderLevelChanges = (): Record<string, number | null> | null => {
+    const changes: Record<string, number | null> = {};
+    for (const location of locations) {
+      const value = (locationReorderLevels[location.id] || '').trim();
+      const next = value === '' ? null : Number(value);
+      if (next !== null && (!Number.isInteger(next) || next < 0)) return null;
+      const current = product?.stockByLocation?.find(entry => entry.location === location.id)?.reorderLevel ?? null;
+      if (next !== current) changes[location.id] = next;
+    }
+    return changes;
+  };
+  
   // Handle form submission
   const onSubmit = async (values: FormValues) => {
+    const reorderLevelChanges = getReorderLevelChanges();
+    if (!reorderLevelChanges) {
+      toast({
+        title: 'Invalid reorder level',
+        description: 'Location reorder levels must be whole numbers of 0 or more',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
     try {
       setIsSubmitting(true);
       
       let savedProduct: Product;
       
       if (isNewProduct) {
-        // Create new product in MongoDB
+        // Create new product in MongoDB, with its opening stock at the chosen location
         const { id, ...productData } = values;
-        savedProduct = await createProduct(productData);
+        savedProduct = await createProduct({ ...productData, location: stockLocation || undefined });
         toast({
           title: "Product Added",
           description: `${values.name} has been added to your inventory`,
           variant: 'default',
         });
       } else {
-        // Update existing product in MongoDB
-        const { id, ...updateData } = values;
-        const result = await updateProduct(id, updateData);
+        // Update existing product in MongoDB; its stock only changes through adjustments
+        const { id, stock, ...updateData } = values;
+        const result = await updateProduct(id, {
+          ...updateData,
+          locationReorderLevels: Object.keys(reorderLevelChanges).length > 0 ? reorderLevelChanges : undefined
+        });
         
         if (!result) {
           throw new Error('Failed to update product. Product not found.');
@@ -187,209 +266,345 @@ const ProductEditModal: React.FC<ProductEditModalProps> = ({
           </DialogDescription>
         </DialogHeader>
         
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            {/* Hidden ID field */}
-            <input type="hidden" {...form.register('id')} />
+        <Tabs defaultValue="details">
+          {!isNewProduct && (
+            <TabsList className="grid grid-cols-2 mb-4">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="history">Stock History</TabsTrigger>
+            </TabsList>
+          )}
+          
+          <TabsContent value="details">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Hidden ID field */}
+                <input type="hidden" {...form.register('id')} />
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Product Name */}
-              <FormField
-                control={form.control}
-                name="name"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Product Name*</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Safari Adventure T-Shirt" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* Product Name */}
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Product Name*</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Safari Adventure T-Shirt" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+              
+                  {/* Barcode */}
+                  <FormField
+                    control={form.control}
+                    name="barcode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Barcode*</FormLabel>
+                        <FormControl>
+                          <Input placeholder="123456789001" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+              
+                  {/* Category */}
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category*</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Apparel" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
               
-              {/* Barcode */}
-              <FormField
-                control={form.control}
-                name="barcode"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Barcode*</FormLabel>
-                    <FormControl>
-                      <Input placeholder="123456789001" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                  {/* Supplier */}
+                  <FormField
+                    control={form.control}
+                    name="supplier"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Supplier</FormLabel>
+                        <FormControl>
+                          <select
+                            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                            value={field.value}
+                            onChange={field.onChange}
+                          >
+                            <option value="">Select a supplier</option>
+                            {suppliers && Array.isArray(suppliers) && suppliers.map((supplier) => (
+                              <option key={supplier.id} value={supplier.name}>
+                                {supplier.name}
+                              </option>
+                            ))}
+                          </select>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
               
-              {/* Category */}
-              <FormField
-                control={form.control}
-                name="category"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Category*</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Apparel" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                  {/* Tax Class */}
+                  <FormField
+                    control={form.control}
+                    name="taxClass"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tax Class</FormLabel>
+                        <FormControl>
+                          <select
+                            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                            value={field.value}
+                            onChange={field.onChange}
+                          >
+                            <option value="">
+                              Default{defaultTaxClass ? ` (${defaultTaxClass.name})` : ''}
+                            </option>
+                            {taxSettings?.classes.map((taxClass) => (
+                              <option key={taxClass.id} value={taxClass.id}>
+                                {taxClass.name}
+                              </option>
+                            ))}
+                          </select>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
               
-              {/* Supplier */}
-              <FormField
-                control={form.control}
-                name="supplier"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Supplier</FormLabel>
-                    <FormControl>
+                  {/* Price */}
+                  <FormField
+                    control={form.control}
+                    name="price"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sale Price*</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.01" placeholder="29.99" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+              
+                  {/* Cost Price */}
+                  <FormField
+                    control={form.control}
+                    name="costPrice"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cost Price*</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.01" placeholder="12.99" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+              
+                  {/* Stock location */}
+                  {locations.length > 1 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="stockLocation">Stock at</Label>
                       <select
+                        id="stockLocation"
                         className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                        value={field.value}
-                        onChange={field.onChange}
+                        value={stockLocation}
+                        onChange={(e) => handleStockLocationChange(e.target.value)}
                       >
-                        <option value="">Select a supplier</option>
-                        {suppliers && Array.isArray(suppliers) && suppliers.map((supplier) => (
-                          <option key={supplier.id} value={supplier.name}>
-                            {supplier.name}
-                          </option>
-                        ))}
+                        <option value="">
+                          {isNewProduct ? defaultLocation?.name || 'Default location' : 'All locations (total)'}
+                        </option>
+                        {locations
+                          .filter(location => !isNewProduct || !location.isDefault)
+                          .map(location => (
+                            <option key={location.id} value={location.id}>
+                              {location.name}
+                            </option>
+                          ))}
                       </select>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              {/* Price */}
-              <FormField
-                control={form.control}
-                name="price"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Sale Price*</FormLabel>
-                    <FormControl>
-                      <Input type="number" step="0.01" placeholder="29.99" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              {/* Cost Price */}
-              <FormField
-                control={form.control}
-                name="costPrice"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Cost Price*</FormLabel>
-                    <FormControl>
-                      <Input type="number" step="0.01" placeholder="12.99" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                    </div>
+                  )}
               
-              {/* Stock */}
-              <FormField
-                control={form.control}
-                name="stock"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Stock*</FormLabel>
-                    <FormControl>
-                      <Input type="number" placeholder="42" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                  {/* Stock */}
+                  <FormField
+                    control={form.control}
+                    name="stock"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{isNewProduct ? 'Opening Stock*' : 'Stock'}</FormLabel>
+                        {isNewProduct ? (
+                          <FormControl>
+                            <Input type="number" placeholder="42" {...field} />
+                          </FormControl>
+                        ) : (
+                          <div className="flex gap-2">
+                            <FormControl>
+                              <Input type="number" readOnly {...field} />
+                            </FormControl>
+                            <Button type="button" variant="outline" onClick={() => setIsAdjusting(true)}>
+                              Adjust
+                            </Button>
+                          </div>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
               
-              {/* Reorder Level */}
-              <FormField
-                control={form.control}
-                name="reorderLevel"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Reorder Level</FormLabel>
-                    <FormControl>
-                      <Input type="number" placeholder="10" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                  {/* Reorder Level */}
+                  <FormField
+                    control={form.control}
+                    name="reorderLevel"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reorder Level</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="10" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
               
-              {/* Auto Reorder */}
-              <FormField
-                control={form.control}
-                name="autoReorder"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
-                    <FormControl>
-                      <Checkbox
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                    <div className="space-y-1 leading-none">
-                      <FormLabel>Enable Auto Reorder</FormLabel>
-                      <p className="text-sm text-muted-foreground">
-                        Automatically create purchase orders when stock falls below reorder level
+                  {/* Reorder levels by location */}
+                  {!isNewProduct && locations.length > 1 && (
+                    <div className="col-span-2 space-y-2">
+                      <Label>Reorder level by location</Label>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        {locations.map(location => (
+                          <div key={location.id} className="flex items-center gap-2">
+                            <span className="text-sm flex-1">{location.name}</span>
+                            <Input
+                              type="number"
+                              min="0"
+                              className="w-24"
+                              placeholder={String(form.watch('reorderLevel') || 0)}
+                              value={locationReorderLevels[location.id] || ''}
+                              onChange={(e) => setLocationReorderLevels({ ...locationReorderLevels, [location.id]: e.target.value })}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Leave blank to use the product's reorder level
                       </p>
                     </div>
-                  </FormItem>
-                )}
-              />
+                  )}
+              
+                  {/* Lots on hand, first to expire first */}
+                  {!isNewProduct && (stockProduct?.lots?.length ?? 0) > 0 && (
+                    <div className="col-span-2 space-y-2">
+                      <Label>Batches</Label>
+                      <div className="space-y-1">
+                        {stockProduct?.lots?.map(lot => (
+                          <div key={lot.id} className="flex items-center justify-between text-sm">
+                            <span>
+                              {lot.batchNumber}
+                              {locations.length > 1 && (
+                                <span className="text-muted-foreground"> at {locations.find(location => location.id === lot.location)?.name || 'Unknown location'}</span>
+                              )}
+                            </span>
+                            <span className={isLotExpired(lot) ? 'text-destructive' : 'text-muted-foreground'}>
+                              {lot.quantity} units
+                              {lot.expiryDate && `, ${isLotExpired(lot) ? 'expired' : 'expires'} ${lot.expiryDate.toLocaleDateString()}`}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
               
-              {/* Target Stock Level */}
-              <FormField
-                control={form.control}
-                name="targetStockLevel"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Target Stock Level</FormLabel>
-                    <FormControl>
-                      <Input type="number" placeholder="30" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                    <p className="text-xs text-muted-foreground">
-                      Quantity to restock to when auto-reordering
-                    </p>
-                  </FormItem>
-                )}
-              />
+                  {/* Auto Reorder */}
+                  <FormField
+                    control={form.control}
+                    name="autoReorder"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                        <div className="space-y-1 leading-none">
+                          <FormLabel>Enable Auto Reorder</FormLabel>
+                          <p className="text-sm text-muted-foreground">
+                            Automatically create purchase orders when stock falls below reorder level
+                          </p>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
               
-              {/* Image URL */}
-              <FormField
-                control={form.control}
-                name="imageUrl"
-                render={({ field }) => (
-                  <FormItem className="col-span-2">
-                    <FormLabel>Image URL</FormLabel>
-                    <FormControl>
-                      <Input placeholder="https://example.com/product-image.jpg" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
+                  {/* Target Stock Level */}
+                  <FormField
+                    control={form.control}
+                    name="targetStockLevel"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Target Stock Level</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="30" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                        <p className="text-xs text-muted-foreground">
+                          Quantity to restock to when auto-reordering
+                        </p>
+                      </FormItem>
+                    )}
+                  />
+              
+                  {/* Image URL */}
+                  <FormField
+                    control={form.control}
+                    name="imageUrl"
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormLabel>Image URL</FormLabel>
+                        <FormControl>
+                          <Input placeholder="https://example.com/product-image.jpg" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
             
-            <DialogFooter>
-              <Button type="button" variant="outline" onClick={onClose}>
-                Cancel
-              </Button>
-              <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? 'Saving...' : 'Save'}
-              </Button>
-            </DialogFooter>
-          </form>
-        </Form>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={onClose}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? 'Saving...' : 'Save'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </TabsContent>
+          
+          {!isNewProduct && product && (
+            <TabsContent value="history">
+              <StockMovementHistory productId={product.id} currentStock={stockProduct?.stock ?? product.stock} />
+            </TabsContent>
+          )}
+        </Tabs>
+        
+        <AdjustStockDialog
+          product={isAdjusting ? stockProduct : null}
+          onOpenChange={setIsAdjusting}
+          locations={locations}
+          locationId={stockLocation || undefined}
+          onAdjusted={handleStockAdjusted}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { RefreshCw } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { getStockMovements, rebuildStockFromLedger } from '@/api/product';
+import { StockMovementType } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { getAdjustmentReasonLabel } from '@/lib/adjustments';
+
+interface StockMovementHistoryProps {
+  productId: string;
+  currentStock: number;
+}
+
+const movementLabels: Record<StockMovementType, string> = {
+  'sale': 'Sale',
+  'sale-void': 'Sale void',
+  'return': 'Return',
+  'po-receipt': 'PO receipt',
+  'adjustment': 'Adjustment',
+  'transfer': 'Transfer',
+  'count-correction': 'Count correction'
+};
+
+const StockMovementHistory: React.FC<StockMovementHistoryProps> = ({ productId, currentStock }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isRebuilding, setIsRebuilding] = useState(false);
+
+  const { data: movements = [], isLoading, error } = useQuery({
+    queryKey: ['stock-movements', productId],
+    queryFn: () => getStockMovements(productId),
+  });
+
+  const handleRebuild = async () => {
+    try {
+      setIsRebuilding(true);
+      const result = await rebuildStockFromLedger(productId);
+      const correction = result.corrected[0];
+
+      toast({
+        title: 'Stock rebuilt from ledger',
+        description: correction
+          ? `Stock corrected from ${correction.previousStock} to ${correction.stock}`
+          : 'Stock already matches the ledger',
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['stock-movements', productId] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to rebuild stock',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-2 text-sm text-muted-foreground">Loading stock history...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-6 text-destructive">
+        <p>Error loading stock history. Please try again.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-muted-foreground">
+          Current stock: <span className="font-medium text-foreground">{currentStock}</span>
+        </p>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={handleRebuild}
+          disabled={isRebuilding}
+          className="gap-1"
+        >
+          <RefreshCw className={cn("h-3.5 w-3.5", isRebuilding && "animate-spin")} />
+          Rebuild from ledger
+        </Button>
+      </div>
+
+      {movements.length === 0 ? (
+        <p className="text-center py-6 text-muted-foreground">No stock movements recorded yet</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map(movement => (
+                <TableRow key={movement.id}>
+                  <TableCell className="whitespace-nowrap text-xs">
+                    {format(movement.timestamp, 'dd MMM yyyy, HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{movementLabels[movement.type] || movement.type}</Badge>
+                  </TableCell>
+                  <TableCell className={cn(
+                    "text-right font-medium",
+                    movement.quantity < 0 ? "text-destructive" : "text-green-600"
+                  )}>
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {movement.balanceAfter}
+                    {movement.locationName && (
+                      <p className="text-xs text-muted-foreground whitespace-nowrap">
+                        {movement.locationBalanceAfter} at {movement.locationName}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {movement.reason && (
+                      <p className="font-medium text-foreground">
+                        {getAdjustmentReasonLabel(movement.reason)}
+                        {movement.unitCost !== undefined && ` · ₹${(Math.abs(movement.quantity) * movement.unitCost).toFixed(2)} at cost`}
+                      </p>
+                    )}
+                    {movement.note || (!movement.reason && movement.reference.kind && `${movement.reference.kind} ${movement.reference.id}`)}
+                    {movement.lots?.map((lot, index) => (
+                      <p key={index}>
+                        {lot.quantity} from batch {lot.batchNumber}
+                        {lot.expiryDate && `, exp. ${lot.expiryDate.toLocaleDateString()}`}
+                      </p>
+                    ))}
+                    {movement.actor?.name && <p>by {movement.actor.name}</p>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockMovementHistory;
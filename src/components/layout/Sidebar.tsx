@@ -1,7 +1,7 @@
 import React from 'react';
 import { NavLink, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { BarChart3, Package, ShoppingCart, LayoutDashboard, LogOut, Settings, Receipt, Truck } from 'lucide-react';
+import { BarChart3, Package, ShoppingCart, LayoutDashboard, LogOut, Settings, Receipt, Truck, ArrowLeftRight, ClipboardCheck } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useTranslation } from '@/lib/providers/LanguageProvider';
 import { useAuth } from '@/lib/providers/AuthProvider';
@@ -112,6 +112,12 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
             <SidebarItem to="/purchase-orders" icon={<Truck className="h-5 w-5" />} module="inventory">
               Purchase Orders
             </SidebarItem>
+            <SidebarItem to="/transfers" icon={<ArrowLeftRight className="h-5 w-5" />} module="transfers:read">
+              Transfers
+            </SidebarItem>
+            <SidebarItem to="/stock-takes" icon={<ClipboardCheck className="h-5 w-5" />} module="stockTakes:read">
+              Stock Takes
+            </SidebarItem>
             <SidebarItem to="/analytics" icon={<BarChart3 className="h-5 w-5" />} module="analytics">
               {t('analytics')}
             </SidebarItem>
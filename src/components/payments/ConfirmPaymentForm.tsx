@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { formatPrice } from '@/lib/stripe';
+import { PaymentIntentResult } from '@/api/createPaymentIntent';
+import { confirmPayment } from '@/api/payments';
+import { Sale } from '@/lib/types';
+
+interface ConfirmPaymentFormProps {
+  intent: PaymentIntentResult;
+  onSuccess?: (sale: Sale) => void;
+  onError?: (error: Error) => void;
+}
+
+// Payments nothing reports back on: the customer scans the UPI QR code (or, with the
+// fake provider, nothing at all) and the cashier confirms the money has arrived
+export const ConfirmPaymentForm: React.FC<ConfirmPaymentFormProps> = ({ intent, onSuccess, onError }) => {
+  const [reference, setReference] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const isUpi = intent.provider === 'upi';
+
+  const handleConfirm = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (isUpi && !reference.trim()) {
+      setErrorMessage('Enter the UTR number shown for the payment on the shop\'s UPI app');
+      return;
+    }
+
+    setIsLoading(true);
+    setErrorMessage(null);
+
+    try {
+      const sale = await confirmPayment(intent.paymentIntentId, reference.trim());
+      onSuccess?.(sale);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to confirm payment';
+      setErrorMessage(message);
+      onError?.(new Error(message));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-6">
+      {intent.upi ? (
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div
+            className="w-56 h-56 bg-white p-2 rounded-md border"
+            dangerouslySetInnerHTML={{ __html: intent.upi.qrSvg }}
+          />
+          <p className="text-sm text-muted-foreground">
+            Scan with any UPI app to pay <span className="font-medium text-foreground">{intent.upi.payee}</span>
+          </p>
+          <a href={intent.upi.uri} className="text-sm text-primary underline md:hidden">
+            Open in UPI app
+          </a>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Test payments are confirmed without being charged anywhere.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="paymentReference">{isUpi ? 'UTR number' : 'Reference (optional)'}</Label>
+        <Input
+          id="paymentReference"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          placeholder={isUpi ? 'e.g. 412345678901' : ''}
+        />
+      </div>
+
+      {errorMessage && (
+        <div className="text-red-500 text-sm">{errorMessage}</div>
+      )}
+
+      <div className="pt-4 border-t">
+        <div className="flex justify-between items-center mb-4">
+          <span className="font-medium">Total</span>
+          <span className="font-bold text-lg">{formatPrice(intent.amount)}</span>
+        </div>
+
+        <Button disabled={isLoading} className="w-full py-6 gap-2" size="lg">
+          {isLoading ? (
+            <LoadingSpinner />
+          ) : (
+            <>
+              <CheckCircle className="h-5 w-5" />
+              Payment received
+            </>
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ConfirmPaymentForm;
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Printer, Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { getReceiptHtml, getReceiptSettings, downloadReceiptPdf } from '@/api/receipts';
+import { ReceiptWidth } from '@/lib/types';
+
+interface ReceiptDialogProps {
+  saleId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ReceiptDialog: React.FC<ReceiptDialogProps> = ({ saleId, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [width, setWidth] = useState<ReceiptWidth | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const { data: settings } = useQuery({
+    queryKey: ['receipt-settings'],
+    queryFn: getReceiptSettings,
+    enabled: open,
+  });
+
+  // Start from the store's paper width each time the dialog opens
+  useEffect(() => {
+    if (open) setWidth(null);
+  }, [open]);
+
+  const paperWidth = width || settings?.receiptWidth || 80;
+
+  const { data: html, isLoading, error } = useQuery({
+    queryKey: ['receipt', saleId, paperWidth],
+    queryFn: () => getReceiptHtml(saleId!, paperWidth),
+    enabled: open && !!saleId,
+  });
+
+  if (!saleId) return null;
+
+  const handlePrint = () => {
+    frameRef.current?.contentWindow?.print();
+  };
+
+  const handleDownload = async () => {
+    try {
+      setIsDownloading(true);
+      await downloadReceiptPdf(saleId, paperWidth);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to download receipt',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Receipt</DialogTitle>
+          <DialogDescription>
+            Sale #{saleId.substring(0, 8)}. Print it on the receipt printer or download a PDF copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium">Paper width</span>
+          <Select value={String(paperWidth)} onValueChange={(value) => setWidth(Number(value) as ReceiptWidth)}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="58">58mm</SelectItem>
+              <SelectItem value="80">80mm</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="h-[420px] overflow-auto rounded-md border bg-muted/40 flex justify-center p-2">
+          {isLoading ? (
+            <div className="flex items-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <p className="self-center text-sm text-destructive">{(error as Error).message}</p>
+          ) : (
+            <iframe
+              ref={frameRef}
+              title="Receipt preview"
+              srcDoc={html}
+              className="bg-white shadow-sm h-full"
+              style={{ width: `${paperWidth}mm` }}
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" className="gap-1" onClick={handleDownload} disabled={isDownloading || !html}>
+            <Download className="h-4 w-4" />
+            {isDownloading ? 'Downloading...' : 'Download PDF'}
+          </Button>
+          <Button type="button" className="gap-1" onClick={handlePrint} disabled={!html}>
+            <Printer className="h-4 w-4" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiptDialog;
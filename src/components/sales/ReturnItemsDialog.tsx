@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { getSaleReturns, createReturn } from '@/api/returns';
+import { useSalesStore } from '@/lib/stores/salesStore';
+import { getPrimaryTender } from '@/lib/payments';
+import { useCurrentShift } from '@/hooks/use-current-shift';
+import { useTillStore } from '@/lib/stores/tillStore';
+import { RefundMethod, ReturnReason, Sale } from '@/lib/types';
+
+interface ReturnItemsDialogProps {
+  sale: Sale | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Disposition = 'restock' | 'write-off';
+
+const reasonLabels: Record<ReturnReason, string> = {
+  'damaged': 'Damaged',
+  'defective': 'Defective',
+  'wrong-item': 'Wrong item',
+  'changed-mind': 'Changed mind',
+  'other': 'Other'
+};
+
+const ReturnItemsDialog: React.FC<ReturnItemsDialogProps> = ({ sale, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { fetchSales } = useSalesStore();
+  const { data: shift } = useCurrentShift();
+  const tillId = useTillStore((state) => state.tillId);
+
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [dispositions, setDispositions] = useState<Record<string, Disposition>>({});
+  const [reason, setReason] = useState<ReturnReason>('changed-mind');
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('cash');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: previousReturns = [], isLoading } = useQuery({
+    queryKey: ['sale-returns', sale?.id],
+    queryFn: () => getSaleReturns(sale!.id),
+    enabled: open && !!sale,
+  });
+
+  // Start from a clean form each time a sale is opened
+  useEffect(() => {
+    if (open && sale) {
+      setQuantities({});
+      setDispositions({});
+      setReason('changed-mind');
+      setRefundMethod(getPrimaryTender(sale));
+      setNote('');
+    }
+  }, [open, sale]);
+
+  if (!sale) return null;
+
+  // Units of each product already taken back by earlier returns
+  const returnedQuantities = previousReturns.reduce<Record<string, number>>((totals, saleReturn) => {
+    saleReturn.lines.forEach(line => {
+      totals[line.productId] = (totals[line.productId] || 0) + line.quantity;
+    });
+    return totals;
+  }, {});
+
+  const lines = sale.products.map(item => ({
+    productId: item.product.id,
+    name: item.product.name,
+    priceAtSale: item.priceAtSale,
+    returnable: item.quantity - (returnedQuantities[item.product.id] || 0)
+  }));
+
+  const refundTotal = lines.reduce(
+    (total, line) => total + (quantities[line.productId] || 0) * line.priceAtSale, 0
+  );
+
+  const hasSelection = Object.values(quantities).some(quantity => quantity > 0);
+
+  const handleQuantityChange = (productId: string, returnable: number, value: string) => {
+    const quantity = Math.min(Math.max(parseInt(value) || 0, 0), returnable);
+    setQuantities(prev => ({ ...prev, [productId]: quantity }));
+  };
+
+  const handleSubmit = async () => {
+    const selectedLines = lines
+      .filter(line => (quantities[line.productId] || 0) > 0)
+      .map(line => ({
+        productId: line.productId,
+        quantity: quantities[line.productId],
+        disposition: dispositions[line.productId] || 'restock'
+      }));
+
+    if (selectedLines.length === 0) {
+      toast({
+        title: 'Nothing to return',
+        description: 'Enter a quantity for at least one item',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const saleReturn = await createReturn(sale.id, {
+        lines: selectedLines,
+        reason,
+        note: note || undefined,
+        refundMethod,
+        shift: shift?.id,
+        till: tillId
+      });
+
+      toast({
+        title: 'Return recorded',
+        description: `Refund of ₹${saleReturn.refundAmount.toFixed(2)} by ${saleReturn.refundMethod}`,
+      });
+      if (saleReturn.refundError) {
+        toast({
+          title: 'Refund not sent',
+          description: `${saleReturn.refundError}. Refund the customer by hand.`,
+          variant: 'destructive',
+        });
+      } else if (saleReturn.refundMethod === 'upi') {
+        toast({
+          title: 'Send the UPI refund',
+          description: `Send ₹${saleReturn.refundAmount.toFixed(2)} back to the customer from the shop's UPI app`,
+        });
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['sale-returns', sale.id] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+      fetchSales();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to record return',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Return Items</DialogTitle>
+          <DialogDescription>
+            Sale #{sale.id.substring(0, 8)} on {sale.timestamp.toLocaleString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Returnable</TableHead>
+                  <TableHead className="w-24">Qty</TableHead>
+                  <TableHead className="w-36">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(line => (
+                  <TableRow key={line.productId}>
+                    <TableCell>
+                      <p className="font-medium">{line.name}</p>
+                      <p className="text-xs text-muted-foreground">₹{line.priceAtSale.toFixed(2)} each</p>
+                    </TableCell>
+                    <TableCell className="text-right">{line.returnable}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={line.returnable}
+                        value={quantities[line.productId] || 0}
+                        disabled={line.returnable === 0}
+                        onChange={(e) => handleQuantityChange(line.productId, line.returnable, e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={dispositions[line.productId] || 'restock'}
+                        onValueChange={(value: Disposition) =>
+                          setDispositions(prev => ({ ...prev, [line.productId]: value }))
+                        }
+                        disabled={line.returnable === 0}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="restock">Restock</SelectItem>
+                          <SelectItem value="write-off">Write off</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Reason</label>
+                <Select value={reason} onValueChange={(value: ReturnReason) => setReason(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(reasonLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Refund Method</label>
+                <Select value={refundMethod} onValueChange={(value: RefundMethod) => setRefundMethod(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="card">Card</SelectItem>
+                    <SelectItem value="online">Online</SelectItem>
+                    <SelectItem value="upi">UPI</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Note (Optional)</label>
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Details about the return"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex items-center sm:justify-between">
+          <p className="text-sm">
+            Refund: <span className="font-bold">₹{refundTotal.toFixed(2)}</span>
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSubmit} disabled={isSubmitting || !hasSelection}>
+              {isSubmitting ? 'Recording...' : 'Record Return'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnItemsDialog;
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useSalesStore } from '@/lib/stores/salesStore';
+import { Sale } from '@/lib/types';
+
+interface VoidSaleDialogProps {
+  sale: Sale | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const VoidSaleDialog: React.FC<VoidSaleDialogProps> = ({ sale, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { voidSale } = useSalesStore();
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  if (!sale) return null;
+
+  const handleVoid = async () => {
+    setIsSubmitting(true);
+    const success = await voidSale(sale.id, reason.trim());
+    setIsSubmitting(false);
+
+    if (success) {
+      toast({
+        title: 'Sale voided',
+        description: `Sale #${sale.id.substring(0, 8)} has been voided`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+      onOpenChange(false);
+    } else {
+      toast({
+        title: 'Error',
+        description: useSalesStore.getState().error || 'Failed to void sale',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Void Sale</DialogTitle>
+          <DialogDescription>
+            Sale #{sale.id.substring(0, 8)} for ₹{sale.totalAmount.toFixed(2)} will be kept on record but
+            no longer counted in revenue. In-store items go back into stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label htmlFor="voidReason" className="text-sm font-medium">Reason</label>
+          <Input
+            id="voidReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Entered twice by mistake"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={handleVoid}
+            disabled={isSubmitting || !reason.trim()}
+          >
+            {isSubmitting ? 'Voiding...' : 'Void Sale'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VoidSaleDialog;
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { History, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { getAuditEvents, AuditFilters } from '@/api/audit';
+import { AuditEvent } from '@/lib/types';
+
+const PAGE_SIZE = 25;
+
+const entityLabels: Record<AuditEvent['entity'], string> = {
+  product: 'Product',
+  sale: 'Sale',
+  return: 'Return',
+  purchaseOrder: 'Purchase Order',
+  supplier: 'Supplier',
+  user: 'User',
+  taxClass: 'Tax Class',
+  settings: 'Settings',
+  promotion: 'Promotion',
+  customer: 'Customer'
+};
+
+const actionVariants: Record<AuditEvent['action'], 'default' | 'secondary' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive'
+};
+
+// Render a changed value compactly for the table
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditLog: React.FC = () => {
+  const [entity, setEntity] = useState<string>('all');
+  const [action, setAction] = useState<string>('all');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [page, setPage] = useState(1);
+
+  const filters: AuditFilters = {
+    entity: entity === 'all' ? undefined : entity as AuditEvent['entity'],
+    action: action === 'all' ? undefined : action as AuditEvent['action'],
+    startDate: startDate || undefined,
+    // Include the whole end day
+    endDate: endDate ? `${endDate}T23:59:59.999` : undefined,
+    page,
+    limit: PAGE_SIZE
+  };
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['audit-events', filters],
+    queryFn: () => getAuditEvents(filters),
+  });
+
+  const events = data?.events || [];
+  const totalPages = data ? Math.max(Math.ceil(data.total / PAGE_SIZE), 1) : 1;
+
+  // Any filter change starts again from the first page
+  const withPageReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>
+          Every change made to products, sales, returns, purchase orders, suppliers and users
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <Select value={entity} onValueChange={withPageReset(setEntity)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Record type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All records</SelectItem>
+              {Object.entries(entityLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={action} onValueChange={withPageReset(setAction)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Action" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              <SelectItem value="create">Create</SelectItem>
+              <SelectItem value="update">Update</SelectItem>
+              <SelectItem value="delete">Delete</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={startDate}
+            onChange={(e) => withPageReset(setStartDate)(e.target.value)}
+            aria-label="From date"
+          />
+          <Input
+            type="date"
+            value={endDate}
+            onChange={(e) => withPageReset(setEndDate)(e.target.value)}
+            aria-label="To date"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-2 text-sm text-muted-foreground">Loading audit events...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-6 text-destructive">
+            <p>Error loading audit events. Please try again.</p>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">No audit events match these filters</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map(event => (
+                <TableRow key={event.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(event.timestamp, 'dd MMM yyyy, HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium">{event.actor?.name || 'System'}</p>
+                    {event.actor?.email && (
+                      <p className="text-xs text-muted-foreground">{event.actor.email}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={actionVariants[event.action]} className="capitalize">
+                      {event.action}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium">{entityLabels[event.entity]}</p>
+                    <p className="text-xs text-muted-foreground">{event.summary || event.entityId}</p>
+                  </TableCell>
+                  <TableCell className="max-w-md">
+                    {event.action === 'update' ? (
+                      <ul className="space-y-1 text-xs">
+                        {event.changes.map(change => (
+                          <li key={change.field} className="truncate">
+                            <span className="font-medium">{change.field}:</span>{' '}
+                            <span className="text-muted-foreground line-through">{formatValue(change.from)}</span>{' '}
+                            → {formatValue(change.to)}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        {event.changes.length} field{event.changes.length !== 1 ? 's' : ''}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-between items-center text-xs text-muted-foreground border-t pt-4">
+        <span>{data ? `${data.total} event${data.total !== 1 ? 's' : ''}` : ''}</span>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Page {page} of {totalPages}</span>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={page >= totalPages}
+            onClick={() => setPage(page + 1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default AuditLog;
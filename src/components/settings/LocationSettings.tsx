@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { MapPin, Plus, Star, Pencil, Check, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { getLocations, createLocation, updateLocation } from '@/api/locations';
+import { Location } from '@/lib/types';
+
+const LOCATION_KINDS: Location['kind'][] = ['store', 'warehouse', 'kiosk'];
+
+const LocationSettings: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState('');
+  const [newKind, setNewKind] = useState<Location['kind']>('store');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: locations = [], isLoading, error } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+  });
+
+  // Run a change, then refresh the locations and the stock shown for them
+  const saveChange = async (change: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setIsSaving(true);
+      await change();
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      toast({ title: successMessage, duration: 2000 });
+      return true;
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update locations',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddLocation = async () => {
+    if (!newName.trim()) {
+      toast({
+        title: 'Invalid location',
+        description: 'Enter a name for the location',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const saved = await saveChange(
+      () => createLocation({ name: newName.trim(), kind: newKind, isDefault: false }),
+      'Location added'
+    );
+    if (saved) {
+      setNewName('');
+      setNewKind('store');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming || !renaming.name.trim()) return;
+    const saved = await saveChange(
+      () => updateLocation(renaming.id, { name: renaming.name.trim() }),
+      'Location renamed'
+    );
+    if (saved) setRenaming(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-2 text-sm text-muted-foreground">Loading locations...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-6 text-destructive">
+        <p>Error loading locations. Please try again.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          Locations
+        </CardTitle>
+        <CardDescription>
+          Stores, warehouses and kiosks that hold stock. Sales, returns and deliveries that don't name a location use the default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Kind</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {locations.map(location => (
+              <TableRow key={location.id}>
+                <TableCell className="font-medium">
+                  {renaming?.id === location.id ? (
+                    <Input
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                    />
+                  ) : (
+                    <>
+                      {location.name}
+                      {location.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                    </>
+                  )}
+                </TableCell>
+                <TableCell className="capitalize">{location.kind}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {renaming?.id === location.id ? (
+                    <>
+                      <Button size="sm" variant="ghost" disabled={isSaving} onClick={handleRename}>
+                        <Check className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setRenaming(null)}>
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      {!location.isDefault && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="gap-1"
+                          disabled={isSaving}
+                          onClick={() => saveChange(
+                            () => updateLocation(location.id, { isDefault: true }),
+                            `${location.name} is now the default`
+                          )}
+                        >
+                          <Star className="h-3.5 w-3.5" />
+                          Make default
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isSaving}
+                        onClick={() => setRenaming({ id: location.id, name: location.name })}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                    </>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Name, e.g. Back store"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Select value={newKind} onValueChange={(value) => setNewKind(value as Location['kind'])}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOCATION_KINDS.map(kind => (
+                <SelectItem key={kind} value={kind} className="capitalize">{kind}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAddLocation} disabled={isSaving} className="gap-1">
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LocationSettings;
@@ -0,0 +1,439 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Tag, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  getPromotions,
+  createPromotion,
+  updatePromotion,
+  deletePromotion,
+  PromotionInput
+} from '@/api/promotions';
+import { getAllProducts, getProductCategories } from '@/api/product';
+import { Promotion, PromotionScope, PromotionType } from '@/lib/types';
+
+const typeLabels: Record<PromotionType, string> = {
+  'percent-off': 'Percent off',
+  'amount-off': 'Amount off',
+  'buy-x-get-y': 'Buy X get Y'
+};
+
+const scopeLabels: Record<PromotionScope, string> = {
+  'product': 'Product',
+  'category': 'Category',
+  'cart': 'Whole bill'
+};
+
+const emptyForm = {
+  name: '',
+  type: 'percent-off' as PromotionType,
+  scope: 'cart' as PromotionScope,
+  value: '',
+  target: '',
+  buyQuantity: '',
+  getQuantity: '',
+  minimumSpend: '',
+  couponCode: '',
+  startsAt: '',
+  endsAt: ''
+};
+
+// One-line description of what a promotion gives, e.g. "10% off Toys"
+const describePromotion = (promotion: Promotion, productNames: Record<string, string>) => {
+  const target = promotion.scope === 'cart'
+    ? 'the bill'
+    : promotion.scope === 'category'
+      ? promotion.categories.join(', ')
+      : promotion.products.map(id => productNames[id] || 'product').join(', ');
+
+  if (promotion.type === 'buy-x-get-y') {
+    return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free on ${target}`;
+  }
+  const amount = promotion.type === 'percent-off' ? `${promotion.value}%` : `₹${promotion.value.toFixed(2)}`;
+  const each = promotion.type === 'amount-off' && promotion.scope !== 'cart' ? ' each' : '';
+  return `${amount} off ${target}${each}`;
+};
+
+const getStatus = (promotion: Promotion) => {
+  if (!promotion.active) return { label: 'Paused', variant: 'secondary' as const };
+  if (promotion.live) return { label: 'Live', variant: 'default' as const };
+  if (promotion.endsAt && promotion.endsAt < new Date()) return { label: 'Ended', variant: 'outline' as const };
+  return { label: 'Scheduled', variant: 'outline' as const };
+};
+
+const PromotionSettings: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: promotions = [], isLoading, error } = useQuery({
+    queryKey: ['promotions'],
+    queryFn: getPromotions,
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: getAllProducts,
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['product-categories'],
+    queryFn: getProductCategories,
+  });
+
+  const productNames = Object.fromEntries(products.map(product => [product.id, product.name]));
+
+  const updateForm = (changes: Partial<typeof emptyForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  // Run a change, then refresh promotions and any bill being priced with them
+  const saveChange = async (change: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setIsSaving(true);
+      await change();
+      queryClient.invalidateQueries({ queryKey: ['promotions'] });
+      queryClient.invalidateQueries({ queryKey: ['sale-quote'] });
+      toast({ title: successMessage, duration: 2000 });
+      return true;
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update promotions',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const isBuyXGetY = form.type === 'buy-x-get-y';
+    const value = parseFloat(form.value);
+
+    if (!form.name.trim() || (!isBuyXGetY && (isNaN(value) || value <= 0))) {
+      toast({
+        title: 'Invalid promotion',
+        description: 'Enter a name and a discount greater than 0',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (form.scope !== 'cart' && !form.target) {
+      toast({
+        title: 'Invalid promotion',
+        description: `Choose the ${form.scope} this promotion applies to`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const promotion: PromotionInput = {
+      name: form.name.trim(),
+      type: form.type,
+      scope: form.scope,
+      value: isBuyXGetY ? 0 : value,
+      products: form.scope === 'product' ? [form.target] : [],
+      categories: form.scope === 'category' ? [form.target] : [],
+      buyQuantity: isBuyXGetY ? parseInt(form.buyQuantity) || undefined : undefined,
+      getQuantity: isBuyXGetY ? parseInt(form.getQuantity) || undefined : undefined,
+      minimumSpend: parseFloat(form.minimumSpend) || 0,
+      couponCode: form.couponCode.trim() || null,
+      startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`) : null,
+      endsAt: form.endsAt ? new Date(`${form.endsAt}T23:59:59`) : null,
+      active: true
+    };
+
+    const saved = await saveChange(() => createPromotion(promotion), 'Promotion added');
+    if (saved) {
+      setForm(emptyForm);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-2 text-sm text-muted-foreground">Loading promotions...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-6 text-destructive">
+        <p>Error loading promotions. Please try again.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Promotions
+        </CardTitle>
+        <CardDescription>
+          Discounts applied at the till. Each item gets its best offer, then the best whole-bill offer is added.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {promotions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No promotions yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Offer</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions.map(promotion => {
+                const status = getStatus(promotion);
+                return (
+                  <TableRow key={promotion.id}>
+                    <TableCell className="font-medium">
+                      {promotion.name}
+                      {promotion.couponCode && (
+                        <Badge variant="outline" className="ml-2 font-mono">{promotion.couponCode}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {describePromotion(promotion, productNames)}
+                      {!!promotion.minimumSpend && (
+                        <p className="text-xs text-muted-foreground">On bills over ₹{promotion.minimumSpend.toFixed(2)}</p>
+                      )}
+                      {(promotion.startsAt || promotion.endsAt) && (
+                        <p className="text-xs text-muted-foreground">
+                          {promotion.startsAt ? promotion.startsAt.toLocaleDateString() : 'Now'}
+                          {' – '}
+                          {promotion.endsAt ? promotion.endsAt.toLocaleDateString() : 'No end'}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={promotion.active}
+                        disabled={isSaving}
+                        onCheckedChange={(checked) => saveChange(
+                          () => updatePromotion(promotion.id, { active: checked }),
+                          checked ? `${promotion.name} resumed` : `${promotion.name} paused`
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive"
+                        disabled={isSaving}
+                        onClick={() => saveChange(
+                          () => deletePromotion(promotion.id),
+                          `${promotion.name} deleted`
+                        )}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <Separator />
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium">New promotion</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promotionName">Name</Label>
+              <Input
+                id="promotionName"
+                placeholder="e.g. Diwali 10% off"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value: PromotionType) => updateForm({
+                  type: value,
+                  // Free items only make sense per product or category
+                  scope: value === 'buy-x-get-y' && form.scope === 'cart' ? 'product' : form.scope
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(typeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <Select
+                value={form.scope}
+                onValueChange={(value: PromotionScope) => updateForm({ scope: value, target: '' })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(scopeLabels)
+                    .filter(([value]) => !(form.type === 'buy-x-get-y' && value === 'cart'))
+                    .map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.scope === 'product' && (
+              <div className="space-y-2">
+                <Label>Product</Label>
+                <Select value={form.target} onValueChange={(value) => updateForm({ target: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map(product => (
+                      <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.scope === 'category' && (
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={form.target} onValueChange={(value) => updateForm({ target: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(category => (
+                      <SelectItem key={category.name} value={category.name}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.type === 'buy-x-get-y' ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="buyQuantity">Buy</Label>
+                  <Input
+                    id="buyQuantity"
+                    type="number"
+                    min="1"
+                    value={form.buyQuantity}
+                    onChange={(e) => updateForm({ buyQuantity: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="getQuantity">Get free</Label>
+                  <Input
+                    id="getQuantity"
+                    type="number"
+                    min="1"
+                    value={form.getQuantity}
+                    onChange={(e) => updateForm({ getQuantity: e.target.value })}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="promotionValue">
+                  {form.type === 'percent-off' ? 'Percent off' : form.scope === 'cart' ? 'Amount off (₹)' : 'Amount off each (₹)'}
+                </Label>
+                <Input
+                  id="promotionValue"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.value}
+                  onChange={(e) => updateForm({ value: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="minimumSpend">Minimum bill (₹)</Label>
+              <Input
+                id="minimumSpend"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="None"
+                value={form.minimumSpend}
+                onChange={(e) => updateForm({ minimumSpend: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="couponCode">Coupon code</Label>
+              <Input
+                id="couponCode"
+                placeholder="Applies automatically if blank"
+                className="uppercase"
+                value={form.couponCode}
+                onChange={(e) => updateForm({ couponCode: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="startsAt">Starts</Label>
+              <Input
+                id="startsAt"
+                type="date"
+                value={form.startsAt}
+                onChange={(e) => updateForm({ startsAt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="endsAt">Ends</Label>
+              <Input
+                id="endsAt"
+                type="date"
+                value={form.endsAt}
+                onChange={(e) => updateForm({ endsAt: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleAdd} disabled={isSaving} className="gap-1">
+            <Plus className="h-4 w-4" />
+            Add promotion
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PromotionSettings;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Receipt } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { getReceiptSettings, updateReceiptSettings } from '@/api/receipts';
+import { ReceiptSettings as ReceiptSettingsData, ReceiptWidth } from '@/lib/types';
+
+const ReceiptSettings: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ReceiptSettingsData | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: receiptSettings, isLoading, error } = useQuery({
+    queryKey: ['receipt-settings'],
+    queryFn: getReceiptSettings,
+  });
+
+  useEffect(() => {
+    if (receiptSettings) setForm(receiptSettings);
+  }, [receiptSettings]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.storeName.trim()) {
+      toast({
+        title: 'Invalid receipt settings',
+        description: 'Enter the store name to print on receipts',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateReceiptSettings(form);
+      queryClient.invalidateQueries({ queryKey: ['receipt-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['receipt'] });
+      toast({ title: 'Receipt settings saved', duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update receipt settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-2 text-sm text-muted-foreground">Loading receipt settings...</p>
+      </div>
+    );
+  }
+
+  if (error || !form) {
+    return (
+      <div className="text-center py-6 text-destructive">
+        <p>Error loading receipt settings. Please try again.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Receipts
+        </CardTitle>
+        <CardDescription>
+          The store details printed at the top of every receipt, and the paper it is printed on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="storeName">Store name</Label>
+          <Input
+            id="storeName"
+            value={form.storeName}
+            onChange={(e) => setForm({ ...form, storeName: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="storePhone">Phone</Label>
+          <Input
+            id="storePhone"
+            value={form.storePhone}
+            onChange={(e) => setForm({ ...form, storePhone: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="storeAddress">Address</Label>
+          <Textarea
+            id="storeAddress"
+            rows={3}
+            value={form.storeAddress}
+            onChange={(e) => setForm({ ...form, storeAddress: e.target.value })}
+          />
+        </div>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="taxId">GSTIN</Label>
+            <Input
+              id="taxId"
+              value={form.taxId}
+              onChange={(e) => setForm({ ...form, taxId: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="receiptWidth">Paper width</Label>
+            <Select
+              value={String(form.receiptWidth)}
+              onValueChange={(value) => setForm({ ...form, receiptWidth: Number(value) as ReceiptWidth })}
+            >
+              <SelectTrigger id="receiptWidth">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="58">58mm</SelectItem>
+                <SelectItem value="80">80mm</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="receiptFooter">Footer</Label>
+          <Input
+            id="receiptFooter"
+            value={form.receiptFooter}
+            onChange={(e) => setForm({ ...form, receiptFooter: e.target.value })}
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="justify-end">
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default ReceiptSettings;
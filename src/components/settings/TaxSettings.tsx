@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Percent, Plus, Trash2, Star } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  getTaxSettings,
+  updatePricesIncludeTax,
+  createTaxClass,
+  updateTaxClass,
+  deleteTaxClass
+} from '@/api/tax';
+
+const TaxSettings: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState('');
+  const [newRate, setNewRate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: taxSettings, isLoading, error } = useQuery({
+    queryKey: ['tax-settings'],
+    queryFn: getTaxSettings,
+  });
+
+  // Run a change, then refresh the tax settings everywhere they are used
+  const saveChange = async (change: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setIsSaving(true);
+      await change();
+      queryClient.invalidateQueries({ queryKey: ['tax-settings'] });
+      toast({ title: successMessage, duration: 2000 });
+      return true;
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update tax settings',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddClass = async () => {
+    const rate = parseFloat(newRate);
+    if (!newName.trim() || isNaN(rate) || rate < 0 || rate > 100) {
+      toast({
+        title: 'Invalid tax class',
+        description: 'Enter a name and a rate between 0 and 100',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const saved = await saveChange(
+      () => createTaxClass({ name: newName.trim(), rate, isDefault: false }),
+      'Tax class added'
+    );
+    if (saved) {
+      setNewName('');
+      setNewRate('');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-2 text-sm text-muted-foreground">Loading tax settings...</p>
+      </div>
+    );
+  }
+
+  if (error || !taxSettings) {
+    return (
+      <div className="text-center py-6 text-destructive">
+        <p>Error loading tax settings. Please try again.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="h-5 w-5" />
+          Tax
+        </CardTitle>
+        <CardDescription>
+          Tax classes that products are charged at. Products without a class use the default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="pricesIncludeTax">Prices include tax</Label>
+            <p className="text-sm text-muted-foreground">
+              {taxSettings.pricesIncludeTax
+                ? 'Tax is worked out from within the product price'
+                : 'Tax is added on top of the product price'}
+            </p>
+          </div>
+          <Switch
+            id="pricesIncludeTax"
+            checked={taxSettings.pricesIncludeTax}
+            disabled={isSaving}
+            onCheckedChange={(checked) => saveChange(
+              () => updatePricesIncludeTax(checked),
+              checked ? 'Prices now include tax' : 'Tax is now added to prices'
+            )}
+          />
+        </div>
+
+        <Separator />
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {taxSettings.classes.map(taxClass => (
+              <TableRow key={taxClass.id}>
+                <TableCell className="font-medium">
+                  {taxClass.name}
+                  {taxClass.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                </TableCell>
+                <TableCell className="text-right">{taxClass.rate}%</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {!taxClass.isDefault && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="gap-1"
+                      disabled={isSaving}
+                      onClick={() => saveChange(
+                        () => updateTaxClass(taxClass.id, { isDefault: true }),
+                        `${taxClass.name} is now the default`
+                      )}
+                    >
+                      <Star className="h-3.5 w-3.5" />
+                      Make default
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    disabled={isSaving}
+                    onClick={() => saveChange(
+                      () => deleteTaxClass(taxClass.id),
+                      `${taxClass.name} deleted`
+                    )}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Name, e.g. GST 18%"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            placeholder="Rate %"
+            className="w-28"
+            value={newRate}
+            onChange={(e) => setNewRate(e.target.value)}
+          />
+          <Button onClick={handleAddClass} disabled={isSaving} className="gap-1">
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaxSettings;
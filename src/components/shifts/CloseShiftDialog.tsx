@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { closeShift } from '@/api/shifts';
+import { PaymentTender, Shift } from '@/lib/types';
+import ShiftReportTable from './ShiftReportTable';
+
+interface CloseShiftDialogProps {
+  shift: Shift;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Tenders that can be counted at close; card and UPI are checked against the
+// terminal batch and the UPI statement if they are entered
+const countedTenders: { method: PaymentTender; label: string; required?: boolean }[] = [
+  { method: 'cash', label: 'Cash in drawer', required: true },
+  { method: 'card', label: 'Card terminal total' },
+  { method: 'upi', label: 'UPI received' }
+];
+
+const CloseShiftDialog: React.FC<CloseShiftDialogProps> = ({ shift, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [counted, setCounted] = useState<Record<string, string>>({});
+  const [note, setNote] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+  const [closedShift, setClosedShift] = useState<Shift | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      if (closedShift) {
+        // The till has no shift any more; the panel goes back to opening one
+        queryClient.invalidateQueries({ queryKey: ['shift', shift.till] });
+        queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      }
+      setCounted({});
+      setNote('');
+      setClosedShift(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const handleClose = async () => {
+    const amounts: Partial<Record<PaymentTender, number>> = {};
+    for (const { method, label, required } of countedTenders) {
+      const value = counted[method]?.trim();
+      if (!value) {
+        if (required) {
+          toast({ title: 'Count required', description: `Enter the ${label.toLowerCase()}`, variant: 'destructive' });
+          return;
+        }
+        continue;
+      }
+
+      const amount = parseFloat(value);
+      if (isNaN(amount) || amount < 0) {
+        toast({ title: 'Invalid amount', description: `${label} must be 0 or more`, variant: 'destructive' });
+        return;
+      }
+      amounts[method] = amount;
+    }
+
+    try {
+      setIsClosing(true);
+      setClosedShift(await closeShift(shift.id, { counted: amounts, note: note.trim() || undefined }));
+      toast({ title: 'Shift closed', duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to close shift',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{closedShift ? 'Z Report' : 'Close Shift'}</DialogTitle>
+          <DialogDescription>
+            {closedShift
+              ? `${shift.tillName || 'Till'} · ${shift.openedAt.toLocaleString()} to ${closedShift.closedAt?.toLocaleString()}`
+              : 'Count the drawer and enter what is in it. The shift cannot take sales once closed.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {closedShift?.report ? (
+          <ShiftReportTable report={closedShift.report} />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {countedTenders.map(({ method, label, required }) => (
+              <div key={method} className="space-y-2">
+                <Label htmlFor={`counted-${method}`}>
+                  {label}{!required && <span className="text-muted-foreground"> (optional)</span>}
+                </Label>
+                <Input
+                  id={`counted-${method}`}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={counted[method] || ''}
+                  onChange={(e) => setCounted({ ...counted, [method]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="space-y-2 md:col-span-3">
+              <Label htmlFor="closingNote">Note</Label>
+              <Input
+                id="closingNote"
+                placeholder="e.g. why the drawer is over or short"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {closedShift ? (
+            <>
+              <Button variant="outline" onClick={() => window.print()}>Print</Button>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+              <Button onClick={handleClose} disabled={isClosing}>
+                {isClosing ? 'Closing...' : 'Close shift'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CloseShiftDialog;
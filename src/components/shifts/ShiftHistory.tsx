@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { History } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { getShifts } from '@/api/shifts';
+import ShiftReportDialog from './ShiftReportDialog';
+
+// Recent shifts on every till, with how the cash counted at close compared to expected
+const ShiftHistory: React.FC = () => {
+  const [reportShiftId, setReportShiftId] = useState<string | null>(null);
+
+  const { data: shifts = [], isLoading, error } = useQuery({
+    queryKey: ['shifts'],
+    queryFn: () => getShifts(),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Shifts
+        </CardTitle>
+        <CardDescription>Recent shifts on every till and their cash-up</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-6 text-destructive">
+            <p>Error loading shifts. Please try again.</p>
+          </div>
+        ) : shifts.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">No shifts yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Till</TableHead>
+                <TableHead>Opened</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead className="text-right">Cash Expected</TableHead>
+                <TableHead className="text-right">Cash Counted</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shifts.map(shift => {
+                const cash = shift.report?.byMethod.find(line => line.method === 'cash');
+                return (
+                  <TableRow key={shift.id}>
+                    <TableCell className="font-medium">{shift.tillName || shift.till.substring(0, 8)}</TableCell>
+                    <TableCell className="text-sm">
+                      {shift.openedAt.toLocaleString()}
+                      {shift.openedBy?.name && <div className="text-muted-foreground">{shift.openedBy.name}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {shift.status === 'open' ? (
+                        <Badge variant="secondary">Open</Badge>
+                      ) : (
+                        <>
+                          {shift.closedAt?.toLocaleString()}
+                          {shift.closedBy?.name && <div className="text-muted-foreground">{shift.closedBy.name}</div>}
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{cash ? `₹${cash.expected.toFixed(2)}` : '—'}</TableCell>
+                    <TableCell className="text-right">{cash?.counted != null ? `₹${cash.counted.toFixed(2)}` : '—'}</TableCell>
+                    <TableCell
+                      className={`text-right ${cash?.variance ? (cash.variance < 0 ? 'text-destructive' : 'text-green-600') : ''}`}
+                    >
+                      {cash?.variance != null ? `${cash.variance > 0 ? '+' : ''}${cash.variance.toFixed(2)}` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setReportShiftId(shift.id)}>
+                        {shift.status === 'open' ? 'X report' : 'Z report'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ShiftReportDialog
+        shiftId={reportShiftId}
+        open={!!reportShiftId}
+        onOpenChange={(open) => !open && setReportShiftId(null)}
+      />
+    </Card>
+  );
+};
+
+export default ShiftHistory;
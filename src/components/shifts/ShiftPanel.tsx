@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ArrowDownToLine, ArrowUpFromLine, FileText, Lock, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import { useTillStore } from '@/lib/stores/tillStore';
+import { useCurrentShift } from '@/hooks/use-current-shift';
+import { openShift, addCashMovement } from '@/api/shifts';
+import { ShiftCashMovement } from '@/lib/types';
+import ShiftReportDialog from './ShiftReportDialog';
+import CloseShiftDialog from './CloseShiftDialog';
+
+// Opens, runs and closes the cash drawer shift on this till
+const ShiftPanel: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const canManageShifts = hasPermission('shifts:write');
+  const { tillId, tillName, setTillName } = useTillStore();
+  const { data: shift, isLoading } = useCurrentShift();
+
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movement, setMovement] = useState<{ type: ShiftCashMovement['type']; amount: string; reason: string } | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [showClose, setShowClose] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenShift = async () => {
+    const float = parseFloat(openingFloat);
+    if (!tillName.trim() || isNaN(float) || float < 0) {
+      toast({
+        title: 'Invalid shift',
+        description: 'Name the till and enter the float counted into the drawer',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await openShift({ till: tillId, tillName: tillName.trim(), openingFloat: float });
+      queryClient.invalidateQueries({ queryKey: ['shift', tillId] });
+      setOpeningFloat('');
+      toast({ title: 'Shift opened', duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to open shift',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddMovement = async () => {
+    if (!shift || !movement) return;
+    const amount = parseFloat(movement.amount);
+    if (isNaN(amount) || amount <= 0 || !movement.reason.trim()) {
+      toast({
+        title: 'Invalid cash movement',
+        description: 'Enter an amount greater than 0 and a reason',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await addCashMovement(shift.id, { type: movement.type, amount, reason: movement.reason.trim() });
+      queryClient.invalidateQueries({ queryKey: ['shift', tillId] });
+      queryClient.invalidateQueries({ queryKey: ['shift-report', shift.id] });
+      setMovement(null);
+      toast({ title: movement.type === 'pay-in' ? 'Pay-in recorded' : 'Pay-out recorded', duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to record cash movement',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) return null;
+
+  if (!shift) {
+    return (
+      <Card className="mb-6">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            No shift open on this till
+          </CardTitle>
+          <CardDescription>
+            Open a shift with the float in the drawer to start selling. Sales and refunds on this
+            till are counted towards it until it is closed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {canManageShifts ? (
+            <div className="flex flex-col md:flex-row gap-3 md:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="tillName">Till</Label>
+                <Input id="tillName" value={tillName} onChange={(e) => setTillName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="openingFloat">Opening float (₹)</Label>
+                <Input
+                  id="openingFloat"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleOpenShift} disabled={isSaving}>Open shift</Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Ask a manager to open a shift on this till.</p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="py-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="text-sm">
+          <p className="font-medium flex items-center gap-2">
+            <Wallet className="h-4 w-4" />
+            {shift.tillName || 'Till'} · shift open since {shift.openedAt.toLocaleTimeString()}
+          </p>
+          <p className="text-muted-foreground">
+            Opened by {shift.openedBy?.name || 'unknown'} with a ₹{shift.openingFloat.toFixed(2)} float
+            {shift.cashMovements.length > 0 && ` · ${shift.cashMovements.length} pay-in/out`}
+          </p>
+        </div>
+        {canManageShifts && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-1"
+              onClick={() => setMovement({ type: 'pay-in', amount: '', reason: '' })}
+            >
+              <ArrowDownToLine className="h-4 w-4" />
+              Pay in
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-1"
+              onClick={() => setMovement({ type: 'pay-out', amount: '', reason: '' })}
+            >
+              <ArrowUpFromLine className="h-4 w-4" />
+              Pay out
+            </Button>
+            <Button size="sm" variant="outline" className="gap-1" onClick={() => setShowReport(true)}>
+              <FileText className="h-4 w-4" />
+              X report
+            </Button>
+            <Button size="sm" className="gap-1" onClick={() => setShowClose(true)}>
+              <Lock className="h-4 w-4" />
+              Close shift
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!movement} onOpenChange={(open) => !open && setMovement(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>{movement?.type === 'pay-in' ? 'Pay In' : 'Pay Out'}</DialogTitle>
+            <DialogDescription>
+              {movement?.type === 'pay-in'
+                ? 'Cash put into the drawer, e.g. extra change from the safe'
+                : 'Cash taken out of the drawer, e.g. a delivery paid in cash or a drop to the safe'}
+            </DialogDescription>
+          </DialogHeader>
+          {movement && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="movementAmount">Amount (₹)</Label>
+                <Input
+                  id="movementAmount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={movement.amount}
+                  onChange={(e) => setMovement({ ...movement, amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="movementReason">Reason</Label>
+                <Input
+                  id="movementReason"
+                  value={movement.reason}
+                  onChange={(e) => setMovement({ ...movement, reason: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMovement(null)}>Cancel</Button>
+            <Button onClick={handleAddMovement} disabled={isSaving}>Record</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ShiftReportDialog shiftId={shift.id} open={showReport} onOpenChange={setShowReport} />
+      <CloseShiftDialog shift={shift} open={showClose} onOpenChange={setShowClose} />
+    </Card>
+  );
+};
+
+export default ShiftPanel;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from '@/components/ui/dialog';
+import { getShiftReport } from '@/api/shifts';
+import ShiftReportTable from './ShiftReportTable';
+
+interface ShiftReportDialogProps {
+  shiftId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The X report for a shift still open: where the drawer should stand right now
+const ShiftReportDialog: React.FC<ShiftReportDialogProps> = ({ shiftId, open, onOpenChange }) => {
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ['shift-report', shiftId],
+    queryFn: () => getShiftReport(shiftId!),
+    enabled: open && !!shiftId,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{report?.type === 'Z' ? 'Z Report' : 'X Report'}</DialogTitle>
+          <DialogDescription>
+            {report ? `As of ${report.generatedAt.toLocaleString()}` : 'Shift totals so far'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : error || !report ? (
+          <div className="text-center py-6 text-destructive">
+            <p>Error loading shift report. Please try again.</p>
+          </div>
+        ) : (
+          <ShiftReportTable report={report} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShiftReportDialog;
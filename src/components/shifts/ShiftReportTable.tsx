@@ -0,0 +1,80 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShiftReport } from '@/lib/types';
+
+const methodLabels: Record<string, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  online: 'Online',
+  upi: 'UPI',
+  loyalty: 'Loyalty points'
+};
+
+const formatAmount = (amount: number | null) => (amount === null ? '—' : `₹${amount.toFixed(2)}`);
+
+// The figures of an X or Z report: totals for the shift, then expected against
+// counted for each tender
+const ShiftReportTable: React.FC<{ report: ShiftReport }> = ({ report }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Sales</span>
+        <span>{report.saleCount}{report.voidedCount > 0 && ` (+${report.voidedCount} voided)`}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Gross sales</span>
+        <span>₹{report.grossSales.toFixed(2)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Returns</span>
+        <span>{report.returnCount}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Refunded</span>
+        <span>₹{report.refunds.toFixed(2)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Opening float</span>
+        <span>₹{report.openingFloat.toFixed(2)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Pay-ins / pay-outs</span>
+        <span>₹{report.payIns.toFixed(2)} / ₹{report.payOuts.toFixed(2)}</span>
+      </div>
+    </div>
+
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Tender</TableHead>
+          <TableHead className="text-right">Sales</TableHead>
+          <TableHead className="text-right">Refunds</TableHead>
+          <TableHead className="text-right">Expected</TableHead>
+          <TableHead className="text-right">Counted</TableHead>
+          <TableHead className="text-right">Variance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {report.byMethod.map(line => (
+          <TableRow key={line.method}>
+            <TableCell className="font-medium">{methodLabels[line.method] || line.method}</TableCell>
+            <TableCell className="text-right">₹{line.sales.toFixed(2)}</TableCell>
+            <TableCell className="text-right">₹{line.refunds.toFixed(2)}</TableCell>
+            <TableCell className="text-right">₹{line.expected.toFixed(2)}</TableCell>
+            <TableCell className="text-right">{formatAmount(line.counted)}</TableCell>
+            <TableCell
+              className={`text-right ${line.variance ? (line.variance < 0 ? 'text-destructive' : 'text-green-600') : ''}`}
+            >
+              {line.variance === null ? '—' : `${line.variance > 0 ? '+' : ''}${line.variance.toFixed(2)}`}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+    <p className="text-xs text-muted-foreground">
+      Expected cash is the opening float plus cash sales and pay-ins, less cash refunds and pay-outs.
+    </p>
+  </div>
+);
+
+export default ShiftReportTable;
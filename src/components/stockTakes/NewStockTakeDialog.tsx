@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { createStockTake } from '@/api/stockTakes';
+import { Location, StockTake, Supplier } from '@/lib/types';
+
+interface NewStockTakeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  locations: Location[];
+  categories: string[];
+  suppliers: Supplier[];
+  onCreated: (stockTake: StockTake) => void;
+}
+
+const ALL = 'all';
+
+// Start a full count of a location, or a cycle count of one category or supplier
+const NewStockTakeDialog: React.FC<NewStockTakeDialogProps> = ({
+  open,
+  onOpenChange,
+  locations,
+  categories,
+  suppliers,
+  onCreated
+}) => {
+  const { toast } = useToast();
+  const [location, setLocation] = useState('');
+  const [category, setCategory] = useState(ALL);
+  const [supplier, setSupplier] = useState(ALL);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setLocation(locations.find(item => item.isDefault)?.id || '');
+      setCategory(ALL);
+      setSupplier(ALL);
+      setNote('');
+    }
+  }, [open]);
+
+  const handleStart = async () => {
+    if (!location) {
+      toast({
+        title: 'Choose a location',
+        description: 'Pick the location whose shelves are being counted',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const stockTake = await createStockTake({
+        location,
+        category: category === ALL ? undefined : category,
+        supplier: supplier === ALL ? undefined : supplier,
+        note: note.trim() || undefined
+      });
+      toast({
+        title: 'Stock take started',
+        description: `${stockTake.lineCount} product(s) to count`,
+        duration: 2000
+      });
+      onCreated(stockTake);
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to start stock take',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>New Stock Take</DialogTitle>
+          <DialogDescription>
+            Stock levels are frozen when the count starts. Sales made while counting are allowed for.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Location</Label>
+            <Select value={location} onValueChange={setLocation}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map(item => (
+                  <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All categories</SelectItem>
+                  {categories.map(item => (
+                    <SelectItem key={item} value={item}>{item}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <Select value={supplier} onValueChange={setSupplier}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All suppliers</SelectItem>
+                  {suppliers.map(item => (
+                    <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stockTakeNote">Note</Label>
+            <Input
+              id="stockTakeNote"
+              placeholder="Optional, e.g. quarterly count"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleStart} disabled={isSaving}>
+            {isSaving ? 'Starting...' : 'Start Count'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewStockTakeDialog;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { StockTakeStatus } from '@/lib/types';
+
+const StockTakeStatusBadge: React.FC<{ status: StockTakeStatus }> = ({ status }) => {
+  switch (status) {
+    case 'counting':
+      return <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">Counting</Badge>;
+    case 'submitted':
+      return <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">Awaiting approval</Badge>;
+    case 'approved':
+      return <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Approved</Badge>;
+    case 'canceled':
+      return <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">Canceled</Badge>;
+  }
+};
+
+export default StockTakeStatusBadge;
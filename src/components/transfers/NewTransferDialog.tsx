@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { createTransfer } from '@/api/transfers';
+import { getLocationStock } from '@/lib/locations';
+import { Location, Product } from '@/lib/types';
+
+interface NewTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  locations: Location[];
+  products: Product[];
+  onCreated: () => void;
+}
+
+const NewTransferDialog: React.FC<NewTransferDialogProps> = ({ open, onOpenChange, locations, products, onCreated }) => {
+  const { toast } = useToast();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [lines, setLines] = useState<{ productId: string; quantity: number }[]>([]);
+  const [productId, setProductId] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start each transfer afresh
+  useEffect(() => {
+    if (open) {
+      setFrom('');
+      setTo('');
+      setLines([]);
+      setProductId('');
+      setQuantity('1');
+      setNote('');
+    }
+  }, [open]);
+
+  const getProduct = (id: string) => products.find(product => product.id === id);
+
+  const handleAddLine = () => {
+    const amount = parseInt(quantity, 10);
+    if (!productId || isNaN(amount) || amount <= 0) {
+      toast({
+        title: 'Invalid item',
+        description: 'Choose a product and a quantity of at least 1',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const existing = lines.find(line => line.productId === productId);
+    setLines(existing
+      ? lines.map(line => line.productId === productId ? { ...line, quantity: line.quantity + amount } : line)
+      : [...lines, { productId, quantity: amount }]);
+    setProductId('');
+    setQuantity('1');
+  };
+
+  const handleSave = async () => {
+    if (!from || !to || from === to || lines.length === 0) {
+      toast({
+        title: 'Invalid transfer',
+        description: 'Choose two different locations and at least one item',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await createTransfer({
+        from,
+        to,
+        lines: lines.map(line => ({ product: line.productId, quantity: line.quantity })),
+        note: note.trim() || undefined
+      });
+      toast({ title: 'Transfer drafted', description: 'Dispatch it when the goods leave', duration: 2000 });
+      onCreated();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create transfer',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>New Transfer</DialogTitle>
+          <DialogDescription>
+            Draft the stock to move. It leaves the source when the transfer is dispatched.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select value={from} onValueChange={setFrom}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Select value={to} onValueChange={setTo}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.filter(location => location.id !== from).map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Items</Label>
+            <div className="flex gap-2">
+              <select
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                value={productId}
+                onChange={(e) => setProductId(e.target.value)}
+              >
+                <option value="">Select a product</option>
+                {products.map(product => (
+                  <option key={product.id} value={product.id}>
+                    {product.name}{from ? ` (${getLocationStock(product, from)} available)` : ''}
+                  </option>
+                ))}
+              </select>
+              <Input
+                type="number"
+                min="1"
+                className="w-24"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+              <Button type="button" variant="outline" size="icon" onClick={handleAddLine}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {lines.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No items added yet</p>
+            ) : (
+              <div className="space-y-1">
+                {lines.map(line => {
+                  const product = getProduct(line.productId);
+                  const available = product && from ? getLocationStock(product, from) : undefined;
+                  return (
+                    <div key={line.productId} className="flex items-center justify-between text-sm">
+                      <span>
+                        {line.quantity}x {product?.name || 'Unknown Product'}
+                        {available !== undefined && available < line.quantity && (
+                          <span className="text-destructive ml-2">only {available} at source</span>
+                        )}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => setLines(lines.filter(item => item.productId !== line.productId))}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transferNote">Note</Label>
+            <Input
+              id="transferNote"
+              placeholder="Optional, e.g. restock for the weekend"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Draft'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewTransferDialog;
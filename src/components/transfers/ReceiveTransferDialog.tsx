@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { receiveTransfer } from '@/api/transfers';
+import { Transfer } from '@/lib/types';
+
+interface ReceiveTransferDialogProps {
+  transfer: Transfer | null;
+  onOpenChange: (open: boolean) => void;
+  onReceived: () => void;
+}
+
+// Count in a dispatched transfer. Lines that come up short need a reason.
+const ReceiveTransferDialog: React.FC<ReceiveTransferDialogProps> = ({ transfer, onOpenChange, onReceived }) => {
+  const { toast } = useToast();
+  const [received, setReceived] = useState<Record<string, { quantity: string; reason: string }>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Assume everything arrived until told otherwise
+  useEffect(() => {
+    if (transfer) {
+      setReceived(Object.fromEntries(
+        transfer.lines.map(line => [line.productId, { quantity: String(line.quantity), reason: '' }])
+      ));
+    }
+  }, [transfer]);
+
+  const handleReceive = async () => {
+    if (!transfer) return;
+
+    const lines = [];
+    for (const line of transfer.lines) {
+      const entry = received[line.productId];
+      const receivedQuantity = parseInt(entry?.quantity ?? '', 10);
+      if (isNaN(receivedQuantity) || receivedQuantity < 0 || receivedQuantity > line.quantity) {
+        toast({
+          title: 'Invalid quantity',
+          description: `Received ${line.productName || 'quantity'} must be between 0 and ${line.quantity}`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      if (receivedQuantity < line.quantity && !entry.reason.trim()) {
+        toast({
+          title: 'Reason needed',
+          description: `Say why ${line.quantity - receivedQuantity} of ${line.productName || 'this item'} did not arrive`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      lines.push({
+        product: line.productId,
+        receivedQuantity,
+        discrepancyReason: receivedQuantity < line.quantity ? entry.reason.trim() : undefined
+      });
+    }
+
+    try {
+      setIsSaving(true);
+      await receiveTransfer(transfer.id, lines);
+      toast({ title: 'Transfer received', description: `Stock added at ${transfer.toName}`, duration: 2000 });
+      onReceived();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to receive transfer',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!transfer} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Receive Transfer</DialogTitle>
+          <DialogDescription>
+            {transfer && `From ${transfer.fromName} to ${transfer.toName}. Enter what actually arrived.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {transfer && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Sent</TableHead>
+                <TableHead className="w-24">Received</TableHead>
+                <TableHead>Reason if short</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transfer.lines.map(line => {
+                const entry = received[line.productId] || { quantity: '', reason: '' };
+                const isShort = parseInt(entry.quantity, 10) < line.quantity;
+                return (
+                  <TableRow key={line.productId}>
+                    <TableCell className="font-medium">{line.productName || 'Unknown Product'}</TableCell>
+                    <TableCell className="text-right">{line.quantity}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={line.quantity}
+                        value={entry.quantity}
+                        onChange={(e) => setReceived({ ...received, [line.productId]: { ...entry, quantity: e.target.value } })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        placeholder={isShort ? 'e.g. damaged in transit' : ''}
+                        disabled={!isShort}
+                        value={entry.reason}
+                        onChange={(e) => setReceived({ ...received, [line.productId]: { ...entry, reason: e.target.value } })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleReceive} disabled={isSaving}>
+            {isSaving ? 'Receiving...' : 'Receive'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiveTransferDialog;
@@ -0,0 +1,42 @@
+import * as React from "react"
+
+// Keyboard-wedge scanners type the barcode far faster than anyone can, then press Enter
+const MAX_KEY_GAP_MS = 50
+const MIN_BARCODE_LENGTH = 6
+
+// Calls `onScan` with each barcode typed by a scanner while `enabled`. Keys typed at
+// human speed are left alone; the Enter that ends a scan is swallowed, so it doesn't
+// also submit whatever field has focus.
+export function useBarcodeScanner(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = React.useRef(onScan)
+  onScanRef.current = onScan
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let buffer = ""
+    let lastKeyAt = 0
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      const now = performance.now()
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) {
+        buffer = ""
+      }
+      lastKeyAt = now
+
+      if (event.key === "Enter") {
+        if (buffer.length >= MIN_BARCODE_LENGTH) {
+          event.preventDefault()
+          event.stopPropagation()
+          onScanRef.current(buffer)
+        }
+        buffer = ""
+      } else if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        buffer += event.key
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown, true)
+    return () => window.removeEventListener("keydown", onKeyDown, true)
+  }, [enabled])
+}
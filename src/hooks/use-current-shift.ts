@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query"
+import { getCurrentShift } from "@/api/shifts"
+import { withOfflineCache } from "@/lib/offline"
+import { useTillStore } from "@/lib/stores/tillStore"
+
+// The open shift on this till, or null. The last one fetched is used while offline,
+// so cash sales queued then still attach to the shift.
+export function useCurrentShift() {
+  const tillId = useTillStore((state) => state.tillId)
+
+  return useQuery({
+    queryKey: ["shift", tillId],
+    queryFn: () => withOfflineCache(`shift:${tillId}`, () => getCurrentShift(tillId)),
+  })
+}
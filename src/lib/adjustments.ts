@@ -0,0 +1,15 @@
+import { AdjustmentReason } from './types';
+
+export const ADJUSTMENT_REASONS: { value: AdjustmentReason; label: string }[] = [
+  { value: 'damage', label: 'Damage' },
+  { value: 'theft', label: 'Theft' },
+  { value: 'expiry', label: 'Expiry' },
+  { value: 'internal-use', label: 'Internal use' },
+  { value: 'found', label: 'Found' },
+];
+
+export const getAdjustmentReasonLabel = (reason: string) =>
+  ADJUSTMENT_REASONS.find(item => item.value === reason)?.label || reason;
+
+// Every reason but `found` takes stock away
+export const isWriteOff = (reason: AdjustmentReason) => reason !== 'found';
@@ -0,0 +1,22 @@
+// Till beeps played through Web Audio, so the cashier can tell a scan worked without looking up
+let audioContext: AudioContext | null = null;
+
+const playTone = (frequency: number, seconds: number) => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = frequency;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + seconds);
+  } catch (error) {
+    // No audio device: the toast still says what happened
+  }
+};
+
+export const beepSuccess = () => playTone(1800, 0.08);
+
+export const beepError = () => playTone(220, 0.35);
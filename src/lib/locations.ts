@@ -0,0 +1,14 @@
+import { Location, Product } from './types';
+
+// The till's location, or the default one if it hasn't picked one (or the one it picked is gone)
+export const resolveLocation = (locations: Location[], locationId?: string | null): Location | undefined =>
+  locations.find(location => location.id === locationId) || locations.find(location => location.isDefault);
+
+// What a product has at one location
+export const getLocationStock = (product: Product, locationId: string): number =>
+  product.stockByLocation?.find(entry => entry.location === locationId)?.stock || 0;
+
+// When to reorder a product at one location. This mirrors the reorder check in
+// reorderService: locations without their own level use the product's.
+export const getLocationReorderLevel = (product: Product, locationId: string): number | undefined =>
+  product.stockByLocation?.find(entry => entry.location === locationId)?.reorderLevel ?? product.reorderLevel;
@@ -0,0 +1,15 @@
+import { Product, ProductLot } from './types';
+
+// A lot is expired from the start of its expiry date. This mirrors isLotExpired on the server.
+export const isLotExpired = (lot: Pick<ProductLot, 'expiryDate'>, now: Date = new Date()): boolean => {
+  if (!lot.expiryDate) return false;
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return lot.expiryDate <= today;
+};
+
+// Units past their expiry date, which can't be sold: at one location, or across all of them
+export const getExpiredStock = (product: Product, locationId?: string): number =>
+  (product.lots || [])
+    .filter(lot => (!locationId || lot.location === locationId) && isLotExpired(lot))
+    .reduce((sum, lot) => sum + lot.quantity, 0);
@@ -0,0 +1,82 @@
+import { isNetworkError } from '@/api/client';
+import { OutboxEntry } from './types';
+
+// IndexedDB keeps what the till needs to go on selling while the network is down:
+// the last catalogue and tax settings it fetched, and the sales it has yet to send.
+const DB_NAME = 'jungle-safari-pos';
+const DB_VERSION = 1;
+const CATALOGUE_STORE = 'catalogue';
+const OUTBOX_STORE = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CATALOGUE_STORE)) {
+          db.createObjectStore(CATALOGUE_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'idempotencyKey' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request against a store and resolve once its transaction has committed
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Fetch through `fetcher`, keeping a copy under `key`. When the network is down the
+// last copy is returned instead, so the till still has products and prices to sell.
+export async function withOfflineCache<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  try {
+    const data = await fetcher();
+    runRequest(CATALOGUE_STORE, 'readwrite', store => store.put(data, key))
+      .catch(error => console.warn(`Could not cache ${key} for offline use:`, error));
+    return data;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+
+    const cached = await runRequest<T | undefined>(CATALOGUE_STORE, 'readonly', store => store.get(key))
+      .catch(() => undefined);
+    if (cached === undefined) throw error;
+
+    console.warn(`Offline: using the cached ${key}`);
+    return cached;
+  }
+}
+
+// Sales waiting to be sent, oldest first
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  const entries = await runRequest<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime());
+};
+
+export const putOutboxEntry = (entry: OutboxEntry): Promise<IDBValidKey> =>
+  runRequest(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+
+export const deleteOutboxEntry = (idempotencyKey: string): Promise<undefined> =>
+  runRequest(OUTBOX_STORE, 'readwrite', store => store.delete(idempotencyKey));
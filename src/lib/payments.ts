@@ -0,0 +1,44 @@
+import { PaymentTender, RefundMethod, Sale, SalePayment } from './types';
+
+export interface TenderSummary {
+  paid: number;
+  remaining: number; // still to be paid
+  changeDue: number; // cash to hand back
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// How far the tenders taken so far go towards `total`. This mirrors settlePayments
+// in server.js, which re-checks the payments when the sale is saved.
+export const summarizeTenders = (payments: SalePayment[], total: number): TenderSummary => {
+  const paid = roundCurrency(payments.reduce((sum, payment) => sum + payment.amount, 0));
+  return {
+    paid,
+    remaining: roundCurrency(Math.max(total - paid, 0)),
+    changeDue: roundCurrency(Math.max(paid - total, 0))
+  };
+};
+
+// The tenders a sale was paid with. Sales from before split payments were paid in full by one.
+export const getSaleTenders = (sale: Sale): SalePayment[] =>
+  sale.payments && sale.payments.length > 0
+    ? sale.payments
+    : [{ method: sale.paymentMethod as PaymentTender, amount: sale.totalAmount }];
+
+// Tenders that are charged through a payment provider rather than taken at the till
+export const isChargedTender = (method: PaymentTender) => method === 'card' || method === 'online' || method === 'upi';
+
+// The tender a refund goes back on by default: the one that paid the most.
+// This mirrors getPrimaryTender in server.js; a sale paid only in points refunds as cash.
+export const getPrimaryTender = (sale: Sale): RefundMethod => {
+  const refundable = getSaleTenders(sale).filter(payment => payment.method !== 'loyalty');
+  if (refundable.length === 0) return 'cash';
+  return refundable.reduce((largest, payment) => (payment.amount > largest.amount ? payment : largest)).method as RefundMethod;
+};
+
+// Short description of how a sale was paid, e.g. "cash ₹200.00 + card ₹150.00"
+export const describeTenders = (sale: Sale): string => {
+  const tenders = getSaleTenders(sale);
+  if (tenders.length === 1) return tenders[0].method;
+  return tenders.map(payment => `${payment.method} ₹${payment.amount.toFixed(2)}`).join(' + ');
+};
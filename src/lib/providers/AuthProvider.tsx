@@ -2,14 +2,14 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuthStore, User, UserRole } from '../stores/authStore';
 import { useToast } from '@/components/ui/use-toast';
-import { registerUser, loginUser, getAllUsers, updateUserRole } from '../../api/auth';
+import { registerUser, loginUser, logoutUser, getAllUsers, updateUserRole } from '../../api/auth';
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<boolean>;
   logout: () => void;
-  hasPermission: (module: string) => boolean;
+  hasPermission: (permission: string) => boolean;
   signup: (name: string, email: string, password: string, role: UserRole) => Promise<boolean>;
   userList: User[];
   updateUserRole: (userId: string, newRole: UserRole) => Promise<boolean>;
@@ -22,7 +22,7 @@ interface AuthProviderProps {
   children: React.ReactNode;
 }
 
-// Map of routes to their required module permissions
+// Map of routes (and the pages under them) to their required module permissions
 const routePermissions: Record<string, string> = {
   '/': 'dashboard',
   '/inventory': 'inventory',
@@ -31,13 +31,17 @@ const routePermissions: Record<string, string> = {
   '/analytics': 'analytics',
   '/settings': 'settings',
   '/suppliers': 'suppliers',
+  '/purchase-orders': 'inventory',
+  '/transfers': 'transfers:read',
+  '/stock-takes': 'stockTakes:read',
+  '/customers': 'customers:read',
 };
 
 // Public routes that don't require authentication
 const publicRoutes = ['/auth', '/login', '/signup'];
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const { isAuthenticated, user, login: storeLogin, logout, hasPermission } = useAuthStore();
+  const { isAuthenticated, user, refreshToken, login: storeLogin, logout: storeLogout, hasPermission } = useAuthStore();
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
@@ -58,21 +62,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
   
-  // Load users on initial mount
+  // Load users once signed in as someone allowed to manage them
   useEffect(() => {
-    loadUsers();
-  }, []);
+    if (isAuthenticated && hasPermission('users:manage')) {
+      loadUsers();
+    }
+  }, [isAuthenticated, user?.role]);
   
   // Handle login with database
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
-      const user = await loginUser(email, password);
+      const session = await loginUser(email, password);
       
-      if (user) {
-        storeLogin(user);
+      if (session) {
+        storeLogin(session.user, session);
         toast({
           title: "Login successful",
-          description: `Welcome back, ${user.name}!`,
+          description: `Welcome back, ${session.user.name}!`,
         });
         return true;
       }
@@ -97,14 +103,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Handle signup with database
   const signup = async (name: string, email: string, password: string, role: UserRole): Promise<boolean> => {
     try {
-      const newUser = await registerUser(name, email, password, role);
+      const session = await registerUser(name, email, password, role);
       
-      if (newUser) {
+      if (session) {
         // Add user to the list
-        setUserList(prev => [...prev, newUser]);
+        setUserList(prev => [...prev, session.user]);
         
         // Auto login the new user
-        storeLogin(newUser);
+        storeLogin(session.user, session);
         
         toast({
           title: "Signup successful",
@@ -171,6 +177,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
   
+  // Handle logout: revoke the refresh token, then clear the local session
+  const logout = () => {
+    logoutUser(refreshToken);
+    storeLogout();
+  };
+  
   // Check permissions for the current route
   useEffect(() => {
     // Skip checking on initial authentication load
@@ -186,7 +198,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     
     // Only check permissions if user is authenticated
     if (isAuthenticated) {
-      const requiredPermission = routePermissions[location.pathname];
+      const requiredPermission = routePermissions[`/${location.pathname.split('/')[1]}`];
       
       // If this route needs permission and user doesn't have it
       if (requiredPermission && !hasPermission(requiredPermission) && location.pathname !== '/unauthorized') {
@@ -3,6 +3,7 @@ import { useNotificationStore } from '../stores/notificationStore';
 import { NotificationService } from '../services/notificationService';
 import { useQuery } from '@tanstack/react-query';
 import { getAllProducts } from '@/api/product';
+import { getExpiringLots } from '@/api/lots';
 
 interface NotificationProviderProps {
   children: React.ReactNode;
@@ -20,6 +21,19 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     refetchInterval: 60000, // Refetch every minute
   });
   
+  // Lots close to expiry, in the store's alert window
+  const { data: expiring } = useQuery({
+    queryKey: ['expiring-lots'],
+    queryFn: () => getExpiringLots(),
+    refetchInterval: 60 * 60 * 1000, // Expiry moves by the day; hourly is plenty
+  });
+  
+  useEffect(() => {
+    if (expiring && expiring.lots.length > 0) {
+      NotificationService.checkExpiringLots(expiring.lots, expiring.days);
+    }
+  }, [expiring]);
+  
   // Check for low stock items on initialization and after product data updates
   useEffect(() => {
     if (products.length > 0) {
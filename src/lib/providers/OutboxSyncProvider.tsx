@@ -0,0 +1,32 @@
+import React, { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useOutboxStore } from '../stores/outboxStore';
+import { useAuthStore } from '../stores/authStore';
+import { useSalesStore } from '../stores/salesStore';
+
+// Sends sales rung up offline as soon as the till is back online (and once on start-up,
+// in case it came back while the app was closed)
+export const OutboxSyncProvider: React.FC<{ children: React.ReactNode }> = ({ 
+  children 
+}) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const syncOutbox = async () => {
+      await useOutboxStore.getState().load();
+      if (!useAuthStore.getState().accessToken) return;
+
+      const sent = await useOutboxStore.getState().sync();
+      if (sent > 0) {
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+        useSalesStore.getState().fetchSales();
+      }
+    };
+
+    syncOutbox();
+    window.addEventListener('online', syncOutbox);
+    return () => window.removeEventListener('online', syncOutbox);
+  }, [queryClient]);
+
+  return <>{children}</>;
+};
@@ -1,5 +1,5 @@
 import { useNotificationStore } from '../stores/notificationStore';
-import { Product } from '../types';
+import { ExpiringLot, Product } from '../types';
 
 // Default threshold when product doesn't have a reorderLevel
 const DEFAULT_LOW_STOCK_THRESHOLD = 5;
@@ -56,6 +56,30 @@ export const NotificationService = {
     });
   },
   
+  // Alert for lots within `days` of their expiry date, and for lots already expired
+  checkExpiringLots: (lots: ExpiringLot[], days: number) => {
+    if (!canShowNotification('expiry-check')) return;
+    
+    const store = getNotificationStore();
+    
+    lots.forEach(lot => {
+      const where = lot.locationName ? ` at ${lot.locationName}` : '';
+      store.addNotification(lot.expired ? {
+        type: 'error',
+        title: 'Expired Stock',
+        message: `${lot.quantity} x ${lot.productName} (batch ${lot.batchNumber})${where} expired on ${lot.expiryDate.toLocaleDateString()} and can't be sold`,
+        link: '/'
+      } : {
+        type: 'warning',
+        title: 'Near Expiry Alert',
+        message: `${lot.quantity} x ${lot.productName} (batch ${lot.batchNumber})${where} expires in ${lot.daysLeft} day(s), within the ${days}-day window`,
+        link: '/'
+      });
+    });
+    
+    console.log(`Found ${lots.length} lots expiring within ${days} days`);
+  },
+  
   // Notify when a new product is added
   notifyNewProduct: (product: Product) => {
     if (!canShowNotification(`new-product-${product.id}`)) return;
@@ -2,8 +2,10 @@ import { Product } from '../types';
 import { useNotificationStore } from '../stores/notificationStore';
 import { createPurchaseOrder } from '@/api/purchaseOrder';
 import { updateProduct, getAllProducts } from '@/api/product';
+import { useAuthStore } from '../stores/authStore';
+import { getLocationReorderLevel, getLocationStock } from '../locations';
 
-// Keep track of last reorder times
+// Keep track of last reorder times, per product and location
 const lastReorderTimes = new Map<string, number>();
 const REORDER_COOLDOWN = 30 * 60 * 1000; // 30 minutes cooldown
 
@@ -20,6 +22,11 @@ export const setupAutoReorderSchedule = () => {
       return;
     }
     
+    // Only users who may raise purchase orders run the auto-reorder check
+    if (!useAuthStore.getState().hasPermission('purchaseOrders:write')) {
+      return;
+    }
+    
     try {
       isChecking = true;
       const products = await getAllProducts();
@@ -40,33 +47,46 @@ export const setupAutoReorderSchedule = () => {
 
 export const ReorderService = {
   /**
-   * Check products and create purchase orders for those that need restocking
+   * Check products and create purchase orders for those that need restocking.
+   * Each location a product is kept at is checked against its own reorder level,
+   * and gets its own order delivered to it.
    */
   checkAndReorderProducts: async (products: Product[]) => {
     if (!products || products.length === 0) return;
     
     const now = Date.now();
-    const supplierGroups: { [key: string]: Product[] } = {};
+    const supplierGroups: { [key: string]: { supplier: string; location?: string; products: Product[] } } = {};
     
     // Filter products that need reordering
     products.forEach(product => {
       if (!product.autoReorder || !product.targetStockLevel || product.targetStockLevel <= 0) return;
       
-      const lastReorderTime = lastReorderTimes.get(product.id) || 0;
-      const timeSinceLastReorder = now - lastReorderTime;
+      // Products the server hasn't placed at a location yet are checked on their total
+      const locationIds: (string | undefined)[] = product.stockByLocation?.length
+        ? product.stockByLocation.map(entry => entry.location)
+        : [undefined];
       
-      if (product.stock < product.reorderLevel && timeSinceLastReorder >= REORDER_COOLDOWN) {
-        const supplierId = product.supplier?.toString() || 'default';
-        if (!supplierGroups[supplierId]) {
-          supplierGroups[supplierId] = [];
+      locationIds.forEach(locationId => {
+        const reorderKey = `${product.id}:${locationId || ''}`;
+        const lastReorderTime = lastReorderTimes.get(reorderKey) || 0;
+        const timeSinceLastReorder = now - lastReorderTime;
+        const stock = locationId ? getLocationStock(product, locationId) : product.stock;
+        const reorderLevel = locationId ? getLocationReorderLevel(product, locationId) : product.reorderLevel;
+        
+        if (stock < reorderLevel && timeSinceLastReorder >= REORDER_COOLDOWN) {
+          const supplierId = product.supplier?.toString() || 'default';
+          const groupKey = `${supplierId}:${locationId || ''}`;
+          if (!supplierGroups[groupKey]) {
+            supplierGroups[groupKey] = { supplier: supplierId, location: locationId, products: [] };
+          }
+          supplierGroups[groupKey].products.push(product);
+          lastReorderTimes.set(reorderKey, now);
         }
-        supplierGroups[supplierId].push(product);
-        lastReorderTimes.set(product.id, now);
-      }
+      });
     });
     
-    // Create purchase orders by supplier
-    for (const [supplier, supplierProducts] of Object.entries(supplierGroups)) {
+    // Create purchase orders by supplier and location
+    for (const { supplier, location, products: supplierProducts } of Object.values(supplierGroups)) {
       try {
         const orderProducts = supplierProducts.map(product => ({
           productId: product.id,
@@ -81,7 +101,8 @@ export const ReorderService = {
           totalAmount: orderProducts.reduce((total, item) => 
             total + (item.quantity * item.unitPrice), 0),
           orderDate: new Date(),
-          expectedDeliveryDate: new Date(now + 7 * 24 * 60 * 60 * 1000)
+          expectedDeliveryDate: new Date(now + 7 * 24 * 60 * 60 * 1000),
+          location
         };
         
         await createPurchaseOrder(purchaseOrderData);
@@ -93,7 +114,7 @@ export const ReorderService = {
       } catch (error) {
         console.error('Failed to create auto purchase order:', error);
         // Reset reorder times for failed products
-        supplierProducts.forEach(product => lastReorderTimes.delete(product.id));
+        supplierProducts.forEach(product => lastReorderTimes.delete(`${product.id}:${location || ''}`));
       }
     }
   },
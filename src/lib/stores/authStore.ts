@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import permissionMatrix from '../permissions.json';
 
 export type UserRole = 'admin' | 'staff' | 'guest';
 
@@ -14,40 +15,55 @@ export interface User {
 interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
-  login: (user: User) => void;
+  accessToken: string | null;
+  refreshToken: string | null;
+  login: (user: User, tokens?: { accessToken?: string; refreshToken?: string }) => void;
+  setTokens: (accessToken: string, refreshToken: string) => void;
   logout: () => void;
-  hasPermission: (module: string) => boolean;
+  hasPermission: (permission: string) => boolean;
 }
 
-// Role-based access control configuration
-const rolePermissions: Record<UserRole, string[]> = {
-  admin: ['dashboard', 'inventory', 'billing', 'transactions', 'analytics', 'settings', 'suppliers'],
-  staff: ['dashboard', 'transactions', 'analytics', 'settings'],
-  guest: []
-};
+// Role-based access control configuration, shared with the server so the UI and API agree.
+// Permissions are `module:action` strings, e.g. `inventory:write` or `sales:void`.
+export const rolePermissions: Record<UserRole, string[]> = permissionMatrix;
+
+// A bare module name (e.g. 'inventory') asks whether the module's screens can be viewed
+const normalizePermission = (permission: string): string =>
+  permission.includes(':') ? permission : `${permission}:view`;
 
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
       user: null,
       isAuthenticated: false,
+      accessToken: null,
+      refreshToken: null,
       
-      login: (user) => set({ 
+      login: (user, tokens) => set((state) => ({ 
         user,
-        isAuthenticated: true
+        isAuthenticated: true,
+        accessToken: tokens?.accessToken ?? state.accessToken,
+        refreshToken: tokens?.refreshToken ?? state.refreshToken
+      })),
+      
+      setTokens: (accessToken, refreshToken) => set({
+        accessToken,
+        refreshToken
       }),
       
       logout: () => set({ 
         user: null,
-        isAuthenticated: false 
+        isAuthenticated: false,
+        accessToken: null,
+        refreshToken: null
       }),
       
-      hasPermission: (module) => {
+      hasPermission: (permission) => {
         const { user } = get();
         if (!user) return false;
         
         const permissions = rolePermissions[user.role] || [];
-        return permissions.includes(module);
+        return permissions.includes(normalizePermission(permission));
       }
     }),
     {
@@ -0,0 +1,121 @@
+import { create } from 'zustand';
+import { createSale } from '@/api/sales';
+import { ApiError, isNetworkError } from '@/api/client';
+import { deleteOutboxEntry, getOutboxEntries, putOutboxEntry } from '@/lib/offline';
+import { OutboxEntry, Sale } from '@/lib/types';
+
+type OutboxSale = Omit<Sale, 'id'> & { idempotencyKey: string };
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  isSyncing: boolean;
+  load: () => Promise<void>;
+  enqueue: (sale: OutboxSale) => Promise<void>;
+  sync: () => Promise<number>;
+  resolve: (idempotencyKey: string, options?: { allowNegativeStock?: boolean }) => Promise<OutboxEntry | null>;
+  discard: (idempotencyKey: string) => Promise<void>;
+}
+
+// Send one queued sale. Resolves with the entry as it now stands, or null once the
+// server has recorded it; rejects with the network error if the till is still offline.
+// The idempotency key means a sale that reached the server before the connection
+// dropped is not recorded twice.
+const sendEntry = async (entry: OutboxEntry, options: { allowNegativeStock?: boolean } = {}): Promise<OutboxEntry | null> => {
+  const attempt: OutboxEntry = { ...entry, attempts: entry.attempts + 1, lastAttemptAt: new Date() };
+
+  try {
+    await createSale(entry.sale, options);
+    await deleteOutboxEntry(entry.idempotencyKey);
+    return null;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      await putOutboxEntry(attempt);
+      throw error;
+    }
+
+    // The server turned the sale down, e.g. the stock ran out while the till was offline.
+    // It stays in the outbox until someone resolves it.
+    if (error instanceof ApiError && error.status === 400) {
+      const conflict: OutboxEntry = {
+        ...attempt,
+        status: 'conflict',
+        conflict: error.code === 'insufficient-stock' ? 'insufficient-stock' : 'rejected',
+        error: error.message
+      };
+      await putOutboxEntry(conflict);
+      return conflict;
+    }
+
+    // Anything else (signed out, server down) is tried again on the next sync
+    const pending: OutboxEntry = { ...attempt, error: error instanceof Error ? error.message : String(error) };
+    await putOutboxEntry(pending);
+    return pending;
+  }
+};
+
+export const useOutboxStore = create<OutboxState>()((set, get) => ({
+  entries: [],
+  isSyncing: false,
+
+  load: async () => {
+    try {
+      set({ entries: await getOutboxEntries() });
+    } catch (error) {
+      console.error('Error loading the sale outbox:', error);
+    }
+  },
+
+  // Keep a sale the till could not send, to send when it is back online
+  enqueue: async (sale) => {
+    await putOutboxEntry({
+      idempotencyKey: sale.idempotencyKey,
+      sale: { ...sale, offline: true },
+      status: 'pending',
+      attempts: 0,
+      queuedAt: new Date()
+    });
+    await get().load();
+  },
+
+  // Send every pending sale, oldest first, stopping if the network drops again.
+  // Resolves with how many were recorded.
+  sync: async () => {
+    if (get().isSyncing || !navigator.onLine) return 0;
+
+    set({ isSyncing: true });
+    let sent = 0;
+    try {
+      const pending = (await getOutboxEntries()).filter(entry => entry.status === 'pending');
+      for (const entry of pending) {
+        if (await sendEntry(entry) === null) {
+          sent += 1;
+        }
+      }
+    } catch (error) {
+      console.warn('Stopped syncing offline sales:', error);
+    } finally {
+      set({ isSyncing: false });
+      await get().load();
+    }
+    return sent;
+  },
+
+  // Try a conflicting sale again, optionally recording it even though the stock on hand
+  // says it can't have happened. Resolves with the entry if it is still in conflict.
+  resolve: async (idempotencyKey, options = {}) => {
+    const entry = get().entries.find(item => item.idempotencyKey === idempotencyKey);
+    if (!entry) return null;
+
+    try {
+      return await sendEntry(entry, options);
+    } finally {
+      await get().load();
+    }
+  },
+
+  // Drop a sale that should never be recorded
+  discard: async (idempotencyKey) => {
+    await deleteOutboxEntry(idempotencyKey);
+    await get().load();
+  }
+}));
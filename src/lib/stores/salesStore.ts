@@ -2,8 +2,9 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { mockSales } from '@/lib/mockData';
 import { Sale, Product, ChartData } from '@/lib/types';
-import { getAllSales, createSale, deleteSale as apiDeleteSale, getSalesAnalytics } from '@/api/sales';
+import { getAllSales, createSale, voidSale as apiVoidSale, getSalesAnalytics } from '@/api/sales';
 import { getProductCategories } from '@/api/product';
+import { getSaleTenders } from '@/lib/payments';
 import { useEffect } from 'react';
 
 interface SalesState {
@@ -13,7 +14,7 @@ interface SalesState {
   fetchSales: () => Promise<void>;
   addSale: (sale: Omit<Sale, 'id'>) => Promise<Sale>;
   updateSale: (id: string, updatedSale: Partial<Sale>) => void;
-  deleteSale: (id: string) => Promise<boolean>;
+  voidSale: (id: string, reason: string) => Promise<boolean>;
   
   // Analytics data getters
   getTotalRevenue: () => number;
@@ -41,6 +42,13 @@ const ensureDateObject = (date: Date | string): Date => {
   return new Date(date);
 };
 
+// Voided sales stay in the list but are left out of every analytics figure
+const getActiveSales = (sales: Sale[]): Sale[] => sales.filter(sale => !sale.voided);
+
+// What a sale line actually sold for: list price times quantity, less any promotion discounts
+const getLineRevenue = (item: Sale['products'][number]): number =>
+  item.quantity * item.priceAtSale - (item.discountAmount || 0);
+
 // Create a React hook to fetch sales data on component mount
 export const useFetchSales = () => {
   const { fetchSales, isLoading, error } = useSalesStore();
@@ -118,24 +126,26 @@ export const useSalesStore = create<SalesState>()(
           )
         })),
       
-      // Delete a sale
-      deleteSale: async (id: string) => {
+      // Void a sale - it stays in the list, marked as voided
+      voidSale: async (id: string, reason: string) => {
         set({ isLoading: true, error: null });
         try {
-          const success = await apiDeleteSale(id);
+          const voidDetails = await apiVoidSale(id, reason);
           
-          if (success) {
+          if (voidDetails) {
             set((state) => ({
-              sales: state.sales.filter(sale => sale.id !== id),
+              sales: state.sales.map(sale => 
+                sale.id === id ? { ...sale, ...voidDetails } : sale
+              ),
               isLoading: false
             }));
           }
           
-          return success;
+          return !!voidDetails;
         } catch (error) {
-          console.error('Error deleting sale:', error);
+          console.error('Error voiding sale:', error);
           set({ 
-            error: error instanceof Error ? error.message : 'Failed to delete sale',
+            error: error instanceof Error ? error.message : 'Failed to void sale',
             isLoading: false 
           });
           return false;
@@ -143,13 +153,14 @@ export const useSalesStore = create<SalesState>()(
       },
         
       // Analytics functions - these still use the local state but will reflect data from MongoDB
+      // Net of any amounts refunded through returns
       getTotalRevenue: () => {
-        const { sales } = get();
-        return sales.reduce((total, sale) => total + sale.totalAmount, 0);
+        const sales = getActiveSales(get().sales);
+        return sales.reduce((total, sale) => total + sale.totalAmount - (sale.refundedAmount || 0), 0);
       },
       
       getTotalCost: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         return sales.reduce((total, sale) => 
           total + sale.products.reduce((subtotal, item) => 
             subtotal + (item.product.costPrice * item.quantity), 0), 0);
@@ -167,18 +178,19 @@ export const useSalesStore = create<SalesState>()(
       },
       
       getTotalItemsSold: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         return sales.reduce((total, sale) => 
           total + sale.products.reduce((subtotal, item) => subtotal + item.quantity, 0), 0);
       },
       
       getAverageOrderValue: () => {
-        const { sales, getTotalRevenue } = get();
+        const { getTotalRevenue } = get();
+        const sales = getActiveSales(get().sales);
         return sales.length > 0 ? getTotalRevenue() / sales.length : 0;
       },
       
       getSalesByChannel: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         const channels: Record<string, number> = {};
         
         sales.forEach(sale => {
@@ -190,13 +202,13 @@ export const useSalesStore = create<SalesState>()(
       },
       
       getSalesByCategory: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         const categories: Record<string, number> = {};
         
         sales.forEach(sale => {
           sale.products.forEach(item => {
             const category = item.product.category;
-            const value = item.quantity * item.priceAtSale;
+            const value = getLineRevenue(item);
             categories[category] = (categories[category] || 0) + value;
           });
         });
@@ -205,19 +217,21 @@ export const useSalesStore = create<SalesState>()(
       },
       
       getSalesByPaymentMethod: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         const methods: Record<string, number> = {};
         
+        // Split sales count each tender under its own method
         sales.forEach(sale => {
-          const method = sale.paymentMethod;
-          methods[method] = (methods[method] || 0) + sale.totalAmount;
+          getSaleTenders(sale).forEach(payment => {
+            methods[payment.method] = (methods[payment.method] || 0) + payment.amount;
+          });
         });
         
         return Object.entries(methods).map(([name, value]) => ({ name, value }));
       },
       
       getMonthlySalesData: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         const months = [
           'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
           'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
@@ -237,7 +251,7 @@ export const useSalesStore = create<SalesState>()(
       
       // Get 24-hour sales data
       getHourlySalesData: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         const hourlyData: ChartData[] = [];
         
         // Create 24 hours of data
@@ -292,7 +306,7 @@ export const useSalesStore = create<SalesState>()(
       },
       
       getProductPerformance: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         const products: Record<string, { name: string; sold: number; revenue: number }> = {};
         
         sales.forEach(sale => {
@@ -302,7 +316,7 @@ export const useSalesStore = create<SalesState>()(
               products[id] = { name, sold: 0, revenue: 0 };
             }
             products[id].sold += item.quantity;
-            products[id].revenue += item.quantity * item.priceAtSale;
+            products[id].revenue += getLineRevenue(item);
           });
         });
         
@@ -310,7 +324,7 @@ export const useSalesStore = create<SalesState>()(
       },
       
       getLowStockProducts: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         const products: Record<string, Product> = {};
         
         // Extract all products from sales
@@ -329,7 +343,7 @@ export const useSalesStore = create<SalesState>()(
 
       // Analytics page specific functions
       getCategorySalesData: async () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         const categorySales: Record<string, number> = {};
         
         try {
@@ -346,7 +360,7 @@ export const useSalesStore = create<SalesState>()(
             sale.products.forEach(item => {
               const category = item.product.category;
               if (category) {
-                const revenue = item.quantity * item.priceAtSale;
+                const revenue = getLineRevenue(item);
                 categorySales[category] = (categorySales[category] || 0) + revenue;
               }
             });
@@ -380,7 +394,7 @@ export const useSalesStore = create<SalesState>()(
             sale.products.forEach(item => {
               const category = item.product.category;
               if (category) {
-                const revenue = item.quantity * item.priceAtSale;
+                const revenue = getLineRevenue(item);
                 categorySales[category] += revenue;
               }
             });
@@ -402,7 +416,7 @@ export const useSalesStore = create<SalesState>()(
       },
       
       getSalesChannelData: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         const channelMap: Record<string, number> = {
           'in-store': 0,
           'online': 0
@@ -426,7 +440,7 @@ export const useSalesStore = create<SalesState>()(
       },
       
       getSeasonalityData: () => {
-        const { sales } = get();
+        const sales = getActiveSales(get().sales);
         const monthlyData: Record<string, { value: number, tourists: number }> = {};
         
         // Initialize all months
@@ -0,0 +1,31 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+
+// Each browser the POS runs in is a till, with its own drawer and shifts
+interface TillState {
+  tillId: string;
+  tillName: string;
+  scanMode: boolean; // add scanned barcodes straight to the bill
+  locationId: string | null; // where the till sells from; null uses the default location
+  setTillName: (tillName: string) => void;
+  setScanMode: (scanMode: boolean) => void;
+  setLocationId: (locationId: string | null) => void;
+}
+
+export const useTillStore = create<TillState>()(
+  persist(
+    (set) => ({
+      tillId: uuidv4(),
+      tillName: 'Till 1',
+      scanMode: false,
+      locationId: null,
+      setTillName: (tillName: string) => set({ tillName }),
+      setScanMode: (scanMode: boolean) => set({ scanMode }),
+      setLocationId: (locationId: string | null) => set({ locationId }),
+    }),
+    {
+      name: 'invenhub-till-storage',
+    }
+  )
+);
@@ -1,11 +1,10 @@
 import { loadStripe } from '@stripe/stripe-js';
 
-// Test mode Stripe public key
-// In a real app this would be in .env.local
-const STRIPE_PUBLIC_KEY = 'pk_test_51R5ANkQqLNd9hUoltIxiX5GJfq1Hiu9XBAgCxI4cx1e3eIHeJIxQXgmpFh72Bu525CrW0Qx6HO672HBvQ3dkvwcg00cR8010Hl';
+// Stripe publishable key; it must belong to the same account as the server's STRIPE_SECRET_KEY
+const STRIPE_PUBLIC_KEY = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY;
 
-// Initialize Stripe
-export const stripePromise = loadStripe(STRIPE_PUBLIC_KEY);
+// Initialize Stripe; without a key the payment form stays disabled
+export const stripePromise = STRIPE_PUBLIC_KEY ? loadStripe(STRIPE_PUBLIC_KEY) : Promise.resolve(null);
 
 // Calculate price in cents for Stripe
 export const calculateOrderAmount = (items: any[]): number => {
@@ -0,0 +1,61 @@
+import { TaxBreakdownEntry, TaxSettings } from './types';
+
+export interface TaxableItem {
+  price: number;
+  quantity: number;
+  taxClass?: string | null;
+  discount?: number; // taken off the line before tax
+}
+
+export interface TaxSummary {
+  subtotal: number; // before tax
+  taxTotal: number;
+  total: number;
+  breakdown: TaxBreakdownEntry[];
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Preview the tax on a bill. This mirrors calculateSaleTax in server.js,
+// which recalculates and stores the real figures when the sale is saved.
+export const calculateTax = (items: TaxableItem[], settings?: TaxSettings): TaxSummary => {
+  const classes = settings?.classes || [];
+  const pricesIncludeTax = settings?.pricesIncludeTax || false;
+  const defaultClass = classes.find(taxClass => taxClass.isDefault);
+  const breakdown = new Map<number, TaxBreakdownEntry>();
+  let subtotal = 0;
+  let taxTotal = 0;
+  let total = 0;
+
+  items.forEach(item => {
+    const taxClass = classes.find(c => c.id === item.taxClass) || defaultClass;
+    const rate = taxClass ? taxClass.rate : 0;
+    const gross = item.price * item.quantity - (item.discount || 0);
+
+    let taxableAmount: number;
+    let taxAmount: number;
+    if (pricesIncludeTax) {
+      taxableAmount = roundCurrency(gross / (1 + rate / 100));
+      taxAmount = roundCurrency(gross - taxableAmount);
+    } else {
+      taxableAmount = roundCurrency(gross);
+      taxAmount = roundCurrency(gross * rate / 100);
+    }
+
+    subtotal += taxableAmount;
+    taxTotal += taxAmount;
+    total += taxableAmount + taxAmount;
+
+    const entry = breakdown.get(rate) || { name: taxClass?.name || 'No tax', rate, taxableAmount: 0, taxAmount: 0 };
+    entry.taxableAmount = roundCurrency(entry.taxableAmount + taxableAmount);
+    entry.taxAmount = roundCurrency(entry.taxAmount + taxAmount);
+    breakdown.set(rate, entry);
+  });
+
+  return {
+    subtotal: roundCurrency(subtotal),
+    taxTotal: roundCurrency(taxTotal),
+    total: roundCurrency(total),
+    breakdown: [...breakdown.values()].sort((a, b) => a.rate - b.rate)
+  };
+};
@@ -11,30 +11,323 @@ export interface Product {
   reorderLevel?: number;
   autoReorder?: boolean;
   targetStockLevel?: number;
+  taxClass?: string | null; // tax class ID; null uses the default class
+  stockByLocation?: LocationStock[]; // stock is the total across these
+  lots?: ProductLot[]; // batches with stock, first to expire first
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A place stock is kept. Requests that don't name one use the default location.
+export interface Location {
+  id: string;
+  name: string;
+  kind: 'store' | 'warehouse' | 'kiosk';
+  isDefault: boolean;
+}
+
+export interface LocationStock {
+  location: string; // location ID
+  stock: number;
+  reorderLevel?: number; // falls back to the product's reorder level
+}
+
+// A batch of a product received at a location. Sales take from the lot that expires first,
+// and a lot can't be sold from its expiry date on.
+export interface ProductLot {
+  id: string;
+  location: string; // location ID
+  batchNumber: string;
+  expiryDate?: Date;
+  quantity: number;
+  receivedAt: Date;
+  purchaseOrder?: string; // the purchase order it was received on
+}
+
+// A lot within the near-expiry window, or already past it
+export interface ExpiringLot {
+  productId: string;
+  productName: string;
+  barcode: string;
+  lotId: string;
+  batchNumber: string;
+  expiryDate: Date;
+  quantity: number;
+  location: string;
+  locationName?: string;
+  costValue: number;
+  expired: boolean;
+  daysLeft: number; // negative once expired
+}
+
+// A product found by a scanned barcode. Weighted-item labels (EAN-13 starting with 2)
+// carry their own price, and for goods sold by weight, the weight in kg.
+export interface ScannedProduct {
+  barcode: string; // the code as scanned
+  product: Product;
+  price: number; // what one unit of the scanned line costs
+  weight?: number;
+}
+
 export interface Sale {
   id: string;
   products: {
     product: Product;
     quantity: number;
     priceAtSale: number;
+    barcode?: string; // the weighted-item label the line was scanned from
+    discounts?: SaleLineDiscount[];
+    discountAmount?: number; // taken off quantity * priceAtSale, before tax
+    tax?: SaleLineTax;
+    lineTotal?: number; // tax included
   }[];
+  subtotal?: number; // before tax
+  discountTotal?: number;
+  couponCode?: string;
+  taxTotal?: number;
+  pricesIncludeTax?: boolean;
+  taxBreakdown?: TaxBreakdownEntry[];
   totalAmount: number;
-  paymentMethod: 'cash' | 'card' | 'online';
+  paymentMethod: PaymentTender | 'split'; // 'split' when paid with more than one kind of tender
+  payments?: SalePayment[];
+  changeDue?: number;
+  paymentIntentId?: string; // the payment intent that paid the card/online/UPI share
+  idempotencyKey?: string; // generated by the till so a resent sale is only recorded once
+  offline?: boolean; // rung up while the till was offline and synced later
+  customer?: string; // linked customer account ID
+  loyaltyPointsEarned?: number;
+  loyaltyPointsRedeemed?: number;
   customerId?: string;
   customerName?: string;
-  employeeId: string;
+  employeeId: string; // the signed-in user who rang the sale up
+  employeeName?: string;
+  shift?: string; // the till shift the sale was taken in
+  till?: string; // the till it was rung up on; offline sales can only go into its shifts
+  location?: string; // where the stock was sold from
   channel: 'in-store' | 'online';
   timestamp: Date;
+  refundedAmount?: number; // total refunded through returns
+  voided?: boolean;
+  voidedAt?: Date;
+  voidedBy?: {
+    id: string;
+    name: string;
+  };
+  voidReason?: string;
+}
+
+// A basket put on hold at the till. Its items are held back from other sales until it
+// is resumed, discarded or expires.
+export interface ParkedBill {
+  id: string;
+  label: string;
+  items: {
+    productId: string;
+    name?: string;
+    quantity: number;
+    barcode?: string; // the weighted-item label the line was scanned from
+  }[];
+  customer?: string; // linked customer account ID
+  customerName?: string;
+  couponCode?: string;
+  location?: string; // where the held items are reserved
+  parkedBy?: { id: string; name: string };
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// A sale rung up while the till was offline, waiting in the outbox to be sent
+export interface OutboxEntry {
+  idempotencyKey: string;
+  sale: Omit<Sale, 'id'>; // as it will be sent to the server
+  status: 'pending' | 'conflict';
+  conflict?: 'insufficient-stock' | 'rejected'; // why the server turned it down
+  error?: string;
+  attempts: number;
+  queuedAt: Date;
+  lastAttemptAt?: Date;
+}
+
+export interface TaxClass {
+  id: string;
+  name: string;
+  rate: number; // percent
+  isDefault: boolean;
+}
+
+export interface TaxSettings {
+  pricesIncludeTax: boolean;
+  classes: TaxClass[];
+}
+
+export interface SaleLineTax {
+  taxClass: string | null;
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface TaxBreakdownEntry {
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export type PaymentTender = 'cash' | 'card' | 'online' | 'upi' | 'loyalty';
+
+// Who took a payment: the till for cash and points, otherwise the payment provider
+export type PaymentProviderName = 'till' | 'stripe' | 'upi' | 'fake';
+
+// Points are never paid back as money, so refunds go on any tender but loyalty
+export type RefundMethod = Exclude<PaymentTender, 'loyalty'>;
+
+export interface SalePayment {
+  method: PaymentTender;
+  amount: number; // put towards the total
+  tendered?: number; // cash handed over, before change
+  provider?: PaymentProviderName;
+  reference?: string; // the provider's payment ID, card slip or transaction ID
+}
+
+export interface SaleLineDiscount {
+  promotion: string;
+  name: string;
+  amount: number;
+}
+
+export type PromotionType = 'percent-off' | 'amount-off' | 'buy-x-get-y';
+
+export type PromotionScope = 'product' | 'category' | 'cart';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  scope: PromotionScope;
+  value: number; // percent, or rupees per unit (off the cart for cart scope)
+  products: string[]; // product IDs, for product scope
+  categories: string[]; // for category scope
+  buyQuantity?: number;
+  getQuantity?: number;
+  minimumSpend?: number;
+  couponCode?: string | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  active: boolean;
+  live: boolean; // active and inside its start/end window right now
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Server-priced bill, as previewed in the bill panel before the sale is made
+export interface SaleQuote {
+  lines: {
+    productId: string;
+    quantity: number;
+    priceAtSale: number;
+    discounts: SaleLineDiscount[];
+    discountAmount: number;
+    tax: SaleLineTax;
+    lineTotal: number;
+  }[];
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  totalAmount: number;
+  taxBreakdown: TaxBreakdownEntry[];
+  pricesIncludeTax: boolean;
+  couponCode?: string;
+  couponError?: string;
+}
+
+export type ReturnReason = 'damaged' | 'defective' | 'wrong-item' | 'changed-mind' | 'other';
+
+export interface SaleReturn {
+  id: string;
+  saleId: string;
+  lines: {
+    productId: string;
+    name?: string;
+    quantity: number;
+    refundAmount: number;
+    taxAmount?: number;
+    disposition: 'restock' | 'write-off';
+  }[];
+  reason: ReturnReason;
+  note?: string;
+  refundMethod: RefundMethod;
+  refundAmount: number;
+  refundReference?: string; // the payment provider's refund ID
+  refundError?: string; // why the refund could not be sent back through the payment provider
+  loyaltyPointsReversed?: number; // points the sale earned, taken back for this return
+  processedBy?: {
+    id: string;
+    name: string;
+  };
+  shift?: string; // the till shift the refund was paid out in
+  location?: string; // where the returned items were restocked
+  timestamp: Date;
+}
+
+// Cash put into or taken out of the drawer other than for sales and refunds
+export interface ShiftCashMovement {
+  id: string;
+  type: 'pay-in' | 'pay-out';
+  amount: number;
+  reason: string;
+  actor?: { id: string; name: string };
+  timestamp: Date;
+}
+
+// One tender's line on a shift report. Counted and variance are only set at close.
+export interface ShiftReportLine {
+  method: PaymentTender;
+  sales: number;
+  refunds: number;
+  expected: number; // for cash: float + sales - refunds + pay-ins - pay-outs
+  counted: number | null;
+  variance: number | null; // counted - expected
+}
+
+// X report while a shift is open, Z report once it is closed
+export interface ShiftReport {
+  type: 'X' | 'Z';
+  generatedAt: Date;
+  openingFloat: number;
+  payIns: number;
+  payOuts: number;
+  saleCount: number;
+  voidedCount: number;
+  returnCount: number;
+  grossSales: number;
+  refunds: number;
+  byMethod: ShiftReportLine[];
+}
+
+// One cashier session on a till, from the opening float to counting the drawer at close
+export interface Shift {
+  id: string;
+  till: string;
+  tillName?: string;
+  status: 'open' | 'closed';
+  openingFloat: number;
+  openedBy?: { id: string; name: string };
+  openedAt: Date;
+  cashMovements: ShiftCashMovement[];
+  closedBy?: { id: string; name: string };
+  closedAt?: Date;
+  closingNote?: string;
+  report?: ShiftReport;
 }
 
 export interface BillItem {
-  product: Product;
+  product: Product; // for a weighted-item line, priced from its label
   quantity: number;
   subtotal: number;
+  barcode?: string; // the weighted-item label the line was scanned from
+  weight?: number; // in kg, for goods sold by weight
 }
 
 export interface User {
@@ -78,21 +371,197 @@ export interface PurchaseOrder {
     productName: string;
     quantity: number;
     unitPrice: number;
+    batchNumber?: string; // recorded when the goods are received
+    expiryDate?: Date;
   }[];
   status: 'pending' | 'ordered' | 'received' | 'canceled';
   totalAmount: number;
   orderDate: Date;
   expectedDeliveryDate?: Date;
   deliveredDate?: Date;
+  location?: string; // where the goods are received into
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type TransferStatus = 'draft' | 'dispatched' | 'received' | 'canceled';
+
+// Stock moved between locations. Once dispatched it has left the source, and it is
+// counted at neither end until it is received.
+export interface Transfer {
+  id: string;
+  from: string; // location IDs
+  fromName?: string;
+  to: string;
+  toName?: string;
+  status: TransferStatus;
+  lines: {
+    productId: string;
+    productName?: string;
+    quantity: number;
+    receivedQuantity?: number; // set when received; less than quantity only with a reason
+    discrepancyReason?: string;
+    lots?: MovedLot[]; // the lots dispatched
+  }[];
+  note?: string;
+  createdBy?: { id: string; name: string };
+  dispatchedBy?: { id: string; name: string };
+  dispatchedAt?: Date;
+  receivedBy?: { id: string; name: string };
+  receivedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type StockTakeStatus = 'counting' | 'submitted' | 'approved' | 'canceled';
+
+// A count of one location's shelves against what the ledger held when it started.
+// Corrections are only posted once an admin approves it.
+export interface StockTake {
+  id: string;
+  location: string;
+  locationName?: string;
+  category?: string; // only this category's products are counted
+  supplier?: string; // only this supplier's products are counted
+  status: StockTakeStatus;
+  snapshotAt: Date;
+  lineCount: number;
+  countedCount: number;
+  note?: string;
+  startedBy?: { id: string; name: string };
+  submittedBy?: { id: string; name: string };
+  submittedAt?: Date;
+  approvedBy?: { id: string; name: string };
+  approvedAt?: Date;
+  createdAt: Date;
+  lines?: StockTakeLine[]; // only when fetched on its own
+  totals?: StockTakeTotals;
+}
+
+export interface StockTakeLine {
+  productId: string;
+  productName: string;
+  barcode?: string;
+  category?: string;
+  costPrice?: number;
+  expected: number; // at the location when the stock take started
+  counted: number | null;
+  countedAt?: Date;
+  movedDuringCount: number; // sold, received or moved there between the snapshot and the count
+  expectedAtCount: number;
+  variance: number | null; // counted - expectedAtCount
+  varianceCost: number | null; // variance at cost price
+}
+
+export interface StockTakeTotals {
+  lineCount: number;
+  countedCount: number;
+  varianceUnits: number;
+  varianceCost: number;
+  shortageCost: number;
+  surplusCost: number;
+}
+
 export interface Customer {
   id: string;
   name: string;
   email: string;
   phone: string;
   loyaltyPoints: number;
-  purchaseHistory: string[]; // sale IDs
+  purchaseHistory: string[]; // sale IDs, newest first
+  lifetimeValue: number; // net of voids and refunds
+  lastPurchaseAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LoyaltySettings {
+  pointsPerRupee: number; // points earned for each rupee paid
+  pointValue: number; // rupees one point is worth when redeemed
+}
+
+export type ReceiptWidth = 58 | 80; // thermal paper width in mm
+
+export interface ReceiptSettings {
+  storeName: string;
+  storeAddress: string;
+  storePhone: string;
+  taxId: string; // GSTIN
+  receiptFooter: string;
+  receiptWidth: ReceiptWidth;
+}
+
+export interface AuditEvent {
+  id: string;
+  actor: {
+    id: string;
+    name: string;
+    email: string;
+    role: string;
+  } | null;
+  action: 'create' | 'update' | 'delete';
+  entity: 'product' | 'sale' | 'return' | 'purchaseOrder' | 'supplier' | 'user' | 'taxClass' | 'settings' | 'promotion' | 'customer';
+  entityId: string;
+  summary?: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: {
+    field: string;
+    from: unknown;
+    to: unknown;
+  }[];
+  timestamp: Date;
+}
+
+// Why stock was adjusted by hand; everything but `found` is a write-off
+export type AdjustmentReason = 'damage' | 'theft' | 'expiry' | 'internal-use' | 'found';
+
+export type StockMovementType = 'sale' | 'sale-void' | 'return' | 'po-receipt' | 'adjustment' | 'transfer' | 'count-correction';
+
+// Units of one lot taken or added by a stock movement
+export interface MovedLot {
+  batchNumber: string;
+  expiryDate?: Date;
+  quantity: number;
+}
+
+export interface StockMovement {
+  id: string;
+  productId: string;
+  type: StockMovementType;
+  quantity: number; // signed delta
+  balanceAfter: number;
+  location?: string;
+  locationName?: string;
+  locationBalanceAfter?: number; // stock at the location after the movement
+  reference: {
+    kind: 'Sale' | 'Return' | 'PurchaseOrder' | 'Product' | 'Transfer' | 'StockTake' | null;
+    id: string | null;
+  };
+  note?: string;
+  reason?: AdjustmentReason;
+  unitCost?: number; // cost price an adjustment was valued at
+  lots?: MovedLot[];
+  actor?: {
+    id: string;
+    name: string;
+  };
+  timestamp: Date;
+}
+
+// Stock written off and found in one group of the shrinkage report, at cost
+export interface ShrinkageGroup {
+  key: string; // the reason, category or month (YYYY-MM)
+  writtenOffUnits: number;
+  writtenOffCost: number;
+  foundUnits: number;
+  foundCost: number;
+  netCost: number; // written off less found
+}
+
+export interface ShrinkageReport {
+  totals: ShrinkageGroup;
+  byReason: ShrinkageGroup[];
+  byCategory: ShrinkageGroup[];
+  byMonth: ShrinkageGroup[];
 }
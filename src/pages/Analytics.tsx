@@ -23,6 +23,12 @@ import {
 } from 'recharts';
 import { Loader2 } from 'lucide-react';
 import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useQuery } from '@tanstack/react-query';
+import { getSalesAnalytics } from '@/api/sales';
+import { getShrinkageReport } from '@/api/product';
+import { getAdjustmentReasonLabel } from '@/lib/adjustments';
+import { ShrinkageGroup } from '@/lib/types';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#FF6B6B'];
 
@@ -46,6 +52,17 @@ const Analytics: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [categoryData, setCategoryData] = useState<ChartData[]>([]);
   const [isLoadingCategories, setIsLoadingCategories] = useState(true);
+  
+  const { data: salesSummary, isLoading: isLoadingSummary } = useQuery({
+    queryKey: ['salesAnalytics'],
+    queryFn: getSalesAnalytics
+  });
+  const taxByRate = salesSummary?.taxByRate || [];
+  
+  const { data: shrinkage, isLoading: isLoadingShrinkage } = useQuery({
+    queryKey: ['shrinkage'],
+    queryFn: () => getShrinkageReport()
+  });
 
   // Fetch sales data based on time frame
   useEffect(() => {
@@ -113,11 +130,12 @@ const Analytics: React.FC = () => {
       </div>
       
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full max-w-md grid-cols-4">
+        <TabsList className="grid w-full max-w-lg grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="predictions">Predictions</TabsTrigger>
           <TabsTrigger value="seasonality">Seasonality</TabsTrigger>
           <TabsTrigger value="reports">Reports</TabsTrigger>
+          <TabsTrigger value="shrinkage">Shrinkage</TabsTrigger>
         </TabsList>
         
         <TabsContent value="overview" className="space-y-6">
@@ -570,6 +588,48 @@ const Analytics: React.FC = () => {
             </Card>
           </div>
           
+          <Card>
+            <CardHeader>
+              <CardTitle>Tax Collected</CardTitle>
+              <CardDescription>Tax charged on sales per rate, less tax refunded on returns</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingSummary ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : taxByRate.length === 0 ? (
+                <p className="text-center py-6 text-muted-foreground">No tax recorded yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rate</TableHead>
+                      <TableHead className="text-right">Taxable Sales</TableHead>
+                      <TableHead className="text-right">Tax</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {taxByRate.map(entry => (
+                      <TableRow key={entry.rate}>
+                        <TableCell className="font-medium">{entry.name}</TableCell>
+                        <TableCell className="text-right">₹{entry.taxableAmount.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">₹{entry.taxAmount.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell className="font-bold">Total</TableCell>
+                      <TableCell></TableCell>
+                      <TableCell className="text-right font-bold">
+                        ₹{taxByRate.reduce((sum, entry) => sum + entry.taxAmount, 0).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+          
           <Card>
             <CardHeader>
               <CardTitle>Sales Report</CardTitle>
@@ -612,9 +672,127 @@ const Analytics: React.FC = () => {
             </CardContent>
           </Card>
         </TabsContent>
+        
+        <TabsContent value="shrinkage" className="space-y-6">
+          {isLoadingShrinkage ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : !shrinkage || shrinkage.byReason.length === 0 ? (
+            <Card>
+              <CardContent className="py-10 text-center text-muted-foreground">
+                No stock has been written off yet
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="grid gap-4 md:grid-cols-3">
+                <Card className="flex flex-col items-center justify-center p-6 h-40">
+                  <div className="text-4xl font-bold text-destructive">₹{shrinkage.totals.writtenOffCost.toLocaleString()}</div>
+                  <div className="text-sm font-medium mt-2">Written Off</div>
+                  <div className="text-xs text-muted-foreground mt-1">{shrinkage.totals.writtenOffUnits} units at cost</div>
+                </Card>
+                
+                <Card className="flex flex-col items-center justify-center p-6 h-40">
+                  <div className="text-4xl font-bold text-green-500">₹{shrinkage.totals.foundCost.toLocaleString()}</div>
+                  <div className="text-sm font-medium mt-2">Found</div>
+                  <div className="text-xs text-muted-foreground mt-1">{shrinkage.totals.foundUnits} units at cost</div>
+                </Card>
+                
+                <Card className="flex flex-col items-center justify-center p-6 h-40">
+                  <div className="text-4xl font-bold text-primary">₹{shrinkage.totals.netCost.toLocaleString()}</div>
+                  <div className="text-sm font-medium mt-2">Net Shrinkage</div>
+                  <div className="text-xs text-muted-foreground mt-1">Written off less found</div>
+                </Card>
+              </div>
+              
+              <Card>
+                <CardHeader>
+                  <CardTitle>Shrinkage by Month</CardTitle>
+                  <CardDescription>Stock written off each month, at cost</CardDescription>
+                </CardHeader>
+                <CardContent className="h-[320px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={shrinkage.byMonth} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                      <XAxis dataKey="key" axisLine={false} tickLine={false} />
+                      <YAxis axisLine={false} tickLine={false} tickFormatter={(value) => `₹${value}`} />
+                      <Tooltip
+                        formatter={(value: number, name: string) => [`₹${value.toLocaleString()}`, name]}
+                        contentStyle={{ 
+                          borderRadius: '8px', 
+                          boxShadow: '0 2px 8px rgba(0,0,0,0.1)', 
+                          border: 'none' 
+                        }}
+                      />
+                      <Legend />
+                      <Bar dataKey="writtenOffCost" name="Written off" fill="#FF6B6B" radius={[4, 4, 0, 0]} />
+                      <Bar dataKey="foundCost" name="Found" fill="#00C49F" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+              
+              <div className="grid gap-4 md:grid-cols-2">
+                <ShrinkageTable
+                  title="By Reason"
+                  description="Why stock was adjusted"
+                  groups={shrinkage.byReason}
+                  formatKey={getAdjustmentReasonLabel}
+                />
+                <ShrinkageTable
+                  title="By Category"
+                  description="Where the losses fall"
+                  groups={shrinkage.byCategory}
+                />
+              </div>
+            </>
+          )}
+        </TabsContent>
       </Tabs>
     </div>
   );
 };
 
+// One breakdown of the shrinkage report
+const ShrinkageTable: React.FC<{
+  title: string;
+  description: string;
+  groups: ShrinkageGroup[];
+  formatKey?: (key: string) => string;
+}> = ({ title, description, groups, formatKey = (key) => key }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>{title}</CardTitle>
+      <CardDescription>{description}</CardDescription>
+    </CardHeader>
+    <CardContent>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead></TableHead>
+            <TableHead className="text-right">Units</TableHead>
+            <TableHead className="text-right">At Cost</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.map(group => (
+            <TableRow key={group.key}>
+              <TableCell className="font-medium">{formatKey(group.key)}</TableCell>
+              <TableCell className="text-right">
+                {group.writtenOffUnits > 0 && `-${group.writtenOffUnits}`}
+                {group.writtenOffUnits > 0 && group.foundUnits > 0 && ' / '}
+                {group.foundUnits > 0 && `+${group.foundUnits}`}
+              </TableCell>
+              <TableCell className={`text-right ${group.netCost > 0 ? 'text-destructive' : 'text-green-600'}`}>
+                ₹{group.netCost.toLocaleString()}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </CardContent>
+  </Card>
+);
+
 export default Analytics;
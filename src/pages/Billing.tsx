@@ -1,20 +1,29 @@
 import React, { useEffect, useState } from 'react';
 import BillingSystem from '@/components/billing/BillingSystem';
+import CustomerList from '@/components/customers/CustomerList';
+import OutboxBanner from '@/components/billing/OutboxBanner';
+import ShiftPanel from '@/components/shifts/ShiftPanel';
+import ShiftHistory from '@/components/shifts/ShiftHistory';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import ReceiptDialog from '@/components/sales/ReceiptDialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Link, useLocation } from "react-router-dom";
-import { CreditCard, ShoppingCart, Users } from "lucide-react";
+import { CreditCard, ShoppingCart, Users, Receipt } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { CheckCircle } from "lucide-react";
 
 const Billing: React.FC = () => {
   const location = useLocation();
+  const { hasPermission } = useAuth();
   const [showSuccessAlert, setShowSuccessAlert] = useState(false);
   const [paymentDetails, setPaymentDetails] = useState<{
     paymentId: string;
     paymentMethod: string;
+    saleId?: string;
   } | null>(null);
+  const [showReceipt, setShowReceipt] = useState(false);
   
   // Check if returning from a completed payment
   useEffect(() => {
@@ -22,9 +31,15 @@ const Billing: React.FC = () => {
       setShowSuccessAlert(true);
       setPaymentDetails({
         paymentId: location.state.paymentId || 'Unknown',
-        paymentMethod: location.state.paymentMethod || 'card'
+        paymentMethod: location.state.paymentMethod || 'card',
+        saleId: location.state.saleId
       });
       
+      // Offer the receipt for the sale just paid for
+      if (location.state.saleId) {
+        setShowReceipt(true);
+      }
+      
       // Auto-dismiss alert after 5 seconds
       const timer = setTimeout(() => {
         setShowSuccessAlert(false);
@@ -52,17 +67,33 @@ const Billing: React.FC = () => {
             The payment has been processed successfully. Payment ID: {paymentDetails?.paymentId}.
             Method: {paymentDetails?.paymentMethod === 'card' ? 'Credit Card (Stripe)' : paymentDetails?.paymentMethod}.
           </AlertDescription>
+          {paymentDetails?.saleId && (
+            <Button size="sm" variant="outline" className="mt-3 gap-1" onClick={() => setShowReceipt(true)}>
+              <Receipt className="h-4 w-4" />
+              Print receipt
+            </Button>
+          )}
         </Alert>
       )}
       
+      <ReceiptDialog
+        saleId={paymentDetails?.saleId || null}
+        open={showReceipt}
+        onOpenChange={setShowReceipt}
+      />
+      
+      <OutboxBanner />
+      
       <Tabs defaultValue="pos" className="mb-6">
         <TabsList>
           <TabsTrigger value="pos">Point of Sale</TabsTrigger>
           <TabsTrigger value="online">Online Orders</TabsTrigger>
           <TabsTrigger value="customers">Customers & Loyalty</TabsTrigger>
+          {hasPermission('shifts:read') && <TabsTrigger value="shifts">Shifts</TabsTrigger>}
           <TabsTrigger value="payments">Payment Options</TabsTrigger>
         </TabsList>
         <TabsContent value="pos">
+          <ShiftPanel />
           <BillingSystem />
         </TabsContent>
         <TabsContent value="online">
@@ -71,10 +102,13 @@ const Billing: React.FC = () => {
           </div>
         </TabsContent>
         <TabsContent value="customers">
-          <div className="text-center p-10 text-muted-foreground">
-            <p>Customer and loyalty program management will appear here</p>
-          </div>
+          <CustomerList />
         </TabsContent>
+        {hasPermission('shifts:read') && (
+          <TabsContent value="shifts">
+            <ShiftHistory />
+          </TabsContent>
+        )}
         <TabsContent value="payments">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <Card>
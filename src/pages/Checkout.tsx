@@ -5,16 +5,24 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { ShoppingCart, CreditCard, CheckCircle, AlertCircle } from 'lucide-react';
 import { StripeProvider } from '@/components/stripe/StripeProvider';
 import CheckoutForm from '@/components/stripe/CheckoutForm';
+import ConfirmPaymentForm from '@/components/payments/ConfirmPaymentForm';
 import { formatPrice } from '@/lib/stripe';
-import { CartItem, createPaymentIntent } from '@/api/createPaymentIntent';
+import { CartItem, PaymentIntentResult, createPaymentIntent } from '@/api/createPaymentIntent';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { updateProductStock } from '@/lib/mockData';
-import { BillItem, Sale } from '@/lib/types';
+import { BillItem, Sale, SalePayment } from '@/lib/types';
+import { isChargedTender } from '@/lib/payments';
 import { useToast } from '@/components/ui/use-toast';
 import { useSalesStore } from '@/lib/stores/salesStore';
+import { useAuth } from '@/lib/providers/AuthProvider';
 import { v4 as uuidv4 } from 'uuid';
 import { createSale } from '@/api/sales';
+import { confirmPayment } from '@/api/payments';
 import { NotificationService } from '@/lib/services/notificationService';
+import { useQuery } from '@tanstack/react-query';
+import { getTaxSettings } from '@/api/tax';
+import { useTillStore } from '@/lib/stores/tillStore';
+import { calculateTax } from '@/lib/tax';
 
 // Sample cart items - used only if not coming from POS
 const sampleCartItems: CartItem[] = [
@@ -36,10 +44,11 @@ const CheckoutPage: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { addSale } = useSalesStore();
+  const { addSale, fetchSales } = useSalesStore();
+  const { user } = useAuth();
   const [paymentStatus, setPaymentStatus] = useState<'none' | 'processing' | 'succeeded' | 'failed'>('none');
   const [error, setError] = useState<string | null>(null);
-  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [paymentIntent, setPaymentIntent] = useState<PaymentIntentResult | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [stockUpdated, setStockUpdated] = useState(false);
   
@@ -52,33 +61,66 @@ const CheckoutPage: React.FC = () => {
     ? JSON.parse(location.state.billItems) 
     : [];
   
+  // Tax classes for carts that don't come from the POS, which has already worked out its tax
+  const { data: taxSettings } = useQuery({
+    queryKey: ['tax-settings'],
+    queryFn: getTaxSettings,
+    enabled: !isPOSCheckout
+  });
+  const cartTax = calculateTax(
+    cartItems.map(item => ({ price: item.price, quantity: item.quantity })),
+    taxSettings
+  );
+  
   // Calculate totals - use provided totals if coming from POS, otherwise calculate
-  const subtotal = isPOSCheckout ? location.state.subtotal : 
-    cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const tax = isPOSCheckout ? location.state.tax : subtotal * 0.07; // 7% tax
+  const subtotal = isPOSCheckout ? location.state.subtotal : cartTax.subtotal;
+  const tax = isPOSCheckout ? location.state.tax : cartTax.taxTotal;
+  const discountTotal: number = isPOSCheckout ? location.state.discountTotal || 0 : 0;
+  const couponCode: string | undefined = isPOSCheckout ? location.state.couponCode : undefined;
   const shipping = isPOSCheckout ? 0 : 5.99; // No shipping for in-store purchases
-  const total = isPOSCheckout ? location.state.total : subtotal + tax + shipping;
+  const total = isPOSCheckout ? location.state.total : cartTax.total + shipping;
   const customerName = isPOSCheckout ? location.state.customerName : '';
+  const customer: string | undefined = isPOSCheckout ? location.state.customer : undefined;
+  // The open shift on the till the bill came from
+  const shift: string | undefined = isPOSCheckout ? location.state.shift : undefined;
+  const tillId = useTillStore((state) => state.tillId);
+  // The till's location, which the sold stock comes out of
+  const stockLocation: string | undefined = isPOSCheckout ? location.state.location : undefined;
 
   // Get payment method and channel from location state or use defaults
   const paymentMethod = isPOSCheckout ? location.state.paymentMethod || 'card' : 'online';
   const channel = isPOSCheckout ? location.state.channel || 'in-store' : 'online';
+  
+  // Tenders taken at the POS; for a split payment only the card/online share is charged here
+  const payments: SalePayment[] | undefined = isPOSCheckout ? location.state.payments : undefined;
 
   useEffect(() => {
-    // Only create a payment intent for card payments
-    if (paymentMethod === 'card' || paymentMethod === 'online') {
+    // Only create a payment intent for tenders charged through a payment provider
+    if (isChargedTender(paymentMethod)) {
       // Create a payment intent when the component mounts
       const getPaymentIntent = async () => {
         try {
           setIsLoading(true);
           setError(null);
           
-          // Get client secret from our simulated API
-          const { clientSecret } = await createPaymentIntent(cartItems);
-          setClientSecret(clientSecret);
+          // The server prices the cart itself and works out the share left to charge
+          const intent = await createPaymentIntent(cartItems, {
+            couponCode,
+            payments,
+            paymentMethod,
+            channel,
+            customerName,
+            customer,
+            shift,
+            till: tillId,
+            location: stockLocation
+          });
+          setPaymentIntent(intent);
         } catch (err) {
           console.error('Failed to create payment intent:', err);
-          setError('There was a problem setting up the payment. Please try again later.');
+          setError(err instanceof Error
+            ? err.message
+            : 'There was a problem setting up the payment. Please try again later.');
         } finally {
           setIsLoading(false);
         }
@@ -132,36 +174,10 @@ const CheckoutPage: React.FC = () => {
     console.log('Payment succeeded:', paymentIntent);
     
     try {
-      // Prepare sale data
-      const saleData: Omit<Sale, 'id' | 'timestamp'> = {
-        products: billItems.map(item => ({
-          product: item.product.id, // Send just the ID for API
-          quantity: item.quantity,
-          priceAtSale: item.product.price
-        })),
-        totalAmount: total,
-        paymentMethod: paymentMethod,
-        employeeId: 'EMP-001', // Default employee ID
-        channel: channel,
-        customerName: customerName
-      };
-      
-      // Process the sale
-      await processSale(saleData);
-      
-      if (isPOSCheckout) {
-        // For POS checkouts, navigate back to billing after successful payment
-        setTimeout(() => {
-          navigate('/billing', { 
-            state: { 
-              paymentComplete: true,
-              paymentId: paymentIntent.id,
-              paymentMethod: paymentMethod,
-              returnToPOS: true
-            } 
-          });
-        }, 2000);
-      }
+      // The server checks the payment with Stripe and records the sale from the bill the
+      // payment was opened for; Stripe's webhook may have recorded it already
+      const savedSale = await confirmPayment(paymentIntent.id);
+      handlePaymentConfirmed(savedSale);
     } catch (err) {
       console.error('Error finalizing sale:', err);
       toast({
@@ -172,6 +188,31 @@ const CheckoutPage: React.FC = () => {
     }
   };
 
+  // Payments the cashier confirms (UPI, test payments) have their sale recorded by the server
+  const handlePaymentConfirmed = (savedSale: Sale) => {
+    setPaymentStatus('succeeded');
+    
+    if (isPOSCheckout && billItems.length > 0 && channel === 'in-store') {
+      updateProductStock(billItems);
+      setStockUpdated(true);
+    }
+    fetchSales();
+    
+    if (isPOSCheckout) {
+      setTimeout(() => {
+        navigate('/billing', { 
+          state: { 
+            paymentComplete: true,
+            paymentId: paymentIntent?.paymentIntentId,
+            saleId: savedSale.id,
+            paymentMethod: paymentMethod,
+            returnToPOS: true
+          } 
+        });
+      }, 2000);
+    }
+  };
+
   const handleCashPayment = async () => {
     try {
       setPaymentStatus('processing');
@@ -181,17 +222,24 @@ const CheckoutPage: React.FC = () => {
         products: billItems.map(item => ({
           product: item.product.id, // Send just the ID for API
           quantity: item.quantity,
-          priceAtSale: item.product.price
+          priceAtSale: item.product.price,
+          barcode: item.barcode
         })),
         totalAmount: total,
         paymentMethod: 'cash',
-        employeeId: 'EMP-001', // Default employee ID
+        employeeId: user?.id || '', // the server records whoever is signed in
+        employeeName: user?.name,
+        shift,
+        till: tillId,
+        location: stockLocation,
         channel: 'in-store',
-        customerName: customerName
+        customerName: customerName,
+        couponCode,
+        customer
       };
       
       // Process the sale
-      await processSale(saleData);
+      const savedSale = await processSale(saleData);
       
       setPaymentStatus('succeeded');
       
@@ -200,6 +248,7 @@ const CheckoutPage: React.FC = () => {
         navigate('/billing', { 
           state: { 
             paymentComplete: true,
+            saleId: savedSale.id,
             paymentMethod: 'cash',
             returnToPOS: true
           } 
@@ -263,6 +312,13 @@ const CheckoutPage: React.FC = () => {
                   <p>{formatPrice(subtotal)}</p>
                 </div>
                 
+                {discountTotal > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <p>Discounts</p>
+                    <p>-{formatPrice(discountTotal)}</p>
+                  </div>
+                )}
+                
                 <div className="flex justify-between">
                   <p>Tax</p>
                   <p>{formatPrice(tax)}</p>
@@ -281,6 +337,13 @@ const CheckoutPage: React.FC = () => {
                   <p>Total</p>
                   <p>{formatPrice(total)}</p>
                 </div>
+                
+                {payments && payments.length > 1 && payments.map((payment, index) => (
+                  <div key={index} className="flex justify-between text-sm text-muted-foreground">
+                    <p className="capitalize">{payment.method}</p>
+                    <p>{formatPrice(payment.amount)}</p>
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -297,7 +360,11 @@ const CheckoutPage: React.FC = () => {
               <CardDescription>
                 {paymentMethod === 'cash' 
                   ? 'Processing cash payment' 
-                  : 'Complete your purchase securely with Stripe'}
+                  : paymentIntent?.provider === 'upi'
+                    ? 'Pay by scanning the QR code with any UPI app'
+                    : paymentIntent?.provider === 'fake'
+                      ? 'Test payment - nothing will be charged'
+                      : 'Complete your purchase securely with Stripe'}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -326,14 +393,16 @@ const CheckoutPage: React.FC = () => {
                     {paymentMethod === 'cash' ? 'Processing cash payment...' : 'Setting up payment...'}
                   </p>
                 </div>
-              ) : clientSecret && (paymentMethod === 'card' || paymentMethod === 'online') ? (
-                <StripeProvider clientSecret={clientSecret}>
+              ) : paymentIntent?.provider === 'stripe' && paymentIntent.clientSecret ? (
+                <StripeProvider clientSecret={paymentIntent.clientSecret}>
                   <CheckoutForm 
-                    amount={Math.round(total * 100)} // Convert to cents
+                    amount={Math.round(paymentIntent.amount * 100)} // Convert to paise
                     onSuccess={handlePaymentSuccess}
                     onError={handlePaymentError}
                   />
                 </StripeProvider>
+              ) : paymentIntent ? (
+                <ConfirmPaymentForm intent={paymentIntent} onSuccess={handlePaymentConfirmed} />
               ) : null}
             </CardContent>
           </Card>
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Pencil, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import { getCustomer, updateCustomer, deleteCustomer } from '@/api/customers';
+import { getAllSales } from '@/api/sales';
+import { describeTenders } from '@/lib/payments';
+
+const CustomerProfile: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const canEdit = hasPermission('customers:write');
+
+  const [contact, setContact] = useState<{ name: string; phone: string; email: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: customer, isLoading, error } = useQuery({
+    queryKey: ['customer', id],
+    queryFn: () => getCustomer(id),
+    enabled: !!id,
+  });
+
+  const { data: sales = [] } = useQuery({
+    queryKey: ['sales', { customer: id }],
+    queryFn: () => getAllSales({ customer: id }),
+    enabled: !!id,
+  });
+
+  const handleSave = async () => {
+    if (!contact) return;
+    if (!contact.name.trim() || (!contact.phone.trim() && !contact.email.trim())) {
+      toast({
+        title: 'Invalid customer',
+        description: 'Enter a name and a phone number or email',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateCustomer(id, {
+        name: contact.name.trim(),
+        phone: contact.phone.trim(),
+        email: contact.email.trim()
+      });
+      queryClient.invalidateQueries({ queryKey: ['customer', id] });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      setContact(null);
+      toast({ title: 'Customer updated', duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update customer',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!customer || !window.confirm(`Delete ${customer.name}? Their sales are kept but no longer linked to them.`)) {
+      return;
+    }
+
+    try {
+      await deleteCustomer(id);
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      toast({ title: 'Customer deleted', duration: 2000 });
+      navigate('/billing');
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete customer',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error || !customer) {
+    return (
+      <div className="p-6 text-center text-destructive">
+        <p>{(error as Error)?.message || 'Customer not found'}</p>
+        <Button variant="outline" className="mt-4" onClick={() => navigate('/billing')}>
+          Back to Billing
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{customer.name}</h1>
+            <p className="text-muted-foreground">
+              Customer since {customer.createdAt.toLocaleDateString()}
+            </p>
+          </div>
+        </div>
+        {canEdit && !contact && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="gap-1"
+              onClick={() => setContact({ name: customer.name, phone: customer.phone, email: customer.email })}
+            >
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+            <Button variant="outline" className="gap-1 text-destructive" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Lifetime Value</CardDescription>
+            <CardTitle>₹{customer.lifetimeValue.toFixed(2)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Purchases</CardDescription>
+            <CardTitle>{customer.purchaseHistory.length}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Loyalty Points</CardDescription>
+            <CardTitle>{customer.loyaltyPoints}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Last Purchase</CardDescription>
+            <CardTitle>{customer.lastPurchaseAt ? customer.lastPurchaseAt.toLocaleDateString() : 'Never'}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Contact Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {contact ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="customerName">Name</Label>
+                <Input
+                  id="customerName"
+                  value={contact.name}
+                  onChange={(e) => setContact({ ...contact, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customerPhone">Phone</Label>
+                <Input
+                  id="customerPhone"
+                  value={contact.phone}
+                  onChange={(e) => setContact({ ...contact, phone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customerEmail">Email</Label>
+                <Input
+                  id="customerEmail"
+                  type="email"
+                  value={contact.email}
+                  onChange={(e) => setContact({ ...contact, email: e.target.value })}
+                />
+              </div>
+              <div className="md:col-span-3 flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setContact(null)}>Cancel</Button>
+                <Button onClick={handleSave} disabled={isSaving}>Save</Button>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Phone</p>
+                <p>{customer.phone || '—'}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Email</p>
+                <p>{customer.email || '—'}</p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Purchase History</CardTitle>
+          <CardDescription>Every sale linked to this customer, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sales.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">No purchases yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transaction ID</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead>Payment</TableHead>
+                  <TableHead className="text-right">Points</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...sales]
+                  .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+                  .map(sale => (
+                    <TableRow key={sale.id} className={sale.voided ? 'text-muted-foreground' : undefined}>
+                      <TableCell className="font-medium">
+                        {sale.id.substring(0, 8)}
+                        {sale.voided && (
+                          <div className="mt-1">
+                            <Badge variant="destructive">Voided</Badge>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{sale.timestamp.toLocaleString()}</TableCell>
+                      <TableCell>
+                        {sale.products.map((p, idx) => (
+                          <div key={`${sale.id}-product-${idx}`}>
+                            {p.quantity}x {p.product?.name || 'Unknown Product'}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell>{describeTenders(sale)}</TableCell>
+                      <TableCell className="text-right text-sm">
+                        {!!sale.loyaltyPointsEarned && <div>+{sale.loyaltyPointsEarned}</div>}
+                        {!!sale.loyaltyPointsRedeemed && (
+                          <div className="text-muted-foreground">-{sale.loyaltyPointsRedeemed}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right ${sale.voided ? 'line-through' : ''}`}>
+                        ₹{sale.totalAmount.toLocaleString()}
+                        {!!sale.refundedAmount && (
+                          <div className="text-xs text-destructive">-₹{sale.refundedAmount.toLocaleString()} refunded</div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomerProfile;
@@ -4,8 +4,14 @@ import { Button } from '@/components/ui/button';
 import { Package, ArrowDown, Check, Clock, X } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import { useToast } from '@/components/ui/use-toast';
+import { useQuery } from '@tanstack/react-query';
 import { getAllPurchaseOrders, updatePurchaseOrderStatus } from '@/api/purchaseOrder';
+import { getLocations } from '@/api/locations';
+import { resolveLocation } from '@/lib/locations';
 import { PurchaseOrder } from '@/lib/types';
 import { 
   AlertDialog, 
@@ -24,8 +30,17 @@ const PurchaseOrders: React.FC = () => {
   const [selectedOrder, setSelectedOrder] = useState<PurchaseOrder | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [statusToUpdate, setStatusToUpdate] = useState<'pending' | 'ordered' | 'received' | 'canceled'>('received');
+  const [receiveLocation, setReceiveLocation] = useState('');
+  // Batch number and expiry date (YYYY-MM-DD) per product being received
+  const [receiveLots, setReceiveLots] = useState<Record<string, { batchNumber: string; expiryDate: string }>>({});
   const { toast } = useToast();
 
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+  });
+  const getLocationName = (locationId?: string) => resolveLocation(locations, locationId)?.name || '—';
+
   // Fetch purchase orders on component mount
   useEffect(() => {
     fetchPurchaseOrders();
@@ -51,6 +66,9 @@ const PurchaseOrders: React.FC = () => {
   const handleStatusChange = (order: PurchaseOrder, status: 'pending' | 'ordered' | 'received' | 'canceled') => {
     setSelectedOrder(order);
     setStatusToUpdate(status);
+    // Goods go where the order was raised for unless the receiver says otherwise
+    setReceiveLocation(resolveLocation(locations, order.location)?.id || '');
+    setReceiveLots({});
     setConfirmDialogOpen(true);
   };
 
@@ -58,7 +76,21 @@ const PurchaseOrders: React.FC = () => {
     if (!selectedOrder) return;
     
     try {
-      const updatedOrder = await updatePurchaseOrderStatus(selectedOrder.id, statusToUpdate);
+      const updatedOrder = await updatePurchaseOrderStatus(
+        selectedOrder.id,
+        statusToUpdate,
+        true,
+        statusToUpdate === 'received' ? receiveLocation || undefined : undefined,
+        statusToUpdate === 'received'
+          ? Object.entries(receiveLots)
+            .filter(([, lot]) => lot.batchNumber.trim())
+            .map(([product, lot]) => ({
+              product,
+              batchNumber: lot.batchNumber.trim(),
+              expiryDate: lot.expiryDate || undefined
+            }))
+          : []
+      );
       
       if (!updatedOrder) {
         throw new Error('Failed to update order status');
@@ -96,6 +128,9 @@ const PurchaseOrders: React.FC = () => {
     }
   };
 
+  const missingBatch = statusToUpdate === 'received' &&
+    Object.values(receiveLots).some(lot => lot.expiryDate && !lot.batchNumber.trim());
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'pending':
@@ -150,6 +185,7 @@ const PurchaseOrders: React.FC = () => {
                 <TableRow>
                   <TableHead>Order ID</TableHead>
                   <TableHead>Supplier</TableHead>
+                  <TableHead>Location</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead>Time</TableHead>
                   <TableHead>Expected Delivery</TableHead>
@@ -166,6 +202,7 @@ const PurchaseOrders: React.FC = () => {
                     <TableRow key={order.id}>
                       <TableCell className="font-medium">{order.id.substring(0, 8)}</TableCell>
                       <TableCell>{order.supplierName || 'Unknown Supplier'}</TableCell>
+                      <TableCell>{getLocationName(order.location)}</TableCell>
                       <TableCell>{new Date(order.orderDate).toLocaleDateString()}</TableCell>
                       <TableCell>{new Date(order.orderDate).toLocaleTimeString()}</TableCell>
                       <TableCell>{formatDate(order.expectedDeliveryDate)}</TableCell>
@@ -174,6 +211,12 @@ const PurchaseOrders: React.FC = () => {
                           {order.products.map((product, idx) => (
                             <div key={idx} className="text-sm">
                               {product.quantity}x {product.productName || 'Unknown Product'}
+                              {product.batchNumber && (
+                                <p className="text-xs text-muted-foreground">
+                                  Batch {product.batchNumber}
+                                  {product.expiryDate && `, expires ${formatDate(product.expiryDate)}`}
+                                </p>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -253,9 +296,54 @@ const PurchaseOrders: React.FC = () => {
               )}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {statusToUpdate === 'received' && locations.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="receiveLocation">Receive into</Label>
+              <Select value={receiveLocation} onValueChange={setReceiveLocation}>
+                <SelectTrigger id="receiveLocation">
+                  <SelectValue placeholder="Select a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {statusToUpdate === 'received' && selectedOrder && (
+            <div className="space-y-2">
+              <Label>Batches</Label>
+              <p className="text-xs text-muted-foreground">
+                Optional. Lines with a batch number are received as a lot and sold first to expire first.
+              </p>
+              {selectedOrder.products.map(product => {
+                const lot = receiveLots[product.productId] || { batchNumber: '', expiryDate: '' };
+                return (
+                  <div key={product.productId} className="grid grid-cols-[1fr_7rem_9rem] items-center gap-2">
+                    <span className="text-sm truncate">{product.quantity}x {product.productName || 'Unknown Product'}</span>
+                    <Input
+                      placeholder="Batch no."
+                      value={lot.batchNumber}
+                      onChange={(e) => setReceiveLots({ ...receiveLots, [product.productId]: { ...lot, batchNumber: e.target.value } })}
+                    />
+                    <Input
+                      type="date"
+                      aria-label="Expiry date"
+                      value={lot.expiryDate}
+                      onChange={(e) => setReceiveLots({ ...receiveLots, [product.productId]: { ...lot, expiryDate: e.target.value } })}
+                    />
+                  </div>
+                );
+              })}
+              {missingBatch && (
+                <p className="text-xs text-destructive">An expiry date needs a batch number</p>
+              )}
+            </div>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={updateOrderStatus}>Confirm</AlertDialogAction>
+            <AlertDialogAction onClick={updateOrderStatus} disabled={missingBatch}>Confirm</AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
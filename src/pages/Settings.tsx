@@ -8,7 +8,7 @@ import { useTheme } from '@/lib/providers/ThemeProvider';
 import { useSettingsStore, Language, Theme } from '@/lib/stores/settingsStore';
 import { useToast } from '@/components/ui/use-toast';
 import { motion } from 'framer-motion';
-import { Laptop, Moon, Sun, Languages, Info, Users, ShieldCheck, Edit2, Save } from 'lucide-react';
+import { Laptop, Moon, Sun, Languages, Info, Users, ShieldCheck, Edit2, Save, History, Percent, Tag, Receipt, MapPin } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
@@ -19,6 +19,11 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { UserRole, User } from '@/lib/stores/authStore';
 import { useAuth } from '@/lib/providers/AuthProvider';
 import { cn } from '@/lib/utils';
+import AuditLog from '@/components/settings/AuditLog';
+import TaxSettings from '@/components/settings/TaxSettings';
+import PromotionSettings from '@/components/settings/PromotionSettings';
+import ReceiptSettings from '@/components/settings/ReceiptSettings';
+import LocationSettings from '@/components/settings/LocationSettings';
 
 const Settings: React.FC = () => {
   const { t, language, setLanguage } = useTranslation();
@@ -27,6 +32,15 @@ const Settings: React.FC = () => {
   const { user, userList, hasPermission, updateUserRole } = useAuth();
   const [editingUser, setEditingUser] = useState<string | null>(null);
   const [editRole, setEditRole] = useState<UserRole | null>(null);
+  const canManageUsers = hasPermission('users:manage');
+  const canViewAudit = hasPermission('audit:read');
+  const canManageTax = hasPermission('tax:write');
+  const canManagePromotions = hasPermission('promotions:write');
+  const canManageReceipts = hasPermission('receipts:write');
+  const canManageLocations = hasPermission('inventory:write');
+  const tabCount = 2 + (canManageUsers ? 1 : 0) + (canViewAudit ? 1 : 0) + (canManageTax ? 1 : 0) + (canManagePromotions ? 1 : 0) +
+    (canManageReceipts ? 1 : 0) + (canManageLocations ? 1 : 0);
+  const tabGridCols = ['grid-cols-2', 'grid-cols-3', 'grid-cols-4', 'grid-cols-5', 'grid-cols-6', 'grid-cols-7', 'grid-cols-8'][tabCount - 2];
 
   const handleLanguageChange = (newLanguage: Language) => {
     setLanguage(newLanguage);
@@ -110,12 +124,7 @@ const Settings: React.FC = () => {
         </div>
 
         <Tabs defaultValue="language" className="w-full">
-          <TabsList className={cn(
-            "grid mb-8",
-            hasPermission('settings') && user?.role === 'admin' 
-              ? "grid-cols-3" 
-              : "grid-cols-2"
-          )}>
+          <TabsList className={cn("grid mb-8", tabGridCols)}>
             <TabsTrigger value="language" className="flex items-center gap-2">
               <Languages className="h-4 w-4" />
               {t('language')}
@@ -124,12 +133,42 @@ const Settings: React.FC = () => {
               {theme === 'dark' ? <Moon className="h-4 w-4" /> : theme === 'light' ? <Sun className="h-4 w-4" /> : <Laptop className="h-4 w-4" />}
               {t('theme')}
             </TabsTrigger>
-            {hasPermission('settings') && user?.role === 'admin' && (
+            {canManageUsers && (
               <TabsTrigger value="users" className="flex items-center gap-2">
                 <Users className="h-4 w-4" />
                 User Management
               </TabsTrigger>
             )}
+            {canViewAudit && (
+              <TabsTrigger value="audit" className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Audit
+              </TabsTrigger>
+            )}
+            {canManageTax && (
+              <TabsTrigger value="tax" className="flex items-center gap-2">
+                <Percent className="h-4 w-4" />
+                Tax
+              </TabsTrigger>
+            )}
+            {canManagePromotions && (
+              <TabsTrigger value="promotions" className="flex items-center gap-2">
+                <Tag className="h-4 w-4" />
+                Promotions
+              </TabsTrigger>
+            )}
+            {canManageReceipts && (
+              <TabsTrigger value="receipts" className="flex items-center gap-2">
+                <Receipt className="h-4 w-4" />
+                Receipts
+              </TabsTrigger>
+            )}
+            {canManageLocations && (
+              <TabsTrigger value="locations" className="flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                Locations
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="language">
@@ -214,7 +253,7 @@ const Settings: React.FC = () => {
             </Card>
           </TabsContent>
           
-          {hasPermission('settings') && user?.role === 'admin' && (
+          {canManageUsers && (
             <TabsContent value="users">
               <Card>
                 <CardHeader>
@@ -321,6 +360,36 @@ const Settings: React.FC = () => {
               </Card>
             </TabsContent>
           )}
+          
+          {canViewAudit && (
+            <TabsContent value="audit">
+              <AuditLog />
+            </TabsContent>
+          )}
+          
+          {canManageTax && (
+            <TabsContent value="tax">
+              <TaxSettings />
+            </TabsContent>
+          )}
+          
+          {canManagePromotions && (
+            <TabsContent value="promotions">
+              <PromotionSettings />
+            </TabsContent>
+          )}
+          
+          {canManageReceipts && (
+            <TabsContent value="receipts">
+              <ReceiptSettings />
+            </TabsContent>
+          )}
+          
+          {canManageLocations && (
+            <TabsContent value="locations">
+              <LocationSettings />
+            </TabsContent>
+          )}
         </Tabs>
       </motion.div>
     </div>
@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Check, RotateCcw, ScanBarcode, Send, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import { useBarcodeScanner } from '@/hooks/use-barcode-scanner';
+import { beepError, beepSuccess } from '@/lib/beep';
+import { getStockTake, recordStockTakeCounts, moveStockTake, StockTakeCount } from '@/api/stockTakes';
+import { StockTake } from '@/lib/types';
+import StockTakeStatusBadge from '@/components/stockTakes/StockTakeStatusBadge';
+
+const formatVariance = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+const formatVarianceCost = (value: number) => `${value < 0 ? '-' : value > 0 ? '+' : ''}₹${Math.abs(value).toFixed(2)}`;
+
+const StockTakeDetail: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const canCount = hasPermission('stockTakes:write');
+  const canApprove = hasPermission('stockTakes:approve');
+
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState('');
+  const [uncountedOnly, setUncountedOnly] = useState(false);
+  const [scanMode, setScanMode] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const { data: stockTake, isLoading, error } = useQuery({
+    queryKey: ['stockTake', id],
+    queryFn: () => getStockTake(id),
+    enabled: !!id,
+  });
+
+  const isCounting = stockTake?.status === 'counting' && canCount;
+
+  const showStockTake = (updated: StockTake) => {
+    queryClient.setQueryData(['stockTake', id], updated);
+    queryClient.invalidateQueries({ queryKey: ['stockTakes'] });
+  };
+
+  const saveCounts = async (counts: StockTakeCount[]) => {
+    try {
+      showStockTake(await recordStockTakeCounts(id, counts));
+      return true;
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to record count',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Each scan counts one more of the scanned product
+  const handleScan = async (code: string) => {
+    const saved = await saveCounts([{ barcode: code, add: 1 }]);
+    if (saved) {
+      beepSuccess();
+    } else {
+      beepError();
+    }
+  };
+
+  useBarcodeScanner(handleScan, isCounting && scanMode);
+
+  // Typed counts are saved when the field is left
+  const handleCountBlur = async (productId: string, current: number | null) => {
+    const draft = drafts[productId];
+    if (draft === undefined) return;
+
+    const counted = draft.trim() === '' ? null : parseInt(draft, 10);
+    if (counted !== null && (isNaN(counted) || counted < 0)) {
+      toast({
+        title: 'Invalid count',
+        description: 'Counts must be whole numbers of 0 or more',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (counted === current || await saveCounts([{ product: productId, counted }])) {
+      setDrafts(({ [productId]: _, ...rest }) => rest);
+    }
+  };
+
+  const runAction = async (action: 'submit' | 'reopen' | 'approve' | 'cancel', confirmMessage: string, successMessage: string) => {
+    if (!window.confirm(confirmMessage)) return;
+    try {
+      setIsBusy(true);
+      showStockTake(await moveStockTake(id, action));
+      if (action === 'approve') {
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+      }
+      toast({ title: successMessage, duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update stock take',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error || !stockTake) {
+    return (
+      <div className="p-6 text-center text-destructive">
+        <p>Error loading stock take. Please try again.</p>
+      </div>
+    );
+  }
+
+  const lines = stockTake.lines || [];
+  const totals = stockTake.totals;
+  const query = search.trim().toLowerCase();
+  const visibleLines = lines.filter(line =>
+    (!uncountedOnly || line.counted === null) &&
+    (!query || line.productName.toLowerCase().includes(query) || line.barcode?.includes(query))
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="gap-1 mb-2 -ml-2" onClick={() => navigate('/stock-takes')}>
+            <ArrowLeft className="h-4 w-4" />
+            Stock Takes
+          </Button>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+            {stockTake.locationName || 'Stock Take'}
+            <StockTakeStatusBadge status={stockTake.status} />
+          </h1>
+          <p className="text-muted-foreground">
+            {[stockTake.category, stockTake.note].filter(Boolean).join(' · ') || 'Full count'}
+            {' · '}stock frozen {stockTake.snapshotAt.toLocaleString()}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          {stockTake.status === 'counting' && canCount && (
+            <Button
+              disabled={isBusy || stockTake.countedCount === 0}
+              className="gap-1"
+              onClick={() => runAction(
+                'submit',
+                `Submit for approval? ${stockTake.lineCount - stockTake.countedCount} uncounted product(s) will be left as they are.`,
+                'Stock take submitted'
+              )}
+            >
+              <Send className="h-4 w-4" />
+              Submit
+            </Button>
+          )}
+          {stockTake.status === 'submitted' && canApprove && (
+            <>
+              <Button
+                variant="outline"
+                disabled={isBusy}
+                className="gap-1"
+                onClick={() => runAction('reopen', 'Send this stock take back for recounting?', 'Stock take reopened')}
+              >
+                <RotateCcw className="h-4 w-4" />
+                Reopen
+              </Button>
+              <Button
+                disabled={isBusy}
+                className="gap-1"
+                onClick={() => runAction(
+                  'approve',
+                  'Approve and post the count corrections to stock?',
+                  'Stock take approved'
+                )}
+              >
+                <Check className="h-4 w-4" />
+                Approve
+              </Button>
+            </>
+          )}
+          {(stockTake.status === 'counting' || stockTake.status === 'submitted') && canCount && (
+            <Button
+              variant="outline"
+              disabled={isBusy}
+              className="gap-1 bg-red-50 text-red-700 border-red-200 hover:bg-red-100 hover:text-red-800"
+              onClick={() => runAction('cancel', 'Cancel this stock take? No stock will change.', 'Stock take canceled')}
+            >
+              <X className="h-4 w-4" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {totals && (
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Counted</CardDescription>
+              <CardTitle className="text-2xl">{totals.countedCount}/{totals.lineCount}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Variance</CardDescription>
+              <CardTitle className="text-2xl">{formatVariance(totals.varianceUnits)} units</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Shortage at cost</CardDescription>
+              <CardTitle className="text-2xl text-destructive">{formatVarianceCost(totals.shortageCost)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Surplus at cost</CardDescription>
+              <CardTitle className="text-2xl text-green-700">{formatVarianceCost(totals.surplusCost)}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Count Sheet</CardTitle>
+              <CardDescription>
+                Expected is what the location held when the count started, adjusted for anything sold or
+                moved there before each product was counted.
+              </CardDescription>
+            </div>
+            {isCounting && (
+              <div className="flex items-center gap-2 shrink-0">
+                <ScanBarcode className="h-4 w-4" />
+                <Label htmlFor="countScanMode">Scan to count</Label>
+                <Switch id="countScanMode" checked={scanMode} onCheckedChange={setScanMode} />
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-4 pt-2">
+            <Input
+              placeholder="Search by name or barcode"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-sm"
+            />
+            <div className="flex items-center gap-2">
+              <Switch id="uncountedOnly" checked={uncountedOnly} onCheckedChange={setUncountedOnly} />
+              <Label htmlFor="uncountedOnly">Uncounted only</Label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Snapshot</TableHead>
+                <TableHead className="text-right">Moved during count</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="w-28">Counted</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead className="text-right">At cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleLines.map(line => (
+                <TableRow key={line.productId}>
+                  <TableCell>
+                    <div className="font-medium">{line.productName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {[line.category, line.barcode].filter(Boolean).join(' · ')}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{line.expected}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {line.movedDuringCount ? formatVariance(line.movedDuringCount) : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">{line.expectedAtCount}</TableCell>
+                  <TableCell>
+                    {isCounting ? (
+                      <Input
+                        type="number"
+                        min="0"
+                        value={drafts[line.productId] ?? (line.counted ?? '')}
+                        onChange={(e) => setDrafts({ ...drafts, [line.productId]: e.target.value })}
+                        onBlur={() => handleCountBlur(line.productId, line.counted)}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      />
+                    ) : (
+                      line.counted ?? <span className="text-muted-foreground">Not counted</span>
+                    )}
+                  </TableCell>
+                  <TableCell className={`text-right font-medium ${
+                    line.variance ? (line.variance < 0 ? 'text-destructive' : 'text-green-700') : ''
+                  }`}>
+                    {line.variance === null ? '-' : formatVariance(line.variance)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {line.varianceCost === null ? '-' : formatVarianceCost(line.varianceCost)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {visibleLines.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                    No products match
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StockTakeDetail;
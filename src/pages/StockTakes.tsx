@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ClipboardCheck, Plus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import { getStockTakes } from '@/api/stockTakes';
+import { getLocations } from '@/api/locations';
+import { getAllProducts } from '@/api/product';
+import { getAllSuppliers } from '@/api/supplier';
+import NewStockTakeDialog from '@/components/stockTakes/NewStockTakeDialog';
+import StockTakeStatusBadge from '@/components/stockTakes/StockTakeStatusBadge';
+
+const StockTakes: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const canCount = hasPermission('stockTakes:write');
+  const [showNewStockTake, setShowNewStockTake] = useState(false);
+
+  const { data: stockTakes = [], isLoading, error } = useQuery({
+    queryKey: ['stockTakes'],
+    queryFn: getStockTakes,
+  });
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: getAllProducts,
+    enabled: canCount,
+  });
+
+  const { data: suppliers = [] } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: getAllSuppliers,
+    enabled: canCount,
+  });
+
+  const categories = Array.from(new Set(products.map(product => product.category))).sort();
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Stock Takes</h1>
+          <p className="text-muted-foreground">
+            Count what is on the shelves and correct stock once the count is approved.
+          </p>
+        </div>
+        {canCount && (
+          <Button onClick={() => setShowNewStockTake(true)} className="gap-1">
+            <Plus className="h-4 w-4" />
+            New Stock Take
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stock Take List</CardTitle>
+          <CardDescription>Full counts and cycle counts, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-6 text-destructive">
+              <p>Error loading stock takes. Please try again.</p>
+            </div>
+          ) : stockTakes.length === 0 ? (
+            <div className="flex flex-col items-center justify-center p-8 text-center">
+              <ClipboardCheck className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold">No Stock Takes</h3>
+              <p className="text-muted-foreground mt-2">Stock takes you start will appear here.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Counted</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Started</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stockTakes.map(stockTake => (
+                  <TableRow
+                    key={stockTake.id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/stock-takes/${stockTake.id}`)}
+                  >
+                    <TableCell className="font-medium">
+                      {stockTake.locationName || 'Unknown location'}
+                      {stockTake.note && <p className="text-xs text-muted-foreground">{stockTake.note}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {[
+                        stockTake.category,
+                        suppliers.find(supplier => supplier.id === stockTake.supplier)?.name
+                      ].filter(Boolean).join(', ') || 'Everything'}
+                    </TableCell>
+                    <TableCell>{stockTake.countedCount}/{stockTake.lineCount}</TableCell>
+                    <TableCell><StockTakeStatusBadge status={stockTake.status} /></TableCell>
+                    <TableCell className="text-sm">
+                      {stockTake.snapshotAt.toLocaleString()}
+                      {stockTake.startedBy && <p className="text-xs text-muted-foreground">{stockTake.startedBy.name}</p>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <NewStockTakeDialog
+        open={showNewStockTake}
+        onOpenChange={setShowNewStockTake}
+        locations={locations}
+        categories={categories}
+        suppliers={suppliers}
+        onCreated={(stockTake) => {
+          queryClient.invalidateQueries({ queryKey: ['stockTakes'] });
+          navigate(`/stock-takes/${stockTake.id}`);
+        }}
+      />
+    </div>
+  );
+};
+
+export default StockTakes;
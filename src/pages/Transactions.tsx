@@ -8,12 +8,32 @@ import { useSalesStore } from '@/lib/stores/salesStore';
 import { v4 as uuidv4 } from 'uuid';
 import { useToast } from '@/hooks/use-toast';
 import { Product, Sale } from '@/lib/types';
+import { describeTenders } from '@/lib/payments';
 import { useNavigate } from 'react-router-dom';
+import { Undo2, Ban, Receipt } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import ReturnItemsDialog from '@/components/sales/ReturnItemsDialog';
+import VoidSaleDialog from '@/components/sales/VoidSaleDialog';
+import ReceiptDialog from '@/components/sales/ReceiptDialog';
 
 const Transactions: React.FC = () => {
   const { sales, addSale } = useSalesStore();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { hasPermission } = useAuth();
+  const canReturn = hasPermission('sales:return');
+  const canVoid = hasPermission('sales:void');
+  const [returningSale, setReturningSale] = useState<Sale | null>(null);
+  const [voidingSale, setVoidingSale] = useState<Sale | null>(null);
+  const [receiptSaleId, setReceiptSaleId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'all' | 'completed' | 'voided'>('all');
+  
+  // Voided sales stay in the history but don't count towards the summary
+  const activeSales = sales.filter(sale => !sale.voided);
+  const visibleSales = sales.filter(sale => 
+    statusFilter === 'all' || (statusFilter === 'voided' ? sale.voided : !sale.voided)
+  );
   
   // State for the new transaction form
   const [productName, setProductName] = useState('');
@@ -233,18 +253,18 @@ const Transactions: React.FC = () => {
               <div className="grid grid-cols-2 gap-4">
                 <div className="p-4 bg-muted rounded-lg">
                   <div className="text-sm font-medium text-muted-foreground">Total Transactions</div>
-                  <div className="text-2xl font-bold">{sales.length}</div>
+                  <div className="text-2xl font-bold">{activeSales.length}</div>
                 </div>
                 <div className="p-4 bg-muted rounded-lg">
-                  <div className="text-sm font-medium text-muted-foreground">Total Revenue</div>
+                  <div className="text-sm font-medium text-muted-foreground">Net Revenue</div>
                   <div className="text-2xl font-bold">
-                    ₹{sales.reduce((sum, sale) => sum + sale.totalAmount, 0).toLocaleString()}
+                    ₹{activeSales.reduce((sum, sale) => sum + sale.totalAmount - (sale.refundedAmount || 0), 0).toLocaleString()}
                   </div>
                 </div>
                 <div className="p-4 bg-muted rounded-lg">
                   <div className="text-sm font-medium text-muted-foreground">Items Sold</div>
                   <div className="text-2xl font-bold">
-                    {sales.reduce((sum, sale) => 
+                    {activeSales.reduce((sum, sale) => 
                       sum + sale.products.reduce((itemSum, prod) => itemSum + prod.quantity, 0), 0
                     )}
                   </div>
@@ -252,8 +272,8 @@ const Transactions: React.FC = () => {
                 <div className="p-4 bg-muted rounded-lg">
                   <div className="text-sm font-medium text-muted-foreground">Avg Sale Value</div>
                   <div className="text-2xl font-bold">
-                    ₹{sales.length > 0 
-                      ? (sales.reduce((sum, sale) => sum + sale.totalAmount, 0) / sales.length).toFixed(2)
+                    ₹{activeSales.length > 0 
+                      ? (activeSales.reduce((sum, sale) => sum + sale.totalAmount, 0) / activeSales.length).toFixed(2)
                       : '0.00'
                     }
                   </div>
@@ -271,11 +291,25 @@ const Transactions: React.FC = () => {
       {/* Transaction History */}
       <Card className="mt-6">
         <CardHeader>
-          <CardTitle>Transaction History</CardTitle>
-          <CardDescription>Recent sales transactions</CardDescription>
+          <div className="flex flex-col sm:flex-row justify-between gap-4">
+            <div>
+              <CardTitle>Transaction History</CardTitle>
+              <CardDescription>Recent sales transactions</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={(value: 'all' | 'completed' | 'voided') => setStatusFilter(value)}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All sales</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="voided">Voided</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </CardHeader>
         <CardContent>
-          {sales.length > 0 ? (
+          {visibleSales.length > 0 ? (
             <Table>
               <TableHeader>
                 <TableRow>
@@ -286,14 +320,26 @@ const Transactions: React.FC = () => {
                   <TableHead>Channel</TableHead>
                   <TableHead>Payment</TableHead>
                   <TableHead className="text-right">Amount</TableHead>
+                  <TableHead></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {[...sales]
+                {[...visibleSales]
                   .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
                   .map((sale) => (
-                    <TableRow key={sale.id || `sale-${Math.random()}`}>
-                      <TableCell className="font-medium">{sale.id ? sale.id.substring(0, 8) : 'N/A'}</TableCell>
+                    <TableRow key={sale.id || `sale-${Math.random()}`} className={sale.voided ? 'text-muted-foreground' : undefined}>
+                      <TableCell className="font-medium">
+                        {sale.id ? sale.id.substring(0, 8) : 'N/A'}
+                        {sale.voided && (
+                          <div className="mt-1 space-y-0.5">
+                            <Badge variant="destructive">Voided</Badge>
+                            <p className="text-xs font-normal">
+                              {sale.voidReason}
+                              {sale.voidedBy?.name && ` · ${sale.voidedBy.name}`}
+                            </p>
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>{sale.timestamp.toLocaleString()}</TableCell>
                       <TableCell>{sale.customerName || 'Guest'}</TableCell>
                       <TableCell>
@@ -304,19 +350,82 @@ const Transactions: React.FC = () => {
                         ))}
                       </TableCell>
                       <TableCell>{sale.channel}</TableCell>
-                      <TableCell>{sale.paymentMethod}</TableCell>
-                      <TableCell className="text-right">₹{sale.totalAmount.toLocaleString()}</TableCell>
+                      <TableCell>
+                        {describeTenders(sale)}
+                        {!!sale.changeDue && (
+                          <div className="text-xs text-muted-foreground">₹{sale.changeDue.toLocaleString()} change</div>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right ${sale.voided ? 'line-through' : ''}`}>
+                        ₹{sale.totalAmount.toLocaleString()}
+                        {!!sale.refundedAmount && (
+                          <div className="text-xs text-destructive">-₹{sale.refundedAmount.toLocaleString()} refunded</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="gap-1"
+                          onClick={() => setReceiptSaleId(sale.id)}
+                        >
+                          <Receipt className="h-3.5 w-3.5" />
+                          Receipt
+                        </Button>
+                        {!sale.voided && canReturn && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="gap-1"
+                            onClick={() => setReturningSale(sale)}
+                          >
+                            <Undo2 className="h-3.5 w-3.5" />
+                            Return items
+                          </Button>
+                        )}
+                        {!sale.voided && canVoid && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="gap-1 text-destructive"
+                            onClick={() => setVoidingSale(sale)}
+                          >
+                            <Ban className="h-3.5 w-3.5" />
+                            Void
+                          </Button>
+                        )}
+                      </TableCell>
                     </TableRow>
                   ))}
               </TableBody>
             </Table>
           ) : (
             <div className="text-center py-6 text-muted-foreground">
-              No transactions recorded yet. Use the form above to add your first sale.
+              {sales.length > 0
+                ? 'No transactions match this filter.'
+                : 'No transactions recorded yet. Use the form above to add your first sale.'}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <ReturnItemsDialog
+        sale={returningSale}
+        open={!!returningSale}
+        onOpenChange={(open) => !open && setReturningSale(null)}
+      />
+
+      <VoidSaleDialog
+        sale={voidingSale}
+        open={!!voidingSale}
+        onOpenChange={(open) => !open && setVoidingSale(null)}
+      />
+
+      <ReceiptDialog
+        saleId={receiptSaleId}
+        open={!!receiptSaleId}
+        onOpenChange={(open) => !open && setReceiptSaleId(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeftRight, ArrowRight, Check, Plus, Send, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import { getTransfers, dispatchTransfer, cancelTransfer } from '@/api/transfers';
+import { getLocations } from '@/api/locations';
+import { getAllProducts } from '@/api/product';
+import { Transfer } from '@/lib/types';
+import NewTransferDialog from '@/components/transfers/NewTransferDialog';
+import ReceiveTransferDialog from '@/components/transfers/ReceiveTransferDialog';
+
+const Transfers: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const canEdit = hasPermission('transfers:write');
+  const [showNewTransfer, setShowNewTransfer] = useState(false);
+  const [transferToReceive, setTransferToReceive] = useState<Transfer | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { data: transfers = [], isLoading, error } = useQuery({
+    queryKey: ['transfers'],
+    queryFn: () => getTransfers(),
+  });
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: getAllProducts,
+    enabled: canEdit,
+  });
+
+  // Moving stock changes what every location holds
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['transfers'] });
+    queryClient.invalidateQueries({ queryKey: ['products'] });
+  };
+
+  const runAction = async (transfer: Transfer, action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setBusyId(transfer.id);
+      await action();
+      refresh();
+      toast({ title: successMessage, duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update transfer',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDispatch = (transfer: Transfer) => {
+    if (!window.confirm(`Dispatch to ${transfer.toName}? The stock leaves ${transfer.fromName} now.`)) return;
+    runAction(transfer, () => dispatchTransfer(transfer.id), 'Transfer dispatched');
+  };
+
+  const handleCancel = (transfer: Transfer) => {
+    if (!window.confirm('Cancel this draft transfer?')) return;
+    runAction(transfer, () => cancelTransfer(transfer.id), 'Transfer canceled');
+  };
+
+  const getStatusBadge = (status: Transfer['status']) => {
+    switch (status) {
+      case 'draft':
+        return <Badge variant="outline">Draft</Badge>;
+      case 'dispatched':
+        return <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">In transit</Badge>;
+      case 'received':
+        return <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Received</Badge>;
+      case 'canceled':
+        return <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">Canceled</Badge>;
+    }
+  };
+
+  const inTransitUnits = transfers
+    .filter(transfer => transfer.status === 'dispatched')
+    .reduce((sum, transfer) => sum + transfer.lines.reduce((lineSum, line) => lineSum + line.quantity, 0), 0);
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Transfers</h1>
+          <p className="text-muted-foreground">
+            Move stock between locations. Stock in transit is counted at neither end until it is received.
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => setShowNewTransfer(true)} disabled={locations.length < 2} className="gap-1">
+            <Plus className="h-4 w-4" />
+            New Transfer
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transfer List</CardTitle>
+          <CardDescription>
+            {inTransitUnits > 0 ? `${inTransitUnits} unit(s) currently in transit` : 'Nothing is in transit'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center py-6 text-destructive">
+              <p>Error loading transfers. Please try again.</p>
+            </div>
+          ) : transfers.length === 0 ? (
+            <div className="flex flex-col items-center justify-center p-8 text-center">
+              <ArrowLeftRight className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold">No Transfers</h3>
+              <p className="text-muted-foreground mt-2">
+                {locations.length < 2
+                  ? 'Add a second location in Settings to move stock between them.'
+                  : 'Transfers you draft will appear here.'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transfer ID</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Date</TableHead>
+                  {canEdit && <TableHead>Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfers.map(transfer => (
+                  <TableRow key={transfer.id}>
+                    <TableCell className="font-medium">
+                      {transfer.id.substring(0, 8)}
+                      {transfer.note && <p className="text-xs text-muted-foreground">{transfer.note}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <span className="flex items-center gap-1 whitespace-nowrap">
+                        {transfer.fromName}
+                        <ArrowRight className="h-3.5 w-3.5" />
+                        {transfer.toName}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {transfer.lines.map(line => (
+                          <div key={line.productId} className="text-sm">
+                            {line.receivedQuantity !== undefined && line.receivedQuantity !== line.quantity
+                              ? `${line.receivedQuantity}/${line.quantity}`
+                              : line.quantity}x {line.productName || 'Unknown Product'}
+                            {line.discrepancyReason && (
+                              <p className="text-xs text-destructive">{line.discrepancyReason}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{getStatusBadge(transfer.status)}</TableCell>
+                    <TableCell className="text-sm">
+                      {(transfer.receivedAt || transfer.dispatchedAt || transfer.createdAt).toLocaleDateString()}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          {transfer.status === 'draft' && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={busyId === transfer.id}
+                                onClick={() => handleDispatch(transfer)}
+                              >
+                                <Send className="h-4 w-4 mr-1" />
+                                Dispatch
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={busyId === transfer.id}
+                                onClick={() => handleCancel(transfer)}
+                                className="bg-red-50 text-red-700 border-red-200 hover:bg-red-100 hover:text-red-800"
+                              >
+                                <X className="h-4 w-4 mr-1" />
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                          {transfer.status === 'dispatched' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setTransferToReceive(transfer)}
+                              className="bg-green-50 text-green-700 border-green-200 hover:bg-green-100 hover:text-green-800"
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Receive
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <NewTransferDialog
+        open={showNewTransfer}
+        onOpenChange={setShowNewTransfer}
+        locations={locations}
+        products={products}
+        onCreated={refresh}
+      />
+
+      <ReceiveTransferDialog
+        transfer={transferToReceive}
+        onOpenChange={(open) => !open && setTransferToReceive(null)}
+        onReceived={refresh}
+      />
+    </div>
+  );
+};
+
+export default Transfers;
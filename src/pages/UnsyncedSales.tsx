@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, RefreshCw, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/lib/providers/AuthProvider';
+import { useOutboxStore } from '@/lib/stores/outboxStore';
+import { useSalesStore } from '@/lib/stores/salesStore';
+import { isNetworkError } from '@/api/client';
+import { describeTenders } from '@/lib/payments';
+import { OutboxEntry } from '@/lib/types';
+
+const UnsyncedSales: React.FC = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const canOverrideStock = hasPermission('inventory:write');
+  const { entries, load, resolve, discard } = useOutboxStore();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleResolve = async (entry: OutboxEntry, allowNegativeStock = false) => {
+    try {
+      setBusyKey(entry.idempotencyKey);
+      const result = await resolve(entry.idempotencyKey, { allowNegativeStock });
+
+      if (result === null) {
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+        useSalesStore.getState().fetchSales();
+        toast({ title: 'Sale recorded', duration: 2000 });
+      } else {
+        toast({
+          title: 'Sale not recorded',
+          description: result.error || 'The server turned the sale down',
+          variant: 'destructive',
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: isNetworkError(error) ? 'The till is still offline' : error.message || 'Failed to send sale',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    if (!window.confirm(`Discard this ₹${entry.sale.totalAmount.toFixed(2)} sale? It will never be recorded.`)) {
+      return;
+    }
+
+    try {
+      await discard(entry.idempotencyKey);
+      toast({ title: 'Sale discarded', duration: 2000 });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to discard sale',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/billing')}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Unsynced Sales</h1>
+          <p className="text-muted-foreground">
+            Sales rung up on this till while it was offline that have not been recorded yet
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Outbox</CardTitle>
+          <CardDescription>
+            Pending sales are sent automatically when the till is back online. Sales the server
+            turned down stay here until they are sent again or discarded.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">Every sale has been sent</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rung Up</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead>Payment</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.idempotencyKey}>
+                    <TableCell>{entry.queuedAt.toLocaleString()}</TableCell>
+                    <TableCell>
+                      {entry.sale.products.map((p, idx) => (
+                        <div key={`${entry.idempotencyKey}-product-${idx}`}>
+                          {p.quantity}x {p.product?.name || 'Unknown Product'}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>{describeTenders({ ...entry.sale, id: entry.idempotencyKey })}</TableCell>
+                    <TableCell className="text-right">₹{entry.sale.totalAmount.toLocaleString()}</TableCell>
+                    <TableCell>
+                      {entry.status === 'conflict' ? (
+                        <Badge variant="destructive">
+                          {entry.conflict === 'insufficient-stock' ? 'Out of stock' : 'Rejected'}
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary">Pending</Badge>
+                      )}
+                      {entry.error && (
+                        <div className="mt-1 text-xs text-muted-foreground">{entry.error}</div>
+                      )}
+                      {entry.attempts > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {entry.attempts} attempt{entry.attempts === 1 ? '' : 's'}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1"
+                          disabled={busyKey === entry.idempotencyKey}
+                          onClick={() => handleResolve(entry)}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                          Retry
+                        </Button>
+                        {entry.conflict === 'insufficient-stock' && canOverrideStock && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busyKey === entry.idempotencyKey}
+                            onClick={() => handleResolve(entry, true)}
+                          >
+                            Record anyway
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1 text-destructive"
+                          disabled={busyKey === entry.idempotencyKey}
+                          onClick={() => handleDiscard(entry)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Discard
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default UnsyncedSales;
@@ -0,0 +1,64 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { startServer, createProduct, TILL } from './helpers.js';
+
+let server;
+
+before(async () => {
+  server = await startServer();
+});
+
+after(async () => {
+  await server?.stop();
+});
+
+test('a card checkout through the fake provider records one sale from the bill it opened', async () => {
+  const product = await createProduct(server, { stock: 5 });
+
+  const opened = await server.api('POST', '/api/payments/intents', {
+    body: {
+      products: [{ product: String(product._id), quantity: 2, priceAtSale: 1 }],
+      paymentMethod: 'card',
+      channel: 'in-store',
+      shift: server.shift.id,
+      till: TILL
+    }
+  });
+  assert.equal(opened.status, 201);
+  assert.equal(opened.body.provider, 'fake');
+  assert.equal(opened.body.amount, opened.body.totalAmount);
+
+  const confirmed = await server.api('POST', `/api/payments/${opened.body.paymentIntentId}/confirm`);
+  assert.equal(confirmed.status, 201);
+  assert.equal(confirmed.body.totalAmount, opened.body.totalAmount);
+  assert.equal(confirmed.body.products[0].priceAtSale, product.price);
+
+  // The checkout page and a retry both land on the sale already recorded
+  const again = await server.api('POST', `/api/payments/${opened.body.paymentIntentId}/confirm`);
+  const posted = await server.api('POST', '/api/sales', { body: { paymentIntentId: opened.body.paymentIntentId } });
+  assert.equal(again.status, 200);
+  assert.equal(posted.status, 200);
+  assert.equal(again.body.id, confirmed.body.id);
+  assert.equal(posted.body.id, confirmed.body.id);
+
+  assert.equal(await mongoose.model('Sale').countDocuments({ paymentIntentId: opened.body.paymentIntentId }), 1);
+  assert.equal((await mongoose.model('Product').findById(product._id)).stock, 3);
+});
+
+test('a sale can not claim a payment that was never opened', async () => {
+  const product = await createProduct(server, { stock: 5 });
+
+  const { status } = await server.api('POST', '/api/sales', {
+    body: {
+      products: [{ product: String(product._id), quantity: 1 }],
+      paymentMethod: 'card',
+      paymentIntentId: 'fake_unknown',
+      employeeId: server.user.id,
+      channel: 'in-store'
+    }
+  });
+
+  assert.equal(status, 400);
+  assert.equal((await mongoose.model('Product').findById(product._id)).stock, 5);
+});
@@ -0,0 +1,77 @@
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+import mongoose from 'mongoose';
+
+export const WEBHOOK_SECRET = 'whsec_test';
+export const TILL = 'test-till';
+
+// Start a one-node replica set (stock movements run in transactions, which need one),
+// load the server against it, sign in as its first user, an admin, and open a shift on TILL.
+// Each test file runs in its own process, so gets its own database and server.
+export const startServer = async () => {
+  const replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: 'wiredTiger' } });
+
+  process.env.VITE_MONGODB_URI = replSet.getUri();
+  process.env.JWT_SECRET = 'test-secret';
+  process.env.PAYMENT_PROVIDER = 'fake';
+  process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  // Keeps the server from listening on its own port and from reconnecting when stopped
+  process.env.VERCEL = '1';
+
+  const { default: app, ...helpers } = await import('../server.js');
+
+  // Unique indexes have to exist before the tests race on them
+  await Promise.all(Object.values(mongoose.models).map(model => model.init()));
+
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  let token = null;
+  const api = async (method, path, { body, raw, headers = {} } = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...headers
+      },
+      body: raw ?? (body === undefined ? undefined : JSON.stringify(body))
+    });
+    return { status: response.status, body: await response.json().catch(() => null) };
+  };
+
+  const registered = await api('POST', '/api/auth/register', {
+    body: { name: 'Test Admin', email: 'admin@example.com', password: 'password123', role: 'admin' }
+  });
+  token = registered.body.accessToken;
+  const { body: shift } = await api('POST', '/api/shifts', { body: { till: TILL, openingFloat: 0 } });
+
+  const stop = async () => {
+    await new Promise(resolve => server.close(resolve));
+    await mongoose.disconnect();
+    await replSet.stop();
+  };
+
+  return { ...helpers, api, user: registered.body.user, shift, stop };
+};
+
+// A product with `stock` units at the default location, put there through the ledger
+export const createProduct = async ({ applyStockMovement, getDefaultLocation }, { stock = 0, ...fields } = {}) => {
+  const Product = mongoose.model('Product');
+  const product = await Product.create({
+    name: 'Test product',
+    barcode: String(new mongoose.Types.ObjectId()),
+    category: 'Test',
+    price: 100,
+    costPrice: 60,
+    stock: 0,
+    ...fields
+  });
+
+  if (stock > 0) {
+    const location = await getDefaultLocation();
+    await applyStockMovement({ productId: product._id, location: location._id, quantity: stock, type: 'adjustment', note: 'Opening stock' });
+  }
+  return Product.findById(product._id);
+};
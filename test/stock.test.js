@@ -0,0 +1,146 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { startServer, createProduct, TILL } from './helpers.js';
+
+let server;
+let location;
+
+before(async () => {
+  server = await startServer();
+  location = await server.getDefaultLocation();
+});
+
+after(async () => {
+  await server?.stop();
+});
+
+test('applyStockMovement moves stock at a location and logs it in the ledger', async () => {
+  const product = await createProduct(server, { stock: 10 });
+
+  const { product: updated, movement } = await server.applyStockMovement({
+    productId: product._id,
+    location: location._id,
+    quantity: -3,
+    type: 'adjustment',
+    requireAvailable: true
+  });
+
+  assert.equal(updated.stock, 7);
+  assert.equal(updated.stockByLocation.find(entry => entry.location.equals(location._id)).stock, 7);
+  assert.equal(movement.quantity, -3);
+  assert.equal(movement.balanceAfter, 7);
+  assert.equal(movement.locationBalanceAfter, 7);
+});
+
+test('applyStockMovement will not take more than a location has', async () => {
+  const product = await createProduct(server, { stock: 2 });
+
+  await assert.rejects(
+    server.applyStockMovement({
+      productId: product._id,
+      location: location._id,
+      quantity: -3,
+      type: 'adjustment',
+      requireAvailable: true
+    }),
+    server.InsufficientStockError
+  );
+
+  const unchanged = await mongoose.model('Product').findById(product._id);
+  assert.equal(unchanged.stock, 2);
+  assert.equal(await mongoose.model('StockMovement').countDocuments({ product: product._id }), 1);
+});
+
+test('applyStockMovement takes stock from the lot that expires first', async () => {
+  const product = await createProduct(server);
+  const receive = (batchNumber, expiryDate) => server.applyStockMovement({
+    productId: product._id,
+    location: location._id,
+    quantity: 5,
+    type: 'po-receipt',
+    lots: [{ batchNumber, expiryDate: new Date(expiryDate), quantity: 5 }]
+  });
+  await receive('LATE', '2099-06-01');
+  await receive('EARLY', '2099-01-01');
+
+  const { movement, product: updated } = await server.applyStockMovement({
+    productId: product._id,
+    location: location._id,
+    quantity: -6,
+    type: 'sale',
+    requireAvailable: true
+  });
+
+  assert.deepEqual(movement.lots.map(lot => [lot.batchNumber, lot.quantity]), [['EARLY', 5], ['LATE', 1]]);
+  assert.deepEqual(updated.lots.map(lot => [lot.batchNumber, lot.quantity]).sort(), [['EARLY', 0], ['LATE', 4]]);
+});
+
+test('a sale with one line short on stock records nothing', async () => {
+  const plenty = await createProduct(server, { stock: 10 });
+  const scarce = await createProduct(server, { stock: 1 });
+
+  const { status, body } = await server.api('POST', '/api/sales', {
+    body: {
+      products: [
+        { product: String(plenty._id), quantity: 4 },
+        { product: String(scarce._id), quantity: 2 }
+      ],
+      totalAmount: 600,
+      paymentMethod: 'cash',
+      employeeId: server.user.id,
+      shift: server.shift.id,
+      till: TILL,
+      channel: 'in-store'
+    }
+  });
+
+  assert.equal(status, 400);
+  assert.match(body.message, /Insufficient stock/);
+
+  const Product = mongoose.model('Product');
+  assert.equal((await Product.findById(plenty._id)).stock, 10);
+  assert.equal((await Product.findById(scarce._id)).stock, 1);
+  assert.equal(await mongoose.model('StockMovement').countDocuments({ product: plenty._id, type: 'sale' }), 0);
+  assert.equal(await mongoose.model('Sale').countDocuments({ 'products.product': plenty._id }), 0);
+});
+
+test('rebuilding from the ledger restores stock, stock by location and lots', async () => {
+  const product = await createProduct(server, { stock: 4 });
+  await server.applyStockMovement({
+    productId: product._id,
+    location: location._id,
+    quantity: 6,
+    type: 'po-receipt',
+    lots: [{ batchNumber: 'B1', expiryDate: new Date('2099-03-01'), quantity: 6 }]
+  });
+  await server.applyStockMovement({
+    productId: product._id,
+    location: location._id,
+    quantity: -2,
+    type: 'sale',
+    requireAvailable: true
+  });
+
+  const Product = mongoose.model('Product');
+  await Product.updateOne({ _id: product._id }, { stock: 99, stockByLocation: [], lots: [] });
+
+  const result = await server.rebuildStockFromLedger(product._id);
+  assert.equal(result.previousStock, 99);
+  assert.equal(result.stock, 8);
+
+  const rebuilt = await Product.findById(product._id);
+  assert.equal(rebuilt.stock, 8);
+  assert.equal(rebuilt.stockByLocation.find(entry => entry.location.equals(location._id)).stock, 8);
+  assert.deepEqual(rebuilt.lots.map(lot => [lot.batchNumber, lot.quantity]), [['B1', 4]]);
+});
+
+test('POST /api/stock/rebuild reports the products it corrected', async () => {
+  const product = await createProduct(server, { stock: 3 });
+  await mongoose.model('Product').updateOne({ _id: product._id }, { stock: 5 });
+
+  const { status, body } = await server.api('POST', '/api/stock/rebuild', { body: { productId: String(product._id) } });
+
+  assert.equal(status, 200);
+  assert.deepEqual(body.corrected.map(item => [String(item.productId), item.previousStock, item.stock]), [[String(product._id), 5, 3]]);
+});
@@ -0,0 +1,96 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import mongoose from 'mongoose';
+import Stripe from 'stripe';
+import { startServer, createProduct, WEBHOOK_SECRET, TILL } from './helpers.js';
+
+const fixture = JSON.parse(fs.readFileSync(new URL('./fixtures/payment_intent.succeeded.json', import.meta.url), 'utf8'));
+
+let server;
+
+before(async () => {
+  server = await startServer();
+});
+
+after(async () => {
+  await server?.stop();
+});
+
+// A card payment opened for two units of a product, as POST /api/payments/intents keeps it
+const openCardPayment = async (paymentIntentId) => {
+  const product = await createProduct(server, { stock: 5 });
+  const products = [{ product: String(product._id), quantity: 2 }];
+  const { body: quote } = await server.api('POST', '/api/sales/quote', { body: { products } });
+
+  const intent = await mongoose.model('PaymentIntent').create({
+    paymentIntentId,
+    provider: 'stripe',
+    method: 'card',
+    amount: quote.totalAmount,
+    bill: {
+      products: products.map(item => ({ ...item, priceAtSale: product.price })),
+      paymentMethod: 'card',
+      channel: 'in-store',
+      employeeId: server.user.id,
+      employeeName: server.user.name,
+      shift: server.shift.id,
+      till: TILL
+    },
+    createdBy: { id: server.user.id, name: server.user.name }
+  });
+  return { product, intent };
+};
+
+// Post the fixture event for a PaymentIntent, signed as Stripe would sign it
+const sendSucceeded = (paymentIntentId, amountReceived, { secret = WEBHOOK_SECRET } = {}) => {
+  const event = structuredClone(fixture);
+  event.id = `evt_${paymentIntentId}`;
+  Object.assign(event.data.object, { id: paymentIntentId, amount: amountReceived, amount_received: amountReceived });
+
+  const payload = JSON.stringify(event);
+  return server.api('POST', '/api/payments/webhook', {
+    raw: payload,
+    headers: { 'Stripe-Signature': Stripe.webhooks.generateTestHeaderString({ payload, secret }) }
+  });
+};
+
+test('a signed payment_intent.succeeded records the sale once, however often it is delivered', async () => {
+  const { product, intent } = await openCardPayment('pi_test_succeeded');
+  const amountReceived = Math.round(intent.amount * 100);
+
+  const first = await sendSucceeded(intent.paymentIntentId, amountReceived);
+  const replayed = await sendSucceeded(intent.paymentIntentId, amountReceived);
+
+  assert.equal(first.status, 200);
+  assert.equal(replayed.status, 200);
+
+  const sales = await mongoose.model('Sale').find({ paymentIntentId: intent.paymentIntentId });
+  assert.equal(sales.length, 1);
+  assert.equal(sales[0].totalAmount, intent.amount);
+  assert.deepEqual(sales[0].payments.map(payment => [payment.method, payment.amount]), [['card', intent.amount]]);
+
+  const completed = await mongoose.model('PaymentIntent').findById(intent._id);
+  assert.equal(completed.status, 'succeeded');
+  assert.ok(completed.sale.equals(sales[0]._id));
+  assert.equal((await mongoose.model('Product').findById(product._id)).stock, 3);
+});
+
+test('an event with a bad signature is turned away', async () => {
+  const { intent } = await openCardPayment('pi_test_bad_signature');
+
+  const { status } = await sendSucceeded(intent.paymentIntentId, Math.round(intent.amount * 100), { secret: 'whsec_wrong' });
+
+  assert.equal(status, 400);
+  assert.equal(await mongoose.model('Sale').countDocuments({ paymentIntentId: intent.paymentIntentId }), 0);
+});
+
+test('a payment for a different amount than the bill records no sale', async () => {
+  const { intent } = await openCardPayment('pi_test_short');
+
+  const { status } = await sendSucceeded(intent.paymentIntentId, Math.round(intent.amount * 100) - 100);
+
+  assert.equal(status, 200);
+  assert.equal(await mongoose.model('Sale').countDocuments({ paymentIntentId: intent.paymentIntentId }), 0);
+  assert.match((await mongoose.model('PaymentIntent').findById(intent._id)).failureMessage, /not the/);
+});